@@ -0,0 +1,157 @@
+import { Checkin } from "../services/logic/checkin.js";
+import {
+    identityToPublicKey,
+    k12,
+    publicKeyToIdentity,
+} from "../utils/qubic-crypto.js";
+
+// Known-answer checks for the hand-written Qubic crypto (npm run test:crypto).
+// K12 values are the KangarooTwelve test vectors from RFC 9861. The checkin was
+// signed with qubic's reference FourQ/K12 code (the C library behind
+// @qubic-lib/qubic-ts-library), the same signer a node uses, and verified
+// there as well.
+
+// ptn(n) from the spec: bytes 00, 01, ..., FA repeated, n bytes long.
+function ptn(length: number) {
+    return Uint8Array.from({ length }, (_, i) => i % 251);
+}
+
+const K12_VECTORS: { input: Uint8Array; outputLength: number; hex: string }[] =
+    [
+        {
+            input: new Uint8Array(0),
+            outputLength: 32,
+            hex: "1ac2d450fc3b4205d19da7bfca1b37513c0803577ac7167f06fe2ce1f0ef39e5",
+        },
+        {
+            input: new Uint8Array(0),
+            outputLength: 64,
+            hex: "1ac2d450fc3b4205d19da7bfca1b37513c0803577ac7167f06fe2ce1f0ef39e54269c056b8c82e48276038b6d292966cc07a3d4645272e31ff38508139eb0a71",
+        },
+        {
+            input: ptn(1),
+            outputLength: 32,
+            hex: "2bda92450e8b147f8a7cb629e784a058efca7cf7d8218e02d345dfaa65244a1f",
+        },
+        {
+            input: ptn(17),
+            outputLength: 32,
+            hex: "6bf75fa2239198db4772e36478f8e19b0f371205f6a9a93a273f51df37122888",
+        },
+        {
+            input: ptn(17 ** 2),
+            outputLength: 32,
+            hex: "0c315ebcdedbf61426de7dcf8fb725d1e74675d7f5327a5067f367b108ecb67c",
+        },
+        {
+            input: ptn(17 ** 3),
+            outputLength: 32,
+            hex: "cb552e2ec77d9910701d578b457ddf772c12e322e4ee7fe417f92c758f0d59d0",
+        },
+        // Longer than one 8 KiB chunk, so it takes the tree path.
+        {
+            input: ptn(17 ** 4),
+            outputLength: 32,
+            hex: "8701045e22205345ff4dda05555cbb5c3af1a771c2b89baef37db43d9998b9fe",
+        },
+    ];
+
+const IDENTITY = "SUZFFQSCVPHYYBDCQODEMFAOKRJDDDIRJFFIWFLRDDJQRPKMJNOCSSKHXHGK";
+const PUBLIC_KEY =
+    "36af16d5265b7443d798891122b91a74893752107fe0286c45856bd793e339ff";
+
+const CHECKIN = {
+    type: "lite",
+    version: "1.250.0",
+    uptime: 86400,
+    operator: IDENTITY,
+    timestamp: 1760000000,
+    signature:
+        "5e8331241f0d2a1a6531ba4c62d1bc46b89dec3afd4cb7640871a3650da015af26ee58736c42d1e17de0368ffbe5a2b4e9a1bae360fae2bd3471fcac9be50300",
+};
+
+// The same signature with N added to s. Its top bits still pass the format
+// checks, so only the s < N check refuses it.
+const MALLEATED_SIGNATURE =
+    "5e8331241f0d2a1a6531ba4c62d1bc46b89dec3afd4cb7640871a3650da015af0d7bcf3a7b968311175a468d49e65f94cfb67680e39136aea77b5afb5cb12d00";
+
+function toHex(bytes: Uint8Array) {
+    return Buffer.from(bytes).toString("hex");
+}
+
+function main() {
+    let failures: string[] = [];
+    let check = (name: string, ok: boolean) => {
+        console.log(`${ok ? "ok  " : "FAIL"} ${name}`);
+        if (!ok) failures.push(name);
+    };
+
+    for (let vector of K12_VECTORS) {
+        check(
+            `K12(ptn(${vector.input.length}), ${vector.outputLength})`,
+            toHex(k12(vector.input, vector.outputLength)) === vector.hex
+        );
+    }
+
+    let publicKey = identityToPublicKey(IDENTITY);
+    check(
+        "identity -> public key",
+        !!publicKey && toHex(publicKey) === PUBLIC_KEY
+    );
+    check(
+        "public key -> identity",
+        publicKeyToIdentity(Buffer.from(PUBLIC_KEY, "hex")) === IDENTITY
+    );
+    check(
+        "identity with a bad checksum is rejected",
+        identityToPublicKey(IDENTITY.slice(0, 56) + "AAAA") === null
+    );
+
+    check(
+        "checkin signature verifies",
+        Checkin.verifySignature(CHECKIN).verified
+    );
+    check(
+        "checkin signature in base64 verifies",
+        Checkin.verifySignature({
+            ...CHECKIN,
+            signature: Buffer.from(CHECKIN.signature, "hex").toString("base64"),
+        }).verified
+    );
+    check(
+        "edited checkin is rejected",
+        !Checkin.verifySignature({ ...CHECKIN, uptime: 86401 }).verified
+    );
+    let tampered = Buffer.from(CHECKIN.signature, "hex");
+    tampered[5]! ^= 1;
+    check(
+        "tampered signature is rejected",
+        !Checkin.verifySignature({
+            ...CHECKIN,
+            signature: tampered.toString("hex"),
+        }).verified
+    );
+    check(
+        "signature with s + N is rejected",
+        !Checkin.verifySignature({
+            ...CHECKIN,
+            signature: MALLEATED_SIGNATURE,
+        }).verified
+    );
+    check(
+        "checkin from another identity is rejected",
+        !Checkin.verifySignature({
+            ...CHECKIN,
+            operator:
+                "BZBQFLLBNCXEMGLOBHUVFTLUPLVCPQUASSILFABOFFBCADQSSUPNWLZBQEXK",
+        }).verified
+    );
+
+    if (failures.length > 0) {
+        console.error(`${failures.length} crypto vector(s) failed`);
+        process.exit(1);
+    }
+    console.log("All crypto vectors passed");
+}
+
+main();
@@ -0,0 +1,54 @@
+import "dotenv/config";
+import { Mongodb, IS_NO_DB } from "../database/db.js";
+import { CredentialVault } from "../services/credential-vault.js";
+import { DeploymentHistoryService } from "../services/deployment-history-service.js";
+import { DeploymentProfileService } from "../services/deployment-profile-service.js";
+import { logger } from "../utils/logger.js";
+
+// One-shot credential vault maintenance:
+//   npm run vault:migrate  — encrypt legacy plaintext SSH passwords/keys
+//   npm run vault:rotate   — re-wrap everything to the current VAULT_MASTER_KEY
+// Both also re-key the fingerprints of profile secrets and drop unkeyed
+// deploy-option hashes left from before fingerprints were keyed.
+// Both are idempotent and safe to run while the backend is serving traffic.
+async function main() {
+    let command = process.argv[2];
+    if (command !== "migrate" && command !== "rotate") {
+        console.error("Usage: vault.js <migrate|rotate>");
+        process.exit(1);
+    }
+    if (IS_NO_DB) {
+        console.error("Vault maintenance needs a database (NO_DB is set)");
+        process.exit(1);
+    }
+    if (!CredentialVault.isConfigured()) {
+        console.error("Error: VAULT_MASTER_KEY is not configured");
+        process.exit(1);
+    }
+    if (command === "rotate" && !process.env.VAULT_PREVIOUS_MASTER_KEYS) {
+        logger.warn(
+            "🔐 VAULT_PREVIOUS_MASTER_KEYS is empty — values sealed with an old key cannot be re-wrapped"
+        );
+    }
+
+    await Mongodb.connectDB();
+    try {
+        let stats = await CredentialVault.rewrapAll();
+        logger.info(
+            `🔐 Vault ${command} done: ${stats.servers} server(s), ${stats.users} user(s), ${stats.jumpChains} jump chain(s), ${stats.keyRotations} key rotation(s), ${stats.rollouts} rollout(s), ${stats.sshJobs} SSH job(s), ${stats.deploymentProfiles} deployment profile(s) updated, ${stats.failed} failed`
+        );
+        let profiles = await DeploymentProfileService.refreshFingerprints();
+        let dropped = await DeploymentHistoryService.dropUnkeyedHashes();
+        logger.info(
+            `🔐 Fingerprints: ${profiles} deployment profile(s) re-keyed, ${dropped} unkeyed deploy hash(es) dropped`
+        );
+        process.exitCode = stats.failed > 0 ? 1 : 0;
+    } finally {
+        await Mongodb.disconnectDB();
+    }
+}
+
+main().catch((error) => {
+    logger.error(`🔐 Vault command failed: ${(error as Error).message}`);
+    process.exit(1);
+});
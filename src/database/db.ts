@@ -1,6 +1,7 @@
 import { MongoClient, Db, Collection } from "mongodb";
 import { logger } from "../utils/logger.js";
 import type { IpInfo } from "../utils/ip.js";
+import { hashPassword, verifyPassword } from "../utils/password.js";
 
 const uri = process.env.MONGO_URI || "mongodb://localhost:27017";
 const dbName = process.env.MONGO_DB_NAME || "qubic_nodes";
@@ -138,7 +139,13 @@ export namespace MongoDbTypes {
         | "error"
         | "stopped"
         | "restarting";
-    export type CommandStatus = "pending" | "completed" | "failed";
+    export type CommandStatus =
+        | "pending"
+        | "completed"
+        | "failed"
+        | "cancelled"
+        | "awaiting-approval" // held by a command policy, see CommandApproval
+        | "rejected";
 
     export interface Checkin {
         type: string;
@@ -146,9 +153,12 @@ export namespace MongoDbTypes {
         uptime: number;
         operator: string;
         signature: string;
-        timestamp: number;
+        timestamp: number; // unix seconds, signed by the node
         ip: string;
         lastCheckinAt: number;
+        // SchnorrQ signature checked against `operator`'s public key. Absent
+        // on checkins stored before verification existed.
+        signatureVerified?: boolean;
     }
 
     export interface CronJob {
@@ -161,6 +171,14 @@ export namespace MongoDbTypes {
         lastRun: number | null;
         status: "success" | "failed" | "running" | "idle";
         isEnabled: boolean;
+        // Custom jobs only: run `command` over SSH on these servers plus every
+        // server carrying one of `serverTags` (within the owner's scope).
+        servers?: string[];
+        serverTags?: string[];
+        // Next UTC slot the scheduler will fire. The leader claims a slot by
+        // compare-and-swapping this value, so a slot fires at most once.
+        nextRunAt?: number | null;
+        lastCommandLogUuid?: string;
     }
 
     export interface ServerIpInfo {
@@ -168,10 +186,47 @@ export namespace MongoDbTypes {
         ipInfo: IpInfo;
     }
 
+    // A `{{name}}` placeholder in a shortcut template.
+    export interface ShortcutParam {
+        name: string;
+        type: "string" | "number" | "enum";
+        label?: string;
+        required?: boolean;
+        default?: string;
+        options?: string[]; // enum
+        min?: number; // number
+        max?: number; // number
+        pattern?: string; // string: regex the whole value must match
+    }
+
+    // Who besides the owner can see and run a shortcut.
+    export type ShortcutVisibility = "private" | "shared" | "team";
+
     export interface ShortcutCommand {
+        operator: string; // owner
+        name: string;
+        // Template; see services/logic/shortcut-template.ts.
+        command: string;
+        description?: string;
+        params?: ShortcutParam[];
+        visibility?: ShortcutVisibility; // default "private"
+        sharedWith?: string[]; // usernames, when visibility is "shared"
+        version?: number; // bumped on every edit, from 1
+        updatedBy?: string;
+        createdAt?: number;
+        updatedAt?: number;
+    }
+
+    // A saved shortcut version, written on create and on every edit.
+    export interface ShortcutCommandVersion {
         operator: string;
         name: string;
+        version: number;
         command: string;
+        description?: string;
+        params: ShortcutParam[];
+        editedBy: string;
+        createdAt: number;
     }
 
     export interface LiteNode {
@@ -191,6 +246,19 @@ export namespace MongoDbTypes {
         isPrivate: boolean;
     }
 
+    // One server's part of a command log.
+    export interface CommandHostResult {
+        server: string;
+        status: "succeeded" | "failed";
+        stdout: string;
+        stderr: string;
+        exitCode: number | null; // null when the commands never finished
+        duration: number;
+        errorCategory?: string;
+        errorMessage?: string;
+        finishedAt: number;
+    }
+
     export interface CommandLog {
         operator: string;
         // A command may run a mutilple servers
@@ -208,6 +276,43 @@ export namespace MongoDbTypes {
         // Clear, classified reason when status === "failed" (e.g. SSH connect
         // refused, command timeout, or watchdog-detected stuck-pending).
         errorMessage?: string;
+        // Set when the command was fired by the cron scheduler.
+        cronId?: string;
+        // Per-server output and status, one entry per finished server.
+        results?: CommandHostResult[];
+        // uuid of the log whose failed servers this run retries.
+        retryOf?: string;
+        // Set when an "approve" command policy held the run.
+        approval?: CommandApproval;
+    }
+
+    // Admin-defined rule run against every shell command before it is
+    // queued. "deny" blocks matching commands; once a role has any "allow"
+    // rule, its commands must match one; "approve" holds matching commands
+    // until a second user approves them.
+    export interface CommandPolicy {
+        name: string;
+        effect: "allow" | "deny" | "approve";
+        pattern: string; // regex, tested against each command line
+        caseInsensitive?: boolean;
+        roles?: UserRole[]; // empty / unset = every role
+        description?: string;
+        isEnabled: boolean;
+        createdBy: string;
+        createdAt: number;
+        updatedAt: number;
+    }
+
+    export interface CommandApproval {
+        status: "pending" | "approved" | "rejected" | "expired" | "withdrawn";
+        policies: string[]; // names of the "approve" rules that matched
+        // What runs once approved, per server.
+        targets: { host: string; commands: string[] }[];
+        requestedAt: number;
+        expiresAt: number;
+        decidedBy?: string;
+        decidedAt?: number;
+        reason?: string;
     }
 
     export enum ServiceType {
@@ -223,6 +328,7 @@ export namespace MongoDbTypes {
         alias?: string;
         note?: string;
         skipBulkSelect?: boolean; // exclude from "Select Lite/Bob Nodes" bulk select (e.g. runs a separate binary)
+        tags?: string[]; // free-form labels; cron jobs can target servers by tag
         operator: string;
         username: string;
         password: string;
@@ -261,16 +367,392 @@ export namespace MongoDbTypes {
             token: string;
             port: number;
         };
+        // SSH host key pinned on first connect (see services/logic/host-keys.ts)
+        hostKey?: SshHostKey & { pinnedAt: number };
+        // A different key the server presented since; refused until accepted.
+        pendingHostKey?: SshHostKey & { seenAt: number };
+        // SSH is tunnelled through these hops, outermost first. Takes
+        // precedence over jumpChain.
+        jumpHosts?: JumpHost[];
+        jumpChain?: string; // name of a shared chain in jump_chains
+    }
+
+    // One hop of a jump-host chain; credentials are sealed like the server's.
+    export interface JumpHost {
+        host: string;
+        port?: number; // default to 22
+        username: string;
+        password: string;
+        sshPrivateKey: string;
+        // Expected host key ("SHA256:<base64>"). Optional only when the hop is
+        // a managed server, whose pinned key is used instead.
+        fingerprint?: string;
     }
 
+    // Named jump-host chain shared by a group of servers.
+    export interface JumpChain {
+        name: string;
+        operator: string;
+        hops: JumpHost[];
+        createdAt: Date;
+        updatedAt: Date;
+    }
+
+    export interface SshHostKey {
+        fingerprint: string; // "SHA256:<base64>"
+        algorithm: string; // e.g. "ssh-ed25519"
+    }
+
+    // Permissions per role live in utils/rbac.ts.
+    export type UserRole = "admin" | "operator" | "deployer" | "viewer";
+
     export interface User {
         username: string;
+        // scrypt$N$r$p$salt$hash of the client SHA-256 (legacy rows: the bare
+        // SHA-256, upgraded on next login — see utils/password.ts)
         passwordHash: string;
-        role: "admin" | "operator";
+        role: UserRole;
         currentsshPrivateKey?: string;
         insertedAt: number;
     }
 
+    // Failed-login counter (`_id:"user:<username>"` or `"ip:<ip>"`) shared by
+    // all instances. Once `failures` passes the free allowance the key is
+    // locked until `lockedUntil`, with the lock doubling on every further miss.
+    export interface LoginAttempt {
+        _id: string;
+        failures: number;
+        lastFailureAt: number;
+        lockedUntil?: number;
+        expiresAt: Date; // TTL-indexed; counter forgets after a quiet period
+    }
+
+    // One login session (`_id:"<sessionId>"`). Access tokens carry the session
+    // id so the auth middleware can reject them as soon as the session is
+    // revoked; the refresh token is rotated on every use and only its hash is
+    // stored. Presenting an already-rotated refresh token revokes the session.
+    export interface AuthSession {
+        _id: string; // sessionId
+        username: string;
+        refreshTokenHash: string;
+        createdAt: number;
+        lastUsedAt: number;
+        expiresAt: Date; // TTL-indexed; pushed forward on each refresh
+        revokedAt?: number;
+        ip?: string;
+        userAgent?: string;
+    }
+
+    // Single-use second step for fleet-wide actions (`_id` = sha256 of the
+    // token handed to the client). Bound to the user and action that asked
+    // for it, so it can't be replayed against a different action.
+    export interface ConfirmationToken {
+        _id: string;
+        username: string;
+        action: string;
+        summary?: string;
+        createdAt: number;
+        expiresAt: Date; // TTL-indexed; unconfirmed tokens just lapse
+    }
+
+    // Who did what, from where. `result` records refused attempts too.
+    export interface AuditEvent {
+        actor: string;
+        action: string;
+        target?: string;
+        ip?: string;
+        result: "success" | "failure" | "denied";
+        details?: Record<string, any>;
+        // Field-level diff of the target document (dotted paths for nested
+        // fields); secrets are recorded as "[redacted]".
+        changes?: Record<string, { before?: any; after?: any }>;
+        createdAt: number;
+    }
+
+    export type RolloutStatus =
+        | "running"
+        | "paused" // a health gate failed; waiting for resume/rollback/abort
+        | "rolling_back"
+        | "succeeded"
+        | "rolled_back"
+        | "failed"
+        | "cancelled";
+
+    export type RolloutTargetStatus =
+        | "pending"
+        | "deploying"
+        | "verifying"
+        | "healthy"
+        | "failed"
+        | "rolled_back"
+        | "rollback_failed";
+
+    export interface RolloutWave {
+        servers: string[];
+        status: "pending" | "deploying" | "verifying" | "passed" | "failed";
+        startedAt?: number;
+        finishedAt?: number;
+    }
+
+    export interface RolloutTarget {
+        server: string;
+        wave: number;
+        status: RolloutTargetStatus;
+        peers: string[]; // resolved at creation (auto_p2p picks them once)
+        // Set once the deploy saved the old binary and started replacing it;
+        // false while it hasn't. Unset on targets from older rollouts.
+        backedUp?: boolean;
+        error?: string;
+        updatedAt: number;
+    }
+
+    // Staged deploy of one release in waves (`_id` = rollout id). The leader
+    // drives it; `driver`/`driverHeartbeatAt` let a new leader take over a
+    // rollout whose driver died. Deploy options (seeds, passcodes) are kept
+    // sealed with the credential vault.
+    export interface Rollout {
+        _id: string;
+        operator: string;
+        service: ServiceType;
+        tag: string;
+        binaryUrl: string;
+        binarySha256?: string; // unset on rollouts from before verification
+        profile?: DeploymentProfileRef;
+        waves: RolloutWave[];
+        currentWave: number;
+        targets: RolloutTarget[];
+        onFailure: "pause" | "rollback";
+        gateTimeoutMs: number;
+        maxTickLag: number;
+        sealedExtraData: string;
+        status: RolloutStatus;
+        error?: string;
+        driver?: string;
+        driverHeartbeatAt?: number;
+        createdAt: number;
+        updatedAt: number;
+        finishedAt?: number;
+    }
+
+    // One deploy, restart or rollback of a service on a server. The latest
+    // succeeded one is what the server is running; restarts and rollbacks
+    // carry over the release from the deploy they restart / go back to.
+    export interface Deployment {
+        deploymentId: string;
+        server: string;
+        operator: string; // owner of the server, for read scoping
+        service: ServiceType;
+        action: "deploy" | "restart" | "rollback";
+        tag?: string;
+        binaryName?: string;
+        binaryUrl?: string;
+        binarySha256?: string; // what the node verified the download against
+        peers?: string[];
+        ramMode?: string;
+        customParameter?: string;
+        // Profile the deploy settings came from (overrides aside).
+        profile?: DeploymentProfileRef;
+        // Vault fingerprint (keyed HMAC) of the deploy's extraData (seeds,
+        // passcodes...), to tell whether two deploys used the same settings
+        // without storing them.
+        extraDataHash?: string;
+        actor: string;
+        status: "running" | "succeeded" | "failed" | "cancelled";
+        errorMessage?: string;
+        errorCategory?: string;
+        commandLogUuid?: string;
+        rolloutId?: string;
+        jobId?: string;
+        startedAt: number;
+        finishedAt?: number;
+        duration?: number;
+    }
+
+    // Deploy settings (the `extraData` of /deploy) without the secrets.
+    export interface DeploymentProfileSettings {
+        epochFile?: string;
+        peers?: string[];
+        mainAuxStatus?: number;
+        ramMode?: string;
+        bobConfig?: object;
+        operatorId?: string;
+        keydbConfig?: string[];
+        kvrocksConfig?: string[];
+        keepOldConfig?: boolean;
+    }
+
+    // Named deploy settings an operator applies by reference. Seeds and the
+    // logging passcode are sealed with the credential vault; `secretFields`
+    // says which are set and `secretsHash` (a vault fingerprint) tells
+    // versions apart.
+    export interface DeploymentProfile {
+        operator: string; // owner
+        name: string;
+        service: ServiceType;
+        description?: string;
+        settings: DeploymentProfileSettings;
+        sealedSecrets?: string;
+        secretFields?: string[];
+        secretsHash?: string;
+        version: number; // bumped on every edit, from 1
+        updatedBy: string;
+        createdAt: number;
+        updatedAt: number;
+    }
+
+    // A saved profile version, written on create and on every edit.
+    export interface DeploymentProfileVersion {
+        operator: string;
+        name: string;
+        version: number;
+        service: ServiceType;
+        description?: string;
+        settings: DeploymentProfileSettings;
+        sealedSecrets?: string;
+        secretFields?: string[];
+        secretsHash?: string;
+        editedBy: string;
+        createdAt: number;
+    }
+
+    export interface DeploymentProfileRef {
+        owner: string;
+        name: string;
+        version: number;
+    }
+
+    // The sha256 a binary URL must hash to before a node runs it (one per
+    // url). Release assets are pinned the first time they're
+    // deployed, from the release's checksum file or by hashing the download;
+    // "admin" entries were pinned by hand.
+    export interface ArtifactChecksum {
+        url: string;
+        sha256: string;
+        source: "published" | "computed" | "admin";
+        service?: ServiceType;
+        tag?: string;
+        asset?: string;
+        pinnedBy: string;
+        createdAt: number;
+    }
+
+    // A managed node not running its service's target tag (see
+    // DriftService). Written by the leader; one doc per server and service.
+    export interface VersionDrift {
+        server: string;
+        service: ServiceType;
+        operator: string;
+        running: string | null; // null: version not known
+        runningSource: "reported" | "deployed" | null;
+        target: string;
+        targetSource: "approved" | "latest";
+        status: "behind" | "ahead" | "different" | "unknown";
+        since: number; // drifting from this target since
+        alertedAt?: number;
+        updatedAt: number;
+    }
+
+    export type SshJobKind =
+        | "command"
+        | "service"
+        | "deploy"
+        | "setup"
+        | "rotate-key";
+    export type SshJobStatus =
+        | "queued"
+        | "running"
+        | "succeeded"
+        | "failed"
+        | "cancelled";
+
+    // One unit of SSH work against one host (`_id` = job id), persisted so it
+    // survives a backend restart. A worker claims it by taking a lease
+    // (`worker`/`leaseExpiresAt`); an expired lease means the worker died.
+    // Secrets the job needs (deploy seeds/passcodes) are sealed.
+    export interface SshJob {
+        _id: string;
+        kind: SshJobKind;
+        host: string;
+        operator: string;
+        priority: number; // higher runs first, then oldest first
+        payload: Record<string, unknown>;
+        sealedPayload?: string;
+        status: SshJobStatus;
+        attempts: number;
+        maxAttempts: number;
+        runAfter: number; // retry backoff: not claimable before this
+        commandLogUuid?: string;
+        worker?: string;
+        leaseExpiresAt?: number;
+        cancelRequested?: boolean;
+        cancelledBy?: string;
+        error?: string;
+        errorCategory?: string;
+        createdAt: number;
+        startedAt?: number;
+        finishedAt?: number;
+        updatedAt: number;
+        expiresAt?: Date; // TTL, set once the job is finished
+    }
+
+    // Where a server is in a key rotation. Each step is safe to redo, so a
+    // resumed server continues from the last one it completed.
+    export type KeyRotationStep =
+        | "pending"
+        | "appended" // new key in authorized_keys
+        | "switched" // new key verified and stored on the server
+        | "done"; // old key removed
+    export interface KeyRotationServer {
+        server: string;
+        step: KeyRotationStep;
+        status: "queued" | "running" | "succeeded" | "failed";
+        // Captured before the switch so it can be removed afterwards.
+        oldPublicKey?: string;
+        error?: string;
+        updatedAt: number;
+    }
+
+    // Fleet-wide SSH key rotation for one operator (`rotationId`), one
+    // `rotate-key` SSH job per server. The new private key is sealed.
+    export interface KeyRotation {
+        rotationId: string;
+        operator: string;
+        publicKey: string; // "ssh-ed25519 AAAA... <comment>"
+        privateKey: string;
+        status: "running" | "completed" | "failed";
+        servers: KeyRotationServer[];
+        createdAt: number;
+        updatedAt: number;
+        finishedAt?: number;
+    }
+
+    // One browser terminal session. Every session is listed here; output of
+    // recorded ones is kept in `terminal_recordings` for replay.
+    export interface TerminalSession {
+        sessionId: string;
+        user: string;
+        host: string;
+        instanceId: string; // backend instance holding the SSH channel
+        cols: number;
+        rows: number;
+        recorded: boolean;
+        status: "open" | "closed";
+        closeReason?: string;
+        startedAt: number;
+        endedAt?: number;
+        expiresAt: Date; // TTL
+    }
+
+    // Consecutive slice of a recorded session, asciicast-style events:
+    // [ms since start, "o" (output) | "r" (resize, "<cols>x<rows>"), data].
+    // Keystrokes are not recorded (passwords typed at prompts).
+    export interface TerminalRecordingChunk {
+        sessionId: string;
+        seq: number;
+        events: [number, "o" | "r", string][];
+        expiresAt: Date; // TTL, same as the session
+    }
+
     export interface CrashReport {
         ip: string;
         type: string;
@@ -313,6 +795,13 @@ export namespace MongoDbTypes {
         expiresAt: Date; // TTL-indexed reap if the holder crashes
     }
 
+    // Seen checkins (`_id` = hex K12 of the signed payload), kept for the
+    // timestamp skew window so a captured checkin can't be replayed.
+    export interface CheckinSignature {
+        _id: string;
+        expiresAt: Date;
+    }
+
     // Cross-instance checkin rate-limit window (`_id:"<ip>-<type>-<operator>"`).
     export interface CheckinRateLimit {
         _id: string;
@@ -340,6 +829,7 @@ export namespace MongoDbTypes {
         lastSeen: Date;
         commit?: string; // deployed git short SHA
         startedAt?: Date; // process start = when this instance was last deployed
+        sshPool?: { connections: number; channels: number }; // pooled SSH sessions / open channels
     }
 }
 
@@ -458,6 +948,192 @@ export namespace Mongodb {
                 { expireAfterSeconds: 0 }
             )
         );
+        await idx("checkin_signatures.ttl", () =>
+            getCheckinSignaturesCollection().createIndex(
+                { expiresAt: 1 },
+                { expireAfterSeconds: 0 }
+            )
+        );
+        await idx("login_attempts.ttl", () =>
+            getLoginAttemptsCollection().createIndex(
+                { expiresAt: 1 },
+                { expireAfterSeconds: 0 }
+            )
+        );
+        await idx("auth_sessions.ttl", () =>
+            getAuthSessionsCollection().createIndex(
+                { expiresAt: 1 },
+                { expireAfterSeconds: 0 }
+            )
+        );
+        await idx("auth_sessions.username", () =>
+            getAuthSessionsCollection().createIndex({ username: 1 })
+        );
+        await idx("confirmation_tokens.ttl", () =>
+            getConfirmationTokensCollection().createIndex(
+                { expiresAt: 1 },
+                { expireAfterSeconds: 0 }
+            )
+        );
+        await idx("audit_events.createdAt", () =>
+            getAuditEventsCollection().createIndex({ createdAt: -1 })
+        );
+        await idx("audit_events.actor", () =>
+            getAuditEventsCollection().createIndex({ actor: 1, createdAt: -1 })
+        );
+        await idx("rollouts.status", () =>
+            getRolloutsCollection().createIndex({ status: 1, createdAt: -1 })
+        );
+        await idx("ssh_jobs.claim", () =>
+            getSshJobsCollection().createIndex({
+                status: 1,
+                priority: -1,
+                createdAt: 1,
+            })
+        );
+        await idx("ssh_jobs.host", () =>
+            getSshJobsCollection().createIndex({ host: 1, createdAt: -1 })
+        );
+        await idx("ssh_jobs.commandLog", () =>
+            getSshJobsCollection().createIndex({ commandLogUuid: 1 })
+        );
+        await idx("ssh_jobs.ttl", () =>
+            getSshJobsCollection().createIndex(
+                { expiresAt: 1 },
+                { expireAfterSeconds: 0 }
+            )
+        );
+        await idx("jump_chains.name", () =>
+            getJumpChainsCollection().createIndex({ name: 1 }, { unique: true })
+        );
+        await idx("key_rotations.rotationId", () =>
+            getKeyRotationsCollection().createIndex(
+                { rotationId: 1 },
+                { unique: true }
+            )
+        );
+        await idx("key_rotations.operator", () =>
+            getKeyRotationsCollection().createIndex({
+                operator: 1,
+                createdAt: -1,
+            })
+        );
+        await idx("terminal_sessions.sessionId", () =>
+            getTerminalSessionsCollection().createIndex(
+                { sessionId: 1 },
+                { unique: true }
+            )
+        );
+        await idx("terminal_sessions.host", () =>
+            getTerminalSessionsCollection().createIndex({
+                host: 1,
+                startedAt: -1,
+            })
+        );
+        await idx("terminal_sessions.ttl", () =>
+            getTerminalSessionsCollection().createIndex(
+                { expiresAt: 1 },
+                { expireAfterSeconds: 0 }
+            )
+        );
+        await idx("terminal_recordings.session", () =>
+            getTerminalRecordingsCollection().createIndex(
+                { sessionId: 1, seq: 1 },
+                { unique: true }
+            )
+        );
+        await idx("terminal_recordings.ttl", () =>
+            getTerminalRecordingsCollection().createIndex(
+                { expiresAt: 1 },
+                { expireAfterSeconds: 0 }
+            )
+        );
+        await idx("shortcut_commands.operator_name", () =>
+            getShortcutCommandsCollection().createIndex(
+                { operator: 1, name: 1 },
+                { unique: true }
+            )
+        );
+        await idx("shortcut_commands.visibility", () =>
+            getShortcutCommandsCollection().createIndex({
+                visibility: 1,
+                sharedWith: 1,
+            })
+        );
+        await idx("shortcut_command_versions.version", () =>
+            getShortcutCommandVersionsCollection().createIndex(
+                { operator: 1, name: 1, version: -1 },
+                { unique: true }
+            )
+        );
+        await idx("command_policies.name", () =>
+            getCommandPoliciesCollection().createIndex(
+                { name: 1 },
+                { unique: true }
+            )
+        );
+        await idx("command_logs.approval", () =>
+            getCommandLogsCollection().createIndex(
+                { status: 1, "approval.expiresAt": 1 },
+                { partialFilterExpression: { status: "awaiting-approval" } }
+            )
+        );
+        await idx("deployments.deploymentId", () =>
+            getDeploymentsCollection().createIndex(
+                { deploymentId: 1 },
+                { unique: true }
+            )
+        );
+        await idx("deployments.server", () =>
+            getDeploymentsCollection().createIndex({
+                server: 1,
+                service: 1,
+                startedAt: -1,
+            })
+        );
+        await idx("deployments.jobId", () =>
+            getDeploymentsCollection().createIndex(
+                { jobId: 1 },
+                { partialFilterExpression: { status: "running" } }
+            )
+        );
+        await idx("deployment_profiles.name", () =>
+            getDeploymentProfilesCollection().createIndex(
+                { operator: 1, name: 1 },
+                { unique: true }
+            )
+        );
+        await idx("deployment_profile_versions.version", () =>
+            getDeploymentProfileVersionsCollection().createIndex(
+                { operator: 1, name: 1, version: -1 },
+                { unique: true }
+            )
+        );
+        await idx("deployments.profile", () =>
+            getDeploymentsCollection().createIndex(
+                { "profile.owner": 1, "profile.name": 1 },
+                { partialFilterExpression: { profile: { $exists: true } } }
+            )
+        );
+        await idx("artifact_checksums.url", () =>
+            getArtifactChecksumsCollection().createIndex(
+                { url: 1 },
+                { unique: true }
+            )
+        );
+        await idx("version_drift.server", () =>
+            getVersionDriftCollection().createIndex(
+                { server: 1, service: 1 },
+                { unique: true }
+            )
+        );
+        await idx("cron_jobs.due", () =>
+            getCronJobsCollection().createIndex({
+                type: 1,
+                isEnabled: 1,
+                nextRunAt: 1,
+            })
+        );
         // Reap a dead instance's heartbeat ~30s after its last beat.
         await idx("cluster_members.ttl", () =>
             getClusterMembersCollection().createIndex(
@@ -512,6 +1188,18 @@ export namespace Mongodb {
         );
     }
 
+    export function getShortcutCommandVersionsCollection() {
+        return getDB().collection<MongoDbTypes.ShortcutCommandVersion>(
+            "shortcut_command_versions"
+        );
+    }
+
+    export function getCommandPoliciesCollection() {
+        return getDB().collection<MongoDbTypes.CommandPolicy>(
+            "command_policies"
+        );
+    }
+
     export function getLiteNodeCollection() {
         return getDB().collection<MongoDbTypes.LiteNode>(LITE_NODE_COLLECTION);
     }
@@ -546,6 +1234,12 @@ export namespace Mongodb {
         return getDB().collection<MongoDbTypes.SshLock>("ssh_locks");
     }
 
+    export function getCheckinSignaturesCollection() {
+        return getDB().collection<MongoDbTypes.CheckinSignature>(
+            "checkin_signatures"
+        );
+    }
+
     export function getCheckinRateLimitCollection() {
         return getDB().collection<MongoDbTypes.CheckinRateLimit>(
             "checkin_rate_limit"
@@ -558,6 +1252,78 @@ export namespace Mongodb {
         );
     }
 
+    export function getLoginAttemptsCollection() {
+        return getDB().collection<MongoDbTypes.LoginAttempt>("login_attempts");
+    }
+
+    export function getAuthSessionsCollection() {
+        return getDB().collection<MongoDbTypes.AuthSession>("auth_sessions");
+    }
+
+    export function getConfirmationTokensCollection() {
+        return getDB().collection<MongoDbTypes.ConfirmationToken>(
+            "confirmation_tokens"
+        );
+    }
+
+    export function getAuditEventsCollection() {
+        return getDB().collection<MongoDbTypes.AuditEvent>("audit_events");
+    }
+
+    export function getRolloutsCollection() {
+        return getDB().collection<MongoDbTypes.Rollout>("rollouts");
+    }
+
+    export function getDeploymentsCollection() {
+        return getDB().collection<MongoDbTypes.Deployment>("deployments");
+    }
+
+    export function getDeploymentProfilesCollection() {
+        return getDB().collection<MongoDbTypes.DeploymentProfile>(
+            "deployment_profiles"
+        );
+    }
+
+    export function getDeploymentProfileVersionsCollection() {
+        return getDB().collection<MongoDbTypes.DeploymentProfileVersion>(
+            "deployment_profile_versions"
+        );
+    }
+
+    export function getArtifactChecksumsCollection() {
+        return getDB().collection<MongoDbTypes.ArtifactChecksum>(
+            "artifact_checksums"
+        );
+    }
+
+    export function getVersionDriftCollection() {
+        return getDB().collection<MongoDbTypes.VersionDrift>("version_drift");
+    }
+
+    export function getSshJobsCollection() {
+        return getDB().collection<MongoDbTypes.SshJob>("ssh_jobs");
+    }
+
+    export function getJumpChainsCollection() {
+        return getDB().collection<MongoDbTypes.JumpChain>("jump_chains");
+    }
+
+    export function getKeyRotationsCollection() {
+        return getDB().collection<MongoDbTypes.KeyRotation>("key_rotations");
+    }
+
+    export function getTerminalSessionsCollection() {
+        return getDB().collection<MongoDbTypes.TerminalSession>(
+            "terminal_sessions"
+        );
+    }
+
+    export function getTerminalRecordingsCollection() {
+        return getDB().collection<MongoDbTypes.TerminalRecordingChunk>(
+            "terminal_recordings"
+        );
+    }
+
     export function getClusterMembersCollection() {
         return getDB().collection<MongoDbTypes.ClusterMember>(
             "cluster_members"
@@ -589,13 +1355,40 @@ export namespace Mongodb {
         passwordHash: string
     ): Promise<MongoDbTypes.User | null> {
         const collection = getUsersCollection();
-        const user = await collection.findOne({ username, passwordHash });
-        return user || null;
+        const user = await collection.findOne({ username });
+        if (!user) return null;
+
+        const { isValid, needsRehash } = await verifyPassword(
+            passwordHash,
+            user.passwordHash
+        );
+        if (!isValid) return null;
+
+        // Transparently upgrade legacy (bare client SHA-256) rows.
+        if (needsRehash) {
+            try {
+                await collection.updateOne(
+                    { username, passwordHash: user.passwordHash },
+                    { $set: { passwordHash: await hashPassword(passwordHash) } }
+                );
+                logger.info(`🔑 Upgraded password hash for ${username}`);
+            } catch (err: any) {
+                logger.warn(
+                    `⚠️ Failed to upgrade password hash for ${username}: ${err.message}`
+                );
+            }
+        }
+        return user;
     }
 
+    // `user.passwordHash` is the client-side SHA-256; it is hashed with a
+    // per-user salt before it is stored.
     export async function createUser(user: MongoDbTypes.User): Promise<void> {
         const collection = getUsersCollection();
-        await collection.insertOne(user);
+        await collection.insertOne({
+            ...user,
+            passwordHash: await hashPassword(user.passwordHash),
+        });
     }
 
     export async function getLiteNodes() {
@@ -1,5 +1,6 @@
 import express from "express";
-import jwt from "jsonwebtoken";
+import { AuthService } from "../../services/auth-service.js";
+import { logger } from "../../utils/logger.js";
 
 declare global {
     namespace Express {
@@ -7,33 +8,44 @@ declare global {
             user?: {
                 username?: string;
                 role?: string;
+                sessionId?: string;
             };
         }
     }
 }
 
-// Middleware to verify JWT token
-export function authenticateToken(
+export function getBearerToken(req: express.Request): string | undefined {
+    const authHeader = req.headers["authorization"];
+    return (authHeader && authHeader.split(" ")[1]) || undefined;
+}
+
+// Map an access-token failure to its HTTP response. Expired/revoked tokens are
+// 401 with a `code` so the frontend knows to refresh or re-login.
+export function sendAuthError(res: express.Response, error: unknown) {
+    if (error instanceof AuthService.AuthError) {
+        const status = error.code === "invalid_token" ? 403 : 401;
+        return res.status(status).json({ error: error.message, code: error.code });
+    }
+    logger.error(`Token verification error: ${(error as Error).message}`);
+    return res.status(500).json({ error: "Failed to verify token" });
+}
+
+// Middleware to verify JWT token (and that its session is still live)
+export async function authenticateToken(
     req: express.Request,
     res: express.Response,
     next: express.NextFunction
 ) {
-    const authHeader = req.headers["authorization"];
-    const token = authHeader && authHeader.split(" ")[1];
+    const token = getBearerToken(req);
 
     if (!token) {
         return res.status(401).json({ error: "Missing token" });
     }
 
-    jwt.verify(
-        token,
-        process.env.JWT_SECRET as string,
-        (err, user: any) => {
-            if (err) {
-                return res.status(403).json({ error: "Invalid token" });
-            }
-            req.user = user;
-            next();
-        }
-    );
+    try {
+        req.user = await AuthService.verifyAccessToken(token);
+    } catch (error) {
+        return sendAuthError(res, error);
+    }
+    next();
 }
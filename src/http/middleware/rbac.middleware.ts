@@ -0,0 +1,60 @@
+import express from "express";
+import { AuditService } from "../../services/audit-service.js";
+import { Rbac } from "../../utils/rbac.js";
+
+async function deny(
+    req: express.Request,
+    res: express.Response,
+    permission: string
+) {
+    await AuditService.recordRequest(req, {
+        action: "permission.denied",
+        target: `${req.method} ${req.baseUrl}${req.path}`,
+        result: "denied",
+        details: { permission, role: req.user?.role },
+    });
+    return res
+        .status(403)
+        .json({ error: `Permission required: ${permission}` });
+}
+
+// Gate a route on one or more permissions. Must run after authenticateToken.
+// Refusals are audited as `permission.denied`.
+export function requirePermission(...permissions: Rbac.Permission[]) {
+    return async (
+        req: express.Request,
+        res: express.Response,
+        next: express.NextFunction
+    ) => {
+        if (!req.user) {
+            return res.status(401).json({ error: "Missing token" });
+        }
+        const missing = permissions.find(
+            (permission) => !Rbac.hasPermission(req.user?.role, permission)
+        );
+        if (missing) return deny(req, res, missing);
+        next();
+    };
+}
+
+// Gate a route that checks the exact permission later (per job kind, ...) on
+// holding at least one of `permissions`.
+export function requireAnyPermission(...permissions: Rbac.Permission[]) {
+    return async (
+        req: express.Request,
+        res: express.Response,
+        next: express.NextFunction
+    ) => {
+        if (!req.user) {
+            return res.status(401).json({ error: "Missing token" });
+        }
+        if (
+            !permissions.some((permission) =>
+                Rbac.hasPermission(req.user?.role, permission)
+            )
+        ) {
+            return deny(req, res, permissions.join(" or "));
+        }
+        next();
+    };
+}
@@ -0,0 +1,72 @@
+import express from "express";
+import { logger } from "../../utils/logger.js";
+import { authenticateToken } from "../middleware/auth.middleware.js";
+import { requirePermission } from "../middleware/rbac.middleware.js";
+import { AuditService } from "../../services/audit-service.js";
+
+const router = express.Router();
+
+const RESULTS: AuditService.Result[] = ["success", "failure", "denied"];
+const MAX_JSON_LIMIT = 500;
+const MAX_CSV_LIMIT = 50_000;
+
+// GET /audit-events?actor=&action=&target=&result=&from=&to=&limit=&skip=&format=csv
+// `action` matches exactly, or as a prefix when it ends with "." (e.g.
+// "server."). `from`/`to` are epoch millis.
+router.get(
+    "/audit-events",
+    authenticateToken,
+    requirePermission("view-audit-log"),
+    async (req, res) => {
+        try {
+            let format = req.query.format === "csv" ? "csv" : "json";
+            let result = req.query.result as AuditService.Result | undefined;
+            if (result && !RESULTS.includes(result)) {
+                res.status(400).json({
+                    error: `Invalid result, expected one of: ${RESULTS.join(", ")}`,
+                });
+                return;
+            }
+            let maxLimit = format === "csv" ? MAX_CSV_LIMIT : MAX_JSON_LIMIT;
+            let limit = Math.max(
+                1,
+                Math.min(
+                    parseInt(req.query.limit as string) ||
+                        (format === "csv" ? MAX_CSV_LIMIT : 100),
+                    maxLimit
+                )
+            );
+
+            let { events, total } = await AuditService.query({
+                actor: req.query.actor as string | undefined,
+                action: req.query.action as string | undefined,
+                target: req.query.target as string | undefined,
+                result,
+                from: parseInt(req.query.from as string) || undefined,
+                to: parseInt(req.query.to as string) || undefined,
+                limit,
+                skip: Math.max(0, parseInt(req.query.skip as string) || 0),
+            });
+
+            if (format === "csv") {
+                res.setHeader("Content-Type", "text/csv; charset=utf-8");
+                res.setHeader(
+                    "Content-Disposition",
+                    `attachment; filename="audit-events-${Date.now()}.csv"`
+                );
+                res.send(AuditService.toCsv(events));
+                return;
+            }
+            res.json({ events, total });
+        } catch (error) {
+            logger.error(
+                `Error fetching audit events: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to fetch audit events " + error,
+            });
+        }
+    }
+);
+
+export default router;
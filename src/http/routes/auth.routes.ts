@@ -1,8 +1,15 @@
 import express from "express";
-import jwt from "jsonwebtoken";
 import { Mongodb } from "../../database/db.js";
 import { logger } from "../../utils/logger.js";
 import { authenticateToken } from "../middleware/auth.middleware.js";
+import { requirePermission } from "../middleware/rbac.middleware.js";
+import { CredentialVault } from "../../services/credential-vault.js";
+import { AuthService } from "../../services/auth-service.js";
+import { getClientIp } from "../../utils/ip.js";
+import { LoginThrottle } from "../../services/logic/login-throttle.js";
+import { Rbac } from "../../utils/rbac.js";
+import { AuditService } from "../../services/audit-service.js";
+import { KeyRotationService } from "../../services/key-rotation-service.js";
 
 const router = express.Router();
 
@@ -17,17 +24,50 @@ router.post("/login", async (req, res) => {
             return;
         }
 
+        const ip = getClientIp(req);
+        const retryAfterMs = await LoginThrottle.getRetryAfterMs(
+            username,
+            ip
+        );
+        if (retryAfterMs > 0) {
+            const retryAfter = Math.ceil(retryAfterMs / 1000);
+            await AuditService.recordRequest(req, {
+                actor: username,
+                action: "auth.login",
+                result: "denied",
+                details: { reason: "locked", retryAfter },
+            });
+            res.setHeader("Retry-After", String(retryAfter));
+            res.status(429).json({
+                error: "Too many failed login attempts. Please try again later.",
+                retryAfter,
+            });
+            return;
+        }
+
         const user = await Mongodb.tryLogin(username, passwordHash);
         if (!user) {
+            await LoginThrottle.recordFailure(username, ip);
+            await AuditService.recordRequest(req, {
+                actor: username,
+                action: "auth.login",
+                result: "failure",
+            });
             res.status(401).json({ error: "Invalid credentials" });
             return;
         }
+        await LoginThrottle.recordSuccess(username);
 
-        const token = jwt.sign(
-            { username: user.username, role: user.role },
-            process.env.JWT_SECRET as string
-        );
-        res.json({ token });
+        const ua = req.headers["user-agent"];
+        const tokens = await AuthService.createSession(user, {
+            ip,
+            ...(ua ? { userAgent: ua } : {}),
+        });
+        await AuditService.recordRequest(req, {
+            actor: username,
+            action: "auth.login",
+        });
+        res.json(tokens);
     } catch (error) {
         logger.error(`Login error: ${(error as Error).message}`);
         res.status(500).json({ error: "Internal server error" });
@@ -35,40 +75,270 @@ router.post("/login", async (req, res) => {
     }
 });
 
-// Set SSH key endpoint
-router.post("/set-ssh-key", authenticateToken, async (req, res) => {
+// Exchange a refresh token for a new access/refresh token pair (rotation)
+router.post("/refresh-token", async (req, res) => {
     try {
-        let operator = req.user?.username;
-        let sshPrivateKey = req.body.sshPrivateKey as string;
-        if (!operator) {
-            res.status(400).json({ error: "No operator found" });
+        const { refreshToken } = req.body;
+        if (!refreshToken) {
+            res.status(400).json({ error: "Missing refreshToken" });
             return;
         }
-        if (!sshPrivateKey) {
-            res.status(400).json({
-                error: "No SSH private key provided",
+
+        const tokens = await AuthService.refreshSession(refreshToken);
+        if (!tokens) {
+            res.status(401).json({
+                error: "Invalid or expired refresh token",
+                code: "session_revoked",
             });
             return;
         }
+        res.json(tokens);
+    } catch (error) {
+        logger.error(`Refresh token error: ${(error as Error).message}`);
+        res.status(500).json({ error: "Internal server error" });
+    }
+});
 
-        await Mongodb.getUsersCollection().updateOne(
-            { username: operator },
-            { $set: { currentsshPrivateKey: sshPrivateKey } }
+// Logout: revoke the session behind the refresh token. Works even once the
+// access token has expired, so it doesn't require authenticateToken.
+router.post("/logout", async (req, res) => {
+    try {
+        if (typeof req.body?.refreshToken !== "string") {
+            res.status(400).json({ error: "Missing refreshToken" });
+            return;
+        }
+        const sessionId = await AuthService.revokeByRefreshToken(
+            req.body.refreshToken
         );
+        if (!sessionId) {
+            res.status(401).json({
+                error: "Invalid or expired refresh token",
+                code: "session_revoked",
+            });
+            return;
+        }
 
-        res.json({
-            message: "SSH private key updated successfully",
+        await AuditService.recordRequest(req, {
+            action: "auth.logout",
+            target: sessionId,
         });
+        res.json({ message: "Logged out successfully" });
     } catch (error) {
-        logger.error(
-            `Error setting SSH private key: ${
-                (error as Error).message
-            }`
+        logger.error(`Logout error: ${(error as Error).message}`);
+        res.status(500).json({ error: "Internal server error" });
+    }
+});
+
+// Revoke every session of a user. Anyone can revoke their own; revoking
+// someone else's (`username`) needs manage-users.
+router.post("/revoke-sessions", authenticateToken, async (req, res) => {
+    try {
+        let operator = req.user?.username;
+        if (!operator) {
+            res.status(400).json({ error: "No operator found" });
+            return;
+        }
+        let username = (req.body.username as string) || operator;
+        if (
+            username !== operator &&
+            !Rbac.hasPermission(req.user?.role, "manage-users")
+        ) {
+            res.status(403).json({
+                error: "Permission required: manage-users",
+            });
+            return;
+        }
+
+        const revoked = await AuthService.revokeAllSessions(username);
+        await AuditService.recordRequest(req, {
+            action: "auth.revoke-sessions",
+            target: username,
+            details: { revoked },
+        });
+        logger.info(
+            `🔑 ${operator} revoked ${revoked} session(s) of ${username}`
         );
+        res.json({ message: "Sessions revoked successfully", revoked });
+    } catch (error) {
+        logger.error(`Revoke sessions error: ${(error as Error).message}`);
         res.status(500).json({
-            error: "Failed to set SSH private key " + error,
+            error: "Failed to revoke sessions " + error,
         });
     }
 });
 
+// Set SSH key endpoint
+router.post(
+    "/set-ssh-key",
+    authenticateToken,
+    requirePermission("manage-servers"),
+    async (req, res) => {
+        try {
+            let operator = req.user?.username;
+            let sshPrivateKey = req.body.sshPrivateKey as string;
+            if (!operator) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            if (!sshPrivateKey) {
+                res.status(400).json({
+                    error: "No SSH private key provided",
+                });
+                return;
+            }
+
+            let before = await Mongodb.getUsersCollection().findOneAndUpdate(
+                { username: operator },
+                {
+                    $set: {
+                        currentsshPrivateKey:
+                            CredentialVault.seal(sshPrivateKey),
+                    },
+                },
+                { projection: { currentsshPrivateKey: 1 } }
+            );
+            await AuditService.recordRequest(req, {
+                action: "user.set-ssh-key",
+                target: operator,
+                before: { currentsshPrivateKey: before?.currentsshPrivateKey },
+                after: { currentsshPrivateKey: sshPrivateKey },
+            });
+
+            res.json({
+                message: "SSH private key updated successfully",
+            });
+        } catch (error) {
+            logger.error(
+                `Error setting SSH private key: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to set SSH private key " + error,
+            });
+        }
+    }
+);
+
+// Rotate the operator's SSH key on every server they own (see
+// KeyRotationService). Responds with the new public key right away; progress
+// is in GET /ssh-key-rotations.
+router.post(
+    "/rotate-ssh-key",
+    authenticateToken,
+    requirePermission("manage-servers"),
+    async (req, res) => {
+        try {
+            let operator = req.user?.username;
+            if (!operator) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+
+            let rotation;
+            try {
+                rotation = await KeyRotationService.start(operator);
+            } catch (error) {
+                res.status(409).json({ error: (error as Error).message });
+                return;
+            }
+            if (!rotation) {
+                res.status(400).json({
+                    error: "No servers with SSH key authentication to rotate",
+                });
+                return;
+            }
+            await AuditService.recordRequest(req, {
+                action: "key-rotation.start",
+                target: rotation.rotationId,
+                details: {
+                    publicKey: rotation.publicKey,
+                    servers: rotation.servers.map(({ server }) => server),
+                },
+            });
+            res.json({
+                message: "SSH key rotation started",
+                rotation: KeyRotationService.toPublicRotation(rotation),
+            });
+        } catch (error) {
+            logger.error(
+                `Error starting SSH key rotation: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to start SSH key rotation " + error,
+            });
+        }
+    }
+);
+
+// GET /ssh-key-rotations?limit= - Recent key rotations with per-server results
+router.get(
+    "/ssh-key-rotations",
+    authenticateToken,
+    requirePermission("manage-servers"),
+    async (req, res) => {
+        try {
+            let limit = Math.min(
+                parseInt(req.query.limit as string) || 20,
+                100
+            );
+            let rotations = await KeyRotationService.list(
+                Rbac.operatorScope(req.user, "read"),
+                limit
+            );
+            res.json({ rotations });
+        } catch (error) {
+            logger.error(
+                `Error fetching SSH key rotations: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to fetch SSH key rotations " + error,
+            });
+        }
+    }
+);
+
+// Retry the servers a rotation failed on, from where each one stopped.
+router.post(
+    "/resume-ssh-key-rotation",
+    authenticateToken,
+    requirePermission("manage-servers"),
+    async (req, res) => {
+        try {
+            let operator = req.user?.username;
+            let { rotationId } = req.body as { rotationId: string };
+            if (!operator) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            if (!rotationId) {
+                res.status(400).json({ error: "No rotation specified" });
+                return;
+            }
+
+            let servers = await KeyRotationService.resume(
+                rotationId,
+                Rbac.operatorScope(req.user)
+            );
+            if (!servers) {
+                res.status(404).json({
+                    error: "No failed servers to resume for this rotation",
+                });
+                return;
+            }
+            await AuditService.recordRequest(req, {
+                action: "key-rotation.resume",
+                target: rotationId,
+                details: { servers },
+            });
+            res.json({ message: "SSH key rotation resumed", servers });
+        } catch (error) {
+            logger.error(
+                `Error resuming SSH key rotation: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to resume SSH key rotation " + error,
+            });
+        }
+    }
+);
+
 export default router;
@@ -2,10 +2,119 @@ import express from "express";
 import { Mongodb, MongoDbTypes } from "../../database/db.js";
 import { logger } from "../../utils/logger.js";
 import { authenticateToken } from "../middleware/auth.middleware.js";
+import { requirePermission } from "../middleware/rbac.middleware.js";
 import { hashSHA256 } from "../../utils/crypto.js";
+import { AuditService } from "../../services/audit-service.js";
+import { SchedulerService } from "../../services/scheduler-service.js";
+import { CommandPolicyService } from "../../services/command-policy-service.js";
+import { Rbac } from "../../utils/rbac.js";
 
 const router = express.Router();
 
+// Fields an operator may change via /cron-jobs/update. Everything else
+// (operator, type, status, nextRunAt...) is owned by the server.
+const UPDATABLE_FIELDS: (keyof MongoDbTypes.CronJob)[] = [
+    "name",
+    "schedule",
+    "command",
+    "isEnabled",
+    "servers",
+    "serverTags",
+];
+
+function copyField<K extends keyof MongoDbTypes.CronJob>(
+    target: Partial<MongoDbTypes.CronJob>,
+    source: Partial<MongoDbTypes.CronJob>,
+    field: K
+) {
+    if (source[field] !== undefined) target[field] = source[field];
+}
+
+function isStringArray(value: unknown): value is string[] {
+    return (
+        Array.isArray(value) && value.every((v) => typeof v === "string" && v)
+    );
+}
+
+/**
+ * Validate a custom (SSH command) job for `req.user` and compute its first
+ * slot. Returns an HTTP status + error, or the `nextRunAt` to store.
+ */
+async function validateCustomJob(
+    req: express.Request,
+    job: Partial<MongoDbTypes.CronJob>
+): Promise<{ status: number; error: string } | { nextRunAt: number | null }> {
+    if (!Rbac.hasPermission(req.user?.role, "execute-command")) {
+        return { status: 403, error: "Permission required: execute-command" };
+    }
+    if (!job.command || typeof job.command !== "string") {
+        return { status: 400, error: "command is required" };
+    }
+    // Nobody is around to approve a scheduled run, so commands that need
+    // approval can't be scheduled.
+    let decision = await CommandPolicyService.evaluate(req.user?.role, [
+        job.command,
+    ]);
+    if (decision.action === "deny") {
+        return { status: 403, error: `${decision.reason}: ${decision.line}` };
+    }
+    if (decision.action === "approve") {
+        return {
+            status: 400,
+            error: `Commands that need approval can't be scheduled (${decision.policies.join(
+                ", "
+            )})`,
+        };
+    }
+    let nextRunAt: number | null;
+    try {
+        nextRunAt = SchedulerService.computeNextRun(job.schedule || "");
+    } catch (error) {
+        return {
+            status: 400,
+            error: `Invalid cron schedule: ${(error as Error).message}`,
+        };
+    }
+    if (nextRunAt === null) {
+        return { status: 400, error: "Cron schedule never fires" };
+    }
+    let servers = job.servers ?? [];
+    let serverTags = job.serverTags ?? [];
+    if (!isStringArray(servers) || !isStringArray(serverTags)) {
+        return {
+            status: 400,
+            error: "servers and serverTags must be arrays of strings",
+        };
+    }
+    if (servers.length === 0 && serverTags.length === 0) {
+        return {
+            status: 400,
+            error: "A custom cron job needs servers or serverTags",
+        };
+    }
+    if (servers.length > 0) {
+        let known = await Mongodb.getServersCollection()
+            .find(
+                {
+                    server: { $in: servers },
+                    operator: Rbac.operatorScope(req.user),
+                },
+                { projection: { server: 1 } }
+            )
+            .toArray();
+        let missing = servers.filter(
+            (server) => !known.some((doc) => doc.server === server)
+        );
+        if (missing.length > 0) {
+            return {
+                status: 404,
+                error: `Servers not found: ${missing.join(", ")}`,
+            };
+        }
+    }
+    return { nextRunAt };
+}
+
 router.get("/cron-jobs", authenticateToken, async (req, res) => {
     try {
         let operator = req.user?.username;
@@ -33,144 +142,227 @@ router.get("/cron-jobs", authenticateToken, async (req, res) => {
     }
 });
 
-router.post("/cron-jobs", authenticateToken, async (req, res) => {
-    try {
-        let operator = req.user?.username;
-        let cronJob: MongoDbTypes.CronJob = req.body;
-        if (!operator) {
-            res.status(400).json({ error: "No operator found" });
-            return;
-        }
-        if (
-            !cronJob ||
-            !cronJob.command ||
-            !cronJob.schedule ||
-            !cronJob.type
-        ) {
-            res.status(400).json({
-                error: "cronJob with command, and schedule are required",
-            });
-            return;
-        }
+router.post(
+    "/cron-jobs",
+    authenticateToken,
+    requirePermission("manage-automation"),
+    async (req, res) => {
+        try {
+            let operator = req.user?.username;
+            let cronJob: MongoDbTypes.CronJob = req.body;
+            if (!operator) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            if (
+                !cronJob ||
+                !cronJob.command ||
+                !cronJob.schedule ||
+                !cronJob.type
+            ) {
+                res.status(400).json({
+                    error: "cronJob with command, and schedule are required",
+                });
+                return;
+            }
 
-        if (cronJob.type === "custom") {
-            // no support for custom cron syntax yet
-            return res.status(400).json({
-                error: "Custom cron syntax is not supported yet",
-            });
-        }
+            if (cronJob.type === "custom") {
+                let validation = await validateCustomJob(req, cronJob);
+                if ("error" in validation) {
+                    res.status(validation.status).json({
+                        error: validation.error,
+                    });
+                    return;
+                }
+                cronJob = {
+                    operator: operator,
+                    cronId: "",
+                    name: cronJob.name,
+                    schedule: cronJob.schedule,
+                    command: cronJob.command,
+                    type: "custom",
+                    lastRun: null,
+                    status: "idle",
+                    isEnabled: cronJob.isEnabled !== false,
+                    servers: cronJob.servers ?? [],
+                    serverTags: cronJob.serverTags ?? [],
+                    nextRunAt: validation.nextRunAt,
+                };
+            }
 
-        cronJob.operator = operator;
-        cronJob.cronId = (
-            await hashSHA256(
-                operator + "-" + cronJob.name + "-" + cronJob.command
-            )
-        ).substring(0, 8);
+            cronJob.operator = operator;
+            cronJob.cronId = (
+                await hashSHA256(
+                    operator + "-" + cronJob.name + "-" + cronJob.command
+                )
+            ).substring(0, 8);
 
-        Mongodb.getCronJobsCollection()
-            .updateOne(
-                { cronId: cronJob.cronId, operator: operator },
-                { $set: cronJob },
-                { upsert: true }
-            )
-            .then(() => {
-                res.json({
-                    message: "Cron job created/updated successfully",
+            Mongodb.getCronJobsCollection()
+                .findOneAndUpdate(
+                    { cronId: cronJob.cronId, operator: operator },
+                    { $set: cronJob },
+                    { upsert: true, returnDocument: "before" }
+                )
+                .then(async (before) => {
+                    await AuditService.recordRequest(req, {
+                        action: before ? "cron.update" : "cron.create",
+                        target: cronJob.cronId,
+                        before,
+                        after: { ...before, ...cronJob },
+                    });
+                    res.json({
+                        message: "Cron job created/updated successfully",
+                    });
+                })
+                .catch((error) => {
+                    logger.error(
+                        `Error creating/updating cron job: ${
+                            (error as Error).message
+                        }`
+                    );
+                    res.status(500).send({
+                        error: "Failed to create/update cron job " + error,
+                    });
                 });
-            })
-            .catch((error) => {
-                logger.error(
-                    `Error creating/updating cron job: ${
-                        (error as Error).message
-                    }`
-                );
-                res.status(500).send({
-                    error: "Failed to create/update cron job " + error,
-                });
-            });
-    } catch (error) {
-        res.status(500).send({
-            error: "Failed to create/update cron job " + error,
-        });
-    }
-});
-
-router.post("/cron-jobs/update", authenticateToken, async (req, res) => {
-    try {
-        let operator = req.user?.username;
-        let cronId = req.body.cronId as string;
-        let updates = req.body.updates as Partial<MongoDbTypes.CronJob>;
-        if (!operator) {
-            res.status(400).json({ error: "No operator found" });
-            return;
-        }
-        if (!cronId || !updates) {
-            res.status(400).json({
-                error: "cronId and updates are required",
+        } catch (error) {
+            res.status(500).send({
+                error: "Failed to create/update cron job " + error,
             });
-            return;
         }
+    }
+);
 
-        Mongodb.getCronJobsCollection()
-            .updateOne(
-                { cronId: cronId, operator: operator },
-                { $set: updates }
-            )
-            .then(() => {
-                res.json({
-                    message: "Cron job updated successfully",
-                });
-            })
-            .catch((error) => {
-                logger.error(
-                    `Error updating cron job: ${(error as Error).message}`
-                );
-                res.status(500).send({
-                    error: "Failed to update cron job " + error,
+router.post(
+    "/cron-jobs/update",
+    authenticateToken,
+    requirePermission("manage-automation"),
+    async (req, res) => {
+        try {
+            let operator = req.user?.username;
+            let cronId = req.body.cronId as string;
+            let updates = req.body.updates as Partial<MongoDbTypes.CronJob>;
+            if (!operator) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            if (!cronId || !updates) {
+                res.status(400).json({
+                    error: "cronId and updates are required",
                 });
+                return;
+            }
+            let existing = await Mongodb.getCronJobsCollection().findOne({
+                cronId: cronId,
+                operator: operator,
             });
-    } catch (error) {
-        res.status(500).send({
-            error: "Failed to update cron job " + error,
-        });
-    }
-});
+            if (!existing) {
+                res.status(404).json({ error: "Cron job not found" });
+                return;
+            }
+            let allowedUpdates: Partial<MongoDbTypes.CronJob> = {};
+            for (let field of UPDATABLE_FIELDS) {
+                copyField(allowedUpdates, updates, field);
+            }
+            updates = allowedUpdates;
+            if (existing.type === "custom") {
+                let validation = await validateCustomJob(req, {
+                    ...existing,
+                    ...updates,
+                });
+                if ("error" in validation) {
+                    res.status(validation.status).json({
+                        error: validation.error,
+                    });
+                    return;
+                }
+                // Reschedule from now so an edit or re-enable never replays a
+                // slot that passed while the job was stale or disabled.
+                updates.nextRunAt = validation.nextRunAt;
+            }
 
-router.delete("/cron-jobs", authenticateToken, async (req, res) => {
-    try {
-        let operator = req.user?.username;
-        let cronId = req.body.cronId as string;
-        if (!operator) {
-            res.status(400).json({ error: "No operator found" });
-            return;
-        }
-        if (!cronId) {
-            res.status(400).json({
-                error: "cronId is required",
+            Mongodb.getCronJobsCollection()
+                .findOneAndUpdate(
+                    { cronId: cronId, operator: operator },
+                    { $set: updates },
+                    { returnDocument: "before" }
+                )
+                .then(async (before) => {
+                    if (before) {
+                        await AuditService.recordRequest(req, {
+                            action: "cron.update",
+                            target: cronId,
+                            before,
+                            after: { ...before, ...updates },
+                        });
+                    }
+                    res.json({
+                        message: "Cron job updated successfully",
+                    });
+                })
+                .catch((error) => {
+                    logger.error(
+                        `Error updating cron job: ${(error as Error).message}`
+                    );
+                    res.status(500).send({
+                        error: "Failed to update cron job " + error,
+                    });
+                });
+        } catch (error) {
+            res.status(500).send({
+                error: "Failed to update cron job " + error,
             });
-            return;
         }
+    }
+);
 
-        Mongodb.getCronJobsCollection()
-            .deleteOne({ cronId: cronId, operator: operator })
-            .then(() => {
-                res.json({
-                    message: "Cron job deleted successfully",
+router.delete(
+    "/cron-jobs",
+    authenticateToken,
+    requirePermission("manage-automation"),
+    async (req, res) => {
+        try {
+            let operator = req.user?.username;
+            let cronId = req.body.cronId as string;
+            if (!operator) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            if (!cronId) {
+                res.status(400).json({
+                    error: "cronId is required",
                 });
-            })
-            .catch((error) => {
-                logger.error(
-                    `Error deleting cron job: ${(error as Error).message}`
-                );
-                res.status(500).send({
-                    error: "Failed to delete cron job " + error,
+                return;
+            }
+
+            Mongodb.getCronJobsCollection()
+                .findOneAndDelete({ cronId: cronId, operator: operator })
+                .then(async (before) => {
+                    if (before) {
+                        await AuditService.recordRequest(req, {
+                            action: "cron.delete",
+                            target: cronId,
+                            before,
+                            after: null,
+                        });
+                    }
+                    res.json({
+                        message: "Cron job deleted successfully",
+                    });
+                })
+                .catch((error) => {
+                    logger.error(
+                        `Error deleting cron job: ${(error as Error).message}`
+                    );
+                    res.status(500).send({
+                        error: "Failed to delete cron job " + error,
+                    });
                 });
+        } catch (error) {
+            res.status(500).send({
+                error: "Failed to delete cron job " + error,
             });
-    } catch (error) {
-        res.status(500).send({
-            error: "Failed to delete cron job " + error,
-        });
+        }
     }
-});
+);
 
 export default router;
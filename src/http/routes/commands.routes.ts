@@ -3,13 +3,21 @@ import crypto from "crypto";
 import { Mongodb, MongoDbTypes } from "../../database/db.js";
 import { logger } from "../../utils/logger.js";
 import { authenticateToken } from "../middleware/auth.middleware.js";
+import {
+    requireAnyPermission,
+    requirePermission,
+} from "../middleware/rbac.middleware.js";
+import { Rbac } from "../../utils/rbac.js";
+import { AuditService } from "../../services/audit-service.js";
 import { SSHService } from "../../services/ssh-service.js";
+import { SshJobs } from "../../services/ssh-jobs.js";
+import { JobQueue } from "../../services/job-queue.js";
+import { ShortcutTemplate } from "../../services/logic/shortcut-template.js";
+import { CommandPolicyService } from "../../services/command-policy-service.js";
+import { ArtifactService } from "../../services/artifact-service.js";
+import { getBasenameFromUrl } from "../../utils/common.js";
 import { v4 as uuidv4 } from "uuid";
-import { millisToSeconds } from "../../utils/time.js";
-import {
-    getGlobalLiteCustomParameter,
-    mergeCustomParameter,
-} from "../../utils/custom-parameter.js";
+import type { Filter } from "mongodb";
 
 const TTYD_PORT = 7681;
 const TTYD_URL =
@@ -62,804 +70,1341 @@ function buildTtydInstallCommands(token: string, host: string) {
 
 const router = express.Router();
 
-// POST /command - Shutdown or restart services on servers
-router.post("/command", authenticateToken, async (req, res) => {
-    try {
-        let command: "shutdown" | "restart" = req.body.command;
-        let services: MongoDbTypes.ServiceType[] = req.body.services;
-        let servers: string[] = req.body.servers;
+// Run the command policies over what's about to be queued. Sends the 403 and
+// returns false when a rule denies it; otherwise returns the approval to hold
+// the run for, or null to queue it now.
+async function checkCommandPolicies(
+    req: express.Request,
+    res: express.Response,
+    targets: CommandPolicyService.Target[]
+): Promise<MongoDbTypes.CommandApproval | null | false> {
+    let decision = await CommandPolicyService.evaluate(
+        req.user?.role,
+        targets.flatMap((target) => target.commands)
+    );
+    if (decision.action === "deny") {
+        await AuditService.recordRequest(req, {
+            action: "command.denied",
+            target: targets.map((target) => target.host).join(","),
+            result: "denied",
+            details: { policy: decision.policy, line: decision.line },
+        });
+        res.status(403).json({
+            error: decision.reason,
+            policy: decision.policy,
+            line: decision.line,
+        });
+        return false;
+    }
+    return decision.action === "approve"
+        ? CommandPolicyService.newApproval(decision.policies, targets)
+        : null;
+}
 
-        let operator = req.user!.username;
-        if (!operator) {
-            res.status(400).json({ error: "No operator found" });
-            return;
-        }
+function sendAwaitingApproval(
+    res: express.Response,
+    commandLogUuid: string,
+    approval: MongoDbTypes.CommandApproval
+) {
+    res.status(202).json({
+        message: "Command is awaiting approval",
+        commandLogUuid,
+        policies: approval.policies,
+        expiresAt: approval.expiresAt,
+    });
+}
 
-        // Get server details from DB
-        let serverDocs = (
-            await Mongodb.getServersCollection()
-                .find({ server: { $in: servers } })
-                .toArray()
-        ).filter(
-            (s) => s.username && s.username.length > 0 && s.status === "active"
-        );
+// POST /command - Shutdown or restart services on servers
+router.post(
+    "/command",
+    authenticateToken,
+    requirePermission("deploy"),
+    async (req, res) => {
+        try {
+            let command: "shutdown" | "restart" = req.body.command;
+            let services: MongoDbTypes.ServiceType[] = req.body.services;
+            let servers: string[] = req.body.servers;
 
-        if (servers.length === 0) {
-            res.status(404).json({
-                error: "No matching servers found in the database",
-            });
-            return;
-        }
+            let operator = req.user!.username;
+            if (!operator) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
 
-        let currentUUID = uuidv4();
-        await Mongodb.getCommandLogsCollection().insertOne({
-            operator: operator,
-            servers: servers,
-            command: `${command}:${services.join(", ").toLowerCase()}`,
-            stdout: "",
-            stderr: "",
-            timestamp: Date.now(),
-            status: "pending",
-            uuid: currentUUID,
-            isStandardCommand: true,
-            duration: 0,
-        });
+            // Get server details from DB
+            let serverDocs = (
+                await Mongodb.getServersCollection()
+                    .find({
+                        server: { $in: servers },
+                        operator: Rbac.operatorScope(req.user),
+                    })
+                    .toArray()
+            ).filter(
+                (s) =>
+                    s.username && s.username.length > 0 && s.status === "active"
+            );
 
-        const updateCommandLogToDb = ({
-            stdout,
-            stderr,
-            status,
-            duration,
-            errorMessage,
-        }: {
-            stdout: string;
-            stderr: string;
-            status: "pending" | "completed" | "failed";
-            duration: number;
-            errorMessage?: string;
-        }) => {
-            Mongodb.getCommandLogsCollection()
-                .updateOne(
-                    {
-                        uuid: currentUUID,
-                    },
-                    {
-                        $set: {
-                            stdout: stdout,
-                            stderr: stderr,
-                            status: status,
-                            ...(errorMessage !== undefined
-                                ? { errorMessage }
-                                : {}),
-                        },
-                        $inc: {
-                            duration: duration,
-                        },
-                    }
-                )
-                .then()
-                .catch((error) => {
-                    logger.error(
-                        `Error updating command log: ${
-                            (error as Error).message
-                        }`
-                    );
+            if (servers.length === 0) {
+                res.status(404).json({
+                    error: "No matching servers found in the database",
                 });
-        };
-
-        const updateNodeDeployStatusToDb = ({
-            server,
-            service,
-            status,
-        }: {
-            server: string;
-            service: MongoDbTypes.ServiceType;
-            status: MongoDbTypes.NodeStatus;
-        }) => {
-            // Stamp the entry time whenever we move into a transient state so
-            // the stuck-deploy watchdog can tell how long it has been pending.
-            const isTransient =
-                status === "setting_up" || status === "restarting";
-            const setObj: Record<string, unknown> = {
-                deployStatus: {
-                    $mergeObjects: ["$deployStatus", { [service]: status }],
-                },
-            };
-            if (isTransient) {
-                setObj.deployStatusAt = {
-                    $mergeObjects: [
-                        "$deployStatusAt",
-                        { [service]: Date.now() },
-                    ],
-                };
-            }
-            Mongodb.getServersCollection()
-                .updateOne({ server: server }, [{ $set: setObj }])
-                .then()
-                .catch(() => {});
-        };
+                return;
+            }
+            if (command !== "shutdown" && command !== "restart") {
+                res.status(400).json({ error: "Invalid command" });
+                return;
+            }
 
-        let currentStdout = "";
-        let currentStderr = "";
-        let totalCommandsExecuted = 0;
-        const totalCommandsToExecute = services.length * serverDocs.length;
+            let currentUUID = uuidv4();
+            await Mongodb.getCommandLogsCollection().insertOne({
+                operator: operator,
+                servers: servers,
+                command: `${command}:${services.join(", ").toLowerCase()}`,
+                stdout: "",
+                stderr: "",
+                timestamp: Date.now(),
+                status: "pending",
+                uuid: currentUUID,
+                isStandardCommand: true,
+                duration: 0,
+            });
+            await AuditService.recordRequest(req, {
+                action: "command.service",
+                target: servers.join(","),
+                details: { command, services, commandLogUuid: currentUUID },
+            });
 
-        if (command == "shutdown") {
+            // One job per server running the service; the last one to finish
+            // closes the command log.
+            let targets: { host: string; service: MongoDbTypes.ServiceType }[] =
+                [];
             for (let service of services) {
                 for (let serverObject of serverDocs) {
-                    if (!serverObject.services.includes(service)) {
-                        totalCommandsExecuted++;
-                        continue;
+                    if (serverObject.services.includes(service)) {
+                        targets.push({ host: serverObject.server, service });
                     }
-                    SSHService.shutdownNode(
-                        serverObject.server,
-                        serverObject.username,
-                        serverObject.password,
-                        serverObject.sshPrivateKey,
-                        service
-                    )
-                        .then(
-                            async ({
-                                stdouts,
-                                stderrs,
-                                isSuccess,
-                                duration,
-                                errorMessage,
-                            }) => {
-                                totalCommandsExecuted++;
-                                if (isSuccess) {
-                                    currentStdout +=
-                                        "\n" +
-                                        `---------- Shutdown log for ${service} on ${serverObject.server} ----------- \n\n`;
-                                    currentStdout += "Okay\n";
-                                    currentStderr +=
-                                        Object.values(stderrs).join("\n");
-                                    updateCommandLogToDb({
-                                        stdout: currentStdout,
-                                        stderr: currentStderr,
-                                        status:
-                                            totalCommandsExecuted ===
-                                            totalCommandsToExecute
-                                                ? "completed"
-                                                : "pending",
-                                        duration: duration,
-                                    });
-                                    updateNodeDeployStatusToDb({
-                                        server: serverObject.server,
-                                        service: service,
-                                        status: "stopped",
-                                    });
-                                } else {
-                                    const reason =
-                                        errorMessage ||
-                                        `Shutdown failed on ${serverObject.server}`;
-                                    updateCommandLogToDb({
-                                        stdout: Object.values(stdouts).join(
-                                            "\n"
-                                        ),
-                                        stderr:
-                                            `⛔ ${reason}\n` +
-                                            Object.values(stderrs).join("\n"),
-                                        status: "failed",
-                                        duration: duration,
-                                        errorMessage: reason,
-                                    });
-                                    updateNodeDeployStatusToDb({
-                                        server: serverObject.server,
-                                        service: service,
-                                        status: "error",
-                                    });
-                                }
-                            }
-                        )
-                        .catch((error) => {
-                            updateCommandLogToDb({
-                                stdout: (error as Error).message,
-                                stderr: (error as Error).message,
-                                status: "failed",
-                                duration: 0,
-                            });
-                            updateNodeDeployStatusToDb({
-                                server: serverObject.server,
-                                service: service,
-                                status: "error",
-                            });
-                        });
                 }
             }
-        } else if (command == "restart") {
-            // Pull the current custom parameter for every lite node being
-            // restarted so the restart re-applies the latest DB value. A plain
-            // restart used to keep whatever was last written to disk at deploy
-            // time; now it picks up parameter changes too (same as a redeploy).
-            // Bob nodes have no custom parameter.
-            let liteParamMap: Record<string, string> = {};
-            let globalLiteParam = "";
-            if (services.includes(MongoDbTypes.ServiceType.LiteNode)) {
-                globalLiteParam = await getGlobalLiteCustomParameter();
-                let liteDocs = await Mongodb.getLiteNodeCollection()
+            let jobs = await SshJobs.enqueueServiceCommands(
+                targets,
+                operator,
+                currentUUID,
+                command
+            );
+            if (jobs.length === 0) {
+                await Mongodb.getCommandLogsCollection().updateOne(
+                    { uuid: currentUUID },
+                    { $set: { status: "completed" } }
+                );
+            }
+
+            res.json({
+                message: "Command sent successfully",
+                jobIds: jobs.map((job) => job._id),
+            });
+        } catch (error) {
+            res.status(500).json({
+                error: "Internal server error: " + (error as Error).message,
+            });
+        }
+    }
+);
+
+// POST /execute-command - Execute custom commands on servers
+router.post(
+    "/execute-command",
+    authenticateToken,
+    requirePermission("execute-command"),
+    async (req, res) => {
+        try {
+            // format : command:service::params
+            const QUICKS_COMMANDS_MAP = {
+                "esc/shutdown:lite": () => {
+                    return [
+                        `screen -S ${SSHService.LITE_SCREEN_NAME} -X stuff $'\\x1b'`,
+                    ];
+                },
+                "f8/savesnapshot:lite": () => {
+                    return [
+                        `screen -S ${SSHService.LITE_SCREEN_NAME} -X stuff $'\\x1b[19~'`,
+                    ];
+                },
+                "f10/clearmemory:lite": () => {
+                    return [
+                        `screen -S ${SSHService.LITE_SCREEN_NAME} -X stuff $'\\x1b[21~'`,
+                    ];
+                },
+                "f11/staticmode:lite": () => {
+                    return [
+                        `screen -S ${SSHService.LITE_SCREEN_NAME} -X stuff $'\\x1b[23~'`,
+                    ];
+                },
+                "f12/changemode:lite": () => {
+                    return [
+                        `screen -S ${SSHService.LITE_SCREEN_NAME} -X stuff $'\\x1b[24~'`,
+                    ];
+                },
+                // `sha256` is resolved before the command is built (see below).
+                "placebinary:bob": (url: string, sha256: string) => {
+                    return [
+                        ...SSHService.Scripts.getFetchBinaryCommands(
+                            "qbob",
+                            url,
+                            sha256
+                        ),
+                        `cd ~/qbob/`,
+                        `rm -rf bob`,
+                        SSHService.Scripts.getPlaceFetchedBinaryCommand(
+                            "qbob",
+                            getBasenameFromUrl(url)
+                        ),
+                    ];
+                },
+                "placebinary:lite": (url: string, sha256: string) => {
+                    return [
+                        ...SSHService.Scripts.getFetchBinaryCommands(
+                            "qlite",
+                            url,
+                            sha256
+                        ),
+                        `cd ~/qlite/`,
+                        // Remove the previous binary tracked in binary_name.txt so we
+                        // don't accumulate dead files. Don't fail if it isn't there.
+                        `OLD_BINARY=$(cat binary_name.txt 2>/dev/null || echo "")`,
+                        `[ -n "$OLD_BINARY" ] && rm -f "$OLD_BINARY" || true`,
+                        // mv -f overwrites in place: lite releases all reuse the
+                        // name "Qubic".
+                        SSHService.Scripts.getPlaceFetchedBinaryCommand(
+                            "qlite",
+                            getBasenameFromUrl(url)
+                        ),
+                        // Persist the new binary name so the restart command picks it up.
+                        `echo "${getBasenameFromUrl(url)}" > binary_name.txt`,
+                    ];
+                },
+                "restartkeydb:bob": () => {
+                    return [
+                        `while pgrep -x keydb-server >/dev/null; do { echo "Waiting for keydb to be shutdown..."; sleep 1; pkill -2 keydb-server || true; }; done`,
+                        `for s in $(screen -ls | awk '/keydb/ {print $1}'); do screen -S "$s" -X quit || true; done`,
+                        `screen -dmS keydb bash -lc "keydb-server /etc/keydb-runtime.conf || exec bash"`,
+                        `until [[ "$(keydb-cli ping 2>/dev/null)" == "PONG" ]]; do { echo "Waiting for keydb..."; sleep 1; }; done`,
+                    ];
+                },
+                "restartkvrocks:bob": () => {
+                    return [
+                        `while pgrep -x kvrocks >/dev/null; do { echo "Waiting for kvrocks to be shutdown..."; sleep 1; pkill -2 kvrocks || true; }; done`,
+                        `for s in $(screen -ls | awk '/kvrocks/ {print $1}'); do screen -S "$s" -X quit || true; done`,
+                        `screen -dmS kvrocks bash -lc "kvrocks -c /etc/kvrocks-runtime.conf || exec bash"`,
+                        `until [[ "$(keydb-cli -h 127.0.0.1 -p 6666 ping 2>/dev/null)" == "PONG" ]]; do { echo "Waiting for kvrocks..."; sleep 1; }; done`,
+                    ];
+                },
+            };
+
+            let operator = req.user?.username;
+            let command = req.body.command as string;
+            let servers = req.body.servers as string[];
+            if (!operator) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            if (!command || !servers) {
+                res.status(400).json({
+                    error: "Missing command or servers",
+                });
+                return;
+            }
+            if (
+                (command === "installttyd:server" ||
+                    command === "uninstallttyd:server") &&
+                !Rbac.hasPermission(req.user?.role, "ttyd-access")
+            ) {
+                res.status(403).json({
+                    error: "Permission required: ttyd-access",
+                });
+                return;
+            }
+
+            let serverDocs = (
+                await Mongodb.getServersCollection()
                     .find({
-                        server: { $in: serverDocs.map((s) => s.server) },
+                        server: { $in: servers },
+                        operator: Rbac.operatorScope(req.user),
                     })
-                    .toArray();
-                for (let doc of liteDocs) {
-                    liteParamMap[doc.server] = doc.customParameter || "";
-                }
+                    .toArray()
+            ).filter(
+                (s) =>
+                    s.username && s.username.length > 0 && s.status === "active"
+            );
+            servers = serverDocs.map((s) => s.server);
+
+            if (serverDocs.length === 0) {
+                res.status(404).json({
+                    error: "No matching servers found in the database",
+                });
+                return;
             }
-            for (let service of services) {
-                for (let serverObject of serverDocs) {
-                    if (!serverObject.services.includes(service)) {
-                        totalCommandsExecuted++;
-                        continue;
+
+            let isTtydCommand =
+                command === "installttyd:server" ||
+                command === "uninstallttyd:server";
+            // placebinary:<service>::<url>[,<sha256>] runs a downloaded binary,
+            // so it needs the hash the node will check it against: a release
+            // asset's pinned one, or for any other URL one supplied by a user
+            // with manage-artifacts.
+            let placeBinary = command.match(
+                /^placebinary:(lite|bob)::([^,]*)(?:,(.*))?$/
+            );
+            let placeBinaryParams: string[] | undefined;
+            if (placeBinary) {
+                let url = placeBinary[2]!;
+                if (!url.startsWith("http")) {
+                    res.status(400).json({ error: "Invalid URL for binary" });
+                    return;
+                }
+                let resolved = await ArtifactService.resolveUrl(
+                    placeBinary[1] === "lite"
+                        ? MongoDbTypes.ServiceType.LiteNode
+                        : MongoDbTypes.ServiceType.BobNode,
+                    url,
+                    {
+                        sha256: placeBinary[3],
+                        mayPin: Rbac.hasPermission(
+                            req.user?.role,
+                            "manage-artifacts"
+                        ),
+                        actor: operator,
                     }
-                    updateNodeDeployStatusToDb({
-                        server: serverObject.server,
-                        service: service,
-                        status: "restarting",
-                    });
-                    SSHService.restartNode(
-                        serverObject.server,
-                        serverObject.username,
-                        serverObject.password,
-                        serverObject.sshPrivateKey,
-                        service,
-                        {
-                            systemRamInGB: parseInt(serverObject.ram || "0"),
-                            customParameter:
-                                service ===
-                                MongoDbTypes.ServiceType.LiteNode
-                                    ? mergeCustomParameter(
-                                          globalLiteParam,
-                                          liteParamMap[serverObject.server] ??
-                                              ""
-                                      )
-                                    : undefined,
-                        }
-                    )
-                        .then(
-                            async ({
-                                stdouts,
-                                stderrs,
-                                isSuccess,
-                                duration,
-                                errorMessage,
-                            }) => {
-                                totalCommandsExecuted++;
-                                currentStderr +=
-                                    Object.values(stderrs).join("\n");
-                                if (isSuccess) {
-                                    currentStdout +=
-                                        "\n" +
-                                        `---------- Restart log for ${service} on ${serverObject.server} ----------- \n\n`;
-                                    currentStdout += "Okay\n";
-                                    updateCommandLogToDb({
-                                        stdout: currentStdout,
-                                        stderr: currentStderr,
-                                        status:
-                                            totalCommandsExecuted ===
-                                            totalCommandsToExecute
-                                                ? "completed"
-                                                : "pending",
-                                        duration: duration,
-                                    });
-                                    updateNodeDeployStatusToDb({
-                                        server: serverObject.server,
-                                        service: service,
-                                        status: "active",
-                                    });
-                                } else {
-                                    const reason =
-                                        errorMessage ||
-                                        `Restart failed on ${serverObject.server}`;
-                                    currentStdout +=
-                                        "\n" +
-                                        `---------- Restart log for ${service} on ${serverObject.server} ----------- \n\n`;
-                                    currentStdout +=
-                                        Object.values(stdouts).join("\n");
-                                    updateCommandLogToDb({
-                                        stdout: currentStdout,
-                                        stderr: `⛔ ${reason}\n` + currentStderr,
-                                        status: "failed",
-                                        duration: duration,
-                                        errorMessage: reason,
-                                    });
-                                    updateNodeDeployStatusToDb({
-                                        server: serverObject.server,
-                                        service: service,
-                                        status: "error",
-                                    });
-                                }
-                            }
-                        )
-                        .catch((error) => {
-                            updateCommandLogToDb({
-                                stdout: (error as Error).message,
-                                stderr: (error as Error).message,
-                                status: "failed",
-                                duration: 0,
-                            });
-                            updateNodeDeployStatusToDb({
-                                server: serverObject.server,
-                                service: service,
-                                status: "error",
-                            });
-                        });
+                );
+                if ("error" in resolved) {
+                    res.status(resolved.status).json({ error: resolved.error });
+                    return;
                 }
+                placeBinaryParams = [url, resolved.sha256];
             }
-        } else {
-            res.status(400).json({ error: "Invalid command" });
-            return;
-        }
 
-        res.json({ message: "Command sent successfully" });
-    } catch (error) {
-        res.status(500).json({
-            error: "Internal server error: " + (error as Error).message,
-        });
-    }
-});
+            let commandsToBeExecuted: string[] = [];
+            if (!isTtydCommand) {
+                for (let cmdKey in QUICKS_COMMANDS_MAP) {
+                    if (command.startsWith(cmdKey)) {
+                        let cmdFunc =
+                            QUICKS_COMMANDS_MAP[
+                                cmdKey as keyof typeof QUICKS_COMMANDS_MAP
+                            ];
 
-// POST /execute-command - Execute custom commands on servers
-router.post("/execute-command", authenticateToken, async (req, res) => {
-    try {
-        // format : command:service::params
-        const QUICKS_COMMANDS_MAP = {
-            "esc/shutdown:lite": () => {
-                return [
-                    `screen -S ${SSHService.LITE_SCREEN_NAME} -X stuff $'\\x1b'`,
-                ];
-            },
-            "f8/savesnapshot:lite": () => {
-                return [
-                    `screen -S ${SSHService.LITE_SCREEN_NAME} -X stuff $'\\x1b[19~'`,
-                ];
-            },
-            "f10/clearmemory:lite": () => {
-                return [
-                    `screen -S ${SSHService.LITE_SCREEN_NAME} -X stuff $'\\x1b[21~'`,
-                ];
-            },
-            "f11/staticmode:lite": () => {
-                return [
-                    `screen -S ${SSHService.LITE_SCREEN_NAME} -X stuff $'\\x1b[23~'`,
-                ];
-            },
-            "f12/changemode:lite": () => {
-                return [
-                    `screen -S ${SSHService.LITE_SCREEN_NAME} -X stuff $'\\x1b[24~'`,
-                ];
-            },
-            "placebinary:bob": (url: string) => {
-                if (!url || !url.startsWith("http")) {
-                    throw new Error("Invalid URL for binary");
+                        let params: string[] =
+                            placeBinaryParams ||
+                            command.split("::")[1]?.split(",") ||
+                            [];
+
+                        // @ts-ignore
+                        commandsToBeExecuted = cmdFunc(...params);
+                        break;
+                    }
                 }
-                return [
-                    `cd ~/qbob/`,
-                    `rm -rf bob`,
-                    `wget ${url}`,
-                    `chmod +x $(basename ${url})`,
-                ];
-            },
-            "placebinary:lite": (url: string) => {
-                if (!url || !url.startsWith("http")) {
-                    throw new Error("Invalid URL for binary");
+                if (commandsToBeExecuted.length === 0) {
+                    commandsToBeExecuted = [command];
                 }
-                return [
-                    `cd ~/qlite/`,
-                    // Remove the previous binary tracked in binary_name.txt so we
-                    // don't accumulate dead files. Don't fail if it isn't there.
-                    `OLD_BINARY=$(cat binary_name.txt 2>/dev/null || echo "")`,
-                    `[ -n "$OLD_BINARY" ] && rm -f "$OLD_BINARY" || true`,
-                    // -O so a re-deploy overwrites in place instead of letting
-                    // wget save Qubic.1 (lite releases all reuse the name "Qubic",
-                    // which would then mismatch binary_name.txt and run the old file).
-                    `wget -O "$(basename ${url})" ${url}`,
-                    `chmod +x $(basename ${url})`,
-                    // Persist the new binary name so the restart command picks it up.
-                    `basename ${url} > binary_name.txt`,
-                ];
-            },
-            "restartkeydb:bob": () => {
-                return [
-                    `while pgrep -x keydb-server >/dev/null; do { echo "Waiting for keydb to be shutdown..."; sleep 1; pkill -2 keydb-server || true; }; done`,
-                    `for s in $(screen -ls | awk '/keydb/ {print $1}'); do screen -S "$s" -X quit || true; done`,
-                    `screen -dmS keydb bash -lc "keydb-server /etc/keydb-runtime.conf || exec bash"`,
-                    `until [[ "$(keydb-cli ping 2>/dev/null)" == "PONG" ]]; do { echo "Waiting for keydb..."; sleep 1; }; done`,
-                ];
-            },
-            "restartkvrocks:bob": () => {
-                return [
-                    `while pgrep -x kvrocks >/dev/null; do { echo "Waiting for kvrocks to be shutdown..."; sleep 1; pkill -2 kvrocks || true; }; done`,
-                    `for s in $(screen -ls | awk '/kvrocks/ {print $1}'); do screen -S "$s" -X quit || true; done`,
-                    `screen -dmS kvrocks bash -lc "kvrocks -c /etc/kvrocks-runtime.conf || exec bash"`,
-                    `until [[ "$(keydb-cli -h 127.0.0.1 -p 6666 ping 2>/dev/null)" == "PONG" ]]; do { echo "Waiting for kvrocks..."; sleep 1; }; done`,
-                ];
-            },
-        };
+            }
+            // ttyd install/uninstall are built in and gated by ttyd-access.
+            let approval = isTtydCommand
+                ? null
+                : await checkCommandPolicies(
+                      req,
+                      res,
+                      servers.map((host) => ({
+                          host,
+                          commands: commandsToBeExecuted,
+                      }))
+                  );
+            if (approval === false) return;
 
-        let operator = req.user?.username;
-        let command = req.body.command as string;
-        let servers = req.body.servers as string[];
-        if (!operator) {
-            res.status(400).json({ error: "No operator found" });
-            return;
-        }
-        if (!command || !servers) {
-            res.status(400).json({
-                error: "Missing command or servers",
+            let currentUUID = uuidv4();
+            await Mongodb.getCommandLogsCollection().insertOne({
+                operator: operator,
+                servers: servers,
+                command: command,
+                stdout: "",
+                stderr: "",
+                timestamp: Date.now(),
+                status: approval ? "awaiting-approval" : "pending",
+                uuid: currentUUID,
+                isStandardCommand: false,
+                duration: 0,
+                ...(approval ? { approval } : {}),
             });
-            return;
-        }
-
-        let serverDocs = (
-            await Mongodb.getServersCollection()
-                .find({
-                    server: { $in: servers },
-                })
-                .toArray()
-        ).filter(
-            (s) => s.username && s.username.length > 0 && s.status === "active"
-        );
-        servers = serverDocs.map((s) => s.server);
-
-        if (serverDocs.length === 0) {
-            res.status(404).json({
-                error: "No matching servers found in the database",
+            await AuditService.recordRequest(req, {
+                action: "command.execute",
+                target: servers.join(","),
+                details: {
+                    command,
+                    commandLogUuid: currentUUID,
+                    ...(approval
+                        ? { awaitingApproval: approval.policies }
+                        : {}),
+                },
             });
-            return;
-        }
-
-        let currentUUID = uuidv4();
-        await Mongodb.getCommandLogsCollection().insertOne({
-            operator: operator,
-            servers: servers,
-            command: command,
-            stdout: "",
-            stderr: "",
-            timestamp: Date.now(),
-            status: "pending",
-            uuid: currentUUID,
-            isStandardCommand: false,
-            duration: 0,
-        });
+            if (approval) {
+                sendAwaitingApproval(res, currentUUID, approval);
+                return;
+            }
 
-        const databaseUpdater = async ({
-            server,
-            stdout,
-            stderr,
-            status,
-            duration,
-        }: {
-            server: string;
-            stdout: string;
-            stderr: string;
-            status: MongoDbTypes.CommandStatus;
-            duration: number;
-        }) => {
-            await Mongodb.getCommandLogsCollection()
-                .updateOne({ uuid: currentUUID }, [
-                    {
-                        $set: {
-                            stdout: {
-                                $concat: [
-                                    {
-                                        $ifNull: ["$stdout", ""],
-                                    },
-                                    "\n",
-                                    `---------- Command output for ${server} (${millisToSeconds(
-                                        duration
-                                    )}s) ----------- \n\n`,
-                                    {
-                                        $literal: stdout,
-                                    },
-                                ],
-                            },
-                            stderr: {
-                                $concat: [
-                                    {
-                                        $ifNull: ["$stderr", ""],
-                                    },
-                                    "\n",
-                                    `---------- Command error for ${server} (${millisToSeconds(
-                                        duration
-                                    )}s) ----------- \n\n`,
-                                    {
-                                        $literal: stderr,
-                                    },
-                                ],
+            let perServerCommands: { [server: string]: string[] } = {};
+            if (command === "installttyd:server") {
+                for (let s of serverDocs) {
+                    const token = crypto.randomBytes(24).toString("hex");
+                    await Mongodb.getServersCollection().updateOne(
+                        { server: s.server },
+                        {
+                            $set: {
+                                ttyd: {
+                                    token,
+                                    port: TTYD_PORT,
+                                },
                             },
-                            status: status,
-                        },
-                    },
-                ])
-                .then()
-                .catch((error) => {
-                    logger.error(
-                        `Error updating command log: ${
-                            (error as Error).message
-                        }`
-                    );
-                });
-
-            // Increase duration
-            await Mongodb.getCommandLogsCollection()
-                .updateOne(
-                    { uuid: currentUUID },
-                    {
-                        $inc: { duration: duration },
-                    }
-                )
-                .then()
-                .catch((error) => {
-                    logger.error(
-                        `Error updating command log duration: ${
-                            (error as Error).message
-                        }`
+                        }
                     );
-                });
-        };
-        const updateCommandLogStatus = (status: MongoDbTypes.CommandStatus) => {
-            Mongodb.getCommandLogsCollection()
-                .updateOne(
-                    { uuid: currentUUID },
-                    {
-                        $set: { status: status },
-                    }
-                )
-                .then()
-                .catch((error) => {
-                    logger.error(
-                        `Error updating command log status: ${
-                            (error as Error).message
-                        }`
+                    perServerCommands[s.server] = buildTtydInstallCommands(
+                        token,
+                        s.server
                     );
-                });
-        };
-        const setCommandLogErrorMessage = (errorMessage: string) => {
-            Mongodb.getCommandLogsCollection()
-                .updateOne({ uuid: currentUUID }, { $set: { errorMessage } })
-                .then()
-                .catch(() => {});
-        };
-        const addErrorServersToCommandLog = async (errorServers: string[]) => {
-            Mongodb.getCommandLogsCollection()
-                .updateOne(
-                    { uuid: currentUUID },
-                    {
-                        $addToSet: {
-                            errorServers: { $each: errorServers },
-                        },
-                    }
-                )
-                .then()
-                .catch((error) => {
-                    logger.error(
-                        `Error adding error servers to command log: ${
-                            (error as Error).message
-                        }`
+                }
+            } else if (command === "uninstallttyd:server") {
+                for (let s of serverDocs) {
+                    await Mongodb.getServersCollection().updateOne(
+                        { server: s.server },
+                        { $unset: { ttyd: "" } }
                     );
-                });
-        };
-
-        let commandsToBeExecuted: string[] = [];
-        let perServerCommands: { [server: string]: string[] } = {};
-        if (command === "installttyd:server") {
-            for (let s of serverDocs) {
-                const token = crypto.randomBytes(24).toString("hex");
-                await Mongodb.getServersCollection().updateOne(
-                    { server: s.server },
-                    {
-                        $set: {
-                            ttyd: {
-                                token,
-                                port: TTYD_PORT,
-                            },
-                        },
-                    }
-                );
-                perServerCommands[s.server] = buildTtydInstallCommands(
-                    token,
-                    s.server
-                );
-            }
-        } else if (command === "uninstallttyd:server") {
-            for (let s of serverDocs) {
-                await Mongodb.getServersCollection().updateOne(
-                    { server: s.server },
-                    { $unset: { ttyd: "" } }
-                );
-                perServerCommands[s.server] = buildTtydUninstallCommands();
-            }
-        } else {
-            for (let cmdKey in QUICKS_COMMANDS_MAP) {
-                if (command.startsWith(cmdKey)) {
-                    let cmdFunc =
-                        QUICKS_COMMANDS_MAP[
-                            cmdKey as keyof typeof QUICKS_COMMANDS_MAP
-                        ];
-
-                    let params: string[] =
-                        command.split("::")[1]?.split(",") || [];
-
-                    // @ts-ignore
-                    commandsToBeExecuted = cmdFunc(...params);
-                    break;
+                    perServerCommands[s.server] = buildTtydUninstallCommands();
                 }
             }
-            if (commandsToBeExecuted.length === 0) {
-                commandsToBeExecuted = [command];
-            }
-        }
-        console.log("Commands to be executed:", commandsToBeExecuted);
-
-        let commandsExecuted = 0;
-        let haveAtleastOneError = false;
-        let errorServersList: string[] = [];
-        for (let serverObject of serverDocs) {
-            const cmds =
-                perServerCommands[serverObject.server] ?? commandsToBeExecuted;
-            SSHService.executeCommands(
-                serverObject.server,
-                serverObject.username,
-                serverObject.password,
-                cmds,
-                30_000,
-                {
-                    sshPrivateKey: serverObject.sshPrivateKey,
-                }
-            )
-                .then((result) => {
-                    commandsExecuted++;
-                    let isAllDone = commandsExecuted === serverDocs.length;
-                    if (result.isSuccess) {
-                        databaseUpdater({
-                            server: serverObject.server,
-                            stdout: Object.values(result.stdouts).join("\n"),
-                            stderr: Object.values(result.stderrs).join("\n"),
-                            status: isAllDone ? "completed" : "pending",
-                            duration: result.duration,
-                        });
-                    } else {
-                        haveAtleastOneError = true;
-                        errorServersList.push(serverObject.server);
-                        const reason =
-                            result.errorMessage ||
-                            `Command failed on ${serverObject.server}`;
-                        databaseUpdater({
-                            server: serverObject.server,
-                            stdout: Object.values(result.stdouts).join("\n"),
-                            stderr:
-                                `⛔ ${reason}\n` +
-                                Object.values(result.stderrs).join("\n"),
-                            status: isAllDone ? "failed" : "pending",
-                            duration: result.duration,
-                        });
-                        setCommandLogErrorMessage(reason);
-                    }
-                    return result;
-                })
-                .then(() => {
-                    // If all done, update the main command log status
-                    if (commandsExecuted === serverDocs.length) {
-                        updateCommandLogStatus(
-                            haveAtleastOneError ? "failed" : "completed"
-                        );
-                        if (haveAtleastOneError) {
-                            addErrorServersToCommandLog(errorServersList);
-                        }
-                    }
-                })
-                // never reached (just there for future)
-                .catch((error) => {
-                    haveAtleastOneError = true;
-                    commandsExecuted++;
-                    let isAllDone = commandsExecuted === serverDocs.length;
-                    databaseUpdater({
-                        server: serverObject.server,
-                        stdout: (error as Error).message,
-                        stderr: (error as Error).message,
-                        status: isAllDone ? "failed" : "pending",
-                        duration: 0,
-                    });
-                });
-        }
-
-        res.json({
-            message: "Command execution initiated",
-        });
-    } catch (error) {
-        logger.error(`Error executing command: ${(error as Error).message}`);
-        res.status(500).json({
-            error: "Failed to execute command " + error,
-        });
-    }
-});
+            console.log("Commands to be executed:", commandsToBeExecuted);
 
-// GET /shortcut-commands - Get shortcut commands for the current operator
-router.get("/shortcut-commands", authenticateToken, async (req, res) => {
-    try {
-        let operator = req.user?.username;
-        if (!operator) {
-            res.status(400).json({ error: "No operator found" });
-            return;
-        }
-        let commands = await Mongodb.getShortcutCommandsCollection()
-            .find({
-                operator: operator,
-            })
-            .project({ _id: 0 })
-            .toArray();
-        res.json({ commands });
-    } catch (error) {
-        logger.error(
-            `Error fetching shortcut commands: ${(error as Error).message}`
-        );
-        res.status(500).json({
-            error: "Failed to fetch shortcut commands " + error,
-        });
-    }
-});
+            let jobs = await SshJobs.enqueueCommands(
+                serverDocs.map((serverObject) => ({
+                    host: serverObject.server,
+                    commands:
+                        perServerCommands[serverObject.server] ??
+                        commandsToBeExecuted,
+                })),
+                operator,
+                currentUUID
+            );
 
-// POST /add-shortcut-command - Add a new shortcut command
-router.post("/add-shortcut-command", authenticateToken, async (req, res) => {
-    try {
-        let operator = req.user?.username;
-        let name = req.body.name as string;
-        let command = req.body.command as string;
-        if (!operator) {
-            res.status(400).json({ error: "No operator found" });
-            return;
-        }
-        if (!name || !command) {
-            res.status(400).json({
-                error: "Name and command are required",
+            res.json({
+                message: "Command execution initiated",
+                jobIds: jobs.map((job) => job._id),
+            });
+        } catch (error) {
+            logger.error(
+                `Error executing command: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to execute command " + error,
             });
-            return;
         }
-
-        await Mongodb.getShortcutCommandsCollection().insertOne({
-            operator: operator,
-            name: name,
-            command: command,
-        });
-
-        res.json({
-            message: "Shortcut command added successfully",
-        });
-    } catch (error) {
-        logger.error(
-            `Error adding shortcut command: ${(error as Error).message}`
-        );
-        res.status(500).json({
-            error: "Failed to add shortcut command " + error,
-        });
     }
-});
+);
 
-// DELETE /delete-shortcut-command - Delete a shortcut command
-router.delete(
-    "/delete-shortcut-command",
+// Cancelling or retrying a job takes the permission that queueing it took.
+const JOB_KIND_PERMISSION: Record<MongoDbTypes.SshJobKind, Rbac.Permission> = {
+    command: "execute-command",
+    service: "deploy",
+    deploy: "deploy",
+    setup: "manage-servers",
+    "rotate-key": "manage-servers",
+};
+// Routes that check the exact permission per job still need one of these.
+const JOB_PERMISSIONS = [...new Set(Object.values(JOB_KIND_PERMISSION))];
+
+// POST /cancel-command - Stop a pending /command, /execute-command or /deploy
+// by its command log uuid, on whichever instances run its jobs, or withdraw
+// one awaiting approval
+router.post(
+    "/cancel-command",
     authenticateToken,
+    requireAnyPermission(...JOB_PERMISSIONS),
     async (req, res) => {
         try {
             let operator = req.user?.username;
-            let name = req.body.name as string;
+            let uuid = req.body.uuid as string;
             if (!operator) {
                 res.status(400).json({ error: "No operator found" });
                 return;
             }
-            if (!name) {
+            if (!uuid) {
+                res.status(400).json({ error: "No uuid specified" });
+                return;
+            }
+            let scope = Rbac.operatorScope(req.user);
+            let commandLog = await Mongodb.getCommandLogsCollection().findOne({
+                uuid,
+                operator: scope,
+            });
+            if (!commandLog) {
+                res.status(404).json({ error: "Command log not found" });
+                return;
+            }
+            // Nothing was queued yet: the requester just takes it back.
+            if (commandLog.status === "awaiting-approval") {
+                let withdrawn = await CommandPolicyService.withdraw(
+                    uuid,
+                    operator
+                );
+                if (!withdrawn) {
+                    res.status(409).json({
+                        error: "Command was already decided",
+                    });
+                    return;
+                }
+                await AuditService.recordRequest(req, {
+                    action: "command.cancel",
+                    target: uuid,
+                    details: {
+                        command: commandLog.command,
+                        awaitingApproval: true,
+                    },
+                });
+                res.json({ message: "Command cancelled", jobs: [] });
+                return;
+            }
+            if (commandLog.status !== "pending") {
+                res.status(409).json({
+                    error: `Command is already ${commandLog.status}`,
+                });
+                return;
+            }
+            let kinds: MongoDbTypes.SshJobKind[] =
+                await Mongodb.getSshJobsCollection().distinct("kind", {
+                    commandLogUuid: uuid,
+                    status: { $in: ["queued", "running"] },
+                });
+            for (let kind of kinds) {
+                let permission = JOB_KIND_PERMISSION[kind];
+                if (!Rbac.hasPermission(req.user?.role, permission)) {
+                    res.status(403).json({
+                        error: `Permission required: ${permission}`,
+                    });
+                    return;
+                }
+            }
+            let result = await SshJobs.cancelCommandLog(uuid, scope, operator);
+            if (!result) {
+                res.status(409).json({ error: "Command already finished" });
+                return;
+            }
+            await AuditService.recordRequest(req, {
+                action: "command.cancel",
+                target: uuid,
+                details: {
+                    command: commandLog.command,
+                    jobIds: result.jobs.map((job) => job._id),
+                },
+            });
+            res.json({
+                message: "Command cancelled",
+                jobs: result.jobs.map(JobQueue.toPublicJob),
+            });
+        } catch (error) {
+            logger.error(
+                `Error cancelling command: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to cancel command " + error,
+            });
+        }
+    }
+);
+
+// POST /retry-failed-hosts - Re-run a finished command log on the servers it
+// failed on, as a new command log. Each server repeats its last job (same
+// commands, service action or deploy); servers whose job has already
+// expired from ssh_jobs, or that are gone or inactive, are skipped.
+router.post(
+    "/retry-failed-hosts",
+    authenticateToken,
+    requireAnyPermission("execute-command", "deploy"),
+    async (req, res) => {
+        try {
+            let operator = req.user?.username;
+            let uuid = req.body.uuid as string;
+            if (!operator) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            if (!uuid) {
+                res.status(400).json({ error: "No uuid specified" });
+                return;
+            }
+            let commandLog = await Mongodb.getCommandLogsCollection().findOne({
+                uuid,
+                operator,
+            });
+            if (!commandLog) {
+                res.status(404).json({ error: "Command log not found" });
+                return;
+            }
+            if (
+                commandLog.status === "pending" ||
+                commandLog.status === "awaiting-approval"
+            ) {
+                res.status(409).json({ error: "Command is still running" });
+                return;
+            }
+            // Logs from before per-server results only have errorServers.
+            let failedServers = [
+                ...new Set([
+                    ...(commandLog.errorServers ?? []),
+                    ...(commandLog.results ?? [])
+                        .filter((result) => result.status === "failed")
+                        .map((result) => result.server),
+                ]),
+            ];
+            if (failedServers.length === 0) {
+                res.status(400).json({ error: "No failed servers to retry" });
+                return;
+            }
+
+            let lastJobs = new Map<string, MongoDbTypes.SshJob>();
+            for (let job of await Mongodb.getSshJobsCollection()
+                .find({
+                    commandLogUuid: uuid,
+                    host: { $in: failedServers },
+                    kind: { $in: ["command", "service", "deploy"] },
+                })
+                .sort({ createdAt: 1 })
+                .toArray()) {
+                lastJobs.set(job.host, job);
+            }
+            let activeServers = new Set(
+                (
+                    await Mongodb.getServersCollection()
+                        .find({
+                            server: { $in: failedServers },
+                            operator: Rbac.operatorScope(req.user),
+                        })
+                        .toArray()
+                )
+                    .filter(
+                        (s) =>
+                            s.username &&
+                            s.username.length > 0 &&
+                            s.status === "active"
+                    )
+                    .map((s) => s.server)
+            );
+            let retryJobs = [...lastJobs.values()].filter((job) =>
+                activeServers.has(job.host)
+            );
+            if (retryJobs.length === 0) {
+                res.status(409).json({
+                    error: "None of the failed servers can be retried (servers gone or inactive, or their jobs expired)",
+                });
+                return;
+            }
+            for (let job of retryJobs) {
+                let permission = JOB_KIND_PERMISSION[job.kind];
+                if (!Rbac.hasPermission(req.user?.role, permission)) {
+                    res.status(403).json({
+                        error: `Permission required: ${permission}`,
+                    });
+                    return;
+                }
+            }
+            let servers = retryJobs.map((job) => job.host);
+            let skipped = failedServers.filter((s) => !servers.includes(s));
+
+            // Shell is checked against today's policies. A retry of an approved
+            // run repeats what was approved, on fewer servers, so it isn't held
+            // again.
+            let shellTargets = retryJobs
+                .filter((job) => job.kind === "command")
+                .map((job) => ({
+                    host: job.host,
+                    commands: (job.payload as unknown as SshJobs.CommandPayload)
+                        .commands,
+                }));
+            let approval =
+                shellTargets.length > 0
+                    ? await checkCommandPolicies(req, res, shellTargets)
+                    : null;
+            if (approval === false) return;
+            if (commandLog.approval?.status === "approved") approval = null;
+
+            let currentUUID = uuidv4();
+            await Mongodb.getCommandLogsCollection().insertOne({
+                operator: operator,
+                servers: servers,
+                command: commandLog.command,
+                stdout: "",
+                stderr: "",
+                timestamp: Date.now(),
+                status: approval ? "awaiting-approval" : "pending",
+                uuid: currentUUID,
+                isStandardCommand: commandLog.isStandardCommand,
+                duration: 0,
+                retryOf: uuid,
+                ...(approval ? { approval } : {}),
+            });
+            await AuditService.recordRequest(req, {
+                action: "command.retry",
+                target: servers.join(","),
+                details: {
+                    command: commandLog.command,
+                    retryOf: uuid,
+                    commandLogUuid: currentUUID,
+                    skipped,
+                    ...(approval
+                        ? { awaitingApproval: approval.policies }
+                        : {}),
+                },
+            });
+            if (approval) {
+                sendAwaitingApproval(res, currentUUID, approval);
+                return;
+            }
+            let jobs = await JobQueue.enqueueMany(
+                retryJobs.map((job) => ({
+                    kind: job.kind,
+                    host: job.host,
+                    operator,
+                    payload: job.payload,
+                    // Deploy seeds and passcodes, sealed again.
+                    ...(job.sealedPayload
+                        ? { secret: JobQueue.revealSecret<unknown>(job) }
+                        : {}),
+                    priority: job.priority,
+                    commandLogUuid: currentUUID,
+                }))
+            );
+
+            res.json({
+                message: "Retry initiated",
+                commandLogUuid: currentUUID,
+                jobIds: jobs.map((job) => job._id),
+                skipped,
+            });
+        } catch (error) {
+            logger.error(
+                `Error retrying failed hosts: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to retry failed hosts " + error,
+            });
+        }
+    }
+);
+
+// GET /ssh-jobs?status=&host=&commandLogUuid=&limit= - Queued and recent SSH jobs
+router.get("/ssh-jobs", authenticateToken, async (req, res) => {
+    try {
+        let operator = req.user?.username;
+        if (!operator) {
+            res.status(400).json({ error: "No operator found" });
+            return;
+        }
+        let status = req.query.status as MongoDbTypes.SshJobStatus | undefined;
+        let host = req.query.host as string | undefined;
+        let commandLogUuid = req.query.commandLogUuid as string | undefined;
+        let limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+        let jobs = await Mongodb.getSshJobsCollection()
+            .find(
+                {
+                    operator: Rbac.operatorScope(req.user, "read"),
+                    ...(status ? { status } : {}),
+                    ...(host ? { host } : {}),
+                    ...(commandLogUuid ? { commandLogUuid } : {}),
+                },
+                { projection: { sealedPayload: 0, expiresAt: 0 } }
+            )
+            .sort({ createdAt: -1 })
+            .limit(limit)
+            .toArray();
+        res.json({ jobs });
+    } catch (error) {
+        logger.error(`Error fetching SSH jobs: ${(error as Error).message}`);
+        res.status(500).json({
+            error: "Failed to fetch SSH jobs " + error,
+        });
+    }
+});
+
+// POST /ssh-jobs/cancel - Cancel a queued job, or stop a running one from retrying
+router.post(
+    "/ssh-jobs/cancel",
+    authenticateToken,
+    requireAnyPermission(...JOB_PERMISSIONS),
+    async (req, res) => {
+        try {
+            let operator = req.user?.username;
+            let jobId = req.body.jobId as string;
+            if (!operator) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            if (!jobId) {
+                res.status(400).json({ error: "jobId is required" });
+                return;
+            }
+            let scope = Rbac.operatorScope(req.user);
+            let existing = await Mongodb.getSshJobsCollection().findOne(
+                { _id: jobId, operator: scope },
+                { projection: { kind: 1 } }
+            );
+            if (!existing) {
+                res.status(404).json({ error: "Job not found" });
+                return;
+            }
+            let permission = JOB_KIND_PERMISSION[existing.kind];
+            if (!Rbac.hasPermission(req.user?.role, permission)) {
+                res.status(403).json({
+                    error: `Permission required: ${permission}`,
+                });
+                return;
+            }
+            let result = await JobQueue.cancel(jobId, scope, operator);
+            if ("error" in result) {
+                res.status(result.status).json({ error: result.error });
+                return;
+            }
+            await AuditService.recordRequest(req, {
+                action: "ssh-job.cancel",
+                target: jobId,
+                details: {
+                    kind: result.job.kind,
+                    host: result.job.host,
+                    status: result.job.status,
+                },
+            });
+            res.json({ job: JobQueue.toPublicJob(result.job) });
+        } catch (error) {
+            logger.error(
+                `Error cancelling SSH job: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to cancel SSH job " + error,
+            });
+        }
+    }
+);
+
+const SHORTCUT_VISIBILITIES: MongoDbTypes.ShortcutVisibility[] = [
+    "private",
+    "shared",
+    "team",
+];
+
+// Shortcuts `username` owns or that are shared with them.
+function visibleShortcuts(
+    username: string
+): Filter<MongoDbTypes.ShortcutCommand> {
+    return {
+        $or: [
+            { operator: username },
+            { visibility: "team" },
+            { visibility: "shared", sharedWith: username },
+        ],
+    };
+}
+
+type ShortcutDefinition = Pick<
+    MongoDbTypes.ShortcutCommand,
+    "command" | "description" | "params" | "visibility" | "sharedWith"
+>;
+
+// Validate the editable part of a shortcut from a request body.
+async function parseShortcutDefinition(
+    input: unknown,
+    operator: string
+): Promise<{ definition: ShortcutDefinition } | { error: string }> {
+    if (typeof input !== "object" || input === null) {
+        return { error: "Command is required" };
+    }
+    let body = input as Record<string, unknown>;
+    let command = body.command;
+    if (typeof command !== "string" || !command.trim()) {
+        return { error: "Command is required" };
+    }
+    let parsed = ShortcutTemplate.parseParams(body.params, command);
+    if ("error" in parsed) return parsed;
+    let visibility = (body.visibility ??
+        "private") as MongoDbTypes.ShortcutVisibility;
+    if (!SHORTCUT_VISIBILITIES.includes(visibility)) {
+        return {
+            error: `visibility must be one of: ${SHORTCUT_VISIBILITIES.join(
+                ", "
+            )}`,
+        };
+    }
+    let sharedWith: string[] = [];
+    if (visibility === "shared") {
+        if (
+            !Array.isArray(body.sharedWith) ||
+            !body.sharedWith.every((u) => typeof u === "string")
+        ) {
+            return { error: "sharedWith must be a list of usernames" };
+        }
+        sharedWith = [
+            ...new Set<string>(body.sharedWith as string[]),
+        ].filter((username) => username !== operator);
+        let known = await Mongodb.getUsersCollection().distinct("username", {
+            username: { $in: sharedWith },
+        });
+        let unknown = sharedWith.filter((u) => !known.includes(u));
+        if (unknown.length > 0) {
+            return { error: `Unknown operators: ${unknown.join(", ")}` };
+        }
+    }
+    return {
+        definition: {
+            command,
+            ...(typeof body.description === "string" && body.description
+                ? { description: body.description }
+                : {}),
+            params: parsed.params,
+            visibility,
+            ...(visibility === "shared" ? { sharedWith } : {}),
+        },
+    };
+}
+
+async function saveShortcutVersion(
+    shortcut: MongoDbTypes.ShortcutCommand,
+    editedBy: string
+) {
+    await Mongodb.getShortcutCommandVersionsCollection().insertOne({
+        operator: shortcut.operator,
+        name: shortcut.name,
+        version: shortcut.version ?? 1,
+        command: shortcut.command,
+        ...(shortcut.description ? { description: shortcut.description } : {}),
+        params: shortcut.params ?? [],
+        editedBy,
+        createdAt: Date.now(),
+    });
+}
+
+// GET /shortcut-commands - Shortcuts the operator owns or that are shared
+// with them (`operator` is the owner)
+router.get("/shortcut-commands", authenticateToken, async (req, res) => {
+    try {
+        let operator = req.user?.username;
+        if (!operator) {
+            res.status(400).json({ error: "No operator found" });
+            return;
+        }
+        let commands = await Mongodb.getShortcutCommandsCollection()
+            .find(visibleShortcuts(operator))
+            .sort({ name: 1 })
+            .project({ _id: 0 })
+            .toArray();
+        res.json({
+            commands,
+            serverFields: ShortcutTemplate.SERVER_FIELD_NAMES,
+        });
+    } catch (error) {
+        logger.error(
+            `Error fetching shortcut commands: ${(error as Error).message}`
+        );
+        res.status(500).json({
+            error: "Failed to fetch shortcut commands " + error,
+        });
+    }
+});
+
+// POST /add-shortcut-command - Add a new shortcut command
+// { name, command, description?, params?, visibility?, sharedWith? }
+router.post(
+    "/add-shortcut-command",
+    authenticateToken,
+    requirePermission("execute-command"),
+    async (req, res) => {
+        try {
+            let operator = req.user?.username;
+            let name = req.body.name as string;
+            if (!operator) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            if (!name || !req.body.command) {
                 res.status(400).json({
-                    error: "Name is required",
+                    error: "Name and command are required",
+                });
+                return;
+            }
+            let parsed = await parseShortcutDefinition(req.body, operator);
+            if ("error" in parsed) {
+                res.status(400).json({ error: parsed.error });
+                return;
+            }
+            if (
+                await Mongodb.getShortcutCommandsCollection().findOne({
+                    operator,
+                    name,
+                })
+            ) {
+                res.status(409).json({
+                    error: `Shortcut command ${name} already exists`,
                 });
                 return;
             }
 
-            await Mongodb.getShortcutCommandsCollection().deleteOne({
+            let now = Date.now();
+            let shortcut: MongoDbTypes.ShortcutCommand = {
                 operator: operator,
                 name: name,
+                ...parsed.definition,
+                version: 1,
+                updatedBy: operator,
+                createdAt: now,
+                updatedAt: now,
+            };
+            await Mongodb.getShortcutCommandsCollection().insertOne(shortcut);
+            await saveShortcutVersion(shortcut, operator);
+            await AuditService.recordRequest(req, {
+                action: "shortcut.create",
+                target: name,
+                after: { name, ...parsed.definition },
+            });
+
+            res.json({
+                message: "Shortcut command added successfully",
+            });
+        } catch (error) {
+            logger.error(
+                `Error adding shortcut command: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to add shortcut command " + error,
+            });
+        }
+    }
+);
+
+// POST /update-shortcut-command - Edit an owned shortcut; saves a new version
+router.post(
+    "/update-shortcut-command",
+    authenticateToken,
+    requirePermission("execute-command"),
+    async (req, res) => {
+        try {
+            let operator = req.user?.username;
+            let name = req.body.name as string;
+            if (!operator) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            if (!name) {
+                res.status(400).json({ error: "Name is required" });
+                return;
+            }
+            let existing =
+                await Mongodb.getShortcutCommandsCollection().findOne({
+                    operator,
+                    name,
+                });
+            if (!existing) {
+                res.status(404).json({ error: "Shortcut command not found" });
+                return;
+            }
+            let parsed = await parseShortcutDefinition(req.body, operator);
+            if ("error" in parsed) {
+                res.status(400).json({ error: parsed.error });
+                return;
+            }
+
+            let version = (existing.version ?? 1) + 1;
+            // Fields the new definition dropped.
+            let unset: Record<string, ""> = {};
+            if (parsed.definition.description === undefined) {
+                unset.description = "";
+            }
+            if (parsed.definition.sharedWith === undefined)
+                unset.sharedWith = "";
+            let updated =
+                await Mongodb.getShortcutCommandsCollection().findOneAndUpdate(
+                    // Two edits racing: only one gets this version number.
+                    {
+                        operator,
+                        name,
+                        version: existing.version ?? { $exists: false },
+                    },
+                    {
+                        $set: {
+                            ...parsed.definition,
+                            version,
+                            updatedBy: operator,
+                            updatedAt: Date.now(),
+                        },
+                        ...(Object.keys(unset).length > 0
+                            ? { $unset: unset }
+                            : {}),
+                    },
+                    { returnDocument: "after" }
+                );
+            if (!updated) {
+                res.status(409).json({
+                    error: "Shortcut command was changed meanwhile, reload and retry",
+                });
+                return;
+            }
+            await saveShortcutVersion(updated, operator);
+            let { _id: _before, ...before } = existing;
+            let { _id: _after, ...after } = updated;
+            await AuditService.recordRequest(req, {
+                action: "shortcut.update",
+                target: name,
+                before,
+                after,
             });
 
+            res.json({
+                message: "Shortcut command updated successfully",
+                version,
+            });
+        } catch (error) {
+            logger.error(
+                `Error updating shortcut command: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to update shortcut command " + error,
+            });
+        }
+    }
+);
+
+// GET /shortcut-command-versions?name=&owner= - Saved versions, newest first
+router.get(
+    "/shortcut-command-versions",
+    authenticateToken,
+    async (req, res) => {
+        try {
+            let operator = req.user?.username;
+            let name = req.query.name as string;
+            let owner = req.query.owner as string | undefined;
+            if (!operator) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            if (!name) {
+                res.status(400).json({ error: "Name is required" });
+                return;
+            }
+            let shortcut =
+                await Mongodb.getShortcutCommandsCollection().findOne({
+                    operator: owner || operator,
+                    name,
+                    ...visibleShortcuts(operator),
+                });
+            if (!shortcut) {
+                res.status(404).json({ error: "Shortcut command not found" });
+                return;
+            }
+            let versions = await Mongodb.getShortcutCommandVersionsCollection()
+                .find({ operator: shortcut.operator, name })
+                .sort({ version: -1 })
+                .project({ _id: 0 })
+                .toArray();
+            res.json({ versions });
+        } catch (error) {
+            logger.error(
+                `Error fetching shortcut command versions: ${
+                    (error as Error).message
+                }`
+            );
+            res.status(500).json({
+                error: "Failed to fetch shortcut command versions " + error,
+            });
+        }
+    }
+);
+
+// POST /run-shortcut-command - Render a shortcut per server and run it
+// { name, owner?, servers, params?, version? }
+router.post(
+    "/run-shortcut-command",
+    authenticateToken,
+    requirePermission("execute-command"),
+    async (req, res) => {
+        try {
+            let operator = req.user?.username;
+            let name = req.body.name as string;
+            let owner = req.body.owner as string | undefined;
+            let servers = req.body.servers as string[];
+            if (!operator) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            if (!name || !Array.isArray(servers)) {
+                res.status(400).json({ error: "Missing name or servers" });
+                return;
+            }
+            let shortcut =
+                await Mongodb.getShortcutCommandsCollection().findOne({
+                    operator: owner || operator,
+                    name,
+                    ...visibleShortcuts(operator),
+                });
+            if (!shortcut) {
+                res.status(404).json({ error: "Shortcut command not found" });
+                return;
+            }
+            // The caller filled in the form of the version it saw.
+            if (
+                req.body.version !== undefined &&
+                req.body.version !== (shortcut.version ?? 1)
+            ) {
+                res.status(409).json({
+                    error: "Shortcut command was changed meanwhile, reload and retry",
+                    version: shortcut.version ?? 1,
+                });
+                return;
+            }
+            let resolved = ShortcutTemplate.resolveValues(
+                shortcut.params ?? [],
+                req.body.params
+            );
+            if ("error" in resolved) {
+                res.status(400).json({ error: resolved.error });
+                return;
+            }
+
+            let serverDocs = (
+                await Mongodb.getServersCollection()
+                    .find({
+                        server: { $in: servers },
+                        operator: Rbac.operatorScope(req.user),
+                    })
+                    .toArray()
+            ).filter(
+                (s) =>
+                    s.username && s.username.length > 0 && s.status === "active"
+            );
+            if (serverDocs.length === 0) {
+                res.status(404).json({
+                    error: "No matching servers found in the database",
+                });
+                return;
+            }
+            // Render for every server before anything runs.
+            let targets: { host: string; commands: string[] }[] = [];
+            let errors: string[] = [];
+            for (let serverDoc of serverDocs) {
+                let rendered = ShortcutTemplate.render(
+                    shortcut.command,
+                    resolved.values,
+                    serverDoc
+                );
+                if ("error" in rendered) {
+                    errors.push(rendered.error);
+                } else {
+                    targets.push({
+                        host: serverDoc.server,
+                        commands: [rendered.command],
+                    });
+                }
+            }
+            if (errors.length > 0) {
+                res.status(400).json({ error: errors.join("; ") });
+                return;
+            }
+
+            let approval = await checkCommandPolicies(req, res, targets);
+            if (approval === false) return;
+
+            let version = shortcut.version ?? 1;
+            let currentUUID = uuidv4();
+            await Mongodb.getCommandLogsCollection().insertOne({
+                operator: operator,
+                servers: targets.map((target) => target.host),
+                command: `shortcut ${shortcut.operator}/${name} (v${version})`,
+                stdout: "",
+                stderr: "",
+                timestamp: Date.now(),
+                status: approval ? "awaiting-approval" : "pending",
+                uuid: currentUUID,
+                isStandardCommand: false,
+                duration: 0,
+                ...(approval ? { approval } : {}),
+            });
+            await AuditService.recordRequest(req, {
+                action: "shortcut.run",
+                target: targets.map((target) => target.host).join(","),
+                details: {
+                    shortcut: name,
+                    owner: shortcut.operator,
+                    version,
+                    params: resolved.values,
+                    commandLogUuid: currentUUID,
+                    ...(approval
+                        ? { awaitingApproval: approval.policies }
+                        : {}),
+                },
+            });
+            if (approval) {
+                sendAwaitingApproval(res, currentUUID, approval);
+                return;
+            }
+            let jobs = await SshJobs.enqueueCommands(
+                targets,
+                operator,
+                currentUUID
+            );
+
+            res.json({
+                message: "Command execution initiated",
+                commandLogUuid: currentUUID,
+                jobIds: jobs.map((job) => job._id),
+            });
+        } catch (error) {
+            logger.error(
+                `Error running shortcut command: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to run shortcut command " + error,
+            });
+        }
+    }
+);
+
+// DELETE /delete-shortcut-command - Delete a shortcut command and its versions
+router.delete(
+    "/delete-shortcut-command",
+    authenticateToken,
+    requirePermission("execute-command"),
+    async (req, res) => {
+        try {
+            let operator = req.user?.username;
+            let name = req.body.name as string;
+            if (!operator) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            if (!name) {
+                res.status(400).json({
+                    error: "Name is required",
+                });
+                return;
+            }
+
+            let removed =
+                await Mongodb.getShortcutCommandsCollection().findOneAndDelete(
+                    {
+                        operator: operator,
+                        name: name,
+                    }
+                );
+            if (removed) {
+                await Mongodb.getShortcutCommandVersionsCollection().deleteMany(
+                    { operator: operator, name: name }
+                );
+                await AuditService.recordRequest(req, {
+                    action: "shortcut.delete",
+                    target: name,
+                    before: removed,
+                    after: null,
+                });
+            }
+
             res.json({
                 message: "Shortcut command deleted successfully",
             });
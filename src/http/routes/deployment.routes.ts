@@ -1,17 +1,20 @@
 import express from "express";
 import { GithubService } from "../../services/github-service.js";
-import { NodeService } from "../../services/node-service.js";
 import { Mongodb, MongoDbTypes } from "../../database/db.js";
 import { logger } from "../../utils/logger.js";
 import { authenticateToken } from "../middleware/auth.middleware.js";
-import { SSHService } from "../../services/ssh-service.js";
+import { requirePermission } from "../middleware/rbac.middleware.js";
+import { Rbac } from "../../utils/rbac.js";
+import { AuditService } from "../../services/audit-service.js";
+import { DeploymentService } from "../../services/deployment-service.js";
+import { DeploymentHistoryService } from "../../services/deployment-history-service.js";
+import { DriftService } from "../../services/drift-service.js";
+import { ArtifactService } from "../../services/artifact-service.js";
+import { ArtifactCache } from "../../services/artifact-cache.js";
+import { DeploymentProfileService } from "../../services/deployment-profile-service.js";
+import { SshJobs } from "../../services/ssh-jobs.js";
 import { checkLink } from "../../utils/common.js";
-import { millisToSeconds } from "../../utils/time.js";
-import { calcGroupIdFromIds } from "../../utils/node.js";
-import {
-    getGlobalLiteCustomParameter,
-    mergeCustomParameter,
-} from "../../utils/custom-parameter.js";
+import { v4 as uuidv4 } from "uuid";
 
 const router = express.Router();
 
@@ -27,442 +30,897 @@ router.get("/github-tags", (req, res) => {
     res.json(tags);
 });
 
-router.post("/deploy", authenticateToken, async (req, res) => {
-    let servers: string[] = req.body.servers;
-    let service: MongoDbTypes.ServiceType = req.body.service;
-    let tag: string = req.body.tag;
-    // Optional specific binary asset of the release (e.g. avx2/avx512/arm).
-    // Falls back to the default binary name when omitted.
-    let binaryName: string | undefined = req.body.binaryName;
-    let operator: string | undefined = req.user?.username;
-    let extraData: {
-        epochFile?: string;
-        peers?: string[];
-        mainAuxStatus: number;
-        ids: string[];
-        ramMode: string;
-        bobConfig: object | undefined;
-        loggingPasscode: string;
-        operatorId: string;
-        keydbConfig?: string[];
-        kvrocksConfig?: string[];
-        keepOldConfig?: boolean;
-    } = req.body.extraData;
-
-    let binaryFileMap = {
-        liteNode: "Qubic",
-        bobNode: "bob",
-    };
-
-    if (!operator) {
-        res.status(400).json({
-            error: "No operator found",
-        });
-        return;
-    }
+router.post(
+    "/deploy",
+    authenticateToken,
+    requirePermission("deploy"),
+    async (req, res) => {
+        let servers: string[] = req.body.servers;
+        let service: MongoDbTypes.ServiceType = req.body.service;
+        let tag: string = req.body.tag;
+        // Optional specific binary asset of the release (e.g. avx2/avx512/arm).
+        // Falls back to the default binary name when omitted.
+        let binaryName: string | undefined = req.body.binaryName;
+        let operator: string | undefined = req.user?.username;
+        let extraData: DeploymentService.DeployExtraData = req.body.extraData;
+        // Optional staged rollout: deploy in waves with health gates.
+        let rolloutOptions: DeploymentService.RolloutOptions | undefined =
+            req.body.rollout;
 
-    let binaryUrl: string = "";
-    try {
-        if (
-            GithubService.getGithubTags(service)?.findIndex(
-                (t) => t.name.trim() === tag.trim()
-            ) === -1
-        ) {
-            if (tag.startsWith("http")) {
-                binaryUrl = tag;
-            } else {
-                throw new Error("Tag not found in GitHub releases");
+        let binaryFileMap = {
+            liteNode: "Qubic",
+            bobNode: "bob",
+        };
+
+        if (!operator) {
+            res.status(400).json({
+                error: "No operator found",
+            });
+            return;
+        }
+
+        // A saved profile stands in for extraData; fields of extraData sent
+        // with it override the profile for this deploy only.
+        let profile: MongoDbTypes.DeploymentProfileRef | undefined;
+        if (req.body.profile) {
+            try {
+                let resolved = await DeploymentProfileService.resolve(
+                    req.user,
+                    req.body.profile,
+                    service,
+                    req.body.extraData
+                );
+                if ("error" in resolved) {
+                    res.status(resolved.status).json({ error: resolved.error });
+                    return;
+                }
+                extraData = resolved.extraData;
+                profile = resolved.ref;
+            } catch (error) {
+                res.status(500).json({
+                    error: "Failed to load deployment profile " + error,
+                });
+                return;
             }
-        } else {
-            let chosenBinary =
-                binaryFileMap[service as keyof typeof binaryFileMap];
-            if (binaryName) {
-                // Only honor a caller-supplied binary if it is a real asset of
-                // this release (prevents arbitrary download-path injection).
-                let tagObj = GithubService.getGithubTags(service)?.find(
+        }
+
+        let binaryUrl: string = "";
+        // Asset of the tag's release being deployed; unset for a plain URL.
+        let releaseAsset: string | undefined;
+        try {
+            if (
+                GithubService.getGithubTags(service)?.findIndex(
                     (t) => t.name.trim() === tag.trim()
-                );
-                let assets = tagObj?.assets || [];
-                if (!assets.some((a) => a.name === binaryName)) {
-                    throw new Error(
-                        "Selected binary is not a valid asset of this release"
+                ) === -1
+            ) {
+                if (tag.startsWith("http")) {
+                    binaryUrl = tag;
+                } else {
+                    throw new Error("Tag not found in GitHub releases");
+                }
+            } else {
+                let chosenBinary =
+                    binaryFileMap[service as keyof typeof binaryFileMap];
+                if (binaryName) {
+                    // Only honor a caller-supplied binary if it is a real asset of
+                    // this release (prevents arbitrary download-path injection).
+                    let tagObj = GithubService.getGithubTags(service)?.find(
+                        (t) => t.name.trim() === tag.trim()
                     );
+                    let assets = tagObj?.assets || [];
+                    if (!assets.some((a) => a.name === binaryName)) {
+                        throw new Error(
+                            "Selected binary is not a valid asset of this release"
+                        );
+                    }
+                    chosenBinary = binaryName;
                 }
-                chosenBinary = binaryName;
+                releaseAsset = chosenBinary;
+                binaryUrl = GithubService.getDownloadUrlForTag(
+                    tag,
+                    chosenBinary,
+                    service
+                );
             }
-            binaryUrl = GithubService.getDownloadUrlForTag(
-                tag,
-                chosenBinary,
-                service
-            );
-        }
-    } catch (error) {
-        res.status(400).json({
-            error: (error as Error).message,
-        });
-        return;
-    }
-    // Validate input
-    if (!servers || !Array.isArray(servers) || servers.length === 0) {
-        res.status(400).json({
-            error: "Invalid or missing 'servers' in request body",
-        });
-        return;
-    }
-    if (
-        !service ||
-        !Object.values(MongoDbTypes.ServiceType).includes(service)
-    ) {
-        res.status(400).json({
-            error: "Invalid or missing 'service' in request body",
-        });
-        return;
-    }
-    if (!binaryUrl || typeof binaryUrl !== "string") {
-        res.status(400).json({
-            error: "Invalid or missing 'binaryUrl' in request body",
-        });
-        return;
-    }
-    if (service === MongoDbTypes.ServiceType.LiteNode) {
-        if (!extraData.epochFile || !extraData.peers) {
+        } catch (error) {
             res.status(400).json({
-                error: "Missing 'epochFile' or 'peers' in extraData for deployment",
+                error: (error as Error).message,
             });
             return;
         }
-
-        let isEpochFileValid = await checkLink(extraData.epochFile);
-        if (!isEpochFileValid) {
+        // Validate input
+        if (!servers || !Array.isArray(servers) || servers.length === 0) {
             res.status(400).json({
-                error: "The provided 'epochFile' URL is not accessible",
+                error: "Invalid or missing 'servers' in request body",
             });
             return;
         }
-    }
-
-    if (extraData.loggingPasscode) {
-        // check logging passcode format
-        let passcodeParts = extraData.loggingPasscode.split("-");
-        if (passcodeParts.length !== 4) {
-            res.status(400).json({
-                error: "Logging passcode must have 4 parts separated by '-'",
-            });
-        } else if (
-            passcodeParts.some((part) => {
-                let num = Number(part);
-                return isNaN(num);
-            })
+        if (
+            !service ||
+            !Object.values(MongoDbTypes.ServiceType).includes(service)
         ) {
             res.status(400).json({
-                error: "Each part of the logging passcode must be a valid number",
+                error: "Invalid or missing 'service' in request body",
             });
+            return;
         }
-    }
-
-    if (extraData.operatorId) {
-        if (extraData.operatorId.length !== 60) {
+        if (!binaryUrl || typeof binaryUrl !== "string") {
             res.status(400).json({
-                error: "Operator ID must be exactly 60 characters",
-            });
-        }
-    }
-
-    // Get server details from DB
-    let serverDocs: MongoDbTypes.Server[] = [];
-    try {
-        serverDocs = (
-            await Mongodb.getServersCollection()
-                .find({ server: { $in: servers } })
-                .toArray()
-        ).filter((s) => s.username && s.username.length > 0);
-
-        if (serverDocs.length === 0) {
-            res.status(404).json({
-                error: "No matching servers found in the database",
+                error: "Invalid or missing 'binaryUrl' in request body",
             });
             return;
         }
+        if (service === MongoDbTypes.ServiceType.LiteNode) {
+            if (!extraData.epochFile || !extraData.peers) {
+                res.status(400).json({
+                    error: "Missing 'epochFile' or 'peers' in extraData for deployment",
+                });
+                return;
+            }
 
-        for (let server of serverDocs) {
-            if (server.status !== "active") {
+            let isEpochFileValid = await checkLink(extraData.epochFile);
+            if (!isEpochFileValid) {
                 res.status(400).json({
-                    error: `Server ${server.server} is not active, please exclude it from deployment.`,
+                    error: "The provided 'epochFile' URL is not accessible",
                 });
                 return;
             }
         }
-    } catch (error) {
-        res.status(500).json({
-            error: "Failed to fetch servers from database " + error,
-        });
-        return;
-    }
 
-    const databaseUpdater = ({
-        server,
-        service,
-        stdout,
-        stderr,
-        status,
-    }: {
-        server: string;
-        service: MongoDbTypes.ServiceType;
-        stdout: string;
-        stderr: string;
-        status: "pending" | "active" | "error";
-    }) => {
-        Mongodb.getServersCollection()
-            .updateOne({ server: server }, [
-                {
-                    $set: {
-                        deployStatus: {
-                            $mergeObjects: [
-                                "$deployStatus",
-                                { [service]: status },
-                            ],
-                        },
-                        deployLogs: {
-                            $mergeObjects: [
-                                "$deployLogs",
-                                {
-                                    [service]: {
-                                        stdout: stdout,
-                                        stderr: stderr,
-                                    },
-                                },
-                            ],
-                        },
-                    },
-                },
-            ])
-            .then()
-            .catch(() => {});
-    };
-
-    let isAutoP2P =
-        extraData.peers && extraData.peers[0] === "auto_p2p";
-
-    // map ip to list of p2p peers
-    let p2pMap: Record<string, string[]> = {};
-    if (isAutoP2P) {
-        let baremetalNodes = extraData.peers?.slice(1);
-        if (!baremetalNodes || baremetalNodes.length === 0) {
-            res.status(400).json({
-                error: "No baremetal nodes specified for P2P connections.",
+        if (extraData.loggingPasscode) {
+            // check logging passcode format
+            let passcodeParts = extraData.loggingPasscode.split("-");
+            if (passcodeParts.length !== 4) {
+                res.status(400).json({
+                    error: "Logging passcode must have 4 parts separated by '-'",
+                });
+            } else if (
+                passcodeParts.some((part) => {
+                    let num = Number(part);
+                    return isNaN(num);
+                })
+            ) {
+                res.status(400).json({
+                    error: "Each part of the logging passcode must be a valid number",
+                });
+            }
+        }
+
+        if (extraData.operatorId) {
+            if (extraData.operatorId.length !== 60) {
+                res.status(400).json({
+                    error: "Operator ID must be exactly 60 characters",
+                });
+            }
+        }
+
+        // Get server details from DB
+        let serverDocs: MongoDbTypes.Server[] = [];
+        try {
+            serverDocs = (
+                await Mongodb.getServersCollection()
+                    .find({
+                        server: { $in: servers },
+                        operator: Rbac.operatorScope(req.user),
+                    })
+                    .toArray()
+            ).filter((s) => s.username && s.username.length > 0);
+
+            if (serverDocs.length === 0) {
+                res.status(404).json({
+                    error: "No matching servers found in the database",
+                });
+                return;
+            }
+
+            for (let server of serverDocs) {
+                if (server.status !== "active") {
+                    res.status(400).json({
+                        error: `Server ${server.server} is not active, please exclude it from deployment.`,
+                    });
+                    return;
+                }
+            }
+        } catch (error) {
+            res.status(500).json({
+                error: "Failed to fetch servers from database " + error,
             });
             return;
         }
-        let connectedNodes = [];
-        // first randomly choose 4 seed nodes (which connect to baremetal) and add to p2p map
-        let seedNodes = serverDocs
-            .sort(() => 0.5 - Math.random())
-            .slice(0, 4);
-        for (let seedNode of seedNodes) {
-            p2pMap[seedNode.server] = baremetalNodes as string[];
-            connectedNodes.push(seedNode.server);
+
+        // The sha256 every node checks the download against before running it.
+        // A plain URL (instead of a tag) needs one supplied with it.
+        let binarySha256: string;
+        try {
+            let resolved: ArtifactService.ResolveResult = releaseAsset
+                ? await ArtifactService.resolveReleaseAsset(
+                      service,
+                      tag,
+                      releaseAsset,
+                      operator
+                  )
+                : await ArtifactService.resolveUrl(service, binaryUrl, {
+                      sha256: req.body.sha256,
+                      mayPin: Rbac.hasPermission(
+                          req.user?.role,
+                          "manage-artifacts"
+                      ),
+                      actor: operator,
+                  });
+            if ("error" in resolved) {
+                res.status(resolved.status).json({ error: resolved.error });
+                return;
+            }
+            binarySha256 = resolved.sha256;
+        } catch (error) {
+            res.status(502).json({
+                error:
+                    "Failed to get the binary checksum: " +
+                    (error as Error).message,
+            });
+            return;
         }
-        // for the rest of the nodes, randomly choose 3 from waiting and 1 from connected nodes
-        for (let serverNode of serverDocs) {
-            if (connectedNodes.includes(serverNode.server)) continue;
-
-            let peersForNode = [];
-            let waitingNodes = serverDocs.filter(
-                (node) =>
-                    !connectedNodes.includes(node.server) &&
-                    node.server !== serverNode.server
-            );
-            // choose 3 from waiting nodes
-            let waitingChoices = waitingNodes
+
+        let isAutoP2P = extraData.peers && extraData.peers[0] === "auto_p2p";
+
+        // map ip to list of p2p peers
+        let p2pMap: Record<string, string[]> = {};
+        if (isAutoP2P) {
+            let baremetalNodes = extraData.peers?.slice(1);
+            if (!baremetalNodes || baremetalNodes.length === 0) {
+                res.status(400).json({
+                    error: "No baremetal nodes specified for P2P connections.",
+                });
+                return;
+            }
+            let connectedNodes = [];
+            // first randomly choose 4 seed nodes (which connect to baremetal) and add to p2p map
+            let seedNodes = serverDocs
                 .sort(() => 0.5 - Math.random())
-                .slice(0, 3);
+                .slice(0, 4);
+            for (let seedNode of seedNodes) {
+                p2pMap[seedNode.server] = baremetalNodes as string[];
+                connectedNodes.push(seedNode.server);
+            }
+            // for the rest of the nodes, randomly choose 3 from waiting and 1 from connected nodes
+            for (let serverNode of serverDocs) {
+                if (connectedNodes.includes(serverNode.server)) continue;
 
-            // if not enough waiting nodes, fill from connected nodes
-            if (waitingChoices.length < 3) {
-                let needed = 3 - waitingChoices.length;
-                let extraConnected = connectedNodes
+                let peersForNode = [];
+                let waitingNodes = serverDocs.filter(
+                    (node) =>
+                        !connectedNodes.includes(node.server) &&
+                        node.server !== serverNode.server
+                );
+                // choose 3 from waiting nodes
+                let waitingChoices = waitingNodes
                     .sort(() => 0.5 - Math.random())
-                    .slice(0, needed);
-                for (let extra of extraConnected) {
-                    peersForNode.push(extra);
+                    .slice(0, 3);
+
+                // if not enough waiting nodes, fill from connected nodes
+                if (waitingChoices.length < 3) {
+                    let needed = 3 - waitingChoices.length;
+                    let extraConnected = connectedNodes
+                        .sort(() => 0.5 - Math.random())
+                        .slice(0, needed);
+                    for (let extra of extraConnected) {
+                        peersForNode.push(extra);
+                    }
                 }
+                for (let choice of waitingChoices) {
+                    peersForNode.push(choice.server);
+                }
+                // choose 1 from connected nodes
+                if (connectedNodes.length > 0) {
+                    let connectedChoice = connectedNodes.sort(
+                        () => 0.5 - Math.random()
+                    )[0];
+                    peersForNode.push(connectedChoice);
+                }
+                p2pMap[serverNode.server] = peersForNode as string[];
+                connectedNodes.push(serverNode.server);
             }
-            for (let choice of waitingChoices) {
-                peersForNode.push(choice.server);
+        }
+
+        let deployTargets = serverDocs.filter(
+            (server) =>
+                server.services.includes(service) &&
+                server.username &&
+                server.status === "active"
+        );
+
+        if (rolloutOptions) {
+            if (deployTargets.length === 0) {
+                res.status(400).json({
+                    error: `None of the selected servers run ${service}`,
+                });
+                return;
             }
-            // choose 1 from connected nodes
-            if (connectedNodes.length > 0) {
-                let connectedChoice = connectedNodes.sort(
-                    () => 0.5 - Math.random()
-                )[0];
-                peersForNode.push(connectedChoice);
+            try {
+                let rollout = await DeploymentService.createRollout({
+                    operator,
+                    service,
+                    tag,
+                    binaryUrl,
+                    binarySha256,
+                    extraData,
+                    ...(profile ? { profile } : {}),
+                    // Request order, so the first server listed is the canary.
+                    targets: deployTargets
+                        .sort(
+                            (a, b) =>
+                                servers.indexOf(a.server) -
+                                servers.indexOf(b.server)
+                        )
+                        .map((server) => ({
+                            server: server.server,
+                            peers:
+                                p2pMap[server.server] ||
+                                (extraData?.peers as string[]) ||
+                                [],
+                        })),
+                    options: rolloutOptions,
+                });
+                // extraData is left out on purpose: it carries seeds and passcodes.
+                await AuditService.recordRequest(req, {
+                    action: "deploy",
+                    target: servers.join(","),
+                    details: {
+                        service,
+                        tag,
+                        binaryUrl,
+                        binarySha256,
+                        ...(profile ? { profile } : {}),
+                        rolloutId: rollout._id,
+                        waves: rollout.waves.map((w) => w.servers),
+                    },
+                });
+                res.json({
+                    message: "Rollout started",
+                    rollout: DeploymentService.toPublicRollout(rollout),
+                });
+            } catch (error) {
+                res.status(400).json({ error: (error as Error).message });
             }
-            p2pMap[serverNode.server] = peersForNode as string[];
-            connectedNodes.push(serverNode.server);
+            return;
         }
-    }
 
-    // Fetch customParameter for all lite nodes in this deployment
-    let liteNodeDocs = await Mongodb.getLiteNodeCollection()
-        .find({ server: { $in: servers } })
-        .toArray();
-    let customParameterMap: Record<string, string> = {};
-    for (let doc of liteNodeDocs) {
-        customParameterMap[doc.server] = doc.customParameter || "";
+        // Fetch customParameter for all lite nodes in this deployment, merged
+        // with the fleet-wide global param.
+        let customParameterMap =
+            await DeploymentService.resolveCustomParameters(servers);
+
+        // Queue a deploy job per server, all under one command log so the
+        // batch can be followed and cancelled by its uuid.
+        let jobIds: string[] = [];
+        let currentUUID = uuidv4();
+        try {
+            await Mongodb.getCommandLogsCollection().insertOne({
+                operator: operator,
+                servers: deployTargets.map((server) => server.server),
+                command: `deploy:${service}:${tag}`,
+                stdout: "",
+                stderr: "",
+                timestamp: Date.now(),
+                status: "pending",
+                uuid: currentUUID,
+                isStandardCommand: true,
+                duration: 0,
+            });
+            for (let server of deployTargets) {
+                let job = await SshJobs.enqueueDeploy(
+                    server.server,
+                    operator,
+                    {
+                        service,
+                        tag,
+                        binaryUrl,
+                        binarySha256,
+                        peers:
+                            p2pMap[server.server] ||
+                            (extraData?.peers as string[]) ||
+                            [],
+                        customParameter:
+                            customParameterMap[server.server] ?? "",
+                        ...(profile ? { profile } : {}),
+                    },
+                    extraData,
+                    currentUUID
+                );
+                jobIds.push(job._id);
+            }
+            if (jobIds.length === 0) {
+                await Mongodb.getCommandLogsCollection().updateOne(
+                    { uuid: currentUUID },
+                    { $set: { status: "completed" } }
+                );
+            }
+            // extraData is left out on purpose: it carries seeds and passcodes.
+            await AuditService.recordRequest(req, {
+                action: "deploy",
+                target: servers.join(","),
+                details: {
+                    service,
+                    tag,
+                    binaryUrl,
+                    binarySha256,
+                    ...(profile ? { profile } : {}),
+                    jobIds,
+                    commandLogUuid: currentUUID,
+                },
+            });
+        } catch (error) {
+            res.status(500).json({
+                error: "Failed to deploy: " + (error as Error).message,
+            });
+            return;
+        }
+
+        res.json({
+            message: "Deployment initiated",
+            jobIds,
+            commandLogUuid: currentUUID,
+        });
     }
-    // Fleet-wide global param, merged with each node's per-machine value below.
-    let globalLiteParam = await getGlobalLiteCustomParameter();
+);
 
-    // Deploy to each server
+router.get("/rollouts", authenticateToken, async (req, res) => {
     try {
-        for (let server of serverDocs) {
-            if (!server.services.includes(service)) continue;
-            if (!server.username) continue;
-            if (server.status !== "active") continue;
-            SSHService.deployNode(
-                server.server,
-                server!.username,
-                server!.password,
-                server.sshPrivateKey,
-                service,
+        let operator = req.user?.username;
+        let rolloutId = req.query.rolloutId as string | undefined;
+        if (!operator) {
+            res.status(400).json({ error: "No operator found" });
+            return;
+        }
+        let rollouts = await Mongodb.getRolloutsCollection()
+            .find(
                 {
-                    binaryUrl,
-                    epochFile: extraData?.epochFile as string,
-                    peers:
-                        p2pMap[server.server] ||
-                        (extraData?.peers as string[]) ||
-                        [],
-                    systemRamInGB: parseInt(server.ram || "0"),
-                    mainAuxStatus: extraData.mainAuxStatus,
-                    ids: extraData.ids,
-                    ramMode: extraData.ramMode,
-                    bobConfig: extraData.bobConfig || {},
-                    loggingPasscode: extraData.loggingPasscode,
-                    operatorId: extraData.operatorId,
-                    keydbConfig: extraData.keydbConfig || [],
-                    kvrocksConfig: extraData.kvrocksConfig || [],
-                    keepOldConfig: extraData.keepOldConfig || false,
-                    customParameter: mergeCustomParameter(
-                        globalLiteParam,
-                        customParameterMap[server.server] ?? ""
-                    ),
+                    operator: Rbac.operatorScope(req.user, "read"),
+                    ...(rolloutId ? { _id: rolloutId } : {}),
+                },
+                {
+                    projection: {
+                        sealedExtraData: 0,
+                        driver: 0,
+                        driverHeartbeatAt: 0,
+                    },
                 }
             )
-                .then((result) => {
-                    if (result.isSuccess) {
-                        databaseUpdater({
-                            server: server.server,
-                            service: service,
-                            stdout:
-                                `---------- Time elapsed ${millisToSeconds(
-                                    result.duration
-                                )} seconds ----------- \n\n` +
-                                Object.values(result.stdouts).join(
-                                    "\n"
-                                ),
-                            stderr: Object.values(result.stderrs).join(
-                                "\n"
-                            ),
-                            status: "active",
-                        });
-
-                        Mongodb.getLiteNodeCollection()
-                            .updateOne(
-                                {
-                                    server: server.server,
-                                },
-                                {
-                                    $set: {
-                                        passcode:
-                                            extraData.loggingPasscode,
-                                    },
-                                }
-                            )
-                            .then()
-                            .catch(() => {});
-
-                        NodeService.tryGetIdsFromLiteNode(
-                            server.server
-                        ).then((ids) => {
-                            let groupId = calcGroupIdFromIds(ids);
-                            Mongodb.getLiteNodeCollection()
-                                .updateOne(
-                                    {
-                                        server: server.server,
-                                    },
-                                    {
-                                        $set: {
-                                            ids: ids,
-                                            groupId: groupId,
-                                        },
-                                    }
-                                )
-                                .then()
-                                .catch(() => {});
-                        });
-                    } else {
-                        const reason =
-                            result.errorMessage ||
-                            `Deployment failed on ${server.server}`;
-                        databaseUpdater({
-                            server: server.server,
-                            service: service,
-                            stdout:
-                                `---------- Time elapsed ${millisToSeconds(
-                                    result.duration
-                                )} seconds ----------- \n` +
-                                Object.values(result.stdouts).join(
-                                    "\n"
-                                ),
-                            stderr:
-                                `⛔ ${reason}\n` +
-                                Object.values(result.stderrs).join("\n"),
-                            status: "error",
-                        });
-                    }
-                })
-                .catch((error) => {
-                    logger.error(
-                        `Deployment to ${server} failed: ${
-                            (error as Error).message
-                        }`
-                    );
-                    databaseUpdater({
-                        server: server.server,
-                        service: service,
-                        stdout: (error as Error).message,
-                        stderr: (error as Error).message,
-                        status: "error",
-                    });
-                });
+            .sort({ createdAt: -1 })
+            .limit(50)
+            .toArray();
+        res.json({ rollouts });
+    } catch (error) {
+        logger.error(`Error fetching rollouts: ${(error as Error).message}`);
+        res.status(500).json({
+            error: "Failed to fetch rollouts " + error,
+        });
+    }
+});
+
+// GET /deployments?server=&service=&limit= - Deploy, restart and rollback
+// history of one server, newest first
+router.get("/deployments", authenticateToken, async (req, res) => {
+    try {
+        let operator = req.user?.username;
+        let server = req.query.server as string | undefined;
+        let service = req.query.service as MongoDbTypes.ServiceType | undefined;
+        if (!operator) {
+            res.status(400).json({ error: "No operator found" });
+            return;
         }
+        if (!server) {
+            res.status(400).json({ error: "No server specified" });
+            return;
+        }
+        let serverDoc = await Mongodb.getServersCollection().findOne(
+            { server, operator: Rbac.operatorScope(req.user, "read") },
+            { projection: { server: 1 } }
+        );
+        if (!serverDoc) {
+            res.status(404).json({ error: "Server not found" });
+            return;
+        }
+        let limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+        let deployments = await DeploymentHistoryService.history(
+            { server, ...(service ? { service } : {}) },
+            limit
+        );
+        res.json({ deployments });
     } catch (error) {
+        logger.error(
+            `Error fetching deployment history: ${(error as Error).message}`
+        );
         res.status(500).json({
-            error: "Failed to deploy: " + (error as Error).message,
+            error: "Failed to fetch deployment history " + error,
         });
     }
+});
 
-    res.json({ message: "Deployment initiated" });
+// GET /version-matrix?service= - Which tag each server runs, grouped by
+// service and tag
+router.get("/version-matrix", authenticateToken, async (req, res) => {
+    try {
+        let operator = req.user?.username;
+        let service = req.query.service as MongoDbTypes.ServiceType | undefined;
+        if (!operator) {
+            res.status(400).json({ error: "No operator found" });
+            return;
+        }
+        if (
+            service &&
+            !Object.values(MongoDbTypes.ServiceType).includes(service)
+        ) {
+            res.status(400).json({ error: "Invalid service" });
+            return;
+        }
+        let serverDocs = await Mongodb.getServersCollection()
+            .find(
+                { operator: Rbac.operatorScope(req.user, "read") },
+                { projection: { server: 1, alias: 1, services: 1 } }
+            )
+            .toArray();
+        let matrix = await DeploymentHistoryService.versionMatrix(
+            serverDocs,
+            service
+        );
+        res.json({ matrix });
+    } catch (error) {
+        logger.error(
+            `Error fetching version matrix: ${(error as Error).message}`
+        );
+        res.status(500).json({
+            error: "Failed to fetch version matrix " + error,
+        });
+    }
 });
 
-router.post("/refresh-github-tags", async (req, res) => {
+// GET /version-drift - Nodes not running their service's target release
+router.get("/version-drift", authenticateToken, async (req, res) => {
     try {
-        let service = req.body.service as MongoDbTypes.ServiceType;
-        if (!service) {
-            res.status(400).json({ error: "No service specified" });
+        if (!req.user?.username) {
+            res.status(400).json({ error: "No operator found" });
             return;
         }
-        await GithubService.pullTagsFromGithub(service);
-        let tags = GithubService.getGithubTags(service);
-        res.json(tags);
+        let report = DriftService.getReport();
+        res.json({
+            ...report,
+            drifted: report.drifted.filter((d) =>
+                Rbac.canAccessOperator(req.user, d.operator, "read")
+            ),
+        });
     } catch (error) {
         logger.error(
-            `Error refreshing GitHub tags: ${(error as Error).message}`
+            `Error fetching version drift: ${(error as Error).message}`
         );
         res.status(500).json({
-            error: "Failed to refresh GitHub tags " + error,
+            error: "Failed to fetch version drift " + error,
         });
     }
 });
 
+// POST /approved-tag { service, tag } - Pin the release every node of a
+// service should run; tag null goes back to the newest release
+router.post(
+    "/approved-tag",
+    authenticateToken,
+    requirePermission("fleet-control"),
+    async (req, res) => {
+        try {
+            let service = req.body?.service as MongoDbTypes.ServiceType;
+            let tag = req.body?.tag as string | null | undefined;
+            if (
+                service !== MongoDbTypes.ServiceType.LiteNode &&
+                service !== MongoDbTypes.ServiceType.BobNode
+            ) {
+                res.status(400).json({ error: "Invalid service" });
+                return;
+            }
+            if (tag !== null && (typeof tag !== "string" || !tag)) {
+                res.status(400).json({
+                    error: "tag must be a tag name or null",
+                });
+                return;
+            }
+            if (
+                tag &&
+                !GithubService.getGithubTags(service)?.some(
+                    (t) => t.name === tag
+                )
+            ) {
+                res.status(400).json({
+                    error: `Unknown tag for ${service}: ${tag}`,
+                });
+                return;
+            }
+            let before = await DriftService.getApprovedTag(service);
+            await DriftService.setApprovedTag(service, tag);
+            await AuditService.recordRequest(req, {
+                action: "github.approve-tag",
+                target: service,
+                before: { tag: before },
+                after: { tag },
+            });
+            res.json({
+                message: tag
+                    ? `Approved ${tag} for ${service}`
+                    : `${service} follows the newest release again`,
+            });
+        } catch (error) {
+            logger.error(
+                `Error setting approved tag: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to set approved tag " + error,
+            });
+        }
+    }
+);
+
+// Shared body of POST /rollouts/{resume,rollback,abort} { rolloutId }
+async function controlRollout(
+    req: express.Request,
+    res: express.Response,
+    action: "resume" | "rollback" | "abort",
+    handler: typeof DeploymentService.resumeRollout
+) {
+    try {
+        let operator = req.user?.username;
+        let rolloutId = req.body.rolloutId as string;
+        if (!operator) {
+            res.status(400).json({ error: "No operator found" });
+            return;
+        }
+        if (!rolloutId) {
+            res.status(400).json({ error: "rolloutId is required" });
+            return;
+        }
+        let result = await handler(rolloutId, Rbac.operatorScope(req.user));
+        if ("error" in result) {
+            res.status(result.status).json({ error: result.error });
+            return;
+        }
+        await AuditService.recordRequest(req, {
+            action: `rollout.${action}`,
+            target: rolloutId,
+        });
+        res.json({
+            rollout: DeploymentService.toPublicRollout(result.rollout),
+        });
+    } catch (error) {
+        logger.error(`Error on rollout ${action}: ${(error as Error).message}`);
+        res.status(500).json({
+            error: `Failed to ${action} rollout ` + error,
+        });
+    }
+}
+
+router.post(
+    "/rollouts/resume",
+    authenticateToken,
+    requirePermission("deploy"),
+    (req, res) =>
+        controlRollout(req, res, "resume", DeploymentService.resumeRollout)
+);
+
+router.post(
+    "/rollouts/rollback",
+    authenticateToken,
+    requirePermission("deploy"),
+    (req, res) =>
+        controlRollout(req, res, "rollback", DeploymentService.rollbackRollout)
+);
+
+router.post(
+    "/rollouts/abort",
+    authenticateToken,
+    requirePermission("deploy"),
+    (req, res) =>
+        controlRollout(req, res, "abort", DeploymentService.abortRollout)
+);
+
+// GET /artifacts/<token>/<service>/<tag>/<asset> - A cached release binary,
+// for nodes during a deploy. The token (see ArtifactCache) stands in for a
+// login; Range requests are supported for resumed downloads.
+router.get("/artifacts/:token/:service/:tag/:asset", async (req, res) => {
+    let { token, service, tag, asset } = req.params;
+    if (
+        !ArtifactCache.isEnabled() ||
+        (service !== MongoDbTypes.ServiceType.LiteNode &&
+            service !== MongoDbTypes.ServiceType.BobNode) ||
+        !ArtifactCache.verifyToken(token, service, tag, asset)
+    ) {
+        res.status(404).json({ error: "Not found" });
+        return;
+    }
+    try {
+        let file = await ArtifactCache.ensure(service, tag, asset);
+        res.sendFile(file, (error) => {
+            if (error && !res.headersSent) {
+                res.status(500).json({
+                    error: "Failed to send artifact " + error,
+                });
+            }
+        });
+    } catch (error) {
+        logger.error(
+            `Error serving artifact ${service} ${tag}/${asset}: ${
+                (error as Error).message
+            }`
+        );
+        res.status(502).json({
+            error: "Failed to get artifact " + error,
+        });
+    }
+});
+
+// GET /artifact-checksums?service=&tag= - Pinned binary checksums
+router.get(
+    "/artifact-checksums",
+    authenticateToken,
+    requirePermission("deploy"),
+    async (req, res) => {
+        try {
+            let service = req.query.service as string | undefined;
+            let tag = req.query.tag as string | undefined;
+            let checksums = await Mongodb.getArtifactChecksumsCollection()
+                .find(
+                    {
+                        ...(service
+                            ? { service: service as MongoDbTypes.ServiceType }
+                            : {}),
+                        ...(tag ? { tag } : {}),
+                    },
+                    { projection: { _id: 0 } }
+                )
+                .sort({ createdAt: -1 })
+                .limit(500)
+                .toArray();
+            res.json({ checksums });
+        } catch (error) {
+            logger.error(
+                `Error fetching artifact checksums: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to fetch artifact checksums " + error,
+            });
+        }
+    }
+);
+
+// POST /artifact-checksums { url, sha256, service? } - Pin (or re-pin) the
+// hash a binary URL must have
+router.post(
+    "/artifact-checksums",
+    authenticateToken,
+    requirePermission("manage-artifacts"),
+    async (req, res) => {
+        try {
+            let operator = req.user?.username || "admin";
+            let url = req.body?.url;
+            let sha256 = req.body?.sha256;
+            let service = req.body?.service as
+                MongoDbTypes.ServiceType | undefined;
+            if (typeof url !== "string" || !url.startsWith("http")) {
+                res.status(400).json({ error: "url must be an http(s) URL" });
+                return;
+            }
+            if (!ArtifactService.isSha256(sha256)) {
+                res.status(400).json({
+                    error: "sha256 must be 64 hex characters",
+                });
+                return;
+            }
+            if (
+                service &&
+                !Object.values(MongoDbTypes.ServiceType).includes(service)
+            ) {
+                res.status(400).json({ error: "Invalid service" });
+                return;
+            }
+            let release = service
+                ? ArtifactService.releaseAssetOf(service, url)
+                : undefined;
+            let before = await ArtifactService.getPinned(url);
+            let pinned = await ArtifactService.pin(
+                {
+                    url,
+                    sha256,
+                    source: "admin",
+                    ...(service ? { service } : {}),
+                    ...(release
+                        ? { tag: release.tag, asset: release.asset }
+                        : {}),
+                    pinnedBy: operator,
+                },
+                { replace: true }
+            );
+            await AuditService.recordRequest(req, {
+                action: "artifact.pin",
+                target: url,
+                before,
+                after: pinned,
+            });
+            res.json({ message: "Checksum pinned", checksum: pinned });
+        } catch (error) {
+            logger.error(
+                `Error pinning artifact checksum: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to pin artifact checksum " + error,
+            });
+        }
+    }
+);
+
+// DELETE /artifact-checksums { url } - Forget a pin; a release asset is
+// pinned again from GitHub on its next deploy
+router.delete(
+    "/artifact-checksums",
+    authenticateToken,
+    requirePermission("manage-artifacts"),
+    async (req, res) => {
+        try {
+            let url = req.body?.url as string;
+            if (!url) {
+                res.status(400).json({ error: "url is required" });
+                return;
+            }
+            let removed =
+                await Mongodb.getArtifactChecksumsCollection().findOneAndDelete(
+                    { url },
+                    { projection: { _id: 0 } }
+                );
+            if (!removed) {
+                res.status(404).json({
+                    error: "No checksum pinned for this url",
+                });
+                return;
+            }
+            await AuditService.recordRequest(req, {
+                action: "artifact.unpin",
+                target: url,
+                before: removed,
+            });
+            res.json({ message: "Checksum unpinned" });
+        } catch (error) {
+            logger.error(
+                `Error unpinning artifact checksum: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to unpin artifact checksum " + error,
+            });
+        }
+    }
+);
+
+router.post(
+    "/refresh-github-tags",
+    authenticateToken,
+    requirePermission("fleet-control"),
+    async (req, res) => {
+        try {
+            let service = req.body.service as MongoDbTypes.ServiceType;
+            if (!service) {
+                res.status(400).json({ error: "No service specified" });
+                return;
+            }
+            await GithubService.pullTagsFromGithub(service);
+            let tags = GithubService.getGithubTags(service);
+            await AuditService.recordRequest(req, {
+                action: "github.refresh-tags",
+                target: service,
+            });
+            res.json(tags);
+        } catch (error) {
+            logger.error(
+                `Error refreshing GitHub tags: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to refresh GitHub tags " + error,
+            });
+        }
+    }
+);
+
 export default router;
@@ -13,6 +13,10 @@ import mapRoutes from "./map.routes.js";
 import crashReportRoutes from "./crashreport.routes.js";
 import blacklistRoutes from "./blacklist.routes.js";
 import clusterRoutes from "./cluster.routes.js";
+import auditRoutes from "./audit.routes.js";
+import terminalRoutes from "./terminal.routes.js";
+import policiesRoutes from "./policies.routes.js";
+import profilesRoutes from "./profiles.routes.js";
 
 export function setupRoutes(app: express.Application) {
     // Health check
@@ -56,4 +60,18 @@ export function setupRoutes(app: express.Application) {
 
     // System Health (admin-only: instances + DB replica + node summary)
     app.use("/", clusterRoutes);
+
+    // Audit log (admin-only query + CSV export)
+    app.use("/", auditRoutes);
+
+    // Browser terminal sessions and recordings (the shell itself is on the
+    // /terminal Socket.IO namespace)
+    app.use("/", terminalRoutes);
+
+    // Command policies (admin-defined allow/deny/approval rules) and the
+    // two-person approval queue
+    app.use("/", policiesRoutes);
+
+    // Saved, versioned deployment profiles (extraData presets for /deploy)
+    app.use("/", profilesRoutes);
 }
@@ -2,6 +2,8 @@ import express from "express";
 import { Mongodb } from "../../database/db.js";
 import { logger } from "../../utils/logger.js";
 import { authenticateToken } from "../middleware/auth.middleware.js";
+import { requirePermission } from "../middleware/rbac.middleware.js";
+import { AuditService } from "../../services/audit-service.js";
 
 const router = express.Router();
 
@@ -133,6 +135,8 @@ router.get(
                     _id: 0,
                     stdout: 0,
                     stderr: 0,
+                    "results.stdout": 0,
+                    "results.stderr": 0,
                 })
                 .toArray();
             res.json({ commandLogs });
@@ -181,9 +185,67 @@ router.get("/stdout-command-log", async (req, res) => {
     }
 });
 
+// GET /command-log-result?uuid=&server= - One server's output, exit code
+// and error of a command log
+router.get(
+    "/command-log-result",
+    authenticateToken,
+    async (req, res) => {
+        try {
+            let operator = req.user?.username;
+            let uuid = req.query.uuid as string;
+            let server = req.query.server as string;
+            if (!operator) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            if (!uuid || !server) {
+                res.status(400).json({ error: "uuid and server are required" });
+                return;
+            }
+            let commandLog = await Mongodb.getCommandLogsCollection().findOne(
+                { uuid: uuid, operator: operator },
+                {
+                    projection: {
+                        _id: 0,
+                        command: 1,
+                        status: 1,
+                        servers: 1,
+                        results: { $elemMatch: { server: server } },
+                    },
+                }
+            );
+            if (!commandLog) {
+                res.status(404).json({ error: "Command log not found" });
+                return;
+            }
+            let result = commandLog.results?.[0];
+            if (!result) {
+                res.status(404).json({
+                    error: commandLog.servers?.includes(server)
+                        ? "No result for this server yet"
+                        : "Server is not part of this command",
+                });
+                return;
+            }
+            res.json({ uuid, command: commandLog.command, result });
+        } catch (error) {
+            logger.error(
+                `Error fetching command log result: ${
+                    (error as Error).message
+                }`
+            );
+            res.status(500).json({
+                error: "Failed to fetch command log result " + error,
+            });
+        }
+    }
+);
+
 router.post(
     "/delete-command-log",
     authenticateToken,
+    requirePermission("execute-command"),
     async (req, res) => {
         try {
             let operator = req.user?.username;
@@ -197,10 +259,16 @@ router.post(
                 return;
             }
 
-            await Mongodb.getCommandLogsCollection().deleteOne({
+            let result = await Mongodb.getCommandLogsCollection().deleteOne({
                 uuid: uuid,
                 operator: operator,
             });
+            if (result.deletedCount > 0) {
+                await AuditService.recordRequest(req, {
+                    action: "command-log.delete",
+                    target: uuid,
+                });
+            }
             res.json({ message: "Command log deleted successfully" });
         } catch (error) {
             logger.error(
@@ -218,6 +286,7 @@ router.post(
 router.post(
     "/delete-all-command-logs",
     authenticateToken,
+    requirePermission("execute-command"),
     async (req, res) => {
         try {
             let operator = req.user?.username;
@@ -226,9 +295,14 @@ router.post(
                 return;
             }
 
-            await Mongodb.getCommandLogsCollection().deleteMany({
+            let result = await Mongodb.getCommandLogsCollection().deleteMany({
                 operator: operator,
             });
+            await AuditService.recordRequest(req, {
+                action: "command-log.delete-all",
+                target: operator,
+                details: { deleted: result.deletedCount },
+            });
             res.json({
                 message: "All command logs deleted successfully",
             });
@@ -106,6 +106,18 @@ router.post("/checkin", async (req, res) => {
                 return;
             }
         }
+        // reject stale/future timestamps so an old checkin can't be replayed
+        if (!Checkin.isTimestampFresh(body.timestamp)) {
+            res.status(400).json({
+                error: `Stale or invalid timestamp (must be unix seconds within ${Checkin.MAX_TIMESTAMP_SKEW_SEC}s of server time)`,
+            });
+            return;
+        }
+        const signatureCheck = Checkin.verifySignature(body);
+        if (!signatureCheck.verified && Checkin.REQUIRE_SIGNATURE) {
+            res.status(401).json({ error: signatureCheck.reason });
+            return;
+        }
         // rate limit: only allow checkin once every 30 minutes per ip+type+operator
         const rateLimitKey = `${ip}-${body.type}-${body.operator}`;
         const now = Date.now();
@@ -145,11 +157,19 @@ router.post("/checkin", async (req, res) => {
                 return;
             }
         }
+        if (
+            signatureCheck.verified &&
+            !(await Checkin.claimCheckin(body))
+        ) {
+            res.status(409).json({ error: "Checkin already submitted" });
+            return;
+        }
         // insert to mongodb
         const checkinDoc = {
             ...body,
             ip: ip,
             lastCheckinAt: Date.now(),
+            signatureVerified: signatureCheck.verified,
         };
         await Mongodb.getCheckinsCollection().insertOne(checkinDoc);
         MapService.enqueueServerForIpLookup(ip);
@@ -158,7 +178,14 @@ router.post("/checkin", async (req, res) => {
             const peerType = body.type === "bob" ? "bob" : "lite";
             NodeService.addNoDbPeer(peerType, ip);
         }
-        res.json({ message: "Checkin successful", rateLimitKey });
+        res.json({
+            message: "Checkin successful",
+            rateLimitKey,
+            signatureVerified: signatureCheck.verified,
+            ...(signatureCheck.verified
+                ? {}
+                : { signatureError: signatureCheck.reason }),
+        });
     } catch (error) {
         logger.error(`Error in checkin: ${(error as Error).message}`);
         res.status(500).json({
@@ -176,6 +203,11 @@ router.get("/checkins", async (req, res) => {
             req.query.normalized === "true" || req.query.normalized === "1";
         let epoch = parseInt(req.query.epoch as string) || 0;
         let excludeDefaultOp = req.query.excludeDefaultOp === "true";
+        // ?verified=true|false filters on the stored signature check
+        let verified =
+            req.query.verified === undefined
+                ? undefined
+                : req.query.verified === "true" || req.query.verified === "1";
 
         let checkins;
         try {
@@ -186,6 +218,7 @@ router.get("/checkins", async (req, res) => {
                 normalized,
                 epoch,
                 excludeDefaultOp,
+                verified,
                 useCache: false, // for monitoring page, we want to get the latest data, so disable cache
             });
         } catch (error) {
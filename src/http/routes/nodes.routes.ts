@@ -3,8 +3,16 @@ import { NodeService } from "../../services/node-service.js";
 import { Mongodb, MongoDbTypes } from "../../database/db.js";
 import { SSHService } from "../../services/ssh-service.js";
 import { logger } from "../../utils/logger.js";
-import { authenticateToken } from "../middleware/auth.middleware.js";
-import jwt from "jsonwebtoken";
+import {
+    authenticateToken,
+    getBearerToken,
+    sendAuthError,
+} from "../middleware/auth.middleware.js";
+import { requirePermission } from "../middleware/rbac.middleware.js";
+import { AuthService } from "../../services/auth-service.js";
+import { Rbac } from "../../utils/rbac.js";
+import { AuditService } from "../../services/audit-service.js";
+import { Confirmation } from "../../services/logic/confirmation.js";
 import { hashSHA256 } from "../../utils/crypto.js";
 import {
     getGlobalLiteCustomParameter,
@@ -21,15 +29,15 @@ router.get("/servers-status", async (req, res) => {
     let statuses = NodeService.getSystemNodesStatus();
 
     if (needPlainIp) {
-        let token = req.headers["authorization"]?.split(" ")[1];
+        let token = getBearerToken(req);
         // verify token
         if (!token) {
             return res.status(401).json({ error: "Missing token" });
         }
         try {
-            jwt.verify(token, process.env.JWT_SECRET as string);
+            await AuthService.verifyAccessToken(token);
         } catch (err) {
-            return res.status(403).json({ error: "Invalid token" });
+            return sendAuthError(res, err);
         }
     }
 
@@ -139,63 +147,92 @@ router.get("/system-nodes-status", async (req, res) => {
     }
 });
 
-router.post("/change-visibility", authenticateToken, async (req, res) => {
-    try {
-        let server: string = req.body.server;
-        let service: MongoDbTypes.ServiceType = req.body.service;
-        let isPrivate: boolean = req.body.isPrivate;
-        let operator = req.user!.username;
-        if (!operator) {
-            res.status(400).json({ error: "No operator found" });
-            return;
-        }
-        if (!server) {
-            res.status(400).json({ error: "Missing server" });
-            return;
-        }
-        if (service === MongoDbTypes.ServiceType.LiteNode) {
-            await Mongodb.getLiteNodeCollection().updateOne(
-                { server: server },
-                { $set: { isPrivate: !!isPrivate } }
-            );
-        } else if (service === MongoDbTypes.ServiceType.BobNode) {
-            await Mongodb.getBobNodeCollection().updateOne(
-                { server: server },
-                { $set: { isPrivate: !!isPrivate } }
+router.post(
+    "/change-visibility",
+    authenticateToken,
+    requirePermission("manage-servers"),
+    async (req, res) => {
+        try {
+            let server: string = req.body.server;
+            let service: MongoDbTypes.ServiceType = req.body.service;
+            let isPrivate: boolean = req.body.isPrivate;
+            let operator = req.user!.username;
+            if (!operator) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            if (!server) {
+                res.status(400).json({ error: "Missing server" });
+                return;
+            }
+            let serverDoc = await Mongodb.getServersCollection().findOne({
+                server,
+                operator: Rbac.operatorScope(req.user),
+            });
+            if (!serverDoc) {
+                res.status(404).json({ error: "Server not found" });
+                return;
+            }
+            let before;
+            if (service === MongoDbTypes.ServiceType.LiteNode) {
+                before = await Mongodb.getLiteNodeCollection().findOneAndUpdate(
+                    { server: server },
+                    { $set: { isPrivate: !!isPrivate } },
+                    { projection: { isPrivate: 1 } }
+                );
+            } else if (service === MongoDbTypes.ServiceType.BobNode) {
+                before = await Mongodb.getBobNodeCollection().findOneAndUpdate(
+                    { server: server },
+                    { $set: { isPrivate: !!isPrivate } },
+                    { projection: { isPrivate: 1 } }
+                );
+            } else {
+                res.status(400).json({ error: "Invalid service type" });
+                return;
+            }
+            await AuditService.recordRequest(req, {
+                action: "node.change-visibility",
+                target: server,
+                details: { service },
+                before: { isPrivate: !!before?.isPrivate },
+                after: { isPrivate: !!isPrivate },
+            });
+            res.json({ message: "Visibility updated successfully" });
+        } catch (error) {
+            logger.error(
+                `Error changing visibility: ${(error as Error).message}`
             );
-        } else {
-            res.status(400).json({ error: "Invalid service type" });
-            return;
+            res.status(500).json({ error: "Internal server error" });
         }
-        res.json({ message: "Visibility updated successfully" });
-    } catch (error) {
-        logger.error(`Error changing visibility: ${(error as Error).message}`);
-        res.status(500).json({ error: "Internal server error" });
     }
-});
+);
 
-router.get("/lite-node-custom-parameter", authenticateToken, async (req, res) => {
-    try {
-        let server = req.query.server as string;
-        if (!server) {
-            res.status(400).json({ error: "Missing server" });
-            return;
+router.get(
+    "/lite-node-custom-parameter",
+    authenticateToken,
+    async (req, res) => {
+        try {
+            let server = req.query.server as string;
+            if (!server) {
+                res.status(400).json({ error: "Missing server" });
+                return;
+            }
+            let doc = await Mongodb.getLiteNodeCollection().findOne({ server });
+            let global = await getGlobalLiteCustomParameter();
+            let machine = doc?.customParameter || "";
+            res.json({
+                customParameter: machine,
+                global,
+                effective: mergeCustomParameter(global, machine),
+            });
+        } catch (error) {
+            logger.error(
+                `Error getting custom parameter: ${(error as Error).message}`
+            );
+            res.status(500).json({ error: "Internal server error" });
         }
-        let doc = await Mongodb.getLiteNodeCollection().findOne({ server });
-        let global = await getGlobalLiteCustomParameter();
-        let machine = doc?.customParameter || "";
-        res.json({
-            customParameter: machine,
-            global,
-            effective: mergeCustomParameter(global, machine),
-        });
-    } catch (error) {
-        logger.error(
-            `Error getting custom parameter: ${(error as Error).message}`
-        );
-        res.status(500).json({ error: "Internal server error" });
     }
-});
+);
 
 // Fleet-wide global lite-node custom parameter, used to prefill the bulk
 // dialog. `value` is the stored global; `uniform` is always true (single
@@ -205,11 +242,10 @@ router.get(
     authenticateToken,
     async (req, res) => {
         try {
-            let operator = req.user!.username;
             let serverDocs = await Mongodb.getServersCollection()
                 .find({
                     services: MongoDbTypes.ServiceType.LiteNode,
-                    ...(operator !== "admin" ? { operator } : {}),
+                    operator: Rbac.operatorScope(req.user, "read"),
                 })
                 .toArray();
             let serverNames = serverDocs.map((doc) => doc.server);
@@ -238,9 +274,9 @@ router.get(
 router.post(
     "/set-lite-node-custom-parameter",
     authenticateToken,
+    requirePermission("deploy"),
     async (req, res) => {
         try {
-            let operator = req.user!.username;
             let { server, customParameter } = req.body as {
                 server: string;
                 customParameter: string;
@@ -254,21 +290,27 @@ router.post(
                 return;
             }
 
-            // Verify the server belongs to the operator (or caller is admin)
+            // Verify the server is in the caller's scope
             let serverDoc = await Mongodb.getServersCollection().findOne({
                 server,
-                ...(operator !== "admin" ? { operator } : {}),
+                operator: Rbac.operatorScope(req.user),
             });
             if (!serverDoc) {
                 res.status(404).json({ error: "Server not found" });
                 return;
             }
 
-            await Mongodb.getLiteNodeCollection().updateOne(
+            let before = await Mongodb.getLiteNodeCollection().findOneAndUpdate(
                 { server },
                 { $set: { customParameter } },
-                { upsert: true }
+                { upsert: true, projection: { customParameter: 1 } }
             );
+            await AuditService.recordRequest(req, {
+                action: "node.set-custom-parameter",
+                target: server,
+                before: { customParameter: before?.customParameter ?? "" },
+                after: { customParameter },
+            });
 
             // The DB stores only this machine's value; the on-disk file holds
             // the merged (global + machine) string the node actually starts
@@ -320,9 +362,9 @@ router.post(
 router.post(
     "/set-all-lite-nodes-custom-parameter",
     authenticateToken,
+    requirePermission("deploy"),
     async (req, res) => {
         try {
-            let operator = req.user!.username;
             let { customParameter } = req.body as {
                 customParameter: string;
             };
@@ -332,12 +374,18 @@ router.post(
             }
 
             // Store the global value (system-wide single setting).
+            let previousGlobal = await getGlobalLiteCustomParameter();
             await setGlobalLiteCustomParameter(customParameter);
+            await AuditService.recordRequest(req, {
+                action: "node.set-global-custom-parameter",
+                before: { customParameter: previousGlobal },
+                after: { customParameter },
+            });
 
             let serverDocs = await Mongodb.getServersCollection()
                 .find({
                     services: MongoDbTypes.ServiceType.LiteNode,
-                    ...(operator !== "admin" ? { operator } : {}),
+                    operator: Rbac.operatorScope(req.user),
                 })
                 .toArray();
             let serverNames = serverDocs.map((doc) => doc.server);
@@ -407,28 +455,144 @@ router.post(
     }
 );
 
-router.get("/request-shudown", async (req, res) => {
-    let server = req.query.server as string;
-    if (!server) {
-        res.status(400).json({
-            error: "Missing 'server' query parameter",
-        });
-        return;
-    }
+// Shutdowns are POST-only and bearer-authenticated (no cookies), so a
+// cross-site page can't trigger them.
+// Deprecated: the old misspelled GET only points callers to the new route.
+router.get("/request-shudown", (_req, res) => {
+    res.status(410).json({
+        error: "GET /request-shudown was removed, use POST /request-shutdown { server }",
+    });
+});
 
-    let ok = await NodeService.requestShudownLiteNode(server);
-    if (ok) {
-        res.json({ message: `Shutdown request sent to ${server}` });
-    } else {
-        res.status(500).json({
-            error: `Failed to send shutdown request to ${server}`,
-        });
+router.post(
+    "/request-shutdown",
+    authenticateToken,
+    requirePermission("fleet-control"),
+    async (req, res) => {
+        try {
+            let server = req.body?.server as string;
+            if (!server || typeof server !== "string") {
+                res.status(400).json({ error: "Missing 'server' in body" });
+                return;
+            }
+            let isKnownLiteNode = NodeService.getCurrentLiteNodes().some(
+                (node) => node.server === server
+            );
+            if (!isKnownLiteNode) {
+                await AuditService.recordRequest(req, {
+                    action: "node.shutdown",
+                    target: server,
+                    result: "failure",
+                    details: { reason: "unknown lite node" },
+                });
+                res.status(404).json({
+                    error: `Lite node ${server} not found`,
+                });
+                return;
+            }
+
+            let ok = await NodeService.requestShudownLiteNode(server);
+            await AuditService.recordRequest(req, {
+                action: "node.shutdown",
+                target: server,
+                result: ok ? "success" : "failure",
+            });
+            if (ok) {
+                res.json({ message: `Shutdown request sent to ${server}` });
+            } else {
+                res.status(500).json({
+                    error: `Failed to send shutdown request to ${server}`,
+                });
+            }
+        } catch (error) {
+            logger.error(
+                `Error requesting shutdown: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to request shutdown " + error,
+            });
+        }
     }
-});
+);
 
-router.get("/request-shutdown-all", async (req, res) => {
-    let result = await NodeService.requestShutdownAllLiteNodes();
-    res.json(result);
-});
+// Two steps: a call without `confirmationToken` only returns one (valid for a
+// couple of minutes, single-use, bound to the caller); repeating the call with
+// it actually shuts down every lite node.
+router.post(
+    "/request-shutdown-all",
+    authenticateToken,
+    requirePermission("fleet-control"),
+    async (req, res) => {
+        try {
+            let operator = req.user?.username;
+            if (!operator) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            let targets = NodeService.getCurrentLiteNodes().length;
+            let confirmationToken = req.body?.confirmationToken as
+                string | undefined;
+
+            if (!confirmationToken) {
+                let issued = await Confirmation.issue(
+                    operator,
+                    "node.shutdown-all",
+                    `Shut down ${targets} lite nodes`
+                );
+                await AuditService.recordRequest(req, {
+                    action: "node.shutdown-all.requested",
+                    details: { targets },
+                });
+                res.status(202).json({
+                    confirmationRequired: true,
+                    targets,
+                    ...issued,
+                });
+                return;
+            }
+
+            if (
+                !(await Confirmation.consume(
+                    confirmationToken,
+                    operator,
+                    "node.shutdown-all"
+                ))
+            ) {
+                await AuditService.recordRequest(req, {
+                    action: "node.shutdown-all",
+                    result: "denied",
+                    details: {
+                        reason: "invalid or expired confirmation token",
+                    },
+                });
+                res.status(403).json({
+                    error: "Invalid or expired confirmation token",
+                });
+                return;
+            }
+
+            let result = await NodeService.requestShutdownAllLiteNodes();
+            await AuditService.recordRequest(req, {
+                action: "node.shutdown-all",
+                details: {
+                    targets: result.length,
+                    failed: result
+                        .filter((status) => !status.success)
+                        .map((status) => status.server),
+                },
+            });
+            res.json(result);
+        } catch (error) {
+            logger.error(
+                `Error requesting shutdown of all lite nodes: ${
+                    (error as Error).message
+                }`
+            );
+            res.status(500).json({
+                error: "Failed to request shutdown of all lite nodes " + error,
+            });
+        }
+    }
+);
 
 export default router;
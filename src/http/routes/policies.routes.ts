@@ -0,0 +1,358 @@
+import express from "express";
+import { Mongodb } from "../../database/db.js";
+import { logger } from "../../utils/logger.js";
+import { authenticateToken } from "../middleware/auth.middleware.js";
+import { requirePermission } from "../middleware/rbac.middleware.js";
+import { AuditService } from "../../services/audit-service.js";
+import { CommandPolicyService } from "../../services/command-policy-service.js";
+
+const router = express.Router();
+
+const MAX_APPROVALS = 200;
+
+router.get(
+    "/command-policies",
+    authenticateToken,
+    requirePermission("manage-command-policies"),
+    async (req, res) => {
+        try {
+            let policies = await Mongodb.getCommandPoliciesCollection()
+                .find({}, { projection: { _id: 0 } })
+                .sort({ name: 1 })
+                .toArray();
+            res.json({ policies });
+        } catch (error) {
+            logger.error(
+                `Error fetching command policies: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to fetch command policies " + error,
+            });
+        }
+    }
+);
+
+// POST /command-policies { name, effect, pattern, caseInsensitive?, roles?,
+// description?, isEnabled? }
+router.post(
+    "/command-policies",
+    authenticateToken,
+    requirePermission("manage-command-policies"),
+    async (req, res) => {
+        try {
+            let operator = req.user?.username || "admin";
+            let name = req.body?.name;
+            if (!CommandPolicyService.isValidName(name)) {
+                res.status(400).json({
+                    error: "name must be 1-64 letters, digits, spaces, _, . or -",
+                });
+                return;
+            }
+            let parsed = CommandPolicyService.parsePolicy(req.body ?? {});
+            if ("error" in parsed) {
+                res.status(400).json({ error: parsed.error });
+                return;
+            }
+            let now = Date.now();
+            let policy = {
+                name,
+                ...parsed.policy,
+                createdBy: operator,
+                createdAt: now,
+                updatedAt: now,
+            };
+            let result = await Mongodb.getCommandPoliciesCollection().updateOne(
+                { name },
+                { $setOnInsert: policy },
+                { upsert: true }
+            );
+            if (result.upsertedCount === 0) {
+                res.status(409).json({
+                    error: "A policy with this name exists",
+                });
+                return;
+            }
+            await AuditService.recordRequest(req, {
+                action: "command-policy.create",
+                target: name,
+                after: policy,
+            });
+            res.json({ message: "Command policy created", policy });
+        } catch (error) {
+            logger.error(
+                `Error creating command policy: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to create command policy " + error,
+            });
+        }
+    }
+);
+
+// POST /command-policies/update { name, ...fields to change }
+router.post(
+    "/command-policies/update",
+    authenticateToken,
+    requirePermission("manage-command-policies"),
+    async (req, res) => {
+        try {
+            let name = req.body?.name as string;
+            if (!name) {
+                res.status(400).json({ error: "name is required" });
+                return;
+            }
+            let existing = await Mongodb.getCommandPoliciesCollection().findOne(
+                { name },
+                { projection: { _id: 0 } }
+            );
+            if (!existing) {
+                res.status(404).json({ error: "Command policy not found" });
+                return;
+            }
+            let parsed = CommandPolicyService.parsePolicy(req.body, existing);
+            if ("error" in parsed) {
+                res.status(400).json({ error: parsed.error });
+                return;
+            }
+            let after =
+                await Mongodb.getCommandPoliciesCollection().findOneAndUpdate(
+                    { name },
+                    {
+                        $set: { ...parsed.policy, updatedAt: Date.now() },
+                        ...(parsed.policy.description === undefined
+                            ? { $unset: { description: "" } }
+                            : {}),
+                    },
+                    { returnDocument: "after", projection: { _id: 0 } }
+                );
+            await AuditService.recordRequest(req, {
+                action: "command-policy.update",
+                target: name,
+                before: existing,
+                after,
+            });
+            res.json({ message: "Command policy updated", policy: after });
+        } catch (error) {
+            logger.error(
+                `Error updating command policy: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to update command policy " + error,
+            });
+        }
+    }
+);
+
+router.delete(
+    "/command-policies",
+    authenticateToken,
+    requirePermission("manage-command-policies"),
+    async (req, res) => {
+        try {
+            let name = req.body?.name as string;
+            if (!name) {
+                res.status(400).json({ error: "name is required" });
+                return;
+            }
+            let removed =
+                await Mongodb.getCommandPoliciesCollection().findOneAndDelete(
+                    { name },
+                    { projection: { _id: 0 } }
+                );
+            if (!removed) {
+                res.status(404).json({ error: "Command policy not found" });
+                return;
+            }
+            await AuditService.recordRequest(req, {
+                action: "command-policy.delete",
+                target: name,
+                before: removed,
+            });
+            res.json({ message: "Command policy deleted" });
+        } catch (error) {
+            logger.error(
+                `Error deleting command policy: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to delete command policy " + error,
+            });
+        }
+    }
+);
+
+// POST /command-policies/test { command, role? } - What the current rules
+// would do with a command, without running it
+router.post(
+    "/command-policies/test",
+    authenticateToken,
+    requirePermission("manage-command-policies"),
+    async (req, res) => {
+        try {
+            let command = req.body?.command;
+            if (typeof command !== "string" || !command) {
+                res.status(400).json({ error: "command is required" });
+                return;
+            }
+            let role = (req.body?.role as string | undefined) || req.user?.role;
+            let decision = await CommandPolicyService.evaluate(role, [command]);
+            res.json({ role, decision });
+        } catch (error) {
+            logger.error(
+                `Error testing command policies: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to test command policies " + error,
+            });
+        }
+    }
+);
+
+// GET /command-approvals - Commands awaiting approval: your own, and for
+// approvers every one in their scope
+router.get("/command-approvals", authenticateToken, async (req, res) => {
+    try {
+        let user = req.user;
+        if (!user?.username) {
+            res.status(400).json({ error: "No operator found" });
+            return;
+        }
+        await CommandPolicyService.expireStale();
+        let commands = await Mongodb.getCommandLogsCollection()
+            .find(
+                {
+                    status: "awaiting-approval",
+                    ...CommandPolicyService.approvalScope(user),
+                },
+                { projection: { _id: 0, stdout: 0, stderr: 0, results: 0 } }
+            )
+            .sort({ timestamp: 1 })
+            .limit(MAX_APPROVALS)
+            .toArray();
+        res.json({ commands });
+    } catch (error) {
+        logger.error(
+            `Error fetching command approvals: ${(error as Error).message}`
+        );
+        res.status(500).json({
+            error: "Failed to fetch command approvals " + error,
+        });
+    }
+});
+
+// POST /approve-command { uuid } - Queue a held command as its requester
+router.post(
+    "/approve-command",
+    authenticateToken,
+    requirePermission("approve-commands"),
+    async (req, res) => {
+        try {
+            let user = req.user;
+            let uuid = req.body?.uuid as string;
+            if (!user?.username) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            if (!uuid) {
+                res.status(400).json({ error: "No uuid specified" });
+                return;
+            }
+            let result = await CommandPolicyService.approve(uuid, {
+                username: user.username,
+                ...(user.role ? { role: user.role } : {}),
+            });
+            if ("error" in result) {
+                await AuditService.recordRequest(req, {
+                    action: "command.approve",
+                    target: uuid,
+                    result: "failure",
+                    details: { error: result.error },
+                });
+                res.status(result.status).json({ error: result.error });
+                return;
+            }
+            await AuditService.recordRequest(req, {
+                action: "command.approve",
+                target: uuid,
+                details: {
+                    command: result.log.command,
+                    requester: result.log.operator,
+                    policies: result.log.approval?.policies,
+                    servers: result.log.servers,
+                },
+            });
+            res.json({
+                message: "Command approved",
+                commandLogUuid: uuid,
+                jobIds: result.jobs.map((job) => job._id),
+            });
+        } catch (error) {
+            logger.error(
+                `Error approving command: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to approve command " + error,
+            });
+        }
+    }
+);
+
+// POST /reject-command { uuid, reason? }
+router.post(
+    "/reject-command",
+    authenticateToken,
+    requirePermission("approve-commands"),
+    async (req, res) => {
+        try {
+            let user = req.user;
+            let uuid = req.body?.uuid as string;
+            let reason = req.body?.reason;
+            if (!user?.username) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            if (!uuid) {
+                res.status(400).json({ error: "No uuid specified" });
+                return;
+            }
+            let held = await Mongodb.getCommandLogsCollection().findOne({
+                uuid,
+                status: "awaiting-approval",
+                ...CommandPolicyService.approvalScope(user),
+            });
+            if (!held) {
+                res.status(404).json({
+                    error: "No command awaiting approval with this uuid",
+                });
+                return;
+            }
+            let rejected = await CommandPolicyService.reject(
+                uuid,
+                { username: user.username },
+                typeof reason === "string" ? reason.slice(0, 500) : undefined
+            );
+            if (!rejected) {
+                res.status(409).json({ error: "Command was already decided" });
+                return;
+            }
+            await AuditService.recordRequest(req, {
+                action: "command.reject",
+                target: uuid,
+                details: {
+                    command: rejected.command,
+                    requester: rejected.operator,
+                    reason: rejected.approval?.reason,
+                },
+            });
+            res.json({ message: "Command rejected" });
+        } catch (error) {
+            logger.error(
+                `Error rejecting command: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to reject command " + error,
+            });
+        }
+    }
+);
+
+export default router;
@@ -0,0 +1,630 @@
+import express from "express";
+import { Mongodb, MongoDbTypes } from "../../database/db.js";
+import { logger } from "../../utils/logger.js";
+import { authenticateToken } from "../middleware/auth.middleware.js";
+import { requirePermission } from "../middleware/rbac.middleware.js";
+import { Rbac } from "../../utils/rbac.js";
+import { AuditService } from "../../services/audit-service.js";
+import { DeploymentService } from "../../services/deployment-service.js";
+import { DeploymentProfileService } from "../../services/deployment-profile-service.js";
+import { SshJobs } from "../../services/ssh-jobs.js";
+import { v4 as uuidv4 } from "uuid";
+
+const router = express.Router();
+
+// What audit events show of a profile: secret field names, never values.
+function auditView(
+    profile: Pick<
+        MongoDbTypes.DeploymentProfile,
+        "service" | "description" | "settings" | "secretFields"
+    >
+) {
+    return {
+        service: profile.service,
+        description: profile.description,
+        settings: profile.settings,
+        secretFields: profile.secretFields ?? [],
+    };
+}
+
+// GET /deployment-profiles?service= - Profiles in the caller's read scope
+router.get("/deployment-profiles", authenticateToken, async (req, res) => {
+    try {
+        let service = req.query.service as MongoDbTypes.ServiceType | undefined;
+        let profiles = await Mongodb.getDeploymentProfilesCollection()
+            .find(
+                {
+                    operator: Rbac.operatorScope(req.user, "read"),
+                    ...(service ? { service } : {}),
+                },
+                { projection: { _id: 0, sealedSecrets: 0, secretsHash: 0 } }
+            )
+            .sort({ operator: 1, name: 1 })
+            .toArray();
+        res.json({ profiles });
+    } catch (error) {
+        logger.error(
+            `Error fetching deployment profiles: ${(error as Error).message}`
+        );
+        res.status(500).json({
+            error: "Failed to fetch deployment profiles " + error,
+        });
+    }
+});
+
+// POST /deployment-profiles { name, service, description?, extraData }
+router.post(
+    "/deployment-profiles",
+    authenticateToken,
+    requirePermission("deploy"),
+    async (req, res) => {
+        try {
+            let operator = req.user?.username;
+            let name = req.body?.name;
+            let service = req.body?.service as MongoDbTypes.ServiceType;
+            let description = req.body?.description;
+            if (!operator) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            if (!DeploymentProfileService.isValidName(name)) {
+                res.status(400).json({
+                    error: "name must be 1-64 letters, digits, spaces, _, . or -",
+                });
+                return;
+            }
+            if (!Object.values(MongoDbTypes.ServiceType).includes(service)) {
+                res.status(400).json({ error: "Invalid service" });
+                return;
+            }
+            if (description !== undefined && typeof description !== "string") {
+                res.status(400).json({ error: "description must be a string" });
+                return;
+            }
+            let parsed = DeploymentProfileService.parseExtraData(
+                req.body?.extraData
+            );
+            if ("error" in parsed) {
+                res.status(400).json({ error: parsed.error });
+                return;
+            }
+            if (
+                await Mongodb.getDeploymentProfilesCollection().findOne({
+                    operator,
+                    name,
+                })
+            ) {
+                res.status(409).json({
+                    error: `Deployment profile ${name} already exists`,
+                });
+                return;
+            }
+
+            let now = Date.now();
+            let profile: MongoDbTypes.DeploymentProfile = {
+                operator,
+                name,
+                service,
+                ...(description ? { description } : {}),
+                settings: parsed.settings,
+                ...DeploymentProfileService.sealSecrets(parsed.secrets),
+                version: 1,
+                updatedBy: operator,
+                createdAt: now,
+                updatedAt: now,
+            };
+            await Mongodb.getDeploymentProfilesCollection().insertOne(profile);
+            await DeploymentProfileService.saveVersion(profile, operator);
+            await AuditService.recordRequest(req, {
+                action: "deployment-profile.create",
+                target: name,
+                after: auditView(profile),
+            });
+
+            res.json({
+                message: "Deployment profile added successfully",
+                version: 1,
+            });
+        } catch (error) {
+            logger.error(
+                `Error adding deployment profile: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to add deployment profile " + error,
+            });
+        }
+    }
+);
+
+// POST /deployment-profiles/update { name, owner?, description?, extraData }
+// - Saves a new version. Seeds and passcode left out of extraData are kept,
+// null removes them.
+router.post(
+    "/deployment-profiles/update",
+    authenticateToken,
+    requirePermission("deploy"),
+    async (req, res) => {
+        try {
+            let operator = req.user?.username;
+            let name = req.body?.name;
+            let description = req.body?.description;
+            if (!operator) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            if (typeof name !== "string" || !name) {
+                res.status(400).json({ error: "Name is required" });
+                return;
+            }
+            if (description !== undefined && typeof description !== "string") {
+                res.status(400).json({ error: "description must be a string" });
+                return;
+            }
+            let existing = await DeploymentProfileService.find(
+                req.user,
+                name,
+                req.body?.owner
+            );
+            if (!existing) {
+                res.status(404).json({ error: "Deployment profile not found" });
+                return;
+            }
+            let parsed = DeploymentProfileService.parseExtraData(
+                req.body?.extraData
+            );
+            if ("error" in parsed) {
+                res.status(400).json({ error: parsed.error });
+                return;
+            }
+
+            let secrets = {
+                ...DeploymentProfileService.revealSecrets(existing),
+                ...parsed.secrets,
+            };
+            for (let field of parsed.cleared) delete secrets[field];
+            let sealed = DeploymentProfileService.sealSecrets(secrets);
+
+            let version = existing.version + 1;
+            // Fields the new definition dropped.
+            let unset: Record<string, ""> = {};
+            if (!description) unset.description = "";
+            if (!sealed.sealedSecrets) {
+                unset.sealedSecrets = "";
+                unset.secretFields = "";
+                unset.secretsHash = "";
+            }
+            let updated =
+                await Mongodb.getDeploymentProfilesCollection().findOneAndUpdate(
+                    // Two edits racing: only one gets this version number.
+                    {
+                        operator: existing.operator,
+                        name,
+                        version: existing.version,
+                    },
+                    {
+                        $set: {
+                            ...(description ? { description } : {}),
+                            settings: parsed.settings,
+                            ...sealed,
+                            version,
+                            updatedBy: operator,
+                            updatedAt: Date.now(),
+                        },
+                        ...(Object.keys(unset).length > 0
+                            ? { $unset: unset }
+                            : {}),
+                    },
+                    { returnDocument: "after" }
+                );
+            if (!updated) {
+                res.status(409).json({
+                    error: "Deployment profile was changed meanwhile, reload and retry",
+                });
+                return;
+            }
+            await DeploymentProfileService.saveVersion(updated, operator);
+            await AuditService.recordRequest(req, {
+                action: "deployment-profile.update",
+                target: name,
+                before: auditView(existing),
+                after: auditView(updated),
+                details: {
+                    owner: existing.operator,
+                    version,
+                    secretsChanged:
+                        existing.secretsHash !== updated.secretsHash,
+                },
+            });
+
+            res.json({
+                message: "Deployment profile updated successfully",
+                version,
+            });
+        } catch (error) {
+            logger.error(
+                `Error updating deployment profile: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to update deployment profile " + error,
+            });
+        }
+    }
+);
+
+// DELETE /deployment-profiles { name, owner? } - Delete a profile and its
+// versions. Deploy records keep naming it.
+router.delete(
+    "/deployment-profiles",
+    authenticateToken,
+    requirePermission("deploy"),
+    async (req, res) => {
+        try {
+            let name = req.body?.name;
+            if (typeof name !== "string" || !name) {
+                res.status(400).json({ error: "Name is required" });
+                return;
+            }
+            let existing = await DeploymentProfileService.find(
+                req.user,
+                name,
+                req.body?.owner
+            );
+            if (existing) {
+                let removed =
+                    await Mongodb.getDeploymentProfilesCollection().findOneAndDelete(
+                        { operator: existing.operator, name }
+                    );
+                if (removed) {
+                    await Mongodb.getDeploymentProfileVersionsCollection().deleteMany(
+                        { operator: existing.operator, name }
+                    );
+                    await AuditService.recordRequest(req, {
+                        action: "deployment-profile.delete",
+                        target: name,
+                        before: auditView(removed),
+                        after: null,
+                        details: { owner: existing.operator },
+                    });
+                }
+            }
+
+            res.json({
+                message: "Deployment profile deleted successfully",
+            });
+        } catch (error) {
+            logger.error(
+                `Error deleting deployment profile: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to delete deployment profile " + error,
+            });
+        }
+    }
+);
+
+// GET /deployment-profile-versions?name=&owner= - Saved versions, newest first
+router.get(
+    "/deployment-profile-versions",
+    authenticateToken,
+    requirePermission("deploy"),
+    async (req, res) => {
+        try {
+            let name = req.query.name as string;
+            if (!name) {
+                res.status(400).json({ error: "Name is required" });
+                return;
+            }
+            let profile = await DeploymentProfileService.find(
+                req.user,
+                name,
+                req.query.owner as string | undefined
+            );
+            if (!profile) {
+                res.status(404).json({ error: "Deployment profile not found" });
+                return;
+            }
+            let versions =
+                await Mongodb.getDeploymentProfileVersionsCollection()
+                    .find(
+                        { operator: profile.operator, name },
+                        {
+                            projection: {
+                                _id: 0,
+                                sealedSecrets: 0,
+                                secretsHash: 0,
+                            },
+                        }
+                    )
+                    .sort({ version: -1 })
+                    .toArray();
+            res.json({ versions });
+        } catch (error) {
+            logger.error(
+                `Error fetching deployment profile versions: ${
+                    (error as Error).message
+                }`
+            );
+            res.status(500).json({
+                error: "Failed to fetch deployment profile versions " + error,
+            });
+        }
+    }
+);
+
+// GET /deployment-profiles/diff?name=&owner=&from=&to= - What changed between
+// two versions (`to` defaults to the current one)
+router.get(
+    "/deployment-profiles/diff",
+    authenticateToken,
+    requirePermission("deploy"),
+    async (req, res) => {
+        try {
+            let name = req.query.name as string;
+            let from = Number(req.query.from);
+            if (!name || !Number.isInteger(from)) {
+                res.status(400).json({ error: "name and from are required" });
+                return;
+            }
+            let profile = await DeploymentProfileService.find(
+                req.user,
+                name,
+                req.query.owner as string | undefined
+            );
+            if (!profile) {
+                res.status(404).json({ error: "Deployment profile not found" });
+                return;
+            }
+            let to =
+                req.query.to !== undefined
+                    ? Number(req.query.to)
+                    : profile.version;
+            let [left, right] = await Promise.all([
+                DeploymentProfileService.getVersion(profile, from),
+                DeploymentProfileService.getVersion(profile, to),
+            ]);
+            if (!left || !right) {
+                res.status(404).json({
+                    error: `Profile ${name} has no version ${left ? to : from}`,
+                });
+                return;
+            }
+            res.json({
+                from,
+                to,
+                ...DeploymentProfileService.diff(left, right),
+            });
+        } catch (error) {
+            logger.error(
+                `Error diffing deployment profile: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to diff deployment profile " + error,
+            });
+        }
+    }
+);
+
+// GET /deployment-profiles/usage?name=&owner= - Servers whose current deploy
+// came from the profile, and which version
+router.get(
+    "/deployment-profiles/usage",
+    authenticateToken,
+    requirePermission("deploy"),
+    async (req, res) => {
+        try {
+            let name = req.query.name as string;
+            if (!name) {
+                res.status(400).json({ error: "Name is required" });
+                return;
+            }
+            let profile = await DeploymentProfileService.find(
+                req.user,
+                name,
+                req.query.owner as string | undefined
+            );
+            if (!profile) {
+                res.status(404).json({ error: "Deployment profile not found" });
+                return;
+            }
+            let servers = await Mongodb.getServersCollection()
+                .find(
+                    { operator: Rbac.operatorScope(req.user, "read") },
+                    { projection: { _id: 0, server: 1 } }
+                )
+                .toArray();
+            let usage = await DeploymentProfileService.usage(
+                profile,
+                servers.map((s) => s.server)
+            );
+            res.json({
+                version: profile.version,
+                servers: usage.map(({ peers, ...entry }) => ({
+                    ...entry,
+                    isCurrent: entry.version === profile.version,
+                })),
+            });
+        } catch (error) {
+            logger.error(
+                `Error fetching deployment profile usage: ${
+                    (error as Error).message
+                }`
+            );
+            res.status(500).json({
+                error: "Failed to fetch deployment profile usage " + error,
+            });
+        }
+    }
+);
+
+// POST /deployment-profiles/reapply { name, owner?, servers? } - Redeploy the
+// current version of a profile to every server (or the listed ones) running
+// an older version, keeping each server's binary. Per-deploy overrides are
+// not kept.
+router.post(
+    "/deployment-profiles/reapply",
+    authenticateToken,
+    requirePermission("deploy"),
+    async (req, res) => {
+        try {
+            let operator = req.user?.username;
+            let name = req.body?.name;
+            let only: unknown = req.body?.servers;
+            if (!operator) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            if (typeof name !== "string" || !name) {
+                res.status(400).json({ error: "Name is required" });
+                return;
+            }
+            if (
+                only !== undefined &&
+                (!Array.isArray(only) ||
+                    only.some((s) => typeof s !== "string"))
+            ) {
+                res.status(400).json({ error: "servers must be a list" });
+                return;
+            }
+            let profile = await DeploymentProfileService.find(
+                req.user,
+                name,
+                req.body?.owner
+            );
+            if (!profile) {
+                res.status(404).json({ error: "Deployment profile not found" });
+                return;
+            }
+
+            let serverDocs = await Mongodb.getServersCollection()
+                .find({
+                    operator: Rbac.operatorScope(req.user),
+                    ...(only ? { server: { $in: only as string[] } } : {}),
+                })
+                .toArray();
+            let outdated = (
+                await DeploymentProfileService.usage(
+                    profile,
+                    serverDocs.map((s) => s.server)
+                )
+            ).filter((entry) => entry.version < profile.version);
+
+            let extraData = DeploymentProfileService.extraDataOf(
+                profile
+            ) as DeploymentService.DeployExtraData;
+            let ref = {
+                owner: profile.operator,
+                name: profile.name,
+                version: profile.version,
+            };
+            // auto_p2p peers are drawn per deploy; keep what each server got.
+            let profilePeers =
+                extraData.peers && extraData.peers[0] !== "auto_p2p"
+                    ? (extraData.peers as string[])
+                    : undefined;
+
+            let skipped: { server: string; reason: string }[] = [];
+            let targets: ((typeof outdated)[number] & {
+                binaryUrl: string;
+                binarySha256: string;
+            })[] = [];
+            for (let entry of outdated) {
+                let serverDoc = serverDocs.find(
+                    (s) => s.server === entry.server
+                );
+                if (!serverDoc?.username || serverDoc.status !== "active") {
+                    skipped.push({
+                        server: entry.server,
+                        reason: "Not active",
+                    });
+                } else if (!entry.binaryUrl || !entry.binarySha256) {
+                    skipped.push({
+                        server: entry.server,
+                        reason: "No verified binary recorded, deploy it again",
+                    });
+                } else {
+                    targets.push({
+                        ...entry,
+                        binaryUrl: entry.binaryUrl,
+                        binarySha256: entry.binarySha256,
+                    });
+                }
+            }
+            if (targets.length === 0) {
+                res.json({
+                    message: "Every server is on the current version",
+                    jobIds: [],
+                    skipped,
+                });
+                return;
+            }
+
+            let customParameterMap =
+                await DeploymentService.resolveCustomParameters(
+                    targets.map((t) => t.server)
+                );
+            let jobIds: string[] = [];
+            let currentUUID = uuidv4();
+            await Mongodb.getCommandLogsCollection().insertOne({
+                operator,
+                servers: targets.map((t) => t.server),
+                command: `deploy:${profile.service}:profile:${name}@${profile.version}`,
+                stdout: "",
+                stderr: "",
+                timestamp: Date.now(),
+                status: "pending",
+                uuid: currentUUID,
+                isStandardCommand: true,
+                duration: 0,
+            });
+            for (let target of targets) {
+                let job = await SshJobs.enqueueDeploy(
+                    target.server,
+                    operator,
+                    {
+                        service: profile.service,
+                        ...(target.tag ? { tag: target.tag } : {}),
+                        binaryUrl: target.binaryUrl,
+                        binarySha256: target.binarySha256,
+                        peers: profilePeers || target.peers,
+                        customParameter:
+                            customParameterMap[target.server] ?? "",
+                        profile: ref,
+                    },
+                    extraData,
+                    currentUUID
+                );
+                jobIds.push(job._id);
+            }
+            await AuditService.recordRequest(req, {
+                action: "deployment-profile.reapply",
+                target: targets.map((t) => t.server).join(","),
+                details: {
+                    profile: ref,
+                    from: targets.map((t) => ({
+                        server: t.server,
+                        version: t.version,
+                    })),
+                    skipped,
+                    jobIds,
+                    commandLogUuid: currentUUID,
+                },
+            });
+
+            res.json({
+                message: "Deployment initiated",
+                jobIds,
+                commandLogUuid: currentUUID,
+                skipped,
+            });
+        } catch (error) {
+            logger.error(
+                `Error re-applying deployment profile: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to re-apply deployment profile " + error,
+            });
+        }
+    }
+);
+
+export default router;
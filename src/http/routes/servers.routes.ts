@@ -3,14 +3,121 @@ import { GithubService } from "../../services/github-service.js";
 import { Mongodb, MongoDbTypes } from "../../database/db.js";
 import { logger } from "../../utils/logger.js";
 import { authenticateToken } from "../middleware/auth.middleware.js";
+import { requirePermission } from "../middleware/rbac.middleware.js";
 import { SSHService } from "../../services/ssh-service.js";
-import { mongodbOperatorSelection } from "../../utils/common.js";
+import { Rbac } from "../../utils/rbac.js";
 import { lookupIp, type IpInfo } from "../../utils/ip.js";
-import { millisToSeconds } from "../../utils/time.js";
 import { NodeService } from "../../services/node-service.js";
+import { CredentialVault } from "../../services/credential-vault.js";
+import { AuditService } from "../../services/audit-service.js";
+import { HostKeys } from "../../services/logic/host-keys.js";
+import { SshJobs } from "../../services/ssh-jobs.js";
+import { CommandPolicyService } from "../../services/command-policy-service.js";
 
 const router = express.Router();
 
+const MAX_JUMP_HOPS = 5;
+
+interface JumpHostInput {
+    host: string;
+    port?: number;
+    username: string;
+    authType: "password" | "sshKey";
+    password?: string;
+    fingerprint?: string;
+}
+
+// Validate and seal a jump-host chain from a request body. Key auth uses the
+// operator's stored SSH key, like new servers do.
+async function parseJumpHosts(
+    input: unknown,
+    operator: string
+): Promise<{ hops: MongoDbTypes.JumpHost[] } | { error: string }> {
+    if (
+        !Array.isArray(input) ||
+        input.length === 0 ||
+        input.length > MAX_JUMP_HOPS
+    ) {
+        return { error: `jumpHosts must be a list of 1-${MAX_JUMP_HOPS} hops` };
+    }
+    let userSshKey: string | undefined;
+    let hops: MongoDbTypes.JumpHost[] = [];
+    for (let hop of input as JumpHostInput[]) {
+        if (
+            typeof hop?.host !== "string" ||
+            !hop.host.trim() ||
+            typeof hop.username !== "string" ||
+            !hop.username.trim()
+        ) {
+            return { error: "Each jump host needs a host and a username" };
+        }
+        let host = hop.host.trim();
+        if (
+            hop.port !== undefined &&
+            (!Number.isInteger(hop.port) || hop.port < 1 || hop.port > 65535)
+        ) {
+            return { error: `Invalid SSH port for jump host ${host}` };
+        }
+        if (hop.authType === "password") {
+            if (!hop.password) {
+                return { error: `Password required for jump host ${host}` };
+            }
+        } else if (hop.authType === "sshKey") {
+            if (userSshKey === undefined) {
+                let userDoc = await Mongodb.getUsersCollection().findOne({
+                    username: operator,
+                });
+                userSshKey = userDoc?.currentsshPrivateKey || "";
+            }
+            if (!userSshKey) {
+                return { error: "No SSH key found for user" };
+            }
+        } else {
+            return { error: `Invalid authType for jump host ${host}` };
+        }
+        if (hop.fingerprint) {
+            if (!/^SHA256:[A-Za-z0-9+/]{43}$/.test(hop.fingerprint)) {
+                return {
+                    error: `Invalid fingerprint for jump host ${host} (expected SHA256:<base64>, as printed by ssh-keygen -lf)`,
+                };
+            }
+        } else {
+            // Managed servers have a pinned key; anything else must come
+            // with the key we should expect.
+            let managed = await Mongodb.getServersCollection().findOne(
+                { server: host },
+                { projection: { _id: 1 } }
+            );
+            if (!managed) {
+                return {
+                    error: `Jump host ${host} is not a managed server, so its host key fingerprint is required`,
+                };
+            }
+        }
+        hops.push({
+            host,
+            ...(hop.port ? { port: hop.port } : {}),
+            username: hop.username.trim(),
+            password: CredentialVault.seal(
+                hop.authType === "password" ? hop.password || "" : ""
+            ),
+            sshPrivateKey: CredentialVault.seal(
+                hop.authType === "sshKey" ? userSshKey || "" : ""
+            ),
+            ...(hop.fingerprint ? { fingerprint: hop.fingerprint } : {}),
+        });
+    }
+    return { hops };
+}
+
+// Jump hosts without their credentials, for responses and audit events (the
+// audit diff doesn't look inside arrays).
+function describeJumpHosts(hops: MongoDbTypes.JumpHost[] | undefined) {
+    return (hops ?? []).map(
+        ({ password: _password, sshPrivateKey: _sshPrivateKey, ...hop }) => hop
+    );
+}
+
 router.get("/servers", (req, res) => {
     let servers: string[] = GithubService.getVariable("SERVERS").split(" ");
     for (let i = 0; i < servers.length; i++) {
@@ -22,287 +129,220 @@ router.get("/servers", (req, res) => {
     res.json({ servers });
 });
 
-router.post("/set-server-alias", authenticateToken, async (req, res) => {
-    try {
-        let { server, alias } = req.body;
+router.post(
+    "/set-server-alias",
+    authenticateToken,
+    requirePermission("manage-servers"),
+    async (req, res) => {
+        try {
+            let { server, alias } = req.body;
+            let operator = req.user?.username;
+            if (!operator) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            let before = await Mongodb.getServersCollection().findOneAndUpdate(
+                { server: server, operator: Rbac.operatorScope(req.user) },
+                { $set: { alias: alias } },
+                { projection: { alias: 1 } }
+            );
+            if (before) {
+                await AuditService.recordRequest(req, {
+                    action: "server.set-alias",
+                    target: server,
+                    before: { alias: before.alias },
+                    after: { alias },
+                });
+            }
+            res.json({ message: "Alias updated successfully" });
+        } catch (error) {
+            logger.error(
+                `Error setting server alias: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Internal server error" + error,
+            });
+        }
+    }
+);
+
+router.post(
+    "/new-servers",
+    authenticateToken,
+    requirePermission("manage-servers"),
+    async (req, res) => {
+        let body: {
+            servers: {
+                ip: string;
+                sshPort?: number;
+                username: string;
+                password: string;
+                services: {
+                    liteNode: boolean;
+                    bobNode: boolean;
+                };
+            }[];
+            authType: "password" | "sshKey" | "tracking";
+        } = req.body;
+        let { servers: serversData, authType } = body;
         let operator = req.user?.username;
         if (!operator) {
-            res.status(400).json({ error: "No operator found" });
+            res.status(400).json({
+                error: "No operator found",
+            });
             return;
         }
-        await Mongodb.getServersCollection().updateOne(
-            { server: server },
-            { $set: { alias: alias } }
-        );
-        res.json({ message: "Alias updated successfully" });
-    } catch (error) {
-        logger.error(`Error setting server alias: ${(error as Error).message}`);
-        res.status(500).json({
-            error: "Internal server error" + error,
-        });
-    }
-});
-
-router.post("/new-servers", authenticateToken, async (req, res) => {
-    let body: {
-        servers: {
-            ip: string;
-            sshPort?: number;
-            username: string;
-            password: string;
-            services: {
-                liteNode: boolean;
-                bobNode: boolean;
-            };
-        }[];
-        authType: "password" | "sshKey" | "tracking";
-    } = req.body;
-    let { servers: serversData, authType } = body;
-    let operator = req.user?.username;
-    if (!operator) {
-        res.status(400).json({
-            error: "No operator found",
-        });
-        return;
-    }
 
-    let ipInfos: {
-        [key: string]: IpInfo;
-    } = {};
+        let ipInfos: {
+            [key: string]: IpInfo;
+        } = {};
 
-    for (let server of serversData) {
-        ipInfos[server.ip] = await lookupIp(server.ip);
-    }
+        for (let server of serversData) {
+            ipInfos[server.ip] = await lookupIp(server.ip);
+        }
 
-    let userSshKey = "";
-    try {
-        // Obtain current user ssh key if auth type is sshKey
-        if (authType === "sshKey") {
-            let userDoc = await Mongodb.getUsersCollection().findOne({
-                username: operator,
-            });
-            if (userDoc && userDoc?.currentsshPrivateKey) {
-                userSshKey = userDoc.currentsshPrivateKey;
-            } else {
-                res.status(400).json({
-                    error: "No SSH key found for user",
+        let userSshKey = "";
+        try {
+            // Obtain current user ssh key if auth type is sshKey
+            if (authType === "sshKey") {
+                let userDoc = await Mongodb.getUsersCollection().findOne({
+                    username: operator,
                 });
-                return;
+                if (userDoc && userDoc?.currentsshPrivateKey) {
+                    userSshKey = userDoc.currentsshPrivateKey;
+                } else {
+                    res.status(400).json({
+                        error: "No SSH key found for user",
+                    });
+                    return;
+                }
             }
+        } catch (error) {
+            res.json({
+                error: "Error fetching user ssh key " + error,
+            });
+            return;
         }
-    } catch (error) {
-        res.json({
-            error: "Error fetching user ssh key " + error,
-        });
-        return;
-    }
 
-    let serversDataNormalized: MongoDbTypes.Server[] = serversData.map(
-        (server) => {
-            return {
-                server: server.ip,
-                sshPort: server.sshPort || 22,
-                ipInfo: ipInfos[server.ip]!,
-                operator: operator as string,
-                sshPrivateKey: userSshKey,
-                username: server.username,
-                password: server.password,
-                services: [
-                    server.services.liteNode
-                        ? MongoDbTypes.ServiceType.LiteNode
-                        : MongoDbTypes.ServiceType.null,
-                    server.services.bobNode
-                        ? MongoDbTypes.ServiceType.BobNode
-                        : MongoDbTypes.ServiceType.null,
-                ].filter((s) => s !== "null") as MongoDbTypes.ServiceType[],
-                status: authType === "tracking" ? "active" : "setting_up",
-            };
-        }
-    );
+        let serversDataNormalized: MongoDbTypes.Server[] = serversData.map(
+            (server) => {
+                return {
+                    server: server.ip,
+                    sshPort: server.sshPort || 22,
+                    ipInfo: ipInfos[server.ip]!,
+                    operator: operator as string,
+                    // Credentials are sealed before they ever reach Mongo.
+                    sshPrivateKey: CredentialVault.seal(userSshKey),
+                    username: server.username,
+                    password: CredentialVault.seal(server.password),
+                    services: [
+                        server.services.liteNode
+                            ? MongoDbTypes.ServiceType.LiteNode
+                            : MongoDbTypes.ServiceType.null,
+                        server.services.bobNode
+                            ? MongoDbTypes.ServiceType.BobNode
+                            : MongoDbTypes.ServiceType.null,
+                    ].filter((s) => s !== "null") as MongoDbTypes.ServiceType[],
+                    status: authType === "tracking" ? "active" : "setting_up",
+                };
+            }
+        );
 
-    try {
-        let currentServers = await Mongodb.getServersCollection()
-            .find({})
-            .project({ _id: 0, server: 1 })
-            .toArray();
+        try {
+            let currentServers = await Mongodb.getServersCollection()
+                .find({})
+                .project({ _id: 0, server: 1 })
+                .toArray();
 
-        // Check if one of the servers already exists
-        for (let serverData of serversDataNormalized) {
-            if (currentServers.find((s) => s.server === serverData.server)) {
-                res.status(400).json({
-                    error: `Server ${serverData.server} already exists`,
-                });
-                return;
+            // Check if one of the servers already exists
+            for (let serverData of serversDataNormalized) {
+                if (
+                    currentServers.find((s) => s.server === serverData.server)
+                ) {
+                    res.status(400).json({
+                        error: `Server ${serverData.server} already exists`,
+                    });
+                    return;
+                }
             }
-        }
 
-        // Insert new servers into DB
-        await Mongodb.getServersCollection().insertMany(serversDataNormalized);
+            // Insert new servers into DB
+            await Mongodb.getServersCollection().insertMany(
+                serversDataNormalized
+            );
+            for (let {
+                ipInfo: _ipInfo,
+                ...serverData
+            } of serversDataNormalized) {
+                await AuditService.recordRequest(req, {
+                    action: "server.create",
+                    target: serverData.server,
+                    details: { authType },
+                    before: null,
+                    after: serverData,
+                });
+            }
 
-        if (authType !== "tracking") {
-            // Do set up for servers
-            for (let serverData of serversDataNormalized) {
-                SSHService.setupNode(
-                    serverData.server,
-                    serverData.username,
-                    serverData.password,
-                    serverData.sshPrivateKey
-                )
-                    .then(async (result) => {
-                        if (result.isSuccess) {
-                            Mongodb.getServersCollection()
-                                .updateOne(
-                                    { server: serverData.server },
-                                    {
-                                        $set: {
-                                            cpu: result.cpu,
-                                            os: result.os,
-                                            ram: result.ram,
-                                            status: "active",
-                                            setupLogs: {
-                                                stdout:
-                                                    `---------- Time elapsed ${millisToSeconds(
-                                                        result.duration
-                                                    )} seconds ----------- \n\n` +
-                                                    Object.values(
-                                                        result.stdouts
-                                                    ).join("\n"),
-                                                stderr: Object.values(
-                                                    result.stderrs
-                                                ).join("\n"),
-                                            },
-                                        },
-                                    }
-                                )
-                                .then()
+            if (authType !== "tracking") {
+                // Queue a setup job per server; polling docs are created once
+                // its setup succeeds.
+                for (let serverData of serversDataNormalized) {
+                    await SshJobs.enqueueSetup(serverData.server, operator, {
+                        registerServices: serverData.services,
+                    });
+                }
+            } else {
+                for (let serverData of serversDataNormalized) {
+                    try {
+                        if (
+                            serverData.services.includes(
+                                MongoDbTypes.ServiceType.LiteNode
+                            )
+                        ) {
+                            await Mongodb.getLiteNodeCollection()
+                                .insertOne({
+                                    server: serverData.server,
+                                    operator: operator as string,
+                                    isPrivate: false,
+                                })
                                 .catch((_) => {});
+                        }
 
-                            try {
-                                if (
-                                    serverData.services.includes(
-                                        MongoDbTypes.ServiceType.LiteNode
-                                    )
-                                ) {
-                                    await Mongodb.getLiteNodeCollection()
-                                        .insertOne({
-                                            server: serverData.server,
-                                            operator: operator as string,
-                                            isPrivate: false,
-                                        })
-                                        .catch((_) => {});
-                                }
-
-                                if (
-                                    serverData.services.includes(
-                                        MongoDbTypes.ServiceType.BobNode
-                                    )
-                                ) {
-                                    await Mongodb.getBobNodeCollection()
-                                        .insertOne({
-                                            server: serverData.server,
-                                            operator: operator as string,
-                                            isPrivate: false,
-                                        })
-                                        .catch((_) => {});
-                                }
-                                await NodeService.pullServerLists();
-                            } catch (error) {}
-                        } else {
-                            Mongodb.getServersCollection()
-                                .updateOne(
-                                    { server: serverData.server },
-                                    {
-                                        $set: {
-                                            status: "error",
-                                            setupLogs: {
-                                                stdout:
-                                                    `---------- Time elapsed ${millisToSeconds(
-                                                        result.duration
-                                                    )} seconds ----------- \n\n` +
-                                                    Object.values(
-                                                        result.stdouts
-                                                    ).join("\n"),
-                                                stderr:
-                                                    `---------- Time elapsed ${millisToSeconds(
-                                                        result.duration
-                                                    )} seconds ----------- \n\n` +
-                                                    Object.values(
-                                                        result.stderrs
-                                                    ).join("\n"),
-                                            },
-                                        },
-                                    }
-                                )
-                                .then()
+                        if (
+                            serverData.services.includes(
+                                MongoDbTypes.ServiceType.BobNode
+                            )
+                        ) {
+                            await Mongodb.getBobNodeCollection()
+                                .insertOne({
+                                    server: serverData.server,
+                                    operator: operator as string,
+                                    isPrivate: false,
+                                })
                                 .catch((_) => {});
                         }
-                    })
-                    .catch((error) => {
-                        Mongodb.getServersCollection()
-                            .updateOne(
-                                { server: serverData.server },
-                                {
-                                    $set: {
-                                        status: "error",
-                                        setupLogs: {
-                                            stdout: (error as Error).message,
-                                            stderr: (error as Error).message,
-                                        },
-                                    },
-                                }
-                            )
-                            .then()
-                            .catch(() => {});
-                    });
-            }
-        } else {
-            for (let serverData of serversDataNormalized) {
-                try {
-                    if (
-                        serverData.services.includes(
-                            MongoDbTypes.ServiceType.LiteNode
-                        )
-                    ) {
-                        await Mongodb.getLiteNodeCollection()
-                            .insertOne({
-                                server: serverData.server,
-                                operator: operator as string,
-                                isPrivate: false,
-                            })
-                            .catch((_) => {});
-                    }
-
-                    if (
-                        serverData.services.includes(
-                            MongoDbTypes.ServiceType.BobNode
-                        )
-                    ) {
-                        await Mongodb.getBobNodeCollection()
-                            .insertOne({
-                                server: serverData.server,
-                                operator: operator as string,
-                                isPrivate: false,
-                            })
-                            .catch((_) => {});
-                    }
-                    await NodeService.pullServerLists();
-                } catch (error) {}
+                        await NodeService.pullServerLists();
+                    } catch (error) {}
+                }
             }
+        } catch (error) {
+            logger.error(
+                `Error adding new servers: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to add new servers " + error,
+            });
+            return;
         }
-    } catch (error) {
-        logger.error(`Error adding new servers: ${(error as Error).message}`);
-        res.status(500).json({
-            error: "Failed to add new servers " + error,
-        });
-        return;
-    }
 
-    res.json({ message: "Servers added successfully" });
-});
+        res.json({ message: "Servers added successfully" });
+    }
+);
 
 router.post(
     "/promote-tracking-server",
     authenticateToken,
+    requirePermission("manage-servers"),
     async (req, res) => {
         let body: {
             server: string;
@@ -329,7 +369,7 @@ router.post(
         // Resolve the server and ensure it belongs to the operator and is tracking-only
         let serverDoc = await Mongodb.getServersCollection().findOne({
             server: server,
-            operator: mongodbOperatorSelection(operator),
+            operator: Rbac.operatorScope(req.user),
         });
         if (!serverDoc) {
             res.status(404).json({ error: "Server not found" });
@@ -356,7 +396,10 @@ router.post(
             }
         }
 
-        let resolvedPassword = authType === "password" ? password || "" : "";
+        let resolvedPassword = CredentialVault.seal(
+            authType === "password" ? password || "" : ""
+        );
+        userSshKey = CredentialVault.seal(userSshKey);
 
         try {
             await Mongodb.getServersCollection().updateOne(
@@ -370,6 +413,23 @@ router.post(
                     },
                 }
             );
+            await AuditService.recordRequest(req, {
+                action: "server.promote",
+                target: server,
+                details: { authType },
+                before: {
+                    username: serverDoc.username,
+                    password: serverDoc.password,
+                    sshPrivateKey: serverDoc.sshPrivateKey,
+                    status: serverDoc.status,
+                },
+                after: {
+                    username,
+                    password: resolvedPassword,
+                    sshPrivateKey: userSshKey,
+                    status: "setting_up",
+                },
+            });
         } catch (error) {
             logger.error(
                 `Error promoting tracking server: ${(error as Error).message}`
@@ -378,83 +438,19 @@ router.post(
             return;
         }
 
-        // Kick off setup asynchronously (3+ min); respond immediately
-        SSHService.setupNode(server, username, resolvedPassword, userSshKey)
-            .then((result) => {
-                if (result.isSuccess) {
-                    Mongodb.getServersCollection()
-                        .updateOne(
-                            { server: server },
-                            {
-                                $set: {
-                                    cpu: result.cpu,
-                                    os: result.os,
-                                    ram: result.ram,
-                                    status: "active",
-                                    setupLogs: {
-                                        stdout:
-                                            `---------- Time elapsed ${millisToSeconds(
-                                                result.duration
-                                            )} seconds ----------- \n\n` +
-                                            Object.values(result.stdouts).join(
-                                                "\n"
-                                            ),
-                                        stderr: Object.values(
-                                            result.stderrs
-                                        ).join("\n"),
-                                    },
-                                },
-                            }
-                        )
-                        .then(() => NodeService.pullServerLists())
-                        .catch((_) => {});
-                } else {
-                    Mongodb.getServersCollection()
-                        .updateOne(
-                            { server: server },
-                            {
-                                $set: {
-                                    status: "error",
-                                    setupLogs: {
-                                        stdout:
-                                            `---------- Time elapsed ${millisToSeconds(
-                                                result.duration
-                                            )} seconds ----------- \n\n` +
-                                            Object.values(result.stdouts).join(
-                                                "\n"
-                                            ),
-                                        stderr:
-                                            `---------- Time elapsed ${millisToSeconds(
-                                                result.duration
-                                            )} seconds ----------- \n\n` +
-                                            Object.values(
-                                                result.stderrs
-                                            ).join("\n"),
-                                    },
-                                },
-                            }
-                        )
-                        .then()
-                        .catch((_) => {});
-                }
-            })
-            .catch((error) => {
-                Mongodb.getServersCollection()
-                    .updateOne(
-                        { server: server },
-                        {
-                            $set: {
-                                status: "error",
-                                setupLogs: {
-                                    stdout: (error as Error).message,
-                                    stderr: (error as Error).message,
-                                },
-                            },
-                        }
-                    )
-                    .then()
-                    .catch(() => {});
+        // Queue the setup (3+ min); respond immediately. The services are
+        // already tracked, so there is nothing to register afterwards.
+        try {
+            await SshJobs.enqueueSetup(server, operator, {
+                registerServices: [],
             });
+        } catch (error) {
+            logger.error(
+                `Error queueing setup for ${server}: ${(error as Error).message}`
+            );
+            res.status(500).json({ error: "Failed to queue server setup" });
+            return;
+        }
 
         res.json({ message: "Server promotion started" });
     }
@@ -469,10 +465,11 @@ router.get("/my-servers", authenticateToken, async (req, res) => {
         }
 
         let servers = await Mongodb.getServersCollection()
-            .find({ operator: mongodbOperatorSelection(operator) })
+            .find({ operator: Rbac.operatorScope(req.user, "read") })
             .project({
                 _id: 0,
                 password: 0,
+                "jumpHosts.password": 0,
                 setupLogs: 0,
                 deployLogs: 0,
             })
@@ -486,314 +483,305 @@ router.get("/my-servers", authenticateToken, async (req, res) => {
     }
 });
 
-router.post("/delete-server", authenticateToken, async (req, res) => {
-    try {
-        let operator = req.user?.username;
-        let servers = req.body.servers as string[];
-        if (!operator) {
-            res.status(400).json({ error: "No operator found" });
-            return;
-        }
-        if (!servers) {
-            res.status(400).json({ error: "No server specified" });
-            return;
-        }
+router.post(
+    "/delete-server",
+    authenticateToken,
+    requirePermission("manage-servers"),
+    async (req, res) => {
+        try {
+            let operator = req.user?.username;
+            let servers = req.body.servers as string[];
+            if (!operator) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            if (!servers) {
+                res.status(400).json({ error: "No server specified" });
+                return;
+            }
 
-        for (let server of servers) {
-            await Mongodb.getServersCollection().deleteOne({
-                server: server,
-            });
+            for (let server of servers) {
+                let deleted =
+                    await Mongodb.getServersCollection().findOneAndDelete(
+                        {
+                            server: server,
+                            operator: Rbac.operatorScope(req.user),
+                        },
+                        {
+                            projection: {
+                                setupLogs: 0,
+                                deployLogs: 0,
+                                ipInfo: 0,
+                            },
+                        }
+                    );
+                if (!deleted) continue;
+                await AuditService.recordRequest(req, {
+                    action: "server.delete",
+                    target: server,
+                    before: deleted,
+                    after: null,
+                });
 
-            // Remove all lite/bob nodes associated with it
-            await Mongodb.getLiteNodeCollection().deleteOne({
-                server: server,
-            });
-            await Mongodb.getBobNodeCollection().deleteOne({
-                server: server,
+                // Remove all lite/bob nodes associated with it
+                await Mongodb.getLiteNodeCollection().deleteOne({
+                    server: server,
+                });
+                await Mongodb.getBobNodeCollection().deleteOne({
+                    server: server,
+                });
+                SSHService._clearSSHPortCache(server);
+            }
+            await NodeService.pullServerLists();
+            res.json({ message: "Server deleted successfully" });
+        } catch (error) {
+            logger.error(`Error deleting server: ${(error as Error).message}`);
+            res.status(500).json({
+                error: "Failed to delete server " + error,
             });
-            SSHService._clearSSHPortCache(server);
         }
-        await NodeService.pullServerLists();
-        res.json({ message: "Server deleted successfully" });
-    } catch (error) {
-        logger.error(`Error deleting server: ${(error as Error).message}`);
-        res.status(500).json({
-            error: "Failed to delete server " + error,
-        });
     }
-});
+);
 
 // Remove a single service (lite/bob) from a server without deleting the server.
 // Stops the running node on the host (best-effort), drops the service + its
 // per-service deploy state, deletes the lighter polling record, and refreshes
 // NodeService so realtime tracking for that service stops.
-router.post("/remove-server-service", authenticateToken, async (req, res) => {
-    try {
-        let operator = req.user?.username;
-        let { server, service } = req.body as {
-            server: string;
-            service: MongoDbTypes.ServiceType;
-        };
-        if (!operator) {
-            res.status(400).json({ error: "No operator found" });
-            return;
-        }
-        if (!server || !service) {
-            res.status(400).json({ error: "Missing 'server' or 'service'" });
-            return;
-        }
-        if (
-            service !== MongoDbTypes.ServiceType.LiteNode &&
-            service !== MongoDbTypes.ServiceType.BobNode
-        ) {
-            res.status(400).json({ error: "Invalid service" });
-            return;
-        }
+router.post(
+    "/remove-server-service",
+    authenticateToken,
+    requirePermission("manage-servers"),
+    async (req, res) => {
+        try {
+            let operator = req.user?.username;
+            let { server, service } = req.body as {
+                server: string;
+                service: MongoDbTypes.ServiceType;
+            };
+            if (!operator) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            if (!server || !service) {
+                res.status(400).json({
+                    error: "Missing 'server' or 'service'",
+                });
+                return;
+            }
+            if (
+                service !== MongoDbTypes.ServiceType.LiteNode &&
+                service !== MongoDbTypes.ServiceType.BobNode
+            ) {
+                res.status(400).json({ error: "Invalid service" });
+                return;
+            }
 
-        // Resolve the server, scoped to the operator (admin = all).
-        let serverDoc = await Mongodb.getServersCollection().findOne({
-            server,
-            operator: mongodbOperatorSelection(operator),
-        });
-        if (!serverDoc) {
-            res.status(404).json({ error: "Server not found" });
-            return;
-        }
-        if (!serverDoc.services?.includes(service)) {
-            res.status(400).json({
-                error: "Server does not run this service",
+            // Resolve the server, scoped to the operator (admin = all).
+            let serverDoc = await Mongodb.getServersCollection().findOne({
+                server,
+                operator: Rbac.operatorScope(req.user),
             });
-            return;
-        }
+            if (!serverDoc) {
+                res.status(404).json({ error: "Server not found" });
+                return;
+            }
+            if (!serverDoc.services?.includes(service)) {
+                res.status(400).json({
+                    error: "Server does not run this service",
+                });
+                return;
+            }
 
-        // DB first so the user gets a fast, authoritative confirm. Drop the
-        // service + its per-service deploy state from the server doc.
-        await Mongodb.getServersCollection().updateOne(
-            { server },
-            {
+            // DB first so the user gets a fast, authoritative confirm. Drop the
+            // service + its per-service deploy state from the server doc.
+            await Mongodb.getServersCollection().updateOne({ server }, {
                 $pull: { services: service },
                 $unset: {
                     [`deployStatus.${service}`]: "",
                     [`deployStatusAt.${service}`]: "",
                     [`deployLogs.${service}`]: "",
                 },
-            } as any
-        );
+            } as any);
 
-        // Remove the lighter polling record so realtime tracking stops.
-        if (service === MongoDbTypes.ServiceType.LiteNode) {
-            await Mongodb.getLiteNodeCollection().deleteOne({ server });
-        } else {
-            await Mongodb.getBobNodeCollection().deleteOne({ server });
-        }
+            await AuditService.recordRequest(req, {
+                action: "server.remove-service",
+                target: server,
+                before: { services: serverDoc.services },
+                after: {
+                    services: serverDoc.services.filter((s) => s !== service),
+                },
+            });
 
-        await NodeService.pullServerLists();
-        SSHService._clearSSHPortCache(server);
+            // Remove the lighter polling record so realtime tracking stops.
+            if (service === MongoDbTypes.ServiceType.LiteNode) {
+                await Mongodb.getLiteNodeCollection().deleteOne({ server });
+            } else {
+                await Mongodb.getBobNodeCollection().deleteOne({ server });
+            }
 
-        // Respond now — tracking stopped and DB updated. Stopping the running
-        // node on the host is SSH and can take a while (or hang on an
-        // unreachable host), so run it in the background best-effort; it must
-        // not block the user's confirm.
-        res.json({ message: "Service removed; stopping on host in background" });
+            await NodeService.pullServerLists();
+            SSHService._clearSSHPortCache(server);
 
-        if (serverDoc.username) {
-            SSHService.shutdownNode(
-                serverDoc.server,
-                serverDoc.username,
-                serverDoc.password,
-                serverDoc.sshPrivateKey,
-                service
-            )
-                .then((result) => {
-                    if (!result.isSuccess) {
-                        logger.warn(
-                            `Removed ${service} from ${server}; host stop returned failure`
-                        );
-                    }
-                })
-                .catch((sshError) => {
-                    logger.warn(
-                        `Removed ${service} from ${server} but failed to stop it on host: ${
-                            (sshError as Error).message
-                        }`
-                    );
-                });
+            // Respond now — tracking stopped and DB updated. Stopping the running
+            // node on the host is SSH and can take a while (or hang on an
+            // unreachable host), so run it in the background best-effort; it must
+            // not block the user's confirm.
+            res.json({
+                message: "Service removed; stopping on host in background",
+            });
+
+            if (serverDoc.username) {
+                SSHService.shutdownNode(
+                    serverDoc.server,
+                    serverDoc.username,
+                    serverDoc.password,
+                    serverDoc.sshPrivateKey,
+                    service
+                )
+                    .then((result) => {
+                        if (!result.isSuccess) {
+                            logger.warn(
+                                `Removed ${service} from ${server}; host stop returned failure`
+                            );
+                        }
+                    })
+                    .catch((sshError) => {
+                        logger.warn(
+                            `Removed ${service} from ${server} but failed to stop it on host: ${
+                                (sshError as Error).message
+                            }`
+                        );
+                    });
+            }
+        } catch (error) {
+            logger.error(
+                `Error removing server service: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to remove service " + error,
+            });
         }
-    } catch (error) {
-        logger.error(
-            `Error removing server service: ${(error as Error).message}`
-        );
-        res.status(500).json({
-            error: "Failed to remove service " + error,
-        });
     }
-});
+);
 
 // Add a service (lite/bob) back to a server. Mirrors /new-servers: registers
 // the service, then runs host setup (dependency install) in the background and
 // creates the polling record on success so realtime tracking resumes. The node
 // binary itself is deployed separately via the deploy dialog.
-router.post("/add-server-service", authenticateToken, async (req, res) => {
-    try {
-        let operator = req.user?.username;
-        let { server, service } = req.body as {
-            server: string;
-            service: MongoDbTypes.ServiceType;
-        };
-        if (!operator) {
-            res.status(400).json({ error: "No operator found" });
-            return;
-        }
-        if (!server || !service) {
-            res.status(400).json({ error: "Missing 'server' or 'service'" });
-            return;
-        }
-        if (
-            service !== MongoDbTypes.ServiceType.LiteNode &&
-            service !== MongoDbTypes.ServiceType.BobNode
-        ) {
-            res.status(400).json({ error: "Invalid service" });
-            return;
-        }
+router.post(
+    "/add-server-service",
+    authenticateToken,
+    requirePermission("manage-servers"),
+    async (req, res) => {
+        try {
+            let operator = req.user?.username;
+            let { server, service } = req.body as {
+                server: string;
+                service: MongoDbTypes.ServiceType;
+            };
+            if (!operator) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            if (!server || !service) {
+                res.status(400).json({
+                    error: "Missing 'server' or 'service'",
+                });
+                return;
+            }
+            if (
+                service !== MongoDbTypes.ServiceType.LiteNode &&
+                service !== MongoDbTypes.ServiceType.BobNode
+            ) {
+                res.status(400).json({ error: "Invalid service" });
+                return;
+            }
 
-        let serverDoc = await Mongodb.getServersCollection().findOne({
-            server,
-            operator: mongodbOperatorSelection(operator),
-        });
-        if (!serverDoc) {
-            res.status(404).json({ error: "Server not found" });
-            return;
-        }
-        if (serverDoc.services?.includes(service)) {
-            res.status(400).json({
-                error: "Server already runs this service",
+            let serverDoc = await Mongodb.getServersCollection().findOne({
+                server,
+                operator: Rbac.operatorScope(req.user),
             });
-            return;
-        }
-
-        let createPollingDoc = async () => {
-            let doc = { server, operator: operator as string, isPrivate: false };
-            if (service === MongoDbTypes.ServiceType.LiteNode) {
-                await Mongodb.getLiteNodeCollection()
-                    .updateOne({ server }, { $set: doc }, { upsert: true })
-                    .catch(() => {});
-            } else {
-                await Mongodb.getBobNodeCollection()
-                    .updateOne({ server }, { $set: doc }, { upsert: true })
-                    .catch(() => {});
+            if (!serverDoc) {
+                res.status(404).json({ error: "Server not found" });
+                return;
+            }
+            if (serverDoc.services?.includes(service)) {
+                res.status(400).json({
+                    error: "Server already runs this service",
+                });
+                return;
             }
-        };
 
-        let hasCreds = Boolean(serverDoc.username);
+            let createPollingDoc = async () => {
+                let doc = {
+                    server,
+                    operator: operator as string,
+                    isPrivate: false,
+                };
+                if (service === MongoDbTypes.ServiceType.LiteNode) {
+                    await Mongodb.getLiteNodeCollection()
+                        .updateOne({ server }, { $set: doc }, { upsert: true })
+                        .catch(() => {});
+                } else {
+                    await Mongodb.getBobNodeCollection()
+                        .updateOne({ server }, { $set: doc }, { upsert: true })
+                        .catch(() => {});
+                }
+            };
+
+            let hasCreds = Boolean(serverDoc.username);
 
-        // Register the service immediately (badge appears). Mark setting_up only
-        // when we will actually SSH the host.
-        await Mongodb.getServersCollection().updateOne(
-            { server },
-            {
+            // Register the service immediately (badge appears). Mark setting_up only
+            // when we will actually SSH the host.
+            await Mongodb.getServersCollection().updateOne({ server }, {
                 $addToSet: { services: service },
                 ...(hasCreds ? { $set: { status: "setting_up" } } : {}),
-            } as any
-        );
-
-        // Tracking-only servers have no credentials — nothing to set up on the
-        // host, just register + start tracking.
-        if (!hasCreds) {
-            await createPollingDoc();
-            await NodeService.pullServerLists();
-            res.json({
-                message: "Service added (tracking-only, no host setup)",
-                setupStarted: false,
+            } as any);
+            await AuditService.recordRequest(req, {
+                action: "server.add-service",
+                target: server,
+                before: { services: serverDoc.services },
+                after: { services: [...serverDoc.services, service] },
             });
-            return;
-        }
 
-        // Respond now; run dependency setup on the host in the background, like
-        // /new-servers. Polling doc is created only on a successful setup.
-        res.json({
-            message: "Service added; setup running on host",
-            setupStarted: true,
-        });
+            // Tracking-only servers have no credentials — nothing to set up on the
+            // host, just register + start tracking.
+            if (!hasCreds) {
+                await createPollingDoc();
+                await NodeService.pullServerLists();
+                res.json({
+                    message: "Service added (tracking-only, no host setup)",
+                    setupStarted: false,
+                });
+                return;
+            }
 
-        SSHService.setupNode(
-            serverDoc.server,
-            serverDoc.username,
-            serverDoc.password,
-            serverDoc.sshPrivateKey
-        )
-            .then(async (result) => {
-                if (result.isSuccess) {
-                    await Mongodb.getServersCollection()
-                        .updateOne(
-                            { server },
-                            {
-                                $set: {
-                                    cpu: result.cpu,
-                                    os: result.os,
-                                    ram: result.ram,
-                                    status: "active",
-                                    setupLogs: {
-                                        stdout:
-                                            `---------- Time elapsed ${millisToSeconds(
-                                                result.duration
-                                            )} seconds ----------- \n\n` +
-                                            Object.values(result.stdouts).join(
-                                                "\n"
-                                            ),
-                                        stderr: Object.values(
-                                            result.stderrs
-                                        ).join("\n"),
-                                    },
-                                },
-                            }
-                        )
-                        .catch(() => {});
-                    await createPollingDoc();
-                    await NodeService.pullServerLists();
-                } else {
-                    await Mongodb.getServersCollection()
-                        .updateOne(
-                            { server },
-                            {
-                                $set: {
-                                    status: "error",
-                                    setupLogs: {
-                                        stdout: Object.values(
-                                            result.stdouts
-                                        ).join("\n"),
-                                        stderr: Object.values(
-                                            result.stderrs
-                                        ).join("\n"),
-                                    },
-                                },
-                            }
-                        )
-                        .catch(() => {});
-                }
-            })
-            .catch(async (error) => {
-                logger.error(
-                    `Error setting up added service ${service} on ${server}: ${
-                        (error as Error).message
-                    }`
-                );
-                await Mongodb.getServersCollection()
-                    .updateOne({ server }, { $set: { status: "error" } })
-                    .catch(() => {});
+            // Queue dependency setup on the host, like /new-servers. The polling
+            // doc is created only on a successful setup.
+            await SshJobs.enqueueSetup(server, operator, {
+                registerServices: [service],
             });
-    } catch (error) {
-        logger.error(
-            `Error adding server service: ${(error as Error).message}`
-        );
-        if (!res.headersSent) {
-            res.status(500).json({ error: "Failed to add service " + error });
+            res.json({
+                message: "Service added; setup running on host",
+                setupStarted: true,
+            });
+        } catch (error) {
+            logger.error(
+                `Error adding server service: ${(error as Error).message}`
+            );
+            if (!res.headersSent) {
+                res.status(500).json({
+                    error: "Failed to add service " + error,
+                });
+            }
         }
     }
-});
+);
 
 router.post(
     "/transfer-server-ownership",
     authenticateToken,
+    requirePermission("manage-servers"),
     async (req, res) => {
         try {
             let operator = req.user?.username;
@@ -809,7 +797,7 @@ router.post(
 
             // check if newOwner exists
             let newOwnerDoc = await Mongodb.getUsersCollection().findOne({
-                username: mongodbOperatorSelection(newOwner),
+                username: newOwner,
             });
             if (!newOwnerDoc) {
                 res.status(404).json({ error: "New owner not found" });
@@ -819,7 +807,7 @@ router.post(
             // check if server exists and belongs to operator
             let serverDoc = await Mongodb.getServersCollection().findOne({
                 server: server,
-                operator: mongodbOperatorSelection(operator),
+                operator: Rbac.operatorScope(req.user),
             });
             if (!serverDoc) {
                 res.status(404).json({ error: "Server not found" });
@@ -830,6 +818,12 @@ router.post(
                 { server: server },
                 { $set: { operator: newOwner } }
             );
+            await AuditService.recordRequest(req, {
+                action: "server.transfer-ownership",
+                target: server,
+                before: { operator: serverDoc.operator },
+                after: { operator: newOwner },
+            });
 
             // Also transfer lite/bob nodes associated with it
             await Mongodb.getLiteNodeCollection().updateMany(
@@ -857,99 +851,560 @@ router.post(
     }
 );
 
-router.post("/ttyd-credentials", authenticateToken, async (req, res) => {
-    try {
-        let { host } = req.body;
-        let operator = req.user?.username;
-        if (!operator) {
-            res.status(400).json({ error: "No operator found" });
-            return;
-        }
-        if (!host) {
-            res.status(400).json({ error: "Missing host" });
-            return;
+router.post(
+    "/ttyd-credentials",
+    authenticateToken,
+    requirePermission("ttyd-access"),
+    async (req, res) => {
+        try {
+            let { host } = req.body;
+            let operator = req.user?.username;
+            if (!operator) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            if (!host) {
+                res.status(400).json({ error: "Missing host" });
+                return;
+            }
+            let refusal = await CommandPolicyService.checkShellAccess(
+                req.user?.role
+            );
+            if (refusal) {
+                await AuditService.recordRequest(req, {
+                    action: "server.reveal-ttyd-credentials",
+                    target: host,
+                    result: "denied",
+                    details: { reason: refusal },
+                });
+                res.status(403).json({ error: refusal });
+                return;
+            }
+
+            let serverDoc = await Mongodb.getServersCollection().findOne({
+                server: host,
+                operator: Rbac.operatorScope(req.user),
+            });
+            if (!serverDoc) {
+                res.status(404).json({ error: "Server not found" });
+                return;
+            }
+            if (!serverDoc.ttyd) {
+                res.status(404).json({
+                    error: "ttyd is not installed on this server. Run 'Install ttyd' from the Shell panel first.",
+                });
+                return;
+            }
+
+            await AuditService.recordRequest(req, {
+                action: "server.reveal-ttyd-credentials",
+                target: serverDoc.server,
+            });
+            res.json({
+                host: serverDoc.server,
+                port: serverDoc.ttyd.port,
+                token: serverDoc.ttyd.token,
+            });
+        } catch (error) {
+            logger.error(
+                `Error fetching ttyd credentials: ${(error as Error).message}`
+            );
+            res.status(500).json({ error: "Internal server error" });
         }
+    }
+);
 
-        let serverDoc = await Mongodb.getServersCollection().findOne({
-            server: host,
-            operator: mongodbOperatorSelection(operator),
-        });
-        if (!serverDoc) {
-            res.status(404).json({ error: "Server not found" });
-            return;
+router.post(
+    "/update-server-note",
+    authenticateToken,
+    requirePermission("manage-servers"),
+    async (req, res) => {
+        try {
+            let operator = req.user?.username;
+            let { server, note } = req.body;
+            if (!operator) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            if (!server) {
+                res.status(400).json({ error: "No server specified" });
+                return;
+            }
+
+            let before = await Mongodb.getServersCollection().findOneAndUpdate(
+                { server: server, operator: Rbac.operatorScope(req.user) },
+                { $set: { note: note } },
+                { projection: { note: 1 } }
+            );
+            if (before) {
+                await AuditService.recordRequest(req, {
+                    action: "server.update-note",
+                    target: server,
+                    before: { note: before.note },
+                    after: { note },
+                });
+            }
+            res.json({ message: "Server note updated successfully" });
+        } catch (error) {
+            logger.error(
+                `Error updating server note: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to update server note " + error,
+            });
         }
-        if (!serverDoc.ttyd) {
-            res.status(404).json({
-                error: "ttyd is not installed on this server. Run 'Install ttyd' from the Shell panel first.",
+    }
+);
+
+router.post(
+    "/set-server-bulk-skip",
+    authenticateToken,
+    requirePermission("manage-servers"),
+    async (req, res) => {
+        try {
+            let operator = req.user?.username;
+            let { server, skip } = req.body as {
+                server: string;
+                skip: boolean;
+            };
+            if (!operator) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            if (!server) {
+                res.status(400).json({ error: "No server specified" });
+                return;
+            }
+
+            let before = await Mongodb.getServersCollection().findOneAndUpdate(
+                { server: server, operator: Rbac.operatorScope(req.user) },
+                { $set: { skipBulkSelect: Boolean(skip) } },
+                { projection: { skipBulkSelect: 1 } }
+            );
+            if (before) {
+                await AuditService.recordRequest(req, {
+                    action: "server.set-bulk-skip",
+                    target: server,
+                    before: { skipBulkSelect: Boolean(before.skipBulkSelect) },
+                    after: { skipBulkSelect: Boolean(skip) },
+                });
+            }
+            res.json({
+                message: "Bulk-select preference updated successfully",
+            });
+        } catch (error) {
+            logger.error(
+                `Error setting server bulk-skip: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to set bulk-select preference " + error,
             });
-            return;
         }
+    }
+);
 
-        res.json({
-            host: serverDoc.server,
-            port: serverDoc.ttyd.port,
-            token: serverDoc.ttyd.token,
-        });
-    } catch (error) {
-        logger.error(
-            `Error fetching ttyd credentials: ${(error as Error).message}`
-        );
-        res.status(500).json({ error: "Internal server error" });
+router.post(
+    "/set-server-tags",
+    authenticateToken,
+    requirePermission("manage-servers"),
+    async (req, res) => {
+        try {
+            let operator = req.user?.username;
+            let { server, tags } = req.body as {
+                server: string;
+                tags: string[];
+            };
+            if (!operator) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            if (!server) {
+                res.status(400).json({ error: "No server specified" });
+                return;
+            }
+            if (
+                !Array.isArray(tags) ||
+                !tags.every(
+                    (tag) =>
+                        typeof tag === "string" &&
+                        /^[A-Za-z0-9_.:-]{1,64}$/.test(tag.trim())
+                )
+            ) {
+                res.status(400).json({
+                    error: "tags must be an array of 1-64 character names (letters, digits, _ . : -)",
+                });
+                return;
+            }
+            let normalized = [...new Set(tags.map((tag) => tag.trim()))];
+
+            let before = await Mongodb.getServersCollection().findOneAndUpdate(
+                { server: server, operator: Rbac.operatorScope(req.user) },
+                { $set: { tags: normalized } },
+                { projection: { tags: 1 } }
+            );
+            if (!before) {
+                res.status(404).json({ error: "Server not found" });
+                return;
+            }
+            await AuditService.recordRequest(req, {
+                action: "server.set-tags",
+                target: server,
+                before: { tags: before.tags ?? [] },
+                after: { tags: normalized },
+            });
+            res.json({ message: "Server tags updated successfully" });
+        } catch (error) {
+            logger.error(
+                `Error setting server tags: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to set server tags " + error,
+            });
+        }
     }
-});
+);
 
-router.post("/update-server-note", authenticateToken, async (req, res) => {
-    try {
-        let operator = req.user?.username;
-        let { server, note } = req.body;
-        if (!operator) {
-            res.status(400).json({ error: "No operator found" });
-            return;
+router.post(
+    "/set-server-jump-hosts",
+    authenticateToken,
+    requirePermission("manage-servers"),
+    async (req, res) => {
+        try {
+            let operator = req.user?.username;
+            let { server, jumpHosts, jumpChain } = req.body as {
+                server: string;
+                jumpHosts?: JumpHostInput[];
+                jumpChain?: string;
+            };
+            if (!operator) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            if (!server) {
+                res.status(400).json({ error: "No server specified" });
+                return;
+            }
+            if (jumpHosts && jumpChain) {
+                res.status(400).json({
+                    error: "Set either jumpHosts or jumpChain, not both",
+                });
+                return;
+            }
+
+            // Neither given = connect directly again.
+            let set: {
+                jumpHosts?: MongoDbTypes.JumpHost[];
+                jumpChain?: string;
+            } = {};
+            if (jumpHosts) {
+                let parsed = await parseJumpHosts(jumpHosts, operator);
+                if ("error" in parsed) {
+                    res.status(400).json({ error: parsed.error });
+                    return;
+                }
+                set.jumpHosts = parsed.hops;
+            } else if (jumpChain) {
+                let chain = await Mongodb.getJumpChainsCollection().findOne({
+                    name: jumpChain,
+                    operator: Rbac.operatorScope(req.user),
+                });
+                if (!chain) {
+                    res.status(404).json({ error: "Jump chain not found" });
+                    return;
+                }
+                set.jumpChain = jumpChain;
+            }
+            let unset: { jumpHosts?: ""; jumpChain?: "" } = {};
+            if (!set.jumpHosts) unset.jumpHosts = "";
+            if (!set.jumpChain) unset.jumpChain = "";
+
+            let before = await Mongodb.getServersCollection().findOneAndUpdate(
+                { server: server, operator: Rbac.operatorScope(req.user) },
+                {
+                    ...(Object.keys(set).length ? { $set: set } : {}),
+                    $unset: unset,
+                },
+                { projection: { jumpHosts: 1, jumpChain: 1 } }
+            );
+            if (!before) {
+                res.status(404).json({ error: "Server not found" });
+                return;
+            }
+            SSHService._clearSSHPortCache(server);
+            await AuditService.recordRequest(req, {
+                action: "server.set-jump-hosts",
+                target: server,
+                before: {
+                    jumpHosts: describeJumpHosts(before.jumpHosts),
+                    jumpChain: before.jumpChain ?? null,
+                },
+                after: {
+                    jumpHosts: describeJumpHosts(set.jumpHosts),
+                    jumpChain: set.jumpChain ?? null,
+                },
+            });
+            res.json({ message: "Server jump hosts updated successfully" });
+        } catch (error) {
+            logger.error(
+                `Error setting server jump hosts: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to set server jump hosts " + error,
+            });
         }
-        if (!server) {
-            res.status(400).json({ error: "No server specified" });
-            return;
+    }
+);
+
+router.get(
+    "/jump-chains",
+    authenticateToken,
+    requirePermission("manage-servers"),
+    async (req, res) => {
+        try {
+            let chains = await Mongodb.getJumpChainsCollection()
+                .find({ operator: Rbac.operatorScope(req.user, "read") })
+                .sort({ name: 1 })
+                .toArray();
+            let members = await Mongodb.getServersCollection()
+                .find(
+                    { jumpChain: { $in: chains.map((chain) => chain.name) } },
+                    { projection: { _id: 0, server: 1, jumpChain: 1 } }
+                )
+                .toArray();
+            res.json({
+                jumpChains: chains.map((chain) => ({
+                    name: chain.name,
+                    operator: chain.operator,
+                    hops: describeJumpHosts(chain.hops),
+                    servers: members
+                        .filter((member) => member.jumpChain === chain.name)
+                        .map((member) => member.server),
+                    createdAt: chain.createdAt,
+                    updatedAt: chain.updatedAt,
+                })),
+            });
+        } catch (error) {
+            logger.error(
+                `Error fetching jump chains: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to fetch jump chains " + error,
+            });
         }
+    }
+);
 
-        await Mongodb.getServersCollection().updateOne(
-            { server: server, operator: mongodbOperatorSelection(operator) },
-            { $set: { note: note } }
-        );
-        res.json({ message: "Server note updated successfully" });
-    } catch (error) {
-        logger.error(`Error updating server note: ${(error as Error).message}`);
-        res.status(500).json({
-            error: "Failed to update server note " + error,
-        });
+router.post(
+    "/save-jump-chain",
+    authenticateToken,
+    requirePermission("manage-servers"),
+    async (req, res) => {
+        try {
+            let operator = req.user?.username;
+            let { name, hops } = req.body as {
+                name: string;
+                hops: JumpHostInput[];
+            };
+            if (!operator) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            if (
+                typeof name !== "string" ||
+                !/^[A-Za-z0-9_.:-]{1,64}$/.test(name)
+            ) {
+                res.status(400).json({
+                    error: "name must be 1-64 characters (letters, digits, _ . : -)",
+                });
+                return;
+            }
+            let parsed = await parseJumpHosts(hops, operator);
+            if ("error" in parsed) {
+                res.status(400).json({ error: parsed.error });
+                return;
+            }
+
+            let existing = await Mongodb.getJumpChainsCollection().findOne({
+                name,
+            });
+            let scope = Rbac.operatorScope(req.user);
+            if (
+                existing &&
+                typeof scope === "string" &&
+                existing.operator !== scope
+            ) {
+                res.status(409).json({
+                    error: "A jump chain with this name already exists",
+                });
+                return;
+            }
+            let now = new Date();
+            await Mongodb.getJumpChainsCollection().updateOne(
+                { name },
+                {
+                    $set: { hops: parsed.hops, updatedAt: now },
+                    $setOnInsert: { name, operator, createdAt: now },
+                },
+                { upsert: true }
+            );
+            // Servers on this chain pick up the new hops on their next connection.
+            SSHService._clearAllSSHPortCache();
+            await AuditService.recordRequest(req, {
+                action: "jump-chain.save",
+                target: name,
+                before: existing
+                    ? { hops: describeJumpHosts(existing.hops) }
+                    : null,
+                after: { hops: describeJumpHosts(parsed.hops) },
+            });
+            res.json({ message: "Jump chain saved successfully" });
+        } catch (error) {
+            logger.error(
+                `Error saving jump chain: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to save jump chain " + error,
+            });
+        }
     }
-});
+);
 
-router.post("/set-server-bulk-skip", authenticateToken, async (req, res) => {
-    try {
-        let operator = req.user?.username;
-        let { server, skip } = req.body as { server: string; skip: boolean };
-        if (!operator) {
-            res.status(400).json({ error: "No operator found" });
-            return;
+router.post(
+    "/delete-jump-chain",
+    authenticateToken,
+    requirePermission("manage-servers"),
+    async (req, res) => {
+        try {
+            let operator = req.user?.username;
+            let { name } = req.body as { name: string };
+            if (!operator) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            if (!name) {
+                res.status(400).json({ error: "No jump chain specified" });
+                return;
+            }
+
+            let chain = await Mongodb.getJumpChainsCollection().findOne({
+                name,
+                operator: Rbac.operatorScope(req.user),
+            });
+            if (!chain) {
+                res.status(404).json({ error: "Jump chain not found" });
+                return;
+            }
+            let inUse = await Mongodb.getServersCollection()
+                .find(
+                    { jumpChain: name },
+                    { projection: { _id: 0, server: 1 } }
+                )
+                .toArray();
+            if (inUse.length > 0) {
+                res.status(409).json({
+                    error: `Jump chain is still used by: ${inUse
+                        .map((doc) => doc.server)
+                        .join(", ")}`,
+                });
+                return;
+            }
+            await Mongodb.getJumpChainsCollection().deleteOne({ name });
+            await AuditService.recordRequest(req, {
+                action: "jump-chain.delete",
+                target: name,
+                before: { hops: describeJumpHosts(chain.hops) },
+            });
+            res.json({ message: "Jump chain deleted successfully" });
+        } catch (error) {
+            logger.error(
+                `Error deleting jump chain: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to delete jump chain " + error,
+            });
         }
-        if (!server) {
-            res.status(400).json({ error: "No server specified" });
-            return;
+    }
+);
+
+router.get(
+    "/host-keys",
+    authenticateToken,
+    requirePermission("manage-host-keys"),
+    async (req, res) => {
+        try {
+            let pendingOnly = req.query.pending === "true";
+            let servers = await Mongodb.getServersCollection()
+                .find(
+                    pendingOnly ? { pendingHostKey: { $exists: true } } : {},
+                    {
+                        projection: {
+                            _id: 0,
+                            server: 1,
+                            alias: 1,
+                            operator: 1,
+                            hostKey: 1,
+                            pendingHostKey: 1,
+                        },
+                    }
+                )
+                .toArray();
+            res.json({ servers });
+        } catch (error) {
+            logger.error(
+                `Error fetching host keys: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to fetch host keys " + error,
+            });
         }
+    }
+);
 
-        await Mongodb.getServersCollection().updateOne(
-            { server: server, operator: mongodbOperatorSelection(operator) },
-            { $set: { skipBulkSelect: Boolean(skip) } }
-        );
-        res.json({ message: "Bulk-select preference updated successfully" });
-    } catch (error) {
-        logger.error(
-            `Error setting server bulk-skip: ${(error as Error).message}`
-        );
-        res.status(500).json({
-            error: "Failed to set bulk-select preference " + error,
-        });
+router.post(
+    "/accept-host-key",
+    authenticateToken,
+    requirePermission("manage-host-keys"),
+    async (req, res) => {
+        try {
+            let operator = req.user?.username;
+            let { server, fingerprint } = req.body as {
+                server: string;
+                fingerprint: string;
+            };
+            if (!operator) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            if (!server || !fingerprint) {
+                res.status(400).json({
+                    error: "server and fingerprint are required",
+                });
+                return;
+            }
+
+            let accepted = await HostKeys.accept(server, fingerprint);
+            if (!accepted) {
+                res.status(404).json({
+                    error: "No pending host key with this fingerprint for this server",
+                });
+                return;
+            }
+            await AuditService.recordRequest(req, {
+                action: "server.accept-host-key",
+                target: server,
+                before: { hostKey: accepted.before },
+                after: { hostKey: accepted.after },
+            });
+            res.json({ message: "Host key accepted", hostKey: accepted.after });
+        } catch (error) {
+            logger.error(
+                `Error accepting host key: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to accept host key " + error,
+            });
+        }
     }
-});
+);
 
 export default router;
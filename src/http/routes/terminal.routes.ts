@@ -0,0 +1,133 @@
+import express from "express";
+import type { Filter } from "mongodb";
+import { logger } from "../../utils/logger.js";
+import { authenticateToken } from "../middleware/auth.middleware.js";
+import { requirePermission } from "../middleware/rbac.middleware.js";
+import { Mongodb, MongoDbTypes } from "../../database/db.js";
+import { Rbac } from "../../utils/rbac.js";
+
+const router = express.Router();
+
+const MAX_LIMIT = 500;
+
+// Own sessions only, unless the user may read the audit log.
+function sessionScope(user: {
+    username?: string;
+    role?: string;
+}): Filter<MongoDbTypes.TerminalSession> {
+    return Rbac.hasPermission(user.role, "view-audit-log")
+        ? {}
+        : { user: user.username || "" };
+}
+
+// GET /terminal-sessions?host=&limit=
+router.get(
+    "/terminal-sessions",
+    authenticateToken,
+    requirePermission("terminal-access"),
+    async (req, res) => {
+        try {
+            let user = req.user;
+            if (!user) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            let filter: Filter<MongoDbTypes.TerminalSession> =
+                sessionScope(user);
+            if (typeof req.query.host === "string" && req.query.host) {
+                filter.host = req.query.host;
+            }
+            let limit = Math.min(
+                parseInt(req.query.limit as string) || 100,
+                MAX_LIMIT
+            );
+            let sessions = await Mongodb.getTerminalSessionsCollection()
+                .find(filter, { projection: { _id: 0 } })
+                .sort({ startedAt: -1 })
+                .limit(limit)
+                .toArray();
+            res.json({ sessions });
+        } catch (error) {
+            logger.error(
+                `Error fetching terminal sessions: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to fetch terminal sessions " + error,
+            });
+        }
+    }
+);
+
+// GET /terminal-recording?sessionId=&format=asciicast
+// Events are [offsetMs, "o" | "r", data]: "o" is output, "r" a resize to
+// "COLSxROWS". asciicast v2 plays back with `asciinema play`.
+router.get(
+    "/terminal-recording",
+    authenticateToken,
+    requirePermission("terminal-access"),
+    async (req, res) => {
+        try {
+            let user = req.user;
+            if (!user) {
+                res.status(400).json({ error: "No operator found" });
+                return;
+            }
+            let sessionId = req.query.sessionId;
+            if (typeof sessionId !== "string" || !sessionId) {
+                res.status(400).json({ error: "sessionId is required" });
+                return;
+            }
+            let session = await Mongodb.getTerminalSessionsCollection().findOne(
+                { sessionId, ...sessionScope(user) },
+                { projection: { _id: 0 } }
+            );
+            if (!session) {
+                res.status(404).json({ error: "Terminal session not found" });
+                return;
+            }
+            if (!session.recorded) {
+                res.status(404).json({
+                    error: "Terminal session was not recorded",
+                });
+                return;
+            }
+            let chunks = await Mongodb.getTerminalRecordingsCollection()
+                .find({ sessionId: session.sessionId })
+                .sort({ seq: 1 })
+                .toArray();
+            let events = chunks.flatMap((chunk) => chunk.events);
+
+            if (req.query.format === "asciicast") {
+                let lines = [
+                    JSON.stringify({
+                        version: 2,
+                        width: session.cols,
+                        height: session.rows,
+                        timestamp: Math.floor(session.startedAt / 1000),
+                        title: `${session.user}@${session.host}`,
+                    }),
+                    ...events.map(([offset, kind, data]) =>
+                        JSON.stringify([offset / 1000, kind, data])
+                    ),
+                ];
+                res.setHeader("Content-Type", "application/x-asciicast");
+                res.setHeader(
+                    "Content-Disposition",
+                    `attachment; filename="terminal-${session.sessionId}.cast"`
+                );
+                res.send(lines.join("\n") + "\n");
+                return;
+            }
+            res.json({ session, events });
+        } catch (error) {
+            logger.error(
+                `Error fetching terminal recording: ${(error as Error).message}`
+            );
+            res.status(500).json({
+                error: "Failed to fetch terminal recording " + error,
+            });
+        }
+    }
+);
+
+export default router;
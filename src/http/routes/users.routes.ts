@@ -2,98 +2,114 @@ import express from "express";
 import { Mongodb } from "../../database/db.js";
 import { logger } from "../../utils/logger.js";
 import { authenticateToken } from "../middleware/auth.middleware.js";
+import { requirePermission } from "../middleware/rbac.middleware.js";
+import { AuthService } from "../../services/auth-service.js";
+import { Rbac } from "../../utils/rbac.js";
+import { AuditService } from "../../services/audit-service.js";
 
 const router = express.Router();
 
-// Get all operators (admin only)
-router.get("/operators", authenticateToken, async (req, res) => {
-    try {
-        // check if admin
-        if (!req.user || req.user.role !== "admin") {
-            res.status(403).json({
-                error: "Admin privileges required",
-            });
+// Get all operators (manage-users)
+router.get(
+    "/operators",
+    authenticateToken,
+    requirePermission("manage-users"),
+    async (req, res) => {
+        try {
+            const operators = await Mongodb.getUsersCollection()
+                .find({})
+                .project({ _id: 0, passwordHash: 0 })
+                .toArray();
+            res.json({ operators });
+        } catch (error) {
+            logger.error(`Fetch operators error: ${(error as Error).message}`);
+            res.status(500).json({ error: "Internal server error" });
             return;
         }
-        const operators = await Mongodb.getUsersCollection()
-            .find({})
-            .project({ _id: 0, passwordHash: 0 })
-            .toArray();
-        res.json({ operators });
-    } catch (error) {
-        logger.error(
-            `Fetch operators error: ${(error as Error).message}`
-        );
-        res.status(500).json({ error: "Internal server error" });
-        return;
     }
-});
+);
 
-// Delete an operator (admin only)
-router.delete("/operators", authenticateToken, async (req, res) => {
-    try {
-        if (!req.user || req.user.role !== "admin") {
-            res.status(403).json({
-                error: "Admin privileges required",
-            });
+// Delete an operator (manage-users)
+router.delete(
+    "/operators",
+    authenticateToken,
+    requirePermission("manage-users"),
+    async (req, res) => {
+        try {
+            const { username } = req.body;
+            if (!username) {
+                res.status(400).json({
+                    error: "Missing username",
+                });
+                return;
+            }
+            let deleted = await Mongodb.getUsersCollection().findOneAndDelete(
+                { username },
+                { projection: { username: 1, role: 1, insertedAt: 1 } }
+            );
+            // Existing access tokens are already rejected once the user is gone;
+            // revoking the sessions also kills their refresh tokens.
+            await AuthService.revokeAllSessions(username);
+            if (deleted) {
+                await AuditService.recordRequest(req, {
+                    action: "user.delete",
+                    target: username,
+                    before: deleted,
+                    after: null,
+                });
+            }
+            res.json({ message: "User deleted successfully" });
+        } catch (error) {
+            logger.error(`Delete operator error: ${(error as Error).message}`);
+            res.status(500).json({ error: "Internal server error" });
             return;
         }
-        const { username } = req.body;
-        if (!username) {
-            res.status(400).json({
-                error: "Missing username",
-            });
-            return;
-        }
-        await Mongodb.getUsersCollection().deleteOne({
-            username,
-        });
-        res.json({ message: "User deleted successfully" });
-    } catch (error) {
-        logger.error(
-            `Delete operator error: ${(error as Error).message}`
-        );
-        res.status(500).json({ error: "Internal server error" });
-        return;
     }
-});
+);
 
-// Create a new operator (admin only)
-router.post("/operators", authenticateToken, async (req, res) => {
-    try {
-        if (!req.user || req.user.role !== "admin") {
-            res.status(403).json({
-                error: "Admin privileges required",
+// Create a new operator (manage-users)
+router.post(
+    "/operators",
+    authenticateToken,
+    requirePermission("manage-users"),
+    async (req, res) => {
+        try {
+            const { username, passwordHash, role } = req.body;
+            if (!username || !passwordHash || !role) {
+                res.status(400).json({
+                    error: "Missing username, passwordHash, or role",
+                });
+                return;
+            }
+            if (!Rbac.isRole(role)) {
+                res.status(400).json({
+                    error: `Invalid role, expected one of: ${Rbac.ROLES.join(", ")}`,
+                });
+                return;
+            }
+
+            await Mongodb.createUser({
+                username,
+                passwordHash,
+                role,
+                insertedAt: Date.now(),
             });
-            return;
-        }
-        const { username, passwordHash, role } = req.body;
-        if (!username || !passwordHash || !role) {
-            res.status(400).json({
-                error: "Missing username, passwordHash, or role",
+            await AuditService.recordRequest(req, {
+                action: "user.create",
+                target: username,
+                before: null,
+                after: { username, role },
+            });
+            res.json({ message: "User registered successfully" });
+        } catch (error) {
+            logger.error(`Registration error: ${(error as Error).message}`);
+            res.status(500).json({
+                error: "Internal server error: " + (error as Error).message,
             });
             return;
         }
-
-        await Mongodb.createUser({
-            username,
-            passwordHash,
-            role,
-            insertedAt: Date.now(),
-        });
-        res.json({ message: "User registered successfully" });
-    } catch (error) {
-        logger.error(
-            `Registration error: ${(error as Error).message}`
-        );
-        res.status(500).json({
-            error:
-                "Internal server error: " +
-                (error as Error).message,
-        });
-        return;
     }
-});
+);
 
 // Get current user info
 router.get("/my-info", authenticateToken, async (req, res) => {
@@ -108,7 +124,10 @@ router.get("/my-info", authenticateToken, async (req, res) => {
             { username: operator },
             { projection: { _id: 0, passwordHash: 0 } }
         );
-        res.json({ user: userDoc });
+        res.json({
+            user: userDoc,
+            permissions: Rbac.getPermissions(userDoc?.role),
+        });
     } catch (error) {
         logger.error(
             `Error fetching my info: ${(error as Error).message}`
@@ -4,13 +4,21 @@ import { logger } from "../utils/logger.js";
 import { Mongodb, MongoDbTypes, IS_NO_DB } from "../database/db.js";
 import { SSHService } from "../services/ssh-service.js";
 import { NodeService } from "../services/node-service.js";
+import { DeploymentService } from "../services/deployment-service.js";
+import { DriftService } from "../services/drift-service.js";
 import { sleep } from "../utils/time.js";
 import WebSocket from "ws";
+import { AuthService } from "../services/auth-service.js";
+import { Rbac } from "../utils/rbac.js";
+import { TerminalService } from "../services/terminal-service.js";
 
 const ADAPTER_COLLECTION = "socket_io_adapter_events";
 
 declare module "socket.io" {
     interface Socket {
+        // Set by the handshake middleware when a valid access token was sent;
+        // undefined for anonymous (public dashboard) connections.
+        user?: AuthService.AuthenticatedUser;
         operator: string;
         host: string;
         service: MongoDbTypes.ServiceType;
@@ -40,18 +48,28 @@ export namespace SocketServer {
                 for (const socket of connectingRealtimeSockets) {
                     let statuses = NodeService.getSystemNodesStatus();
 
-                    if (socket.operator && socket.operator !== "admin") {
-                        // Filter statuses by operator (get all nodes if admin)
+                    if (socket.user) {
+                        // Filter statuses to the caller's read scope
                         statuses.liteNodes = statuses.liteNodes.filter(
-                            (status) => status.operator === socket.operator
+                            (status) =>
+                                Rbac.canAccessOperator(
+                                    socket.user,
+                                    status.operator,
+                                    "read"
+                                )
                         );
                         statuses.bobNodes = statuses.bobNodes.filter(
-                            (status) => status.operator === socket.operator
+                            (status) =>
+                                Rbac.canAccessOperator(
+                                    socket.user,
+                                    status.operator,
+                                    "read"
+                                )
                         );
                     }
 
-                    // If no operator is provided, filter out private nodes
-                    if (!socket.operator) {
+                    // Anonymous subscribers only see public nodes
+                    if (!socket.user) {
                         // Only return if isPrivate is false
                         statuses.liteNodes = statuses.liteNodes.filter(
                             (status) => {
@@ -77,11 +95,18 @@ export namespace SocketServer {
                               let nodeDoc = liteNodesFromDb.find(
                                   (node) => node.server === status.server
                               );
+                              let versionDrift = socket.user
+                                  ? DriftService.forNode(
+                                        status.server,
+                                        MongoDbTypes.ServiceType.LiteNode
+                                    )
+                                  : undefined;
                               return {
                                   ...status,
                                   isPrivate: nodeDoc
                                       ? nodeDoc.isPrivate
                                       : false,
+                                  ...(versionDrift ? { versionDrift } : {}),
                               };
                           })
                         : [];
@@ -90,11 +115,18 @@ export namespace SocketServer {
                               let nodeDoc = bobNodesFromDb.find(
                                   (node) => node.server === status.server
                               );
+                              let versionDrift = socket.user
+                                  ? DriftService.forNode(
+                                        status.server,
+                                        MongoDbTypes.ServiceType.BobNode
+                                    )
+                                  : undefined;
                               return {
                                   ...status,
                                   isPrivate: nodeDoc
                                       ? nodeDoc.isPrivate
                                       : false,
+                                  ...(versionDrift ? { versionDrift } : {}),
                               };
                           })
                         : [];
@@ -111,6 +143,188 @@ export namespace SocketServer {
         }
     }
 
+    // Tell the client why a subscription was refused so the UI can show it.
+    function rejectSubscription(
+        socket: Socket,
+        event: string,
+        reason: string,
+        extra: Record<string, unknown> = {}
+    ) {
+        logger.warn(
+            `Socket ${socket.id} (${
+                socket.user?.username || "anonymous"
+            }) rejected on ${event}: ${reason}`
+        );
+        socket.emit("subscriptionRejected", { event, reason, ...extra });
+    }
+
+    // Resolve a managed server the socket's user may read, or null.
+    async function findServerInScope(socket: Socket, host: string) {
+        if (!socket.user || !host || typeof host !== "string") return null;
+        return await Mongodb.getServersCollection().findOne({
+            server: host,
+            operator: Rbac.operatorScope(socket.user, "read"),
+        });
+    }
+
+    // Access tokens can be revoked (logout, user deleted, role changed) while
+    // a socket stays open; re-check every authenticated socket periodically.
+    async function watchSocketSessions() {
+        while (true) {
+            await sleep(60 * 1000);
+            for (const socket of [
+                ...io.of("/").sockets.values(),
+                ...io.of("/terminal").sockets.values(),
+            ]) {
+                if (!socket.user) continue;
+                try {
+                    await AuthService.verifySession(socket.user);
+                } catch (error) {
+                    if (!(error instanceof AuthService.AuthError)) continue;
+                    socket.emit("sessionRevoked", {
+                        reason: error.message,
+                        code: error.code,
+                    });
+                    socket.disconnect(true);
+                }
+            }
+        }
+    }
+
+    async function authenticateHandshake(
+        socket: Socket,
+        next: (err?: Error) => void,
+        isRequired: boolean
+    ) {
+        const authHeader = socket.handshake.headers["authorization"];
+        const token =
+            (socket.handshake.auth?.token as string | undefined) ||
+            (authHeader && authHeader.split(" ")[1]);
+        const fail = (message: string, code: string) => {
+            const err: Error & { data?: unknown } = new Error(message);
+            err.data = { code };
+            next(err);
+        };
+        if (!token) {
+            return isRequired ? fail("Missing token", "invalid_token") : next();
+        }
+        try {
+            socket.user = await AuthService.verifyAccessToken(token);
+            socket.operator = socket.user.username;
+            next();
+        } catch (error) {
+            if (error instanceof AuthService.AuthError) {
+                fail(error.message, error.code);
+            } else {
+                fail("Unauthorized", "invalid_token");
+            }
+        }
+    }
+
+    // Browser terminal (TerminalService). Needs a token and `terminal-access`;
+    // a session only takes input / resize / close from the socket that
+    // opened it.
+    function setupTerminalNamespace() {
+        const terminal = io.of("/terminal");
+        terminal.use((socket, next) =>
+            authenticateHandshake(socket, (err) => {
+                if (err) return next(err);
+                if (!Rbac.hasPermission(socket.user?.role, "terminal-access")) {
+                    const denied: Error & { data?: unknown } = new Error(
+                        "Permission required: terminal-access"
+                    );
+                    denied.data = { code: "forbidden" };
+                    return next(denied);
+                }
+                next();
+            }, true)
+        );
+
+        terminal.on("connection", (socket) => {
+            socket.on(
+                "openTerminal",
+                async (data: {
+                    host: string;
+                    cols?: number;
+                    rows?: number;
+                    record?: boolean;
+                }) => {
+                    const user = socket.user;
+                    if (!user || typeof data?.host !== "string") {
+                        return rejectSubscription(
+                            socket,
+                            "openTerminal",
+                            "Missing host",
+                            { host: data?.host }
+                        );
+                    }
+                    try {
+                        const opened = await TerminalService.open({
+                            owner: socket.id,
+                            user,
+                            host: data.host,
+                            cols: data.cols ?? 80,
+                            rows: data.rows ?? 24,
+                            record: data.record === true,
+                            isOwnerConnected: () => socket.connected,
+                            onOutput: (sessionId, output) => {
+                                socket.emit("terminalOutput", {
+                                    sessionId,
+                                    data: output,
+                                });
+                            },
+                            onClose: (sessionId, reason) => {
+                                socket.emit("terminalClosed", {
+                                    sessionId,
+                                    reason,
+                                });
+                            },
+                        });
+                        socket.emit("terminalOpened", opened);
+                    } catch (error) {
+                        rejectSubscription(
+                            socket,
+                            "openTerminal",
+                            (error as Error).message,
+                            { host: data.host }
+                        );
+                    }
+                }
+            );
+
+            socket.on(
+                "terminalInput",
+                (data: { sessionId: string; data: string }) => {
+                    TerminalService.write(data?.sessionId, socket.id, data?.data);
+                }
+            );
+
+            socket.on(
+                "resizeTerminal",
+                (data: { sessionId: string; cols: number; rows: number }) => {
+                    TerminalService.resize(
+                        data?.sessionId,
+                        socket.id,
+                        data?.cols,
+                        data?.rows
+                    );
+                }
+            );
+
+            socket.on("closeTerminal", (data: { sessionId: string }) => {
+                TerminalService.close(
+                    data?.sessionId,
+                    socket.id,
+                    "Closed by user"
+                );
+            });
+
+            socket.on("disconnect", () => {
+                TerminalService.closeOwnedBy(socket.id, "Socket disconnected");
+            });
+        });
+    }
+
     export function start(httpServer: any) {
         io = new Server(httpServer, {
             cors: { origin: "*" },
@@ -131,6 +345,11 @@ export namespace SocketServer {
             );
         }
 
+        // Handshake auth. A token is optional (the public map/dashboard streams
+        // realtime stats anonymously), but a token that is present must be
+        // valid — the client gets `connect_error` with `data.code`.
+        io.use((socket, next) => authenticateHandshake(socket, next, false));
+
         io.on("connection", (socket) => {
             ///////////////// Subscribe to Service Logs /////////////////
 
@@ -141,24 +360,43 @@ export namespace SocketServer {
                     host: string;
                 }) => {
                     try {
-                        socket.isSubscribedToLogs = true;
-                        socket.host = data.host;
-                        socket.service = data.service;
                         logger.info(
-                            `Socket ${socket.id} requested to subscribe to logs for service: ${data.service} on host: ${data.host}`
+                            `Socket ${socket.id} requested to subscribe to logs for service: ${data?.service} on host: ${data?.host}`
                         );
+                        if (!socket.user) {
+                            return rejectSubscription(
+                                socket,
+                                "subscribeToServiceLogs",
+                                "Authentication required",
+                                { host: data?.host }
+                            );
+                        }
 
-                        let serverDoc =
-                            await Mongodb.getServersCollection().findOne({
-                                server: data.host,
-                            });
+                        let serverDoc = await findServerInScope(
+                            socket,
+                            data?.host
+                        );
                         if (!serverDoc) {
-                            logger.warn(
-                                `Socket ${socket.id} attempted to subscribe to logs for unknown host: ${data.host}`
+                            return rejectSubscription(
+                                socket,
+                                "subscribeToServiceLogs",
+                                "Server not found or not owned by you",
+                                { host: data?.host }
+                            );
+                        }
+                        if (!serverDoc.services.includes(data.service)) {
+                            return rejectSubscription(
+                                socket,
+                                "subscribeToServiceLogs",
+                                `Service ${data.service} is not installed on this server`,
+                                { host: data.host }
                             );
-                            return;
                         }
 
+                        socket.isSubscribedToLogs = true;
+                        socket.host = serverDoc.server;
+                        socket.service = data.service;
+
                         let screenNameMap: Record<
                             MongoDbTypes.ServiceType,
                             string
@@ -239,11 +477,30 @@ export namespace SocketServer {
                     service: MongoDbTypes.ServiceType;
                     operator?: string;
                 }) => {
+                    // The operator scope comes from the token; a client-supplied
+                    // operator is only accepted if it is the caller.
+                    if (
+                        data?.operator &&
+                        (!socket.user ||
+                            !Rbac.canAccessOperator(
+                                socket.user,
+                                data.operator,
+                                "read"
+                            ))
+                    ) {
+                        return rejectSubscription(
+                            socket,
+                            "subscribeToRealtimeStats",
+                            socket.user
+                                ? "Not allowed to view this operator's nodes"
+                                : "Authentication required"
+                        );
+                    }
                     logger.info(
                         `Socket ${socket.id} subscribed to realtime stats`
                     );
-                    socket.service = data.service;
-                    socket.operator = data.operator || "";
+                    socket.service = data?.service;
+                    socket.operator = socket.user?.username || "";
                     socket.isSubscribedToRealtimeStats = true;
                     connectingRealtimeSockets.add(socket);
                 }
@@ -263,19 +520,64 @@ export namespace SocketServer {
             socket.on(
                 "registerNotifications",
                 (data: { operator?: string }) => {
-                    if (data?.operator) socket.operator = data.operator;
+                    if (!socket.user) {
+                        return rejectSubscription(
+                            socket,
+                            "registerNotifications",
+                            "Authentication required"
+                        );
+                    }
+                    if (
+                        data?.operator &&
+                        data.operator !== socket.user.username
+                    ) {
+                        return rejectSubscription(
+                            socket,
+                            "registerNotifications",
+                            "Cannot register notifications for another operator"
+                        );
+                    }
                     notificationSockets.add(socket);
                     // Join rooms so the leader's promote/demote events reach this
                     // socket via the Mongo adapter even on another instance.
-                    socket.join("notif:" + (socket.operator || ""));
-                    if (socket.operator === "admin") socket.join("notif:admin");
+                    // "notif:admin" carries every operator's events.
+                    socket.join("notif:" + socket.user.username);
+                    if (Rbac.hasPermission(socket.user.role, "view-all-servers"))
+                        socket.join("notif:admin");
                 }
             );
 
             ///////////////// Subcribe to Bob Realtime Logs Proxy /////////////////
             socket.on(
                 "subscribeToBobRealtimeLogs",
-                (data: { bobHost: string; subscribeData: object }) => {
+                async (data: { bobHost: string; subscribeData: object }) => {
+                    if (!socket.user) {
+                        return rejectSubscription(
+                            socket,
+                            "subscribeToBobRealtimeLogs",
+                            "Authentication required",
+                            { host: data?.bobHost }
+                        );
+                    }
+                    // Only proxy to managed bob nodes the caller can see — never
+                    // to an arbitrary client-supplied address.
+                    let serverDoc = await findServerInScope(
+                        socket,
+                        data?.bobHost
+                    ).catch(() => null);
+                    if (
+                        !serverDoc ||
+                        !serverDoc.services.includes(
+                            MongoDbTypes.ServiceType.BobNode
+                        )
+                    ) {
+                        return rejectSubscription(
+                            socket,
+                            "subscribeToBobRealtimeLogs",
+                            "Bob node not found or not owned by you",
+                            { host: data?.bobHost }
+                        );
+                    }
                     logger.info(
                         `Socket ${socket.id} subscribed to Bob realtime logs proxy at host: ${data.bobHost}`
                     );
@@ -371,7 +673,17 @@ export namespace SocketServer {
                 .emit("mainNodeEvent", event);
         });
 
+        // Rollout progress goes to the same notification rooms.
+        DeploymentService.onRolloutProgress((rollout) => {
+            io.to("notif:admin")
+                .to("notif:" + rollout.operator)
+                .emit("rolloutProgress", rollout);
+        });
+
+        setupTerminalNamespace();
+
         watchAndbroadcastRealtimeStats();
+        if (!IS_NO_DB) watchSocketSessions();
     }
 
     export function getIo(): Server {
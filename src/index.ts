@@ -9,6 +9,14 @@ import { LeaderService } from "./services/leader-service.js";
 import fs from "fs/promises";
 import { logger } from "./utils/logger.js";
 import { Gmail } from "./utils/gmail.js";
+import { CredentialVault } from "./services/credential-vault.js";
+import { SchedulerService } from "./services/scheduler-service.js";
+import { DeploymentService } from "./services/deployment-service.js";
+import { SshJobs } from "./services/ssh-jobs.js";
+import { TerminalService } from "./services/terminal-service.js";
+import { CommandPolicyService } from "./services/command-policy-service.js";
+import { DriftService } from "./services/drift-service.js";
+import { ArtifactCache } from "./services/artifact-cache.js";
 
 function checkEnvVariables() {
     const requiredVars = [
@@ -24,11 +32,15 @@ function checkEnvVariables() {
         "GMAIL_USER",
         "GMAIL_APP_PASSWORD",
         "ALERT_EMAIL_RECIPIENTS",
+        "VAULT_MASTER_KEY",
     ];
 
     const filtered = IS_NO_DB
         ? requiredVars.filter(
-              (v) => v !== "MONGO_URI" && v !== "MONGO_DB_NAME"
+              (v) =>
+                  v !== "MONGO_URI" &&
+                  v !== "MONGO_DB_NAME" &&
+                  v !== "VAULT_MASTER_KEY"
           )
         : requiredVars;
 
@@ -40,6 +52,13 @@ function checkEnvVariables() {
             process.exit(1);
         }
     });
+
+    if (!IS_NO_DB && !CredentialVault.isConfigured()) {
+        console.error(
+            "Error: VAULT_MASTER_KEY must be a 32-byte key (base64 or hex encoded)"
+        );
+        process.exit(1);
+    }
 }
 
 async function dataSetup() {
@@ -85,6 +104,13 @@ async function main() {
     await MapService.start();
     await GithubService.start();
     await NodeService.start();
+    await SchedulerService.start();
+    await DeploymentService.start();
+    await SshJobs.start();
+    TerminalService.start();
+    CommandPolicyService.start();
+    DriftService.start();
+    ArtifactCache.start();
     const server = await HttpServer.start();
     SocketServer.start(server);
     Gmail.sendServerStartedEmail({
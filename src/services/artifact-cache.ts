@@ -0,0 +1,282 @@
+import fs from "fs";
+import path from "path";
+import { once } from "events";
+import { createHash, createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { MongoDbTypes } from "../database/db.js";
+import { logger } from "../utils/logger.js";
+import { sleep } from "../utils/time.js";
+import { GithubService } from "./github-service.js";
+import { ArtifactService } from "./artifact-service.js";
+import { DriftService } from "./drift-service.js";
+
+/**
+ * Local copies of release binaries, so a rollout downloads each asset from
+ * GitHub once per backend instance instead of once per node.
+ *
+ * Files live at <ARTIFACT_CACHE_DIR>/<service>/<tag>/<asset> and are only
+ * moved there after their sha256 matched the pinned one (ArtifactService).
+ * Nodes fetch them from `GET /artifacts/<token>/<service>/<tag>/<asset>`:
+ * the token is an expiring HMAC of the path, so the route needs no login and
+ * a link is only good for one asset. An instance asked for an asset it
+ * doesn't have yet downloads it first.
+ *
+ * Off unless ARTIFACT_CACHE_BASE_URL (the backend as the nodes reach it) is
+ * set; deploys then download from GitHub as before. Every instance prunes
+ * its own directory down to the newest ARTIFACT_CACHE_KEEP_TAGS tags per
+ * service, plus the approved tag.
+ */
+export namespace ArtifactCache {
+    const CACHE_DIR = path.resolve(
+        process.env.ARTIFACT_CACHE_DIR || "data/artifacts"
+    );
+    const BASE_URL = (process.env.ARTIFACT_CACHE_BASE_URL || "").replace(
+        /\/+$/,
+        ""
+    );
+    const LINK_TTL_MS = Number(process.env.ARTIFACT_LINK_TTL_MS) || 3_600_000;
+    const KEEP_TAGS = Number(process.env.ARTIFACT_CACHE_KEEP_TAGS) || 5;
+    // A stalled download would hold up every deploy waiting on the asset.
+    const DOWNLOAD_TIMEOUT_MS =
+        Number(process.env.ARTIFACT_DOWNLOAD_TIMEOUT_MS) || 5 * 60_000;
+    const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+    const SERVICES = [
+        MongoDbTypes.ServiceType.LiteNode,
+        MongoDbTypes.ServiceType.BobNode,
+    ];
+
+    // One download per asset even when several deploys ask at once.
+    const _downloading = new Map<string, Promise<string>>();
+
+    export function isEnabled() {
+        return !!BASE_URL;
+    }
+
+    // Path segments come from requests too: no separators, no dot-dirs.
+    function isSafeSegment(segment: string) {
+        return (
+            !!segment &&
+            segment !== "." &&
+            segment !== ".." &&
+            !/[\/\\\0]/.test(segment)
+        );
+    }
+
+    function filePath(service: string, tag: string, asset: string) {
+        return path.join(CACHE_DIR, service, tag, asset);
+    }
+
+    function sign(payload: string) {
+        return createHmac("sha256", `artifact-link:${process.env.JWT_SECRET}`)
+            .update(payload)
+            .digest("hex");
+    }
+
+    function linkPayload(
+        service: string,
+        tag: string,
+        asset: string,
+        expiresAt: number
+    ) {
+        return `${service}\n${tag}\n${asset}\n${expiresAt}`;
+    }
+
+    // `<expiresAt>.<signature>` for one asset.
+    export function createToken(service: string, tag: string, asset: string) {
+        const expiresAt = Date.now() + LINK_TTL_MS;
+        return `${expiresAt}.${sign(
+            linkPayload(service, tag, asset, expiresAt)
+        )}`;
+    }
+
+    export function verifyToken(
+        token: string,
+        service: string,
+        tag: string,
+        asset: string
+    ) {
+        const [expires, signature] = token.split(".");
+        const expiresAt = Number(expires);
+        if (!signature || !Number.isFinite(expiresAt)) return false;
+        if (expiresAt < Date.now()) return false;
+        const expected = Buffer.from(
+            sign(linkPayload(service, tag, asset, expiresAt))
+        );
+        const given = Buffer.from(signature);
+        return (
+            given.length === expected.length && timingSafeEqual(given, expected)
+        );
+    }
+
+    async function hashFile(file: string) {
+        const hash = createHash("sha256");
+        for await (const chunk of fs.createReadStream(file)) hash.update(chunk);
+        return hash.digest("hex");
+    }
+
+    async function download(url: string, target: string, sha256: string) {
+        await fs.promises.mkdir(path.dirname(target), { recursive: true });
+        // Unique per download: instances sharing the volume all run as pid 1.
+        const partial = `${target}.${randomUUID()}.part`;
+        let out: fs.WriteStream | undefined;
+        try {
+            const response = await fetch(url, {
+                signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+            });
+            if (!response.ok || !response.body) {
+                throw new Error(
+                    `Failed to download ${url}: ${response.statusText}`
+                );
+            }
+            out = fs.createWriteStream(partial);
+            for await (const chunk of response.body) {
+                // once() rejects if the write stream errors meanwhile.
+                if (!out.write(chunk)) await once(out, "drain");
+            }
+            out.end();
+            await once(out, "finish");
+            // The file as written, not the bytes as received.
+            const got = await hashFile(partial);
+            if (got !== sha256) {
+                throw new Error(
+                    `Checksum mismatch: ${url} has sha256 ${got}, expected ${sha256}`
+                );
+            }
+            await fs.promises.rename(partial, target);
+        } catch (error) {
+            out?.destroy();
+            await fs.promises.rm(partial, { force: true });
+            throw error;
+        }
+    }
+
+    /**
+     * Path of the verified local copy of a release asset, downloading it if
+     * needed. Throws when the asset has no pinned checksum yet or the
+     * download doesn't match it.
+     */
+    export async function ensure(
+        service: MongoDbTypes.ServiceType,
+        tag: string,
+        asset: string
+    ): Promise<string> {
+        if (![service, tag, asset].every(isSafeSegment)) {
+            throw new Error("Invalid artifact path");
+        }
+        const target = filePath(service, tag, asset);
+        if (fs.existsSync(target)) return target;
+
+        let pending = _downloading.get(target);
+        if (!pending) {
+            const url = GithubService.getDownloadUrlForTag(tag, asset, service);
+            pending = (async () => {
+                const pinned = await ArtifactService.getPinned(url);
+                if (!pinned) {
+                    throw new Error(`No checksum pinned for ${tag}/${asset}`);
+                }
+                await download(url, target, pinned.sha256);
+                logger.info(`📦 Cached ${service} ${tag}/${asset}`);
+                return target;
+            })().finally(() => _downloading.delete(target));
+            _downloading.set(target, pending);
+        }
+        return await pending;
+    }
+
+    /**
+     * What a node should download `binaryUrl` from: a signed link to this
+     * backend's copy when the cache is on and the URL is a release asset,
+     * otherwise `binaryUrl` itself. Falls back to `binaryUrl` when the cache
+     * can't get the file, so a cache problem never blocks a deploy.
+     */
+    export async function downloadUrlFor(
+        service: MongoDbTypes.ServiceType,
+        binaryUrl: string
+    ): Promise<string> {
+        if (!isEnabled()) return binaryUrl;
+        const release = ArtifactService.releaseAssetOf(service, binaryUrl);
+        if (!release) return binaryUrl;
+        try {
+            await ensure(service, release.tag, release.asset);
+        } catch (error) {
+            logger.warn(
+                `Artifact cache unavailable for ${release.tag}/${
+                    release.asset
+                }, nodes download from GitHub: ${(error as Error).message}`
+            );
+            return binaryUrl;
+        }
+        return `${BASE_URL}/artifacts/${createToken(
+            service,
+            release.tag,
+            release.asset
+        )}/${[service, release.tag, release.asset]
+            .map(encodeURIComponent)
+            .join("/")}`;
+    }
+
+    // Tags whose files stay: the newest KEEP_TAGS and the approved one.
+    async function tagsToKeep(service: MongoDbTypes.ServiceType) {
+        const keep = new Set(
+            (GithubService.getGithubTags(service) || [])
+                .slice(0, KEEP_TAGS)
+                .map((tag) => tag.name)
+        );
+        const approved = await DriftService.getApprovedTag(service);
+        if (approved) keep.add(approved);
+        return keep;
+    }
+
+    // Half-written downloads left by a crash.
+    async function removeStalePartials(dir: string) {
+        const files = await fs.promises.readdir(dir).catch(() => []);
+        for (const file of files) {
+            if (!file.endsWith(".part")) continue;
+            const stat = await fs.promises.stat(path.join(dir, file));
+            if (Date.now() - stat.mtimeMs > PRUNE_INTERVAL_MS) {
+                await fs.promises.rm(path.join(dir, file), { force: true });
+            }
+        }
+    }
+
+    export async function prune() {
+        for (const service of SERVICES) {
+            // Without a tag list there is nothing to rank by.
+            if (!GithubService.getGithubTags(service)?.length) continue;
+            const keep = await tagsToKeep(service);
+            const dir = path.join(CACHE_DIR, service);
+            const tags = await fs.promises.readdir(dir).catch(() => []);
+            for (const tag of tags) {
+                if (keep.has(tag)) {
+                    await removeStalePartials(path.join(dir, tag));
+                    continue;
+                }
+                await fs.promises.rm(path.join(dir, tag), {
+                    recursive: true,
+                    force: true,
+                });
+                logger.info(`📦 Evicted ${service} ${tag} from the artifact cache`);
+            }
+        }
+    }
+
+    // Every instance has its own directory, so no leader check here.
+    async function watchPrune() {
+        while (true) {
+            try {
+                await prune();
+            } catch (error) {
+                logger.error(`Error in watchPrune: ${(error as Error).message}`);
+            }
+            await sleep(PRUNE_INTERVAL_MS);
+        }
+    }
+
+    export function start() {
+        if (!isEnabled()) return;
+        if (!process.env.JWT_SECRET) {
+            throw new Error("JWT_SECRET is required for artifact links");
+        }
+        logger.info(`📦 Artifact cache in ${CACHE_DIR}, served at ${BASE_URL}`);
+        watchPrune();
+    }
+}
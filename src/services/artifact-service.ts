@@ -0,0 +1,282 @@
+import { createHash } from "crypto";
+import { Mongodb, MongoDbTypes } from "../database/db.js";
+import { logger } from "../utils/logger.js";
+import { GithubService } from "./github-service.js";
+
+/**
+ * The sha256 a node must verify a binary against before running it.
+ *
+ * A GitHub release asset is pinned in `artifact_checksums` the first time it
+ * is deployed: from a checksum file published with the release when there is
+ * one, otherwise by downloading the asset and hashing it here. From then on
+ * every deploy of that URL is held to the pinned hash, so an asset replaced
+ * upstream fails verification instead of reaching the fleet.
+ *
+ * Any other URL has no release to trust, so it needs a hash supplied by a
+ * user with `manage-artifacts`.
+ */
+export namespace ArtifactService {
+    export type Source = MongoDbTypes.ArtifactChecksum["source"];
+
+    export interface Resolved {
+        sha256: string;
+        source: Source;
+    }
+
+    export type ResolveResult = Resolved | { error: string; status: number };
+
+    // Printed by the remote check so a failed deploy can say why.
+    const MISMATCH_MARKER = "CHECKSUM_MISMATCH";
+    const MAX_CHECKSUM_FILE_BYTES = 1024 * 1024;
+    // /deploy waits for these; a stalled download must not hang it.
+    const DOWNLOAD_TIMEOUT_MS =
+        Number(process.env.ARTIFACT_DOWNLOAD_TIMEOUT_MS) || 5 * 60_000;
+    const CHECKSUM_FILE_TIMEOUT_MS = 30_000;
+
+    // One download per asset even when several deploys ask at once.
+    const _computing = new Map<string, Promise<string>>();
+
+    export function isSha256(value: unknown): value is string {
+        return typeof value === "string" && /^[a-fA-F0-9]{64}$/.test(value);
+    }
+
+    // Release tag and asset a download URL belongs to, if any.
+    export function releaseAssetOf(
+        service: MongoDbTypes.ServiceType,
+        url: string
+    ): { tag: string; asset: string } | undefined {
+        for (const tag of GithubService.getGithubTags(service) || []) {
+            for (const asset of tag.assets || []) {
+                if (
+                    GithubService.getDownloadUrlForTag(
+                        tag.name,
+                        asset.name,
+                        service
+                    ) === url
+                ) {
+                    return { tag: tag.name, asset: asset.name };
+                }
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * sha256 of `asset` in a checksum file. Understands `sha256sum` output
+     * ("<hash>  [*]<name>"), BSD style ("SHA256 (<name>) = <hash>"), and a
+     * file holding just the hash when it is named after the asset.
+     */
+    export function parseChecksumFile(
+        content: string,
+        asset: string,
+        fileName: string
+    ): string | undefined {
+        for (const line of content.split(/\r?\n/)) {
+            const gnu = line.trim().match(/^([a-fA-F0-9]{64})\s+\*?(.+)$/);
+            if (gnu && gnu[2]!.trim().split("/").pop() === asset) {
+                return gnu[1]!.toLowerCase();
+            }
+            const bsd = line
+                .trim()
+                .match(/^SHA256 \((.+)\) = ([a-fA-F0-9]{64})$/i);
+            if (bsd && bsd[1]!.split("/").pop() === asset) {
+                return bsd[2]!.toLowerCase();
+            }
+        }
+        const lone = content.trim().match(/^([a-fA-F0-9]{64})$/);
+        if (lone && fileName.toLowerCase().startsWith(asset.toLowerCase())) {
+            return lone[1]!.toLowerCase();
+        }
+        return undefined;
+    }
+
+    async function findPublished(
+        checksumAssets: GithubService.GithubAsset[],
+        asset: string
+    ): Promise<string | undefined> {
+        for (const file of checksumAssets) {
+            if (file.size > MAX_CHECKSUM_FILE_BYTES) continue;
+            try {
+                const response = await fetch(file.browser_download_url, {
+                    signal: AbortSignal.timeout(CHECKSUM_FILE_TIMEOUT_MS),
+                });
+                if (!response.ok) {
+                    throw new Error(response.statusText);
+                }
+                const sha256 = parseChecksumFile(
+                    await response.text(),
+                    asset,
+                    file.name
+                );
+                if (sha256) return sha256;
+            } catch (error) {
+                logger.warn(
+                    `Failed to read checksum file ${file.name}: ${
+                        (error as Error).message
+                    }`
+                );
+            }
+        }
+        return undefined;
+    }
+
+    async function computeSha256(url: string) {
+        const response = await fetch(url, {
+            signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+        });
+        if (!response.ok || !response.body) {
+            throw new Error(
+                `Failed to download ${url}: ${response.statusText}`
+            );
+        }
+        const hash = createHash("sha256");
+        for await (const chunk of response.body) hash.update(chunk);
+        return hash.digest("hex");
+    }
+
+    export async function getPinned(url: string) {
+        return await Mongodb.getArtifactChecksumsCollection().findOne(
+            { url },
+            { projection: { _id: 0 } }
+        );
+    }
+
+    /**
+     * Pin `sha256` for `url`. Returns what is pinned afterwards: an existing
+     * pin wins over a concurrent one unless `replace` is set.
+     */
+    export async function pin(
+        entry: Omit<MongoDbTypes.ArtifactChecksum, "createdAt">,
+        { replace = false }: { replace?: boolean } = {}
+    ) {
+        const doc = { ...entry, sha256: entry.sha256.toLowerCase() };
+        const collection = Mongodb.getArtifactChecksumsCollection();
+        if (replace) {
+            await collection.updateOne(
+                { url: doc.url },
+                { $set: { ...doc, createdAt: Date.now() } },
+                { upsert: true }
+            );
+        } else {
+            await collection.updateOne(
+                { url: doc.url },
+                { $setOnInsert: { ...doc, createdAt: Date.now() } },
+                { upsert: true }
+            );
+        }
+        return (await getPinned(doc.url))!;
+    }
+
+    // The pinned hash of a release asset, pinning it on first use.
+    export async function resolveReleaseAsset(
+        service: MongoDbTypes.ServiceType,
+        tag: string,
+        asset: string,
+        pinnedBy: string
+    ): Promise<Resolved> {
+        const url = GithubService.getDownloadUrlForTag(tag, asset, service);
+        const pinned = await getPinned(url);
+        if (pinned) return { sha256: pinned.sha256, source: pinned.source };
+
+        const release = GithubService.getGithubTags(service)?.find(
+            (t) => t.name === tag
+        );
+        let sha256 = await findPublished(release?.checksumAssets || [], asset);
+        let source: Source = "published";
+        if (!sha256) {
+            source = "computed";
+            let computing = _computing.get(url);
+            if (!computing) {
+                computing = computeSha256(url).finally(() =>
+                    _computing.delete(url)
+                );
+                _computing.set(url, computing);
+            }
+            sha256 = await computing;
+        }
+        const saved = await pin({
+            url,
+            sha256,
+            source,
+            service,
+            tag,
+            asset,
+            pinnedBy,
+        });
+        logger.info(
+            `🔏 Pinned sha256 of ${service} ${tag}/${asset} (${saved.source}): ${saved.sha256}`
+        );
+        return { sha256: saved.sha256, source: saved.source };
+    }
+
+    /**
+     * The hash a deploy of `url` must verify against. A release asset
+     * resolves by itself (a supplied `sha256` must then agree with it); any
+     * other URL takes `sha256` as given, from a user who `mayPin`.
+     */
+    export async function resolveUrl(
+        service: MongoDbTypes.ServiceType,
+        url: string,
+        {
+            sha256,
+            mayPin,
+            actor,
+        }: { sha256?: unknown; mayPin: boolean; actor: string }
+    ): Promise<ResolveResult> {
+        if (sha256 !== undefined && sha256 !== "" && !isSha256(sha256)) {
+            return { error: "sha256 must be 64 hex characters", status: 400 };
+        }
+        const release = releaseAssetOf(service, url);
+        if (release) {
+            const resolved = await resolveReleaseAsset(
+                service,
+                release.tag,
+                release.asset,
+                actor
+            );
+            if (isSha256(sha256) && sha256.toLowerCase() !== resolved.sha256) {
+                return {
+                    error: `sha256 does not match the pinned checksum of ${release.tag}/${release.asset} (${resolved.sha256})`,
+                    status: 400,
+                };
+            }
+            return resolved;
+        }
+        if (!mayPin) {
+            return {
+                error: "A binary outside the GitHub releases needs manage-artifacts and an explicit sha256",
+                status: 403,
+            };
+        }
+        if (!isSha256(sha256)) {
+            return {
+                error: "sha256 is required for a binary outside the GitHub releases",
+                status: 400,
+            };
+        }
+        return { sha256: sha256.toLowerCase(), source: "admin" };
+    }
+
+    /**
+     * Remote check of a downloaded file. Under `set -e` a mismatch deletes
+     * the file and stops the run before anything is swapped.
+     */
+    export function verifyCommand(path: string, sha256: string) {
+        return `echo "${sha256}  ${path}" | sha256sum -c --status - || { echo "${MISMATCH_MARKER}: ${path} has sha256 $(sha256sum ${path} | cut -d' ' -f1), expected ${sha256}"; rm -f ${path}; false; }`;
+    }
+
+    // The mismatch line of a failed run's output, if verification failed.
+    // The shell echoes the command itself too, which has no hash in it yet.
+    export function findMismatch(outputs: string[]) {
+        const pattern = new RegExp(
+            `${MISMATCH_MARKER}: (\\S+) has sha256 ([a-f0-9]{64}), expected ([a-f0-9]{64})`
+        );
+        for (const output of outputs) {
+            const match = output.match(pattern);
+            if (match) {
+                return `Checksum mismatch: ${match[1]} has sha256 ${match[2]}, expected ${match[3]}`;
+            }
+        }
+        return undefined;
+    }
+}
@@ -0,0 +1,217 @@
+import type express from "express";
+import { Mongodb, MongoDbTypes, IS_NO_DB } from "../database/db.js";
+import { logger } from "../utils/logger.js";
+import { getClientIp } from "../utils/ip.js";
+
+/**
+ * Append-only audit trail in `audit_events`. Every mutating route calls
+ * `recordRequest` with the action it performed; the actor and client IP come
+ * from the request. Passing the target document `before` and/or `after` the
+ * change stores a field-level diff, with credentials redacted.
+ *
+ * Writing an audit event never fails the caller — a Mongo hiccup is logged
+ * and the action's own response is unaffected.
+ */
+export namespace AuditService {
+    export type Result = MongoDbTypes.AuditEvent["result"];
+
+    export interface AuditInput {
+        action: string;
+        target?: string | undefined;
+        result?: Result;
+        details?: Record<string, any>;
+        before?: object | null | undefined;
+        after?: object | null | undefined;
+        // Defaults to the authenticated user (e.g. set for /login).
+        actor?: string;
+    }
+
+    export interface AuditQuery {
+        actor?: string | undefined;
+        action?: string | undefined; // exact, or a prefix ending in "."
+        target?: string | undefined;
+        result?: Result | undefined;
+        from?: number | undefined;
+        to?: number | undefined;
+        limit?: number | undefined;
+        skip?: number | undefined;
+    }
+
+    const REDACTED = "[redacted]";
+    const SECRET_FIELDS = new Set([
+        "password",
+        "passwordHash",
+        "sshPrivateKey",
+        "currentsshPrivateKey",
+        "refreshTokenHash",
+        "ttydPassword",
+    ]);
+    // Fields that change on every write and would only add noise.
+    const IGNORED_FIELDS = new Set(["_id"]);
+
+    function isPlainObject(value: unknown): value is Record<string, any> {
+        return (
+            !!value &&
+            typeof value === "object" &&
+            !Array.isArray(value) &&
+            !(value instanceof Date)
+        );
+    }
+
+    // Flatten nested plain objects to dotted paths; arrays stay values.
+    function flatten(
+        doc: Record<string, any>,
+        prefix = "",
+        out: Record<string, any> = {}
+    ) {
+        for (const [key, value] of Object.entries(doc)) {
+            if (IGNORED_FIELDS.has(key)) continue;
+            if (isPlainObject(value) && !SECRET_FIELDS.has(key)) {
+                flatten(value, prefix + key + ".", out);
+            } else {
+                out[prefix + key] = value;
+            }
+        }
+        return out;
+    }
+
+    function redact(path: string, value: unknown) {
+        const field = path.slice(path.lastIndexOf(".") + 1);
+        return SECRET_FIELDS.has(field) && value !== undefined
+            ? REDACTED
+            : value;
+    }
+
+    export function diff(
+        before: object | null | undefined,
+        after: object | null | undefined
+    ): NonNullable<MongoDbTypes.AuditEvent["changes"]> {
+        const left = before ? flatten(before as Record<string, any>) : {};
+        const right = after ? flatten(after as Record<string, any>) : {};
+        const changes: NonNullable<MongoDbTypes.AuditEvent["changes"]> = {};
+        for (const path of new Set([
+            ...Object.keys(left),
+            ...Object.keys(right),
+        ])) {
+            if (JSON.stringify(left[path]) === JSON.stringify(right[path])) {
+                continue;
+            }
+            const a = redact(path, left[path]);
+            const b = redact(path, right[path]);
+            changes[path] = {
+                ...(a !== undefined ? { before: a } : {}),
+                ...(b !== undefined ? { after: b } : {}),
+            };
+        }
+        return changes;
+    }
+
+    export async function record(
+        event: Omit<MongoDbTypes.AuditEvent, "createdAt">
+    ) {
+        logger.info(
+            `📝 Audit: ${event.actor} ${event.action}${
+                event.target ? ` ${event.target}` : ""
+            } (${event.result})`
+        );
+        if (IS_NO_DB) return;
+        try {
+            await Mongodb.getAuditEventsCollection().insertOne({
+                ...event,
+                createdAt: Date.now(),
+            });
+        } catch (error) {
+            logger.error(
+                `Failed to write audit event ${event.action}: ${
+                    (error as Error).message
+                }`
+            );
+        }
+    }
+
+    export async function recordRequest(
+        req: express.Request,
+        input: AuditInput
+    ) {
+        const ip = getClientIp(req);
+        const changes =
+            input.before !== undefined || input.after !== undefined
+                ? diff(input.before, input.after)
+                : undefined;
+        await record({
+            actor: input.actor || req.user?.username || "anonymous",
+            action: input.action,
+            result: input.result || "success",
+            ...(input.target ? { target: input.target } : {}),
+            ...(ip ? { ip } : {}),
+            ...(input.details ? { details: input.details } : {}),
+            ...(changes && Object.keys(changes).length > 0 ? { changes } : {}),
+        });
+    }
+
+    export async function query(
+        filter: AuditQuery
+    ): Promise<{ events: MongoDbTypes.AuditEvent[]; total: number }> {
+        const query: Record<string, any> = {};
+        if (filter.actor) query.actor = filter.actor;
+        if (filter.action) {
+            query.action = filter.action.endsWith(".")
+                ? {
+                      $regex:
+                          "^" +
+                          filter.action.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
+                  }
+                : filter.action;
+        }
+        if (filter.target) query.target = filter.target;
+        if (filter.result) query.result = filter.result;
+        if (filter.from || filter.to) {
+            query.createdAt = {
+                ...(filter.from ? { $gte: filter.from } : {}),
+                ...(filter.to ? { $lte: filter.to } : {}),
+            };
+        }
+        const collection = Mongodb.getAuditEventsCollection();
+        const [events, total] = await Promise.all([
+            collection
+                .find(query, { projection: { _id: 0 } })
+                .sort({ createdAt: -1 })
+                .skip(filter.skip || 0)
+                .limit(filter.limit || 100)
+                .toArray(),
+            collection.countDocuments(query),
+        ]);
+        return { events, total };
+    }
+
+    function csvCell(value: unknown): string {
+        if (value === undefined || value === null) return "";
+        let text = typeof value === "string" ? value : JSON.stringify(value);
+        // Keep spreadsheets from evaluating user-controlled text as a formula.
+        if (/^[=+\-@]/.test(text)) text = "'" + text;
+        return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    }
+
+    export function toCsv(events: MongoDbTypes.AuditEvent[]): string {
+        const columns = [
+            "createdAt",
+            "actor",
+            "ip",
+            "action",
+            "target",
+            "result",
+            "details",
+            "changes",
+        ] as const;
+        const rows = events.map((event) =>
+            columns
+                .map((column) =>
+                    column === "createdAt"
+                        ? new Date(event.createdAt).toISOString()
+                        : csvCell(event[column])
+                )
+                .join(",")
+        );
+        return [columns.join(","), ...rows].join("\n") + "\n";
+    }
+}
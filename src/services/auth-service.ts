@@ -0,0 +1,266 @@
+import jwt from "jsonwebtoken";
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import { Mongodb, MongoDbTypes } from "../database/db.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Session handling: short-lived JWT access tokens + rotating refresh tokens.
+ *
+ * Each login creates an `auth_sessions` doc. The access token carries the
+ * session id (`sid`), and every authenticated request re-checks that the
+ * session is live and that the user still exists with the same role, so
+ * logout, "revoke all sessions" and `DELETE /operators` take effect
+ * immediately on every instance instead of when the token expires.
+ *
+ * Refresh tokens are `<sessionId>.<secret>`; only the secret's hash is stored
+ * and it is replaced on every refresh. A refresh with a stale secret means the
+ * token leaked (or was replayed), so the whole session is revoked.
+ */
+export namespace AuthService {
+    const ACCESS_TOKEN_TTL_SEC = Number(process.env.JWT_ACCESS_TTL_SEC) || 900;
+    const REFRESH_TOKEN_TTL_MS =
+        (Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30) * 24 * 3600 * 1000;
+
+    export interface AuthenticatedUser {
+        username: string;
+        role: MongoDbTypes.User["role"];
+        sessionId: string;
+    }
+
+    export interface SessionTokens {
+        token: string;
+        refreshToken: string;
+        expiresIn: number; // access token lifetime, seconds
+    }
+
+    interface AccessTokenPayload {
+        username: string;
+        role: MongoDbTypes.User["role"];
+        sid: string;
+    }
+
+    // Typed failure so the HTTP layer can map it to 401 (re-auth) vs 403.
+    export class AuthError extends Error {
+        constructor(
+            message: string,
+            public code:
+                | "token_expired"
+                | "invalid_token"
+                | "session_revoked"
+                | "user_changed"
+        ) {
+            super(message);
+        }
+    }
+
+    function hashSecret(secret: string): string {
+        return createHash("sha256").update(secret).digest("hex");
+    }
+
+    function sameHash(a: string, b: string): boolean {
+        let left = Buffer.from(a, "hex");
+        let right = Buffer.from(b, "hex");
+        return left.length === right.length && timingSafeEqual(left, right);
+    }
+
+    function signAccessToken(user: MongoDbTypes.User, sessionId: string) {
+        let payload: AccessTokenPayload = {
+            username: user.username,
+            role: user.role,
+            sid: sessionId,
+        };
+        return jwt.sign(payload, process.env.JWT_SECRET as string, {
+            expiresIn: ACCESS_TOKEN_TTL_SEC,
+        });
+    }
+
+    export async function createSession(
+        user: MongoDbTypes.User,
+        meta: { ip?: string; userAgent?: string } = {}
+    ): Promise<SessionTokens> {
+        let sessionId = randomUUID();
+        let secret = randomBytes(32).toString("base64url");
+        let now = Date.now();
+        await Mongodb.getAuthSessionsCollection().insertOne({
+            _id: sessionId,
+            username: user.username,
+            refreshTokenHash: hashSecret(secret),
+            createdAt: now,
+            lastUsedAt: now,
+            expiresAt: new Date(now + REFRESH_TOKEN_TTL_MS),
+            ...(meta.ip ? { ip: meta.ip } : {}),
+            ...(meta.userAgent ? { userAgent: meta.userAgent } : {}),
+        });
+        return {
+            token: signAccessToken(user, sessionId),
+            refreshToken: `${sessionId}.${secret}`,
+            expiresIn: ACCESS_TOKEN_TTL_SEC,
+        };
+    }
+
+    /**
+     * Exchange a refresh token for a new access + refresh token pair. Returns
+     * null when the token is unknown, expired, revoked or reused.
+     */
+    export async function refreshSession(
+        refreshToken: string
+    ): Promise<SessionTokens | null> {
+        let [sessionId, secret] = (refreshToken || "").split(".");
+        if (!sessionId || !secret) return null;
+
+        let sessions = Mongodb.getAuthSessionsCollection();
+        let session = await sessions.findOne({ _id: sessionId });
+        if (
+            !session ||
+            session.revokedAt ||
+            session.expiresAt.getTime() < Date.now()
+        ) {
+            return null;
+        }
+        if (!sameHash(session.refreshTokenHash, hashSecret(secret))) {
+            logger.warn(
+                `🔑 Refresh token reuse detected for ${session.username} (session ${sessionId}) — revoking session`
+            );
+            await revokeSession(sessionId);
+            return null;
+        }
+
+        let user = await Mongodb.getUsersCollection().findOne({
+            username: session.username,
+        });
+        if (!user) {
+            await revokeSession(sessionId);
+            return null;
+        }
+
+        // Compare-and-swap on the old hash so two concurrent refreshes with
+        // the same token can't both succeed.
+        let newSecret = randomBytes(32).toString("base64url");
+        let now = Date.now();
+        let updated = await sessions.findOneAndUpdate(
+            {
+                _id: sessionId,
+                refreshTokenHash: session.refreshTokenHash,
+                revokedAt: { $exists: false },
+            },
+            {
+                $set: {
+                    refreshTokenHash: hashSecret(newSecret),
+                    lastUsedAt: now,
+                    expiresAt: new Date(now + REFRESH_TOKEN_TTL_MS),
+                },
+            }
+        );
+        if (!updated) return null;
+
+        return {
+            token: signAccessToken(user, sessionId),
+            refreshToken: `${sessionId}.${newSecret}`,
+            expiresIn: ACCESS_TOKEN_TTL_SEC,
+        };
+    }
+
+    export async function revokeSession(sessionId: string) {
+        await Mongodb.getAuthSessionsCollection().updateOne(
+            { _id: sessionId, revokedAt: { $exists: false } },
+            { $set: { revokedAt: Date.now() } }
+        );
+    }
+
+    // Returns the number of sessions revoked.
+    export async function revokeAllSessions(username: string) {
+        let result = await Mongodb.getAuthSessionsCollection().updateMany(
+            { username, revokedAt: { $exists: false } },
+            { $set: { revokedAt: Date.now() } }
+        );
+        return result.modifiedCount;
+    }
+
+    /**
+     * Revoke the session of a refresh token (for /logout). The session id
+     * alone is in every access token, so the secret must match too. Returns
+     * the revoked session id, or null for an unknown or stale token.
+     */
+    export async function revokeByRefreshToken(refreshToken: string) {
+        let [sessionId, secret] = (refreshToken || "").split(".");
+        if (!sessionId || !secret) return null;
+        let session = await Mongodb.getAuthSessionsCollection().findOne({
+            _id: sessionId,
+        });
+        if (
+            !session ||
+            session.revokedAt ||
+            !sameHash(session.refreshTokenHash, hashSecret(secret))
+        ) {
+            return null;
+        }
+        await revokeSession(sessionId);
+        return sessionId;
+    }
+
+    /**
+     * Verify an access token and that it is still backed by a live session
+     * and an unchanged user. Throws AuthError otherwise.
+     */
+    export async function verifyAccessToken(
+        token: string
+    ): Promise<AuthenticatedUser> {
+        let payload: AccessTokenPayload;
+        try {
+            payload = jwt.verify(
+                token,
+                process.env.JWT_SECRET as string
+            ) as AccessTokenPayload;
+        } catch (error) {
+            if (error instanceof jwt.TokenExpiredError) {
+                throw new AuthError("Token expired", "token_expired");
+            }
+            throw new AuthError("Invalid token", "invalid_token");
+        }
+        // Tokens issued before sessions existed have no sid and never expire.
+        if (!payload?.sid || !payload.username) {
+            throw new AuthError("Invalid token", "invalid_token");
+        }
+
+        return await verifySession({
+            username: payload.username,
+            role: payload.role,
+            sessionId: payload.sid,
+        });
+    }
+
+    /**
+     * Re-check an already-authenticated identity: the session must be live and
+     * the user must still exist with the same role. Used per request and
+     * periodically for long-lived Socket.IO connections.
+     */
+    export async function verifySession(
+        identity: AuthenticatedUser
+    ): Promise<AuthenticatedUser> {
+        let [session, user] = await Promise.all([
+            Mongodb.getAuthSessionsCollection().findOne(
+                { _id: identity.sessionId },
+                { projection: { username: 1, revokedAt: 1 } }
+            ),
+            Mongodb.getUsersCollection().findOne(
+                { username: identity.username },
+                { projection: { username: 1, role: 1 } }
+            ),
+        ]);
+        if (
+            !session ||
+            session.revokedAt ||
+            session.username !== identity.username
+        ) {
+            throw new AuthError("Session revoked", "session_revoked");
+        }
+        if (!user || user.role !== identity.role) {
+            throw new AuthError(
+                "User no longer exists or role changed",
+                "user_changed"
+            );
+        }
+
+        return identity;
+    }
+}
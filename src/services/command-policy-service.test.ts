@@ -0,0 +1,72 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { MongoDbTypes } from "../database/db.js";
+import { CommandPolicyService } from "./command-policy-service.js";
+
+function policy(
+    name: string,
+    effect: MongoDbTypes.CommandPolicy["effect"],
+    extra: Partial<MongoDbTypes.CommandPolicy> = {}
+): MongoDbTypes.CommandPolicy {
+    return {
+        name,
+        effect,
+        pattern: "rm\\s+-rf",
+        isEnabled: true,
+        createdBy: "admin",
+        createdAt: 0,
+        updatedAt: 0,
+        ...extra,
+    };
+}
+
+describe("CommandPolicyService.shellRestrictions", () => {
+    it("allows shells when no rule applies", () => {
+        assert.deepEqual(
+            CommandPolicyService.shellRestrictions([], "operator"),
+            []
+        );
+    });
+
+    it("refuses shells to a role with an enabled deny or approve rule", () => {
+        const policies = [
+            policy("no-rm", "deny"),
+            policy("review-restarts", "approve", { roles: ["operator"] }),
+        ];
+        assert.deepEqual(
+            CommandPolicyService.shellRestrictions(policies, "operator"),
+            ["no-rm", "review-restarts"]
+        );
+    });
+
+    it("refuses shells to a role limited by allow rules", () => {
+        assert.deepEqual(
+            CommandPolicyService.shellRestrictions(
+                [policy("status-only", "allow")],
+                "operator"
+            ),
+            ["status-only"]
+        );
+    });
+
+    it("ignores disabled rules and rules for other roles", () => {
+        const policies = [
+            policy("off", "deny", { isEnabled: false }),
+            policy("deployers", "deny", { roles: ["deployer"] }),
+        ];
+        assert.deepEqual(
+            CommandPolicyService.shellRestrictions(policies, "operator"),
+            []
+        );
+    });
+
+    it("exempts roles that manage the policies", () => {
+        assert.deepEqual(
+            CommandPolicyService.shellRestrictions(
+                [policy("no-rm", "deny")],
+                "admin"
+            ),
+            []
+        );
+    });
+});
@@ -0,0 +1,504 @@
+import type { Filter } from "mongodb";
+import { Mongodb, MongoDbTypes, IS_NO_DB } from "../database/db.js";
+import { logger } from "../utils/logger.js";
+import { sleep } from "../utils/time.js";
+import { Rbac } from "../utils/rbac.js";
+import { LeaderService } from "./leader-service.js";
+import { SshJobs } from "./ssh-jobs.js";
+
+/**
+ * Admin-defined rules for shell commands (`command_policies`), checked
+ * before anything is queued — /execute-command, shortcuts, retries and
+ * scheduled commands.
+ *
+ * Every line of every command is tested against the enabled rules for the
+ * user's role:
+ *
+ * - a matching "deny" rule blocks the whole run;
+ * - once the role has any "allow" rule, every line must match one of them.
+ *   An allow pattern must match the whole line, but the line is still shell:
+ *   `systemctl status .*` also allows `systemctl status x; rm -rf ~`. Keep
+ *   wildcards to character classes such as `[\w.@-]+`;
+ * - a matching "approve" rule holds the run as "awaiting-approval" until
+ *   another user with `approve-commands` approves it. Held runs expire after
+ *   APPROVAL_TTL_MS.
+ *
+ * Deny and approve patterns match anywhere in a line.
+ *
+ * Commands are typed into a PTY shell, where `\r` ends a line as well and
+ * other control characters are line-editor keys (Ctrl-U, Ctrl-C...). Lines
+ * are split on both, and any other control character denies the run.
+ *
+ * Interactive shells (the browser terminal and ttyd) can't be checked line
+ * by line, so a role with any enabled rule gets none; see shellRestrictions.
+ */
+export namespace CommandPolicyService {
+    export type Target = MongoDbTypes.CommandApproval["targets"][number];
+
+    export type Decision =
+        | { action: "allow" }
+        | {
+              action: "deny";
+              policy: string | null; // null: no "allow" rule matched
+              line: string;
+              reason: string;
+          }
+        | { action: "approve"; policies: string[] };
+
+    const APPROVAL_TTL_MS =
+        Number(process.env.COMMAND_APPROVAL_TTL_MS) || 24 * 60 * 60 * 1000;
+    const EXPIRY_CHECK_INTERVAL_MS = 60_000;
+    const MAX_PATTERN_LENGTH = 500;
+    const NAME = /^[A-Za-z0-9][A-Za-z0-9 _.-]{0,63}$/;
+    const EFFECTS: MongoDbTypes.CommandPolicy["effect"][] = [
+        "allow",
+        "deny",
+        "approve",
+    ];
+
+    type Editable = Pick<
+        MongoDbTypes.CommandPolicy,
+        | "effect"
+        | "pattern"
+        | "caseInsensitive"
+        | "roles"
+        | "description"
+        | "isEnabled"
+    >;
+
+    function compile(policy: MongoDbTypes.CommandPolicy) {
+        const flags = policy.caseInsensitive ? "i" : "";
+        return policy.effect === "allow"
+            ? new RegExp(`^(?:${policy.pattern})$`, flags)
+            : new RegExp(policy.pattern, flags);
+    }
+
+    // Any C0 control character but tab and the line breaks, and DEL.
+    const CONTROL_CHARACTER = /[\x00-\x08\x0b\x0c\x0e-\x1f\x7f]/;
+
+    function lines(commands: string[]) {
+        return [
+            ...new Set(
+                commands.flatMap((command) =>
+                    command
+                        .split(/[\r\n]/)
+                        .map((line) => line.trim())
+                        .filter((line) => line.length > 0)
+                )
+            ),
+        ];
+    }
+
+    /**
+     * Validate a rule from a request body. `existing` is the rule being
+     * edited: fields missing from the body keep its values.
+     */
+    export function parsePolicy(
+        body: Record<string, unknown>,
+        existing?: MongoDbTypes.CommandPolicy
+    ): { policy: Editable } | { error: string } {
+        const effect = (body.effect ?? existing?.effect) as Editable["effect"];
+        if (!EFFECTS.includes(effect)) {
+            return { error: `effect must be one of ${EFFECTS.join(", ")}` };
+        }
+        const pattern = body.pattern ?? existing?.pattern;
+        if (typeof pattern !== "string" || !pattern) {
+            return { error: "pattern is required" };
+        }
+        if (pattern.length > MAX_PATTERN_LENGTH) {
+            return {
+                error: `pattern is longer than ${MAX_PATTERN_LENGTH} characters`,
+            };
+        }
+        try {
+            new RegExp(pattern);
+        } catch (error) {
+            return {
+                error: `Invalid pattern: ${(error as Error).message}`,
+            };
+        }
+        const roles = body.roles ?? existing?.roles ?? [];
+        if (!Array.isArray(roles) || !roles.every(Rbac.isRole)) {
+            return {
+                error: `roles must be a list of ${Rbac.ROLES.join(", ")}`,
+            };
+        }
+        const description = body.description ?? existing?.description;
+        if (description !== undefined && typeof description !== "string") {
+            return { error: "description must be a string" };
+        }
+        const caseInsensitive =
+            body.caseInsensitive ?? existing?.caseInsensitive ?? false;
+        const isEnabled = body.isEnabled ?? existing?.isEnabled ?? true;
+        if (
+            typeof caseInsensitive !== "boolean" ||
+            typeof isEnabled !== "boolean"
+        ) {
+            return { error: "caseInsensitive and isEnabled must be booleans" };
+        }
+        return {
+            policy: {
+                effect,
+                pattern,
+                caseInsensitive,
+                roles: [...new Set(roles)],
+                ...(description ? { description } : {}),
+                isEnabled,
+            },
+        };
+    }
+
+    export function isValidName(name: unknown): name is string {
+        return typeof name === "string" && NAME.test(name);
+    }
+
+    function appliesTo(
+        policy: MongoDbTypes.CommandPolicy,
+        role: string | undefined
+    ) {
+        return (
+            policy.isEnabled &&
+            (!policy.roles?.length ||
+                (Rbac.isRole(role) && policy.roles.includes(role)))
+        );
+    }
+
+    async function enabledPolicies(role: string | undefined) {
+        return (
+            await Mongodb.getCommandPoliciesCollection()
+                .find({ isEnabled: true })
+                .sort({ name: 1 })
+                .toArray()
+        ).filter((policy) => appliesTo(policy, role));
+    }
+
+    /**
+     * Names of the rules that keep `role` out of interactive shells: every
+     * enabled rule for the role, since a typed command can't be checked
+     * before it runs. Holders of `manage-command-policies` are exempt, as
+     * they can lift the rules anyway.
+     */
+    export function shellRestrictions(
+        policies: MongoDbTypes.CommandPolicy[],
+        role: string | undefined
+    ): string[] {
+        if (Rbac.hasPermission(role, "manage-command-policies")) return [];
+        return policies
+            .filter((policy) => appliesTo(policy, role))
+            .map((policy) => policy.name);
+    }
+
+    // Why `role` may not open a terminal or get ttyd credentials, or null.
+    export async function checkShellAccess(
+        role: string | undefined
+    ): Promise<string | null> {
+        const names = shellRestrictions(await enabledPolicies(role), role);
+        return names.length > 0
+            ? `Interactive shells are disabled for your role while command policies apply to it (${names.join(
+                  ", "
+              )}); use /execute-command instead`
+            : null;
+    }
+
+    // Check commands a user with `role` is about to run.
+    export async function evaluate(
+        role: string | undefined,
+        commands: string[]
+    ): Promise<Decision> {
+        const policies = await enabledPolicies(role);
+        if (policies.length === 0) return { action: "allow" };
+
+        const rules = policies.map((policy) => ({
+            policy,
+            regex: compile(policy),
+        }));
+        const allows = rules.filter((rule) => rule.policy.effect === "allow");
+        const approvals = new Set<string>();
+        for (const line of lines(commands)) {
+            if (CONTROL_CHARACTER.test(line)) {
+                return {
+                    action: "deny",
+                    policy: null,
+                    line: JSON.stringify(line),
+                    reason: "Commands may not contain control characters",
+                };
+            }
+            const denied = rules.find(
+                (rule) => rule.policy.effect === "deny" && rule.regex.test(line)
+            );
+            if (denied) {
+                return {
+                    action: "deny",
+                    policy: denied.policy.name,
+                    line,
+                    reason: `Blocked by command policy "${denied.policy.name}"`,
+                };
+            }
+            if (
+                allows.length > 0 &&
+                !allows.some((rule) => rule.regex.test(line))
+            ) {
+                return {
+                    action: "deny",
+                    policy: null,
+                    line,
+                    reason: "Not allowed by any command policy for your role",
+                };
+            }
+            for (const rule of rules) {
+                if (rule.policy.effect === "approve" && rule.regex.test(line)) {
+                    approvals.add(rule.policy.name);
+                }
+            }
+        }
+        return approvals.size > 0
+            ? { action: "approve", policies: [...approvals] }
+            : { action: "allow" };
+    }
+
+    export function newApproval(
+        policies: string[],
+        targets: Target[]
+    ): MongoDbTypes.CommandApproval {
+        const now = Date.now();
+        return {
+            status: "pending",
+            policies,
+            targets,
+            requestedAt: now,
+            expiresAt: now + APPROVAL_TTL_MS,
+        };
+    }
+
+    // Held runs past their deadline become "cancelled".
+    export async function expireStale() {
+        const now = Date.now();
+        const result = await Mongodb.getCommandLogsCollection().updateMany(
+            {
+                status: "awaiting-approval",
+                "approval.expiresAt": { $lte: now },
+            },
+            {
+                $set: {
+                    status: "cancelled",
+                    "approval.status": "expired",
+                    "approval.decidedAt": now,
+                    errorMessage: "Approval expired",
+                },
+            }
+        );
+        if (result.modifiedCount > 0) {
+            logger.info(
+                `🛂 ${result.modifiedCount} command(s) expired awaiting approval`
+            );
+        }
+    }
+
+    // Held runs the user may see: their own, and for approvers every one in
+    // their scope.
+    export function approvalScope(user: {
+        username?: string;
+        role?: string;
+    }): Filter<MongoDbTypes.CommandLog> {
+        return Rbac.hasPermission(user.role, "approve-commands")
+            ? {
+                  $or: [
+                      { operator: user.username || "" },
+                      { operator: Rbac.operatorScope(user) },
+                  ],
+              }
+            : { operator: user.username || "" };
+    }
+
+    async function close(
+        uuid: string,
+        status: "rejected" | "cancelled",
+        approval: Pick<
+            MongoDbTypes.CommandApproval,
+            "status" | "decidedBy" | "reason"
+        >
+    ) {
+        return await Mongodb.getCommandLogsCollection().findOneAndUpdate(
+            { uuid, status: "awaiting-approval" },
+            {
+                $set: {
+                    status,
+                    "approval.status": approval.status,
+                    "approval.decidedAt": Date.now(),
+                    ...(approval.decidedBy
+                        ? { "approval.decidedBy": approval.decidedBy }
+                        : {}),
+                    ...(approval.reason
+                        ? {
+                              "approval.reason": approval.reason,
+                              errorMessage: approval.reason,
+                          }
+                        : {}),
+                },
+            },
+            { returnDocument: "after" }
+        );
+    }
+
+    /**
+     * Approve a held run and queue it as its requester. The approver must be
+     * someone else and may act on every target server. Policies and servers
+     * are checked again: rules may have changed, or servers gone inactive,
+     * since the request.
+     */
+    export async function approve(
+        uuid: string,
+        approver: { username: string; role?: string }
+    ): Promise<
+        | { status: number; error: string }
+        | { log: MongoDbTypes.CommandLog; jobs: MongoDbTypes.SshJob[] }
+    > {
+        await expireStale();
+        const logs = Mongodb.getCommandLogsCollection();
+        const log = await logs.findOne({ uuid });
+        if (!log || !log.approval) {
+            return { status: 404, error: "Command log not found" };
+        }
+        if (log.status !== "awaiting-approval") {
+            return { status: 409, error: `Command is already ${log.status}` };
+        }
+        if (log.operator === approver.username) {
+            return {
+                status: 403,
+                error: "A command must be approved by someone other than its requester",
+            };
+        }
+
+        const requester = await Mongodb.getUsersCollection().findOne(
+            { username: log.operator },
+            { projection: { username: 1, role: 1 } }
+        );
+        if (
+            !requester ||
+            !Rbac.hasPermission(requester.role, "execute-command")
+        ) {
+            const reason = `Requester ${log.operator} may no longer run commands`;
+            await close(uuid, "rejected", {
+                status: "rejected",
+                decidedBy: approver.username,
+                reason,
+            });
+            return { status: 409, error: reason };
+        }
+        const decision = await evaluate(
+            requester.role,
+            log.approval.targets.flatMap((target) => target.commands)
+        );
+        if (decision.action === "deny") {
+            const reason = `${decision.reason}: ${decision.line}`;
+            await close(uuid, "rejected", {
+                status: "rejected",
+                decidedBy: approver.username,
+                reason,
+            });
+            return { status: 409, error: reason };
+        }
+
+        const serverDocs = (
+            await Mongodb.getServersCollection()
+                .find({
+                    server: {
+                        $in: log.approval.targets.map((target) => target.host),
+                    },
+                    operator: Rbac.operatorScope(requester),
+                })
+                .toArray()
+        ).filter(
+            (s) => s.username && s.username.length > 0 && s.status === "active"
+        );
+        const outOfScope = serverDocs.filter(
+            (s) => !Rbac.canAccessOperator(approver, s.operator)
+        );
+        if (outOfScope.length > 0) {
+            return {
+                status: 403,
+                error: `You can't act on ${outOfScope
+                    .map((s) => s.server)
+                    .join(", ")}`,
+            };
+        }
+        const targets = log.approval.targets.filter((target) =>
+            serverDocs.some((s) => s.server === target.host)
+        );
+
+        const now = Date.now();
+        const approved = await logs.findOneAndUpdate(
+            { uuid, status: "awaiting-approval" },
+            {
+                $set: {
+                    status: targets.length > 0 ? "pending" : "failed",
+                    servers: targets.map((target) => target.host),
+                    timestamp: now,
+                    "approval.status": "approved",
+                    "approval.decidedBy": approver.username,
+                    "approval.decidedAt": now,
+                    ...(targets.length === 0
+                        ? { errorMessage: "No active servers left to run on" }
+                        : {}),
+                },
+            },
+            { returnDocument: "after" }
+        );
+        if (!approved) {
+            return { status: 409, error: "Command was already decided" };
+        }
+        const jobs =
+            targets.length > 0
+                ? await SshJobs.enqueueCommands(targets, log.operator, uuid)
+                : [];
+        logger.info(
+            `🛂 ${approver.username} approved command ${uuid} of ${log.operator} on ${targets.length} server(s)`
+        );
+        return { log: approved, jobs };
+    }
+
+    export async function reject(
+        uuid: string,
+        approver: { username: string },
+        reason?: string
+    ) {
+        await expireStale();
+        return await close(uuid, "rejected", {
+            status: "rejected",
+            decidedBy: approver.username,
+            reason: reason || `Rejected by ${approver.username}`,
+        });
+    }
+
+    // The requester (or someone with write scope over them) takes back a
+    // held run.
+    export async function withdraw(uuid: string, actor: string) {
+        return await close(uuid, "cancelled", {
+            status: "withdrawn",
+            decidedBy: actor,
+            reason: `Withdrawn by ${actor}`,
+        });
+    }
+
+    // The leader expires held runs nobody looked at.
+    async function watchExpiredApprovals() {
+        while (true) {
+            if (LeaderService.isLeader()) {
+                try {
+                    await expireStale();
+                } catch (error) {
+                    logger.error(
+                        `Error in watchExpiredApprovals: ${
+                            (error as Error).message
+                        }`
+                    );
+                }
+            }
+            await sleep(EXPIRY_CHECK_INTERVAL_MS);
+        }
+    }
+
+    export function start() {
+        if (!IS_NO_DB) watchExpiredApprovals();
+    }
+}
@@ -0,0 +1,464 @@
+import {
+    createCipheriv,
+    createDecipheriv,
+    createHash,
+    createHmac,
+    randomBytes,
+} from "crypto";
+import type { ObjectId } from "mongodb";
+import { Mongodb, MongoDbTypes } from "../database/db.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Envelope encryption for SSH credentials at rest (`Server.password`,
+ * `Server.sshPrivateKey`, `User.currentsshPrivateKey`, the same two fields
+ * on jump hosts, and `KeyRotation.privateKey`), plus the deploy options
+ * (seeds, passcodes) kept in rollouts, SSH jobs and deployment profiles.
+ *
+ * Every secret gets its own random data key (AES-256-GCM); the data key is in
+ * turn wrapped with the master key from `VAULT_MASTER_KEY`. A sealed value is a
+ * single string, so the Mongo schema is unchanged:
+ *
+ *   vault:v1:<masterKeyId>:<wrapped data key>:<ciphertext>
+ *
+ * `reveal()` is called only in these places; everything else passes the
+ * sealed string around untouched:
+ *
+ * - SSHService `executeCommands`, `transferFile` and `openShell`: the
+ *   server's credentials, right before the SshPool connection is opened;
+ *   `_revealJumpHosts` does the same for the hops in front of it.
+ * - `KeyRotationService.publicKeyOf`: the public half of a stored key.
+ * - `JobQueue.revealSecret`: the payload of a queued SSH job.
+ * - DeploymentService `revealExtraData`: a rollout's deploy options.
+ * - `DeploymentProfileService.revealSecrets`: a profile's seeds and passcode.
+ *
+ * Legacy plaintext values are returned as-is by `reveal()` so the migration
+ * can run after the deploy.
+ *
+ * Rotation: set the new key in `VAULT_MASTER_KEY`, move the old one to
+ * `VAULT_PREVIOUS_MASTER_KEYS` (comma separated), then run `npm run
+ * vault:rotate`. Only the data keys are re-wrapped; ciphertexts are untouched.
+ */
+export namespace CredentialVault {
+    const PREFIX = "vault:v1:";
+    const IV_BYTES = 12;
+    const TAG_BYTES = 16;
+
+    interface MasterKey {
+        id: string;
+        key: Buffer;
+    }
+
+    let _current: MasterKey | null | undefined;
+    let _byId: Map<string, MasterKey> | undefined;
+
+    // Accepts a 32-byte key as base64 or hex (`openssl rand -base64 32`).
+    function parseMasterKey(raw: string): MasterKey {
+        let value = raw.trim();
+        let key = /^[0-9a-fA-F]{64}$/.test(value)
+            ? Buffer.from(value, "hex")
+            : Buffer.from(value, "base64");
+        if (key.length !== 32) {
+            throw new Error(
+                "Vault master key must be 32 bytes (base64 or hex encoded)"
+            );
+        }
+        let id = createHash("sha256").update(key).digest("hex").slice(0, 8);
+        return { id, key };
+    }
+
+    function loadKeys() {
+        if (_byId) return;
+        _byId = new Map();
+        _current = null;
+        let currentRaw = process.env.VAULT_MASTER_KEY;
+        if (currentRaw) {
+            _current = parseMasterKey(currentRaw);
+            _byId.set(_current.id, _current);
+        }
+        for (let raw of (process.env.VAULT_PREVIOUS_MASTER_KEYS || "").split(
+            ","
+        )) {
+            if (!raw.trim()) continue;
+            let previous = parseMasterKey(raw);
+            if (!_byId.has(previous.id)) _byId.set(previous.id, previous);
+        }
+    }
+
+    function currentKey(): MasterKey {
+        loadKeys();
+        if (!_current) {
+            throw new Error("VAULT_MASTER_KEY is not configured");
+        }
+        return _current;
+    }
+
+    function keyById(id: string): MasterKey {
+        loadKeys();
+        let key = _byId!.get(id);
+        if (!key) {
+            throw new Error(
+                `Vault master key ${id} is not available (check VAULT_PREVIOUS_MASTER_KEYS)`
+            );
+        }
+        return key;
+    }
+
+    // iv | tag | ciphertext, base64
+    function encrypt(key: Buffer, plaintext: Buffer): string {
+        let iv = randomBytes(IV_BYTES);
+        let cipher = createCipheriv("aes-256-gcm", key, iv);
+        let ciphertext = Buffer.concat([
+            cipher.update(plaintext),
+            cipher.final(),
+        ]);
+        return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString(
+            "base64"
+        );
+    }
+
+    function decrypt(key: Buffer, payload: string): Buffer {
+        let raw = Buffer.from(payload, "base64");
+        let iv = raw.subarray(0, IV_BYTES);
+        let tag = raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES);
+        let ciphertext = raw.subarray(IV_BYTES + TAG_BYTES);
+        let decipher = createDecipheriv("aes-256-gcm", key, iv);
+        decipher.setAuthTag(tag);
+        return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+    }
+
+    function parseSealed(value: string) {
+        let [keyId, wrappedKey, payload] = value
+            .slice(PREFIX.length)
+            .split(":");
+        if (!keyId || !wrappedKey || !payload) {
+            throw new Error("Malformed vault value");
+        }
+        return { keyId, wrappedKey, payload };
+    }
+
+    export function isConfigured(): boolean {
+        try {
+            loadKeys();
+            return !!_current;
+        } catch {
+            return false;
+        }
+    }
+
+    export function isSealed(value: string | undefined | null): boolean {
+        return !!value && value.startsWith(PREFIX);
+    }
+
+    /**
+     * Encrypt a credential for storage. Empty values (tracking-only servers,
+     * key-only auth) and already-sealed values are returned unchanged.
+     */
+    export function seal(plaintext: string): string {
+        if (!plaintext || isSealed(plaintext)) return plaintext;
+        let master = currentKey();
+        let dataKey = randomBytes(32);
+        let payload = encrypt(dataKey, Buffer.from(plaintext, "utf8"));
+        let wrappedKey = encrypt(master.key, dataKey);
+        return `${PREFIX}${master.id}:${wrappedKey}:${payload}`;
+    }
+
+    /**
+     * Keyed fingerprint of a secret (`<masterKeyId>:<hmac>`), to tell two
+     * values apart without storing a hash that can be guessed offline. The
+     * key is derived from the current master key, so a fingerprint only
+     * compares with one made under the same key id.
+     */
+    export function fingerprint(value: string): string {
+        let master = currentKey();
+        let key = createHmac("sha256", master.key)
+            .update("credential-vault fingerprint")
+            .digest();
+        return `${master.id}:${createHmac("sha256", key)
+            .update(value, "utf8")
+            .digest("hex")}`;
+    }
+
+    // Whether `value` is a fingerprint made under the current master key.
+    export function isCurrentFingerprint(value: string | undefined) {
+        return !!value && value.startsWith(`${currentKey().id}:`);
+    }
+
+    /**
+     * Decrypt a stored credential. Plaintext (not yet migrated) values pass
+     * through. Throws if the master key is missing or the value was tampered with.
+     */
+    export function reveal(value: string | undefined | null): string {
+        if (!value) return "";
+        if (!isSealed(value)) return value;
+        let { keyId, wrappedKey, payload } = parseSealed(value);
+        let dataKey = decrypt(keyById(keyId).key, wrappedKey);
+        return decrypt(dataKey, payload).toString("utf8");
+    }
+
+    /**
+     * Bring a stored value up to the current master key: plaintext is sealed,
+     * values wrapped with a previous master key get their data key re-wrapped.
+     * Returns the input unchanged when nothing needs doing.
+     */
+    export function rewrap(value: string): string {
+        if (!value) return value;
+        if (!isSealed(value)) return seal(value);
+        let master = currentKey();
+        let { keyId, wrappedKey, payload } = parseSealed(value);
+        if (keyId === master.id) return value;
+        let dataKey = decrypt(keyById(keyId).key, wrappedKey);
+        return `${PREFIX}${master.id}:${encrypt(master.key, dataKey)}:${payload}`;
+    }
+
+    function rewrapHops(hops: MongoDbTypes.JumpHost[]) {
+        return hops.map((hop) => ({
+            ...hop,
+            password: rewrap(hop.password || ""),
+            sshPrivateKey: rewrap(hop.sshPrivateKey || ""),
+        }));
+    }
+
+    /**
+     * Re-encrypt every stored credential to the current master key. Used both
+     * for the one-shot plaintext migration and for master key rotation — the
+     * operation is idempotent, so re-running after a partial failure is safe.
+     */
+    export async function rewrapAll(): Promise<{
+        servers: number;
+        users: number;
+        jumpChains: number;
+        keyRotations: number;
+        rollouts: number;
+        sshJobs: number;
+        deploymentProfiles: number;
+        failed: number;
+    }> {
+        let stats = {
+            servers: 0,
+            users: 0,
+            jumpChains: 0,
+            keyRotations: 0,
+            rollouts: 0,
+            sshJobs: 0,
+            deploymentProfiles: 0,
+            failed: 0,
+        };
+
+        let servers = await Mongodb.getServersCollection()
+            .find({})
+            .project<{
+                server: string;
+                password: string;
+                sshPrivateKey: string;
+                jumpHosts?: MongoDbTypes.JumpHost[];
+            }>({
+                _id: 0,
+                server: 1,
+                password: 1,
+                sshPrivateKey: 1,
+                jumpHosts: 1,
+            })
+            .toArray();
+        for (let doc of servers) {
+            try {
+                let password = rewrap(doc.password || "");
+                let sshPrivateKey = rewrap(doc.sshPrivateKey || "");
+                let jumpHosts = rewrapHops(doc.jumpHosts ?? []);
+                if (
+                    password === (doc.password || "") &&
+                    sshPrivateKey === (doc.sshPrivateKey || "") &&
+                    JSON.stringify(jumpHosts) ===
+                        JSON.stringify(doc.jumpHosts ?? [])
+                )
+                    continue;
+                await Mongodb.getServersCollection().updateOne(
+                    { server: doc.server },
+                    {
+                        $set: {
+                            password,
+                            sshPrivateKey,
+                            ...(doc.jumpHosts ? { jumpHosts } : {}),
+                        },
+                    }
+                );
+                stats.servers++;
+            } catch (error) {
+                stats.failed++;
+                logger.error(
+                    `🔐 Failed to re-encrypt credentials for server ${
+                        doc.server
+                    }: ${(error as Error).message}`
+                );
+            }
+        }
+
+        let users = await Mongodb.getUsersCollection()
+            .find({ currentsshPrivateKey: { $exists: true, $ne: "" } })
+            .project<{ username: string; currentsshPrivateKey: string }>({
+                _id: 0,
+                username: 1,
+                currentsshPrivateKey: 1,
+            })
+            .toArray();
+        for (let doc of users) {
+            try {
+                let currentsshPrivateKey = rewrap(doc.currentsshPrivateKey);
+                if (currentsshPrivateKey === doc.currentsshPrivateKey) continue;
+                await Mongodb.getUsersCollection().updateOne(
+                    { username: doc.username },
+                    { $set: { currentsshPrivateKey } }
+                );
+                stats.users++;
+            } catch (error) {
+                stats.failed++;
+                logger.error(
+                    `🔐 Failed to re-encrypt SSH key for user ${
+                        doc.username
+                    }: ${(error as Error).message}`
+                );
+            }
+        }
+
+        let chains = await Mongodb.getJumpChainsCollection()
+            .find({})
+            .project<{ name: string; hops: MongoDbTypes.JumpHost[] }>({
+                _id: 0,
+                name: 1,
+                hops: 1,
+            })
+            .toArray();
+        for (let doc of chains) {
+            try {
+                let hops = rewrapHops(doc.hops);
+                if (JSON.stringify(hops) === JSON.stringify(doc.hops)) continue;
+                await Mongodb.getJumpChainsCollection().updateOne(
+                    { name: doc.name },
+                    { $set: { hops } }
+                );
+                stats.jumpChains++;
+            } catch (error) {
+                stats.failed++;
+                logger.error(
+                    `🔐 Failed to re-encrypt credentials for jump chain ${
+                        doc.name
+                    }: ${(error as Error).message}`
+                );
+            }
+        }
+
+        let rotations = await Mongodb.getKeyRotationsCollection()
+            .find({})
+            .project<{ rotationId: string; privateKey: string }>({
+                _id: 0,
+                rotationId: 1,
+                privateKey: 1,
+            })
+            .toArray();
+        for (let doc of rotations) {
+            try {
+                let privateKey = rewrap(doc.privateKey);
+                if (privateKey === doc.privateKey) continue;
+                await Mongodb.getKeyRotationsCollection().updateOne(
+                    { rotationId: doc.rotationId },
+                    { $set: { privateKey } }
+                );
+                stats.keyRotations++;
+            } catch (error) {
+                stats.failed++;
+                logger.error(
+                    `🔐 Failed to re-encrypt SSH key of key rotation ${
+                        doc.rotationId
+                    }: ${(error as Error).message}`
+                );
+            }
+        }
+
+        // Deploy options of rollouts, read again on resume and rollback.
+        let rollouts = await Mongodb.getRolloutsCollection()
+            .find({ sealedExtraData: { $exists: true, $ne: "" } })
+            .project<{ _id: string; sealedExtraData: string }>({
+                sealedExtraData: 1,
+            })
+            .toArray();
+        for (let doc of rollouts) {
+            try {
+                let sealedExtraData = rewrap(doc.sealedExtraData);
+                if (sealedExtraData === doc.sealedExtraData) continue;
+                await Mongodb.getRolloutsCollection().updateOne(
+                    { _id: doc._id },
+                    { $set: { sealedExtraData } }
+                );
+                stats.rollouts++;
+            } catch (error) {
+                stats.failed++;
+                logger.error(
+                    `🔐 Failed to re-encrypt deploy options of rollout ${
+                        doc._id
+                    }: ${(error as Error).message}`
+                );
+            }
+        }
+
+        // Job secrets, finished jobs included: /retry-failed-hosts reads them.
+        let jobs = await Mongodb.getSshJobsCollection()
+            .find({ sealedPayload: { $exists: true, $ne: "" } })
+            .project<{ _id: string; sealedPayload: string }>({
+                sealedPayload: 1,
+            })
+            .toArray();
+        for (let doc of jobs) {
+            try {
+                let sealedPayload = rewrap(doc.sealedPayload);
+                if (sealedPayload === doc.sealedPayload) continue;
+                await Mongodb.getSshJobsCollection().updateOne(
+                    { _id: doc._id },
+                    { $set: { sealedPayload } }
+                );
+                stats.sshJobs++;
+            } catch (error) {
+                stats.failed++;
+                logger.error(
+                    `🔐 Failed to re-encrypt secrets of SSH job ${doc._id}: ${
+                        (error as Error).message
+                    }`
+                );
+            }
+        }
+
+        // Profiles and their saved versions both hold sealed secrets.
+        for (let collection of [
+            Mongodb.getDeploymentProfilesCollection().collectionName,
+            Mongodb.getDeploymentProfileVersionsCollection().collectionName,
+        ].map((name) =>
+            Mongodb.getDB().collection<{ sealedSecrets?: string }>(name)
+        )) {
+            let docs = await collection
+                .find({ sealedSecrets: { $exists: true, $ne: "" } })
+                .project<{ _id: ObjectId; sealedSecrets: string }>({
+                    sealedSecrets: 1,
+                })
+                .toArray();
+            for (let doc of docs) {
+                try {
+                    let sealedSecrets = rewrap(doc.sealedSecrets);
+                    if (sealedSecrets === doc.sealedSecrets) continue;
+                    await collection.updateOne(
+                        { _id: doc._id },
+                        { $set: { sealedSecrets } }
+                    );
+                    stats.deploymentProfiles++;
+                } catch (error) {
+                    stats.failed++;
+                    logger.error(
+                        `🔐 Failed to re-encrypt secrets of deployment profile ${
+                            doc._id
+                        }: ${(error as Error).message}`
+                    );
+                }
+            }
+        }
+
+        return stats;
+    }
+}
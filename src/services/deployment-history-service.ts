@@ -0,0 +1,383 @@
+import { randomUUID } from "crypto";
+import type { Filter } from "mongodb";
+import { Mongodb, MongoDbTypes } from "../database/db.js";
+import { logger } from "../utils/logger.js";
+import { CredentialVault } from "./credential-vault.js";
+
+/**
+ * Per-server record of every deploy, restart and rollback in `deployments`,
+ * so "what runs where, and since when" survives the next deploy overwriting
+ * `deployStatus` / `deployLogs` on the server doc.
+ *
+ * A record is opened as "running" before the SSH work starts and closed with
+ * its outcome. A restart re-runs whatever was deployed last, and a rollback
+ * returns to the release before a rollout, so both copy the release fields
+ * (tag, binary and its sha256, peers, ramMode) from the record they go back to.
+ *
+ * Recording never fails the deploy itself: Mongo errors are logged.
+ */
+export namespace DeploymentHistoryService {
+    export type Action = MongoDbTypes.Deployment["action"];
+
+    export interface StartInput {
+        server: MongoDbTypes.Server;
+        service: MongoDbTypes.ServiceType;
+        action: Action;
+        actor: string;
+        tag?: string | undefined;
+        binaryUrl?: string | undefined;
+        binarySha256?: string | undefined;
+        peers?: string[] | undefined;
+        profile?: MongoDbTypes.DeploymentProfileRef | undefined;
+        customParameter?: string | undefined;
+        extraData?: { ramMode?: string } | undefined;
+        commandLogUuid?: string | undefined;
+        rolloutId?: string | undefined;
+        jobId?: string | undefined;
+    }
+
+    export interface Outcome {
+        isSuccess: boolean;
+        duration: number;
+        errorMessage?: string | undefined;
+        errorCategory?: string | undefined;
+    }
+
+    const RELEASE_FIELDS = [
+        "tag",
+        "binaryName",
+        "binaryUrl",
+        "binarySha256",
+        "peers",
+        "ramMode",
+        "profile",
+    ] as const;
+
+    // Key order doesn't change the hash.
+    function canonicalJson(value: unknown): string {
+        if (Array.isArray(value)) {
+            return `[${value.map(canonicalJson).join(",")}]`;
+        }
+        if (value && typeof value === "object") {
+            return `{${Object.keys(value)
+                .sort()
+                .filter(
+                    (key) => (value as Record<string, unknown>)[key] !== undefined
+                )
+                .map(
+                    (key) =>
+                        `${JSON.stringify(key)}:${canonicalJson(
+                            (value as Record<string, unknown>)[key]
+                        )}`
+                )
+                .join(",")}}`;
+        }
+        return JSON.stringify(value) ?? "null";
+    }
+
+    // Keyed by the vault, since extraData holds seeds and passcodes.
+    export function hashExtraData(extraData: unknown) {
+        return CredentialVault.fingerprint(canonicalJson(extraData ?? {}));
+    }
+
+    /**
+     * Drop `extraDataHash` values from before they were keyed (a bare
+     * sha256, no key id). Returns how many records were changed.
+     */
+    export async function dropUnkeyedHashes() {
+        const result = await Mongodb.getDeploymentsCollection().updateMany(
+            { extraDataHash: { $exists: true, $not: /:/ } },
+            { $unset: { extraDataHash: "" } }
+        );
+        return result.modifiedCount;
+    }
+
+    // Asset file name of a release download URL.
+    export function binaryNameOf(binaryUrl: string) {
+        try {
+            const name = new URL(binaryUrl).pathname.split("/").pop();
+            return name ? decodeURIComponent(name) : undefined;
+        } catch (error) {
+            return undefined;
+        }
+    }
+
+    /**
+     * What `server` runs for `service`: its latest succeeded record. For a
+     * rollback, pass the rollout to get what ran before it.
+     */
+    export async function current(
+        server: string,
+        service: MongoDbTypes.ServiceType,
+        excludeRolloutId?: string
+    ) {
+        return await Mongodb.getDeploymentsCollection().findOne(
+            {
+                server,
+                service,
+                status: "succeeded",
+                ...(excludeRolloutId
+                    ? { rolloutId: { $ne: excludeRolloutId } }
+                    : {}),
+            },
+            { sort: { finishedAt: -1 } }
+        );
+    }
+
+    // Open a record; returns its id, or null if it couldn't be written.
+    export async function start(input: StartInput): Promise<string | null> {
+        try {
+            const now = Date.now();
+            const collection = Mongodb.getDeploymentsCollection();
+            if (input.jobId) {
+                // A resumed job: the attempt that died never closed its record.
+                await collection.updateMany(
+                    { jobId: input.jobId, status: "running" },
+                    {
+                        $set: {
+                            status: "failed",
+                            errorMessage: "Interrupted, retried by its job",
+                            finishedAt: now,
+                        },
+                    }
+                );
+            }
+
+            let release: Partial<MongoDbTypes.Deployment>;
+            if (input.action === "deploy") {
+                const binaryName = input.binaryUrl
+                    ? binaryNameOf(input.binaryUrl)
+                    : undefined;
+                release = {
+                    ...(input.tag ? { tag: input.tag } : {}),
+                    ...(binaryName ? { binaryName } : {}),
+                    ...(input.binaryUrl ? { binaryUrl: input.binaryUrl } : {}),
+                    ...(input.binarySha256
+                        ? { binarySha256: input.binarySha256 }
+                        : {}),
+                    ...(input.peers ? { peers: input.peers } : {}),
+                    ...(input.profile ? { profile: input.profile } : {}),
+                    ...(input.extraData?.ramMode
+                        ? { ramMode: input.extraData.ramMode }
+                        : {}),
+                    ...(input.extraData
+                        ? { extraDataHash: hashExtraData(input.extraData) }
+                        : {}),
+                };
+            } else {
+                const previous = await current(
+                    input.server.server,
+                    input.service,
+                    input.action === "rollback" ? input.rolloutId : undefined
+                );
+                release = {};
+                for (const field of RELEASE_FIELDS) {
+                    if (previous?.[field] !== undefined) {
+                        (release as Record<string, unknown>)[field] =
+                            previous[field];
+                    }
+                }
+                if (previous?.extraDataHash) {
+                    release.extraDataHash = previous.extraDataHash;
+                }
+            }
+
+            const deploymentId = randomUUID();
+            await collection.insertOne({
+                deploymentId,
+                server: input.server.server,
+                operator: input.server.operator,
+                service: input.service,
+                action: input.action,
+                ...release,
+                ...(input.customParameter !== undefined
+                    ? { customParameter: input.customParameter }
+                    : {}),
+                actor: input.actor,
+                status: "running",
+                ...(input.commandLogUuid
+                    ? { commandLogUuid: input.commandLogUuid }
+                    : {}),
+                ...(input.rolloutId ? { rolloutId: input.rolloutId } : {}),
+                ...(input.jobId ? { jobId: input.jobId } : {}),
+                startedAt: now,
+            });
+            return deploymentId;
+        } catch (error) {
+            logger.error(
+                `Failed to record ${input.action} of ${input.service} on ${
+                    input.server.server
+                }: ${(error as Error).message}`
+            );
+            return null;
+        }
+    }
+
+    export async function finish(
+        deploymentId: string | null,
+        outcome: Outcome
+    ) {
+        if (!deploymentId) return;
+        const status: MongoDbTypes.Deployment["status"] = outcome.isSuccess
+            ? "succeeded"
+            : outcome.errorCategory === "cancelled"
+            ? "cancelled"
+            : "failed";
+        await Mongodb.getDeploymentsCollection()
+            .updateOne(
+                { deploymentId, status: "running" },
+                {
+                    $set: {
+                        status,
+                        finishedAt: Date.now(),
+                        duration: outcome.duration,
+                        ...(outcome.isSuccess
+                            ? {}
+                            : {
+                                  errorMessage:
+                                      outcome.errorMessage || "Failed",
+                                  ...(outcome.errorCategory
+                                      ? { errorCategory: outcome.errorCategory }
+                                      : {}),
+                              }),
+                    },
+                }
+            )
+            .catch((error) => {
+                logger.error(
+                    `Failed to record deployment ${deploymentId}: ${
+                        (error as Error).message
+                    }`
+                );
+            });
+    }
+
+    // A job that finished without running (lost, or cancelled while queued)
+    // leaves its record open.
+    export async function abandon(jobId: string, reason: string) {
+        await Mongodb.getDeploymentsCollection()
+            .updateMany(
+                { jobId, status: "running" },
+                {
+                    $set: {
+                        status: "failed",
+                        errorMessage: reason,
+                        finishedAt: Date.now(),
+                    },
+                }
+            )
+            .catch(() => {});
+    }
+
+    // `current` for many servers at once: one record per server and service.
+    export async function currentAll(
+        servers: string[],
+        service?: MongoDbTypes.ServiceType
+    ) {
+        return await Mongodb.getDeploymentsCollection()
+            .aggregate<MongoDbTypes.Deployment>([
+                {
+                    $match: {
+                        server: { $in: servers },
+                        status: "succeeded",
+                        ...(service ? { service } : {}),
+                    },
+                },
+                { $sort: { finishedAt: -1 } },
+                {
+                    $group: {
+                        _id: { server: "$server", service: "$service" },
+                        doc: { $first: "$$ROOT" },
+                    },
+                },
+                { $replaceRoot: { newRoot: "$doc" } },
+            ])
+            .toArray();
+    }
+
+    export async function history(
+        filter: Filter<MongoDbTypes.Deployment>,
+        limit: number
+    ) {
+        return await Mongodb.getDeploymentsCollection()
+            .find(filter, { projection: { _id: 0 } })
+            .sort({ startedAt: -1 })
+            .limit(limit)
+            .toArray();
+    }
+
+    export interface MatrixServer {
+        server: string;
+        alias?: string;
+        action: Action;
+        binaryName?: string;
+        ramMode?: string;
+        updatedAt: number;
+        actor: string;
+    }
+
+    export interface MatrixRow {
+        service: MongoDbTypes.ServiceType;
+        tags: { tag: string; count: number; servers: MatrixServer[] }[];
+        // Servers running the service with no succeeded record yet.
+        untracked: string[];
+    }
+
+    /**
+     * Fleet-wide "which tag runs where" for the given servers, grouped by
+     * service and tag (most servers first).
+     */
+    export async function versionMatrix(
+        servers: Pick<MongoDbTypes.Server, "server" | "alias" | "services">[],
+        service?: MongoDbTypes.ServiceType
+    ): Promise<MatrixRow[]> {
+        const latest = await currentAll(
+            servers.map((s) => s.server),
+            service
+        );
+
+        const services = service
+            ? [service]
+            : Object.values(MongoDbTypes.ServiceType).filter(
+                  (s) => s !== MongoDbTypes.ServiceType.null
+              );
+        return services.map((service) => {
+            const tags = new Map<string, MatrixServer[]>();
+            const untracked: string[] = [];
+            for (const serverDoc of servers) {
+                if (!serverDoc.services.includes(service)) continue;
+                const record = latest.find(
+                    (d) => d.server === serverDoc.server && d.service === service
+                );
+                if (!record) {
+                    untracked.push(serverDoc.server);
+                    continue;
+                }
+                const tag = record.tag || "unknown";
+                if (!tags.has(tag)) tags.set(tag, []);
+                tags.get(tag)!.push({
+                    server: serverDoc.server,
+                    ...(serverDoc.alias ? { alias: serverDoc.alias } : {}),
+                    action: record.action,
+                    ...(record.binaryName
+                        ? { binaryName: record.binaryName }
+                        : {}),
+                    ...(record.ramMode ? { ramMode: record.ramMode } : {}),
+                    updatedAt: record.finishedAt ?? record.startedAt,
+                    actor: record.actor,
+                });
+            }
+            return {
+                service,
+                tags: [...tags.entries()]
+                    .map(([tag, servers]) => ({
+                        tag,
+                        count: servers.length,
+                        servers,
+                    }))
+                    .sort((a, b) => b.count - a.count),
+                untracked,
+            };
+        });
+    }
+}
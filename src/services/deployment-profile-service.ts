@@ -0,0 +1,336 @@
+import type { ObjectId } from "mongodb";
+import { Mongodb, MongoDbTypes } from "../database/db.js";
+import { Rbac } from "../utils/rbac.js";
+import { AuditService } from "./audit-service.js";
+import { CredentialVault } from "./credential-vault.js";
+import { DeploymentHistoryService } from "./deployment-history-service.js";
+import type { DeploymentService } from "./deployment-service.js";
+
+/**
+ * Deployment profiles: the `extraData` of /deploy saved under a name, so a
+ * deploy can say `profile: { name }` instead of rebuilding it. Fields sent in
+ * `extraData` next to a profile override it for that call only.
+ *
+ * Every edit saves a version. Deploys record the profile and version they
+ * used (see DeploymentHistoryService), which is how "every server on an
+ * older version of profile X" is found when it's time to re-apply it.
+ *
+ * Seeds (`ids`) and `loggingPasscode` are sealed with the credential vault and
+ * never returned; an edit that leaves them out keeps the saved ones. Their
+ * `secretsHash` is a vault fingerprint, recomputed by `npm run vault:rotate`.
+ */
+export namespace DeploymentProfileService {
+    export type Profile = MongoDbTypes.DeploymentProfile;
+    export type Version = MongoDbTypes.DeploymentProfileVersion;
+    export type Ref = MongoDbTypes.DeploymentProfileRef;
+
+    interface Secrets {
+        ids?: string[];
+        loggingPasscode?: string;
+    }
+
+    type FieldType = "string" | "number" | "boolean" | "strings" | "object";
+    const SETTINGS: Record<keyof MongoDbTypes.DeploymentProfileSettings, FieldType> =
+        {
+            epochFile: "string",
+            peers: "strings",
+            mainAuxStatus: "number",
+            ramMode: "string",
+            bobConfig: "object",
+            operatorId: "string",
+            keydbConfig: "strings",
+            kvrocksConfig: "strings",
+            keepOldConfig: "boolean",
+        };
+    const SECRETS: Record<keyof Secrets, FieldType> = {
+        ids: "strings",
+        loggingPasscode: "string",
+    };
+    const NAME = /^[A-Za-z0-9][A-Za-z0-9 _.-]{0,63}$/;
+
+    export function isValidName(name: unknown): name is string {
+        return typeof name === "string" && NAME.test(name);
+    }
+
+    function hasType(value: unknown, type: FieldType) {
+        switch (type) {
+            case "strings":
+                return (
+                    Array.isArray(value) &&
+                    value.every((item) => typeof item === "string")
+                );
+            case "object":
+                return (
+                    !!value && typeof value === "object" && !Array.isArray(value)
+                );
+            case "number":
+                return typeof value === "number" && Number.isFinite(value);
+            default:
+                return typeof value === type;
+        }
+    }
+
+    /**
+     * Split and check an `extraData` object. A secret set to null is
+     * reported in `cleared`; one left out is simply absent.
+     */
+    export function parseExtraData(input: unknown):
+        | {
+              settings: MongoDbTypes.DeploymentProfileSettings;
+              secrets: Secrets;
+              cleared: (keyof Secrets)[];
+          }
+        | { error: string } {
+        if (!input || typeof input !== "object" || Array.isArray(input)) {
+            return { error: "extraData must be an object" };
+        }
+        const settings: Record<string, unknown> = {};
+        const secrets: Record<string, unknown> = {};
+        const cleared: (keyof Secrets)[] = [];
+        for (const [key, value] of Object.entries(input)) {
+            const type =
+                SETTINGS[key as keyof typeof SETTINGS] ??
+                SECRETS[key as keyof typeof SECRETS];
+            if (!type) return { error: `Unknown extraData field: ${key}` };
+            if (value === undefined) continue;
+            if (value === null) {
+                if (key in SECRETS) cleared.push(key as keyof Secrets);
+                continue;
+            }
+            if (!hasType(value, type)) {
+                return {
+                    error: `extraData.${key} must be ${
+                        type === "strings" ? "a list of strings" : `a ${type}`
+                    }`,
+                };
+            }
+            (key in SECRETS ? secrets : settings)[key] = value;
+        }
+        if (
+            typeof settings.operatorId === "string" &&
+            settings.operatorId.length !== 60
+        ) {
+            return { error: "Operator ID must be exactly 60 characters" };
+        }
+        return { settings, secrets, cleared };
+    }
+
+    // Sealed form of `secrets` for a profile or version document.
+    export function sealSecrets(secrets: Secrets) {
+        const fields = Object.keys(secrets).sort();
+        if (fields.length === 0) return {};
+        return {
+            sealedSecrets: CredentialVault.seal(JSON.stringify(secrets)),
+            secretFields: fields,
+            secretsHash: DeploymentHistoryService.hashExtraData(secrets),
+        };
+    }
+
+    export function revealSecrets(doc: Pick<Profile, "sealedSecrets">): Secrets {
+        return doc.sealedSecrets
+            ? JSON.parse(CredentialVault.reveal(doc.sealedSecrets))
+            : {};
+    }
+
+    /**
+     * Recompute `secretsHash` of profiles and versions whose fingerprint
+     * isn't under the current master key (unkeyed, or made before a
+     * rotation). Returns how many documents were changed.
+     */
+    export async function refreshFingerprints() {
+        let changed = 0;
+        for (const collection of [
+            Mongodb.getDeploymentProfilesCollection().collectionName,
+            Mongodb.getDeploymentProfileVersionsCollection().collectionName,
+        ].map((name) =>
+            Mongodb.getDB().collection<{
+                sealedSecrets?: string;
+                secretsHash?: string;
+            }>(name)
+        )) {
+            const docs = await collection
+                .find({ sealedSecrets: { $exists: true, $ne: "" } })
+                .project<{
+                    _id: ObjectId;
+                    sealedSecrets: string;
+                    secretsHash?: string;
+                }>({ sealedSecrets: 1, secretsHash: 1 })
+                .toArray();
+            for (const doc of docs) {
+                if (CredentialVault.isCurrentFingerprint(doc.secretsHash)) {
+                    continue;
+                }
+                await collection.updateOne(
+                    { _id: doc._id },
+                    {
+                        $set: {
+                            secretsHash: DeploymentHistoryService.hashExtraData(
+                                revealSecrets(doc)
+                            ),
+                        },
+                    }
+                );
+                changed++;
+            }
+        }
+        return changed;
+    }
+
+    export async function saveVersion(profile: Profile, editedBy: string) {
+        await Mongodb.getDeploymentProfileVersionsCollection().insertOne({
+            operator: profile.operator,
+            name: profile.name,
+            version: profile.version,
+            service: profile.service,
+            ...(profile.description
+                ? { description: profile.description }
+                : {}),
+            settings: profile.settings,
+            ...(profile.sealedSecrets
+                ? {
+                      sealedSecrets: profile.sealedSecrets,
+                      secretFields: profile.secretFields ?? [],
+                      secretsHash: profile.secretsHash ?? "",
+                  }
+                : {}),
+            editedBy,
+            createdAt: Date.now(),
+        });
+    }
+
+    /**
+     * A profile `user` may use: their own, or with `owner` set, one of an
+     * operator in their write scope.
+     */
+    export async function find(
+        user: { username?: string; role?: string } | undefined,
+        name: string,
+        owner?: string
+    ) {
+        const operator = owner || user?.username;
+        if (!operator || !Rbac.canAccessOperator(user, operator, "write")) {
+            return null;
+        }
+        return await Mongodb.getDeploymentProfilesCollection().findOne({
+            operator,
+            name,
+        });
+    }
+
+    export async function getVersion(profile: Profile, version: number) {
+        if (version === profile.version) return profile;
+        return await Mongodb.getDeploymentProfileVersionsCollection().findOne({
+            operator: profile.operator,
+            name: profile.name,
+            version,
+        });
+    }
+
+    // The full extraData a profile version stands for.
+    export function extraDataOf(
+        doc: Profile | Version
+    ): Partial<DeploymentService.DeployExtraData> {
+        return { ...doc.settings, ...revealSecrets(doc) };
+    }
+
+    /**
+     * extraData for a deploy that names a profile, with `overrides` (the
+     * call's own extraData) on top.
+     */
+    export async function resolve(
+        user: { username?: string; role?: string } | undefined,
+        ref: { name?: unknown; owner?: unknown; version?: unknown },
+        service: MongoDbTypes.ServiceType,
+        overrides: unknown
+    ): Promise<
+        | { extraData: DeploymentService.DeployExtraData; ref: Ref }
+        | { error: string; status: number }
+    > {
+        if (typeof ref.name !== "string" || !ref.name) {
+            return { error: "profile.name is required", status: 400 };
+        }
+        const profile = await find(
+            user,
+            ref.name,
+            typeof ref.owner === "string" ? ref.owner : undefined
+        );
+        if (!profile) {
+            return { error: "Deployment profile not found", status: 404 };
+        }
+        if (profile.service !== service) {
+            return {
+                error: `Profile ${profile.name} is for ${profile.service}, not ${service}`,
+                status: 400,
+            };
+        }
+        const doc =
+            ref.version === undefined
+                ? profile
+                : await getVersion(profile, Number(ref.version));
+        if (!doc) {
+            return {
+                error: `Profile ${profile.name} has no version ${ref.version}`,
+                status: 404,
+            };
+        }
+        let extra = {};
+        if (overrides !== undefined && overrides !== null) {
+            const parsed = parseExtraData(overrides);
+            if ("error" in parsed) return { ...parsed, status: 400 };
+            extra = { ...parsed.settings, ...parsed.secrets };
+        }
+        return {
+            extraData: {
+                ...extraDataOf(doc),
+                ...extra,
+            } as DeploymentService.DeployExtraData,
+            ref: {
+                owner: profile.operator,
+                name: profile.name,
+                version: doc.version,
+            },
+        };
+    }
+
+    // What changed between two versions; secret values are never shown.
+    export function diff(from: Profile | Version, to: Profile | Version) {
+        return {
+            changes: AuditService.diff(
+                { description: from.description, settings: from.settings },
+                { description: to.description, settings: to.settings }
+            ),
+            secretsChanged:
+                (from.secretsHash ?? "") !== (to.secretsHash ?? ""),
+            secretFields: {
+                from: from.secretFields ?? [],
+                to: to.secretFields ?? [],
+            },
+        };
+    }
+
+    /**
+     * Servers in `servers` whose current deploy of the profile's service
+     * came from this profile, with the version they run.
+     */
+    export async function usage(profile: Profile, servers: string[]) {
+        const current = await DeploymentHistoryService.currentAll(
+            servers,
+            profile.service
+        );
+        return current
+            .filter(
+                (record) =>
+                    record.profile?.owner === profile.operator &&
+                    record.profile?.name === profile.name
+            )
+            .map((record) => ({
+                server: record.server,
+                version: record.profile!.version,
+                tag: record.tag,
+                binaryUrl: record.binaryUrl,
+                binarySha256: record.binarySha256,
+                peers: record.peers ?? [],
+                deployedAt: record.finishedAt ?? record.startedAt,
+            }));
+    }
+}
@@ -0,0 +1,1042 @@
+import { randomUUID } from "crypto";
+import { Mongodb, MongoDbTypes, IS_NO_DB } from "../database/db.js";
+import { logger } from "../utils/logger.js";
+import { sleep, millisToSeconds } from "../utils/time.js";
+import { calcGroupIdFromIds } from "../utils/node.js";
+import {
+    getGlobalLiteCustomParameter,
+    mergeCustomParameter,
+} from "../utils/custom-parameter.js";
+import { ArtifactCache } from "./artifact-cache.js";
+import { CredentialVault } from "./credential-vault.js";
+import { DeploymentHistoryService } from "./deployment-history-service.js";
+import { LeaderService } from "./leader-service.js";
+import { NodeService } from "./node-service.js";
+import { SSHService } from "./ssh-service.js";
+
+/**
+ * Binary deployments: the per-server deploy used by `POST /deploy`, and staged
+ * rollouts that deploy a release in waves.
+ *
+ * A rollout deploys one wave, then holds a health gate until every node in it
+ * is ticking and in sync with the network (`getNetworkStatus`). When a gate
+ * fails the rollout either pauses for an operator to resume / roll back /
+ * abort, or rolls every node it touched back to the binary kept by the
+ * previous deploy (`~/qlite.prev` / `~/qbob.prev`).
+ *
+ * Rollouts live in the `rollouts` collection and are driven by the leader.
+ * The driving instance heartbeats the doc; if it dies a new leader picks the
+ * rollout up and re-checks the wave that was in flight rather than deploying
+ * it again (a second deploy would overwrite the rollback binary).
+ */
+export namespace DeploymentService {
+    export interface DeployExtraData {
+        epochFile?: string;
+        peers?: string[];
+        mainAuxStatus: number;
+        ids: string[];
+        ramMode: string;
+        bobConfig: object | undefined;
+        loggingPasscode: string;
+        operatorId: string;
+        keydbConfig?: string[];
+        kvrocksConfig?: string[];
+        keepOldConfig?: boolean;
+    }
+
+    export interface RolloutOptions {
+        // Wave sizes in order: a server count (1) or a share of all targets
+        // ("25%"). Servers left over after the last entry form a final wave.
+        waves?: (number | string)[];
+        onFailure?: "pause" | "rollback";
+        gateTimeoutSec?: number;
+        maxTickLag?: number;
+    }
+
+    export type PublicRollout = Omit<
+        MongoDbTypes.Rollout,
+        "sealedExtraData" | "driver" | "driverHeartbeatAt"
+    >;
+
+    const DEFAULT_WAVES = [1, "25%"];
+    const DEFAULT_GATE_TIMEOUT_MS = 15 * 60 * 1000;
+    const DEFAULT_MAX_TICK_LAG = 10;
+    const GATE_POLL_MS = 10_000;
+    const WATCH_INTERVAL_MS = 10_000;
+    const HEARTBEAT_MS = 10_000;
+    const DRIVER_STALE_MS = 60_000;
+
+    // ---------------------------------------------------------------------
+    // Single-server deploy
+    // ---------------------------------------------------------------------
+
+    function updateDeployState({
+        server,
+        service,
+        stdout,
+        stderr,
+        status,
+    }: {
+        server: string;
+        service: MongoDbTypes.ServiceType;
+        stdout: string;
+        stderr: string;
+        status: "pending" | "active" | "error";
+    }) {
+        Mongodb.getServersCollection()
+            .updateOne({ server: server }, [
+                {
+                    $set: {
+                        deployStatus: {
+                            $mergeObjects: [
+                                "$deployStatus",
+                                { [service]: status },
+                            ],
+                        },
+                        deployLogs: {
+                            $mergeObjects: [
+                                "$deployLogs",
+                                {
+                                    [service]: {
+                                        stdout: stdout,
+                                        stderr: stderr,
+                                    },
+                                },
+                            ],
+                        },
+                    },
+                },
+            ])
+            .then()
+            .catch(() => {});
+    }
+
+    // Per-machine lite custom parameters merged with the fleet-wide one.
+    export async function resolveCustomParameters(servers: string[]) {
+        let liteNodeDocs = await Mongodb.getLiteNodeCollection()
+            .find({ server: { $in: servers } })
+            .toArray();
+        let globalLiteParam = await getGlobalLiteCustomParameter();
+        let customParameterMap: Record<string, string> = {};
+        for (let server of servers) {
+            let doc = liteNodeDocs.find((d) => d.server === server);
+            customParameterMap[server] = mergeCustomParameter(
+                globalLiteParam,
+                doc?.customParameter || ""
+            );
+        }
+        return customParameterMap;
+    }
+
+    /**
+     * Deploy `binaryUrl` to one server and record the outcome in its
+     * deployStatus/deployLogs and in the deployment history. Never throws;
+     * `isSuccess` says how it went.
+     */
+    export async function deployToServer(
+        server: MongoDbTypes.Server,
+        service: MongoDbTypes.ServiceType,
+        binaryUrl: string,
+        extraData: DeployExtraData,
+        {
+            binarySha256,
+            peers,
+            customParameter,
+            signal,
+            onBackedUp,
+            history,
+        }: {
+            binarySha256: string;
+            peers: string[];
+            customParameter: string;
+            signal?: AbortSignal | undefined;
+            onBackedUp?: (() => void) | undefined;
+            history: Pick<
+                DeploymentHistoryService.StartInput,
+                | "actor"
+                | "tag"
+                | "profile"
+                | "commandLogUuid"
+                | "rolloutId"
+                | "jobId"
+            >;
+        }
+    ) {
+        const deploymentId = await DeploymentHistoryService.start({
+            ...history,
+            server,
+            service,
+            action: "deploy",
+            binaryUrl,
+            binarySha256,
+            peers,
+            customParameter,
+            extraData,
+        });
+        const result = await runDeploy(
+            server,
+            service,
+            binaryUrl,
+            extraData,
+            { binarySha256, peers, customParameter, signal, onBackedUp }
+        );
+        await DeploymentHistoryService.finish(deploymentId, {
+            ...result,
+            errorCategory:
+                "errorCategory" in result ? result.errorCategory : undefined,
+        });
+        return result;
+    }
+
+    async function runDeploy(
+        server: MongoDbTypes.Server,
+        service: MongoDbTypes.ServiceType,
+        binaryUrl: string,
+        extraData: DeployExtraData,
+        {
+            binarySha256,
+            peers,
+            customParameter,
+            signal,
+            onBackedUp,
+        }: {
+            binarySha256: string;
+            peers: string[];
+            customParameter: string;
+            signal?: AbortSignal | undefined;
+            onBackedUp?: (() => void) | undefined;
+        }
+    ) {
+        try {
+            let result = await SSHService.deployNode(
+                server.server,
+                server.username,
+                server.password,
+                server.sshPrivateKey,
+                service,
+                {
+                    binaryUrl: await ArtifactCache.downloadUrlFor(
+                        service,
+                        binaryUrl
+                    ),
+                    binarySha256,
+                    epochFile: extraData?.epochFile as string,
+                    peers,
+                    systemRamInGB: parseInt(server.ram || "0"),
+                    mainAuxStatus: extraData.mainAuxStatus,
+                    ids: extraData.ids,
+                    ramMode: extraData.ramMode,
+                    bobConfig: extraData.bobConfig || {},
+                    loggingPasscode: extraData.loggingPasscode,
+                    operatorId: extraData.operatorId,
+                    keydbConfig: extraData.keydbConfig || [],
+                    kvrocksConfig: extraData.kvrocksConfig || [],
+                    keepOldConfig: extraData.keepOldConfig || false,
+                    customParameter,
+                    signal,
+                    onBackedUp,
+                }
+            );
+            if (result.isSuccess) {
+                updateDeployState({
+                    server: server.server,
+                    service: service,
+                    stdout:
+                        `---------- Time elapsed ${millisToSeconds(
+                            result.duration
+                        )} seconds ----------- \n\n` +
+                        Object.values(result.stdouts).join("\n"),
+                    stderr: Object.values(result.stderrs).join("\n"),
+                    status: "active",
+                });
+
+                Mongodb.getLiteNodeCollection()
+                    .updateOne(
+                        { server: server.server },
+                        { $set: { passcode: extraData.loggingPasscode } }
+                    )
+                    .then()
+                    .catch(() => {});
+
+                NodeService.tryGetIdsFromLiteNode(server.server).then(
+                    (ids) => {
+                        let groupId = calcGroupIdFromIds(ids);
+                        Mongodb.getLiteNodeCollection()
+                            .updateOne(
+                                { server: server.server },
+                                { $set: { ids: ids, groupId: groupId } }
+                            )
+                            .then()
+                            .catch(() => {});
+                    }
+                );
+            } else {
+                const reason =
+                    result.errorMessage ||
+                    `Deployment failed on ${server.server}`;
+                updateDeployState({
+                    server: server.server,
+                    service: service,
+                    stdout:
+                        `---------- Time elapsed ${millisToSeconds(
+                            result.duration
+                        )} seconds ----------- \n` +
+                        Object.values(result.stdouts).join("\n"),
+                    stderr:
+                        `⛔ ${reason}\n` +
+                        Object.values(result.stderrs).join("\n"),
+                    status: "error",
+                });
+                return { ...result, errorMessage: reason };
+            }
+            return result;
+        } catch (error) {
+            logger.error(
+                `Deployment to ${server.server} failed: ${
+                    (error as Error).message
+                }`
+            );
+            updateDeployState({
+                server: server.server,
+                service: service,
+                stdout: (error as Error).message,
+                stderr: (error as Error).message,
+                status: "error",
+            });
+            return {
+                stdouts: {},
+                stderrs: {},
+                isSuccess: false,
+                duration: 0,
+                errorMessage: (error as Error).message,
+            };
+        }
+    }
+
+    // ---------------------------------------------------------------------
+    // Rollouts
+    // ---------------------------------------------------------------------
+
+    let _rolloutProgressCb: ((rollout: PublicRollout) => void) | null = null;
+    // SocketServer registers here to relay rollout progress to clients.
+    export function onRolloutProgress(cb: (rollout: PublicRollout) => void) {
+        _rolloutProgressCb = cb;
+    }
+
+    export function toPublicRollout(
+        rollout: MongoDbTypes.Rollout
+    ): PublicRollout {
+        const { sealedExtraData, driver, driverHeartbeatAt, ...rest } = rollout;
+        return rest;
+    }
+
+    function emitProgress(rollout: MongoDbTypes.Rollout) {
+        try {
+            _rolloutProgressCb?.(toPublicRollout(rollout));
+        } catch (error) {
+            logger.error(
+                `Error emitting rollout progress: ${(error as Error).message}`
+            );
+        }
+    }
+
+    /** Split `servers` into waves. Throws on a malformed wave spec. */
+    export function planWaves(
+        servers: string[],
+        specs: (number | string)[] = DEFAULT_WAVES
+    ): string[][] {
+        if (!Array.isArray(specs)) {
+            throw new Error("rollout.waves must be an array");
+        }
+        let waves: string[][] = [];
+        let index = 0;
+        for (let spec of specs) {
+            if (index >= servers.length) break;
+            let size: number;
+            if (typeof spec === "number" && Number.isInteger(spec)) {
+                size = spec;
+            } else if (
+                typeof spec === "string" &&
+                /^\d+(\.\d+)?%$/.test(spec.trim())
+            ) {
+                size = Math.ceil(
+                    (parseFloat(spec) / 100) * servers.length
+                );
+            } else {
+                throw new Error(
+                    `Invalid wave "${spec}": use a server count or a percentage like "25%"`
+                );
+            }
+            if (size < 1) {
+                throw new Error(`Invalid wave "${spec}": must be at least 1`);
+            }
+            waves.push(servers.slice(index, index + size));
+            index += size;
+        }
+        if (index < servers.length) waves.push(servers.slice(index));
+        return waves;
+    }
+
+    export async function createRollout({
+        operator,
+        service,
+        tag,
+        binaryUrl,
+        binarySha256,
+        extraData,
+        profile,
+        targets,
+        options,
+    }: {
+        operator: string;
+        service: MongoDbTypes.ServiceType;
+        tag: string;
+        binaryUrl: string;
+        binarySha256: string;
+        extraData: DeployExtraData;
+        profile?: MongoDbTypes.DeploymentProfileRef;
+        targets: { server: string; peers: string[] }[];
+        options: RolloutOptions;
+    }) {
+        let waves = planWaves(
+            targets.map((t) => t.server),
+            options.waves ?? DEFAULT_WAVES
+        );
+        let now = Date.now();
+        let rollout: MongoDbTypes.Rollout = {
+            _id: randomUUID(),
+            operator,
+            service,
+            tag,
+            binaryUrl,
+            binarySha256,
+            ...(profile ? { profile } : {}),
+            waves: waves.map((servers) => ({ servers, status: "pending" })),
+            currentWave: 0,
+            targets: waves.flatMap((servers, wave) =>
+                servers.map((server) => ({
+                    server,
+                    wave,
+                    status: "pending" as const,
+                    peers:
+                        targets.find((t) => t.server === server)?.peers || [],
+                    updatedAt: now,
+                }))
+            ),
+            onFailure: options.onFailure === "rollback" ? "rollback" : "pause",
+            gateTimeoutMs:
+                Number(options.gateTimeoutSec) > 0
+                    ? Number(options.gateTimeoutSec) * 1000
+                    : DEFAULT_GATE_TIMEOUT_MS,
+            maxTickLag:
+                Number(options.maxTickLag) >= 0 &&
+                options.maxTickLag !== undefined
+                    ? Number(options.maxTickLag)
+                    : DEFAULT_MAX_TICK_LAG,
+            sealedExtraData: CredentialVault.seal(JSON.stringify(extraData)),
+            status: "running",
+            createdAt: now,
+            updatedAt: now,
+        };
+        await Mongodb.getRolloutsCollection().insertOne(rollout);
+        logger.info(
+            `🚦 Rollout ${rollout._id} created by ${operator}: ${service} ${tag} in ${waves.length} wave(s) over ${targets.length} server(s)`
+        );
+        emitProgress(rollout);
+        return rollout;
+    }
+
+    type ControlResult =
+        | { rollout: MongoDbTypes.Rollout }
+        | { status: number; error: string };
+
+    async function findInScope(
+        rolloutId: string,
+        scope: string | { $exists: true }
+    ) {
+        return await Mongodb.getRolloutsCollection().findOne({
+            _id: rolloutId,
+            operator: scope,
+        });
+    }
+
+    /** Re-check the failed wave of a paused rollout and carry on if it passes. */
+    export async function resumeRollout(
+        rolloutId: string,
+        scope: string | { $exists: true }
+    ): Promise<ControlResult> {
+        let rollout = await findInScope(rolloutId, scope);
+        if (!rollout) return { status: 404, error: "Rollout not found" };
+        if (rollout.status !== "paused") {
+            return {
+                status: 409,
+                error: `Only a paused rollout can be resumed (status: ${rollout.status})`,
+            };
+        }
+        let wave = rollout.waves[rollout.currentWave];
+        if (wave) wave.status = "verifying";
+        let now = Date.now();
+        for (let target of rollout.targets) {
+            if (target.wave === rollout.currentWave && target.status === "failed") {
+                target.status = "verifying";
+                delete target.error;
+                target.updatedAt = now;
+            }
+        }
+        let updated = await Mongodb.getRolloutsCollection().findOneAndUpdate(
+            { _id: rolloutId, status: "paused" },
+            {
+                $set: {
+                    status: "running",
+                    waves: rollout.waves,
+                    targets: rollout.targets,
+                    updatedAt: now,
+                },
+                $unset: { error: "" },
+            },
+            { returnDocument: "after" }
+        );
+        if (!updated) return { status: 409, error: "Rollout changed, retry" };
+        emitProgress(updated);
+        return { rollout: updated };
+    }
+
+    /** Roll back every server the rollout has touched. */
+    export async function rollbackRollout(
+        rolloutId: string,
+        scope: string | { $exists: true }
+    ): Promise<ControlResult> {
+        return await transitionFromActive(rolloutId, scope, "rolling_back");
+    }
+
+    /** Stop before the next wave; deployed servers keep the new binary. */
+    export async function abortRollout(
+        rolloutId: string,
+        scope: string | { $exists: true }
+    ): Promise<ControlResult> {
+        return await transitionFromActive(rolloutId, scope, "cancelled");
+    }
+
+    async function transitionFromActive(
+        rolloutId: string,
+        scope: string | { $exists: true },
+        to: "rolling_back" | "cancelled"
+    ): Promise<ControlResult> {
+        let now = Date.now();
+        let updated = await Mongodb.getRolloutsCollection().findOneAndUpdate(
+            {
+                _id: rolloutId,
+                operator: scope,
+                status: { $in: ["running", "paused"] },
+            },
+            {
+                $set: {
+                    status: to,
+                    updatedAt: now,
+                    ...(to === "cancelled" ? { finishedAt: now } : {}),
+                },
+            },
+            { returnDocument: "after" }
+        );
+        if (!updated) {
+            let existing = await findInScope(rolloutId, scope);
+            return existing
+                ? {
+                      status: 409,
+                      error: `Rollout is already ${existing.status}`,
+                  }
+                : { status: 404, error: "Rollout not found" };
+        }
+        logger.info(`🚦 Rollout ${rolloutId} → ${to}`);
+        emitProgress(updated);
+        return { rollout: updated };
+    }
+
+    // ---- Driver (leader only) ----
+
+    const _driving = new Set<string>();
+
+    // Persist wave/target progress. False once another instance owns it.
+    async function save(rollout: MongoDbTypes.Rollout) {
+        rollout.updatedAt = Date.now();
+        let result = await Mongodb.getRolloutsCollection().updateOne(
+            { _id: rollout._id, driver: LeaderService.getInstanceId() },
+            {
+                $set: {
+                    waves: rollout.waves,
+                    targets: rollout.targets,
+                    currentWave: rollout.currentWave,
+                    updatedAt: rollout.updatedAt,
+                },
+            }
+        );
+        emitProgress(rollout);
+        return result.modifiedCount > 0;
+    }
+
+    // Status changes are compare-and-swap so a concurrent resume/rollback/
+    // abort from the API is never overwritten.
+    async function transition(
+        rollout: MongoDbTypes.Rollout,
+        to: MongoDbTypes.RolloutStatus,
+        error?: string
+    ) {
+        let now = Date.now();
+        let terminal = ["succeeded", "rolled_back", "failed"].includes(to);
+        let result = await Mongodb.getRolloutsCollection().updateOne(
+            {
+                _id: rollout._id,
+                driver: LeaderService.getInstanceId(),
+                status: rollout.status,
+            },
+            {
+                $set: {
+                    status: to,
+                    updatedAt: now,
+                    ...(error ? { error } : {}),
+                    ...(terminal ? { finishedAt: now } : {}),
+                },
+            }
+        );
+        if (result.modifiedCount > 0) {
+            logger.info(
+                `🚦 Rollout ${rollout._id} ${rollout.status} → ${to}${
+                    error ? `: ${error}` : ""
+                }`
+            );
+            rollout.status = to;
+            rollout.updatedAt = now;
+            if (error) rollout.error = error;
+            if (terminal) rollout.finishedAt = now;
+            emitProgress(rollout);
+        }
+        return result.modifiedCount > 0;
+    }
+
+    async function reload(rolloutId: string) {
+        return await Mongodb.getRolloutsCollection().findOne({
+            _id: rolloutId,
+            driver: LeaderService.getInstanceId(),
+        });
+    }
+
+    function revealExtraData(rollout: MongoDbTypes.Rollout): DeployExtraData {
+        return JSON.parse(CredentialVault.reveal(rollout.sealedExtraData));
+    }
+
+    async function deployWave(rollout: MongoDbTypes.Rollout, waveIndex: number) {
+        let wave = rollout.waves[waveIndex]!;
+        let targets = rollout.targets.filter((t) => t.wave === waveIndex);
+        let now = Date.now();
+        wave.status = "deploying";
+        wave.startedAt = now;
+        for (let target of targets) {
+            target.status = "deploying";
+            target.backedUp = false;
+            target.updatedAt = now;
+        }
+        if (!(await save(rollout))) return;
+
+        let extraData = revealExtraData(rollout);
+        let serverDocs = await Mongodb.getServersCollection()
+            .find({ server: { $in: wave.servers } })
+            .toArray();
+        let customParameters = await resolveCustomParameters(wave.servers);
+
+        await Promise.all(
+            targets.map(async (target) => {
+                let serverDoc = serverDocs.find(
+                    (s) => s.server === target.server
+                );
+                if (!serverDoc || !serverDoc.username) {
+                    target.status = "failed";
+                    target.error = "Server no longer exists or has no SSH user";
+                } else if (!rollout.binarySha256) {
+                    target.status = "failed";
+                    target.error =
+                        "Rollout has no binary checksum to verify against; start a new one";
+                } else {
+                    let result = await deployToServer(
+                        serverDoc,
+                        rollout.service,
+                        rollout.binaryUrl,
+                        extraData,
+                        {
+                            binarySha256: rollout.binarySha256,
+                            peers: target.peers,
+                            customParameter:
+                                customParameters[target.server] ?? "",
+                            // Saved right away: a driver taking over after
+                            // a crash must know which nodes were touched.
+                            onBackedUp: () => {
+                                target.backedUp = true;
+                                target.updatedAt = Date.now();
+                                save(rollout).catch(() => {});
+                            },
+                            history: {
+                                actor: rollout.operator,
+                                tag: rollout.tag,
+                                profile: rollout.profile,
+                                rolloutId: rollout._id,
+                            },
+                        }
+                    );
+                    if (result.isSuccess) {
+                        target.status = "verifying";
+                    } else {
+                        target.status = "failed";
+                        target.error =
+                            result.errorMessage || "Deployment failed";
+                    }
+                }
+                target.updatedAt = Date.now();
+            })
+        );
+        wave.status = "verifying";
+        await save(rollout);
+    }
+
+    async function probe(
+        service: MongoDbTypes.ServiceType,
+        server: string
+    ): Promise<{ tick: number; epoch: number }> {
+        if (service === MongoDbTypes.ServiceType.LiteNode) {
+            let info = await NodeService.getLiteNodeTickInfo(server);
+            return { tick: info.tick, epoch: info.epoch };
+        }
+        let info = await NodeService.getBobNodeTickInfo(server);
+        return {
+            tick: info.currentFetchingTick,
+            epoch: info.currentProcessingEpoch,
+        };
+    }
+
+    // Null when healthy, otherwise why not (yet).
+    async function checkHealth(
+        rollout: MongoDbTypes.Rollout,
+        server: string,
+        baselineTicks: Record<string, number>
+    ): Promise<string | null> {
+        let { tick, epoch } = await probe(rollout.service, server);
+        if (tick <= 0) return "Node is not responding";
+        let baseline = baselineTicks[server];
+        if (baseline === undefined) {
+            baselineTicks[server] = tick;
+            return "Waiting for the node to tick";
+        }
+        if (tick <= baseline) return `Tick stuck at ${tick}`;
+        let network = NodeService.getNetworkStatus();
+        if (network.tick <= 0) return "Network tick is unknown";
+        if (epoch !== network.epoch) {
+            return `Epoch ${epoch} does not match network epoch ${network.epoch}`;
+        }
+        let lag = network.tick - tick;
+        if (lag > rollout.maxTickLag) {
+            return `${lag} ticks behind the network (max ${rollout.maxTickLag})`;
+        }
+        return null;
+    }
+
+    /**
+     * Hold the wave's gate until every deployed node is healthy, the gate
+     * times out, or the rollout is paused/aborted/rolled back from the API.
+     * Returns false when the rollout status changed underneath us.
+     */
+    async function verifyWave(
+        rollout: MongoDbTypes.Rollout,
+        waveIndex: number
+    ): Promise<boolean> {
+        let wave = rollout.waves[waveIndex]!;
+        let deadline = Date.now() + rollout.gateTimeoutMs;
+        let baselineTicks: Record<string, number> = {};
+        let reasons: Record<string, string> = {};
+
+        while (true) {
+            let pending = rollout.targets.filter(
+                (t) => t.wave === waveIndex && t.status === "verifying"
+            );
+            if (pending.length === 0) break;
+            await Promise.all(
+                pending.map(async (target) => {
+                    let reason = await checkHealth(
+                        rollout,
+                        target.server,
+                        baselineTicks
+                    );
+                    if (reason === null) {
+                        target.status = "healthy";
+                        target.updatedAt = Date.now();
+                        delete reasons[target.server];
+                    } else {
+                        reasons[target.server] = reason;
+                    }
+                })
+            );
+            if (Date.now() > deadline) {
+                for (let target of rollout.targets) {
+                    if (target.wave === waveIndex && target.status === "verifying") {
+                        target.status = "failed";
+                        target.error = `Health gate timed out: ${
+                            reasons[target.server] || "unknown"
+                        }`;
+                        target.updatedAt = Date.now();
+                    }
+                }
+                break;
+            }
+            if (!(await save(rollout))) return false;
+            await sleep(GATE_POLL_MS);
+            let latest = await reload(rollout._id);
+            if (!latest || latest.status !== "running") return false;
+        }
+
+        let failed = rollout.targets.filter(
+            (t) => t.wave === waveIndex && t.status === "failed"
+        );
+        wave.status = failed.length > 0 ? "failed" : "passed";
+        wave.finishedAt = Date.now();
+        if (failed.length === 0) rollout.currentWave = waveIndex + 1;
+        if (!(await save(rollout))) return false;
+
+        if (failed.length > 0) {
+            let error = `Wave ${waveIndex + 1} failed its health gate on ${failed
+                .map((t) => t.server)
+                .join(", ")}`;
+            await transition(
+                rollout,
+                rollout.onFailure === "rollback" ? "rolling_back" : "paused",
+                error
+            );
+        }
+        return true;
+    }
+
+    /**
+     * Roll back the targets whose deploy got as far as replacing the binary.
+     * A deploy that failed before that (SSH down, checksum mismatch) left the
+     * node as it was; rolling it back would swap in an older `.prev` binary.
+     *
+     * No deploy of this rollout is running here: the driver awaits each wave,
+     * and a new driver only takes over once the old one stopped heartbeating.
+     * A `deploying` target left by a dead driver is rolled back only if its
+     * deploy reported the backup, and the per-host SSH lock still orders the
+     * rollback after anything the dead driver's session left running.
+     */
+    async function rollbackAll(rollout: MongoDbTypes.Rollout) {
+        let touched = rollout.targets.filter(
+            (t) =>
+                [
+                    "deploying",
+                    "verifying",
+                    "healthy",
+                    "failed",
+                    "rollback_failed",
+                ].includes(t.status) &&
+                // Unset: rollout from before backups were tracked.
+                t.backedUp !== false
+        );
+        for (let target of rollout.targets) {
+            if (target.status === "deploying" && target.backedUp === false) {
+                target.status = "failed";
+                target.error = "Deploy stopped before replacing the binary";
+                target.updatedAt = Date.now();
+            }
+        }
+        let serverDocs = await Mongodb.getServersCollection()
+            .find({ server: { $in: touched.map((t) => t.server) } })
+            .toArray();
+
+        await Promise.all(
+            touched.map(async (target) => {
+                let serverDoc = serverDocs.find(
+                    (s) => s.server === target.server
+                );
+                if (!serverDoc || !serverDoc.username) {
+                    target.status = "rollback_failed";
+                    target.error = "Server no longer exists or has no SSH user";
+                    target.updatedAt = Date.now();
+                    return;
+                }
+                let deploymentId = await DeploymentHistoryService.start({
+                    server: serverDoc,
+                    service: rollout.service,
+                    action: "rollback",
+                    actor: rollout.operator,
+                    rolloutId: rollout._id,
+                });
+                let result = await SSHService.rollbackNode(
+                    serverDoc.server,
+                    serverDoc.username,
+                    serverDoc.password,
+                    serverDoc.sshPrivateKey,
+                    rollout.service,
+                    { systemRamInGB: parseInt(serverDoc.ram || "0") }
+                );
+                await DeploymentHistoryService.finish(deploymentId, result);
+                updateDeployState({
+                    server: serverDoc.server,
+                    service: rollout.service,
+                    stdout:
+                        `---------- Rollback (${millisToSeconds(
+                            result.duration
+                        )} seconds) ----------- \n\n` +
+                        Object.values(result.stdouts).join("\n"),
+                    stderr: Object.values(result.stderrs).join("\n"),
+                    status: result.isSuccess ? "active" : "error",
+                });
+                target.status = result.isSuccess
+                    ? "rolled_back"
+                    : "rollback_failed";
+                if (!result.isSuccess) {
+                    target.error =
+                        result.errorMessage ||
+                        "Rollback failed (no previous binary kept?)";
+                }
+                target.updatedAt = Date.now();
+            })
+        );
+        await save(rollout);
+
+        let failed = touched.filter((t) => t.status === "rollback_failed");
+        await transition(
+            rollout,
+            failed.length > 0 ? "failed" : "rolled_back",
+            failed.length > 0
+                ? `Rollback failed on ${failed.map((t) => t.server).join(", ")}`
+                : undefined
+        );
+    }
+
+    async function drive(rolloutId: string) {
+        const heartbeat = setInterval(() => {
+            Mongodb.getRolloutsCollection()
+                .updateOne(
+                    { _id: rolloutId, driver: LeaderService.getInstanceId() },
+                    { $set: { driverHeartbeatAt: Date.now() } }
+                )
+                .then()
+                .catch(() => {});
+        }, HEARTBEAT_MS);
+
+        try {
+            while (LeaderService.isLeader()) {
+                let rollout = await reload(rolloutId);
+                if (!rollout) return;
+
+                if (rollout.status === "rolling_back") {
+                    await rollbackAll(rollout);
+                    continue;
+                }
+                if (rollout.status !== "running") return;
+
+                let waveIndex = rollout.currentWave;
+                let wave = rollout.waves[waveIndex];
+                if (!wave) {
+                    await transition(rollout, "succeeded");
+                    continue;
+                }
+                if (wave.status === "pending") {
+                    await deployWave(rollout, waveIndex);
+                    continue;
+                }
+                if (wave.status === "deploying") {
+                    // The previous driver died mid-deploy: check what landed
+                    // instead of deploying again.
+                    for (let target of rollout.targets) {
+                        if (target.wave === waveIndex && target.status === "deploying") {
+                            target.status = "verifying";
+                            target.updatedAt = Date.now();
+                        }
+                    }
+                    wave.status = "verifying";
+                    if (!(await save(rollout))) return;
+                    continue;
+                }
+                if (wave.status === "verifying") {
+                    await verifyWave(rollout, waveIndex);
+                    continue;
+                }
+                // "passed" without advancing, or "failed" while running
+                // (resumed): advance or re-verify.
+                if (wave.status === "passed") {
+                    rollout.currentWave = waveIndex + 1;
+                } else {
+                    wave.status = "verifying";
+                }
+                if (!(await save(rollout))) return;
+            }
+        } finally {
+            clearInterval(heartbeat);
+            _driving.delete(rolloutId);
+            await Mongodb.getRolloutsCollection()
+                .updateOne(
+                    { _id: rolloutId, driver: LeaderService.getInstanceId() },
+                    { $unset: { driver: "", driverHeartbeatAt: "" } }
+                )
+                .catch(() => {});
+        }
+    }
+
+    async function claim(rolloutId: string) {
+        let now = Date.now();
+        return await Mongodb.getRolloutsCollection().findOneAndUpdate(
+            {
+                _id: rolloutId,
+                status: { $in: ["running", "rolling_back"] },
+                $or: [
+                    { driver: { $exists: false } },
+                    { driverHeartbeatAt: { $lt: now - DRIVER_STALE_MS } },
+                ],
+            },
+            {
+                $set: {
+                    driver: LeaderService.getInstanceId(),
+                    driverHeartbeatAt: now,
+                },
+            }
+        );
+    }
+
+    async function watchRollouts() {
+        while (true) {
+            if (!LeaderService.isLeader()) {
+                await sleep(WATCH_INTERVAL_MS);
+                continue;
+            }
+            try {
+                let active = await Mongodb.getRolloutsCollection()
+                    .find(
+                        { status: { $in: ["running", "rolling_back"] } },
+                        { projection: { _id: 1 } }
+                    )
+                    .toArray();
+                for (let { _id } of active) {
+                    if (_driving.has(_id)) continue;
+                    let claimed = await claim(_id);
+                    if (!claimed) continue;
+                    _driving.add(_id);
+                    drive(_id).catch((error) => {
+                        logger.error(
+                            `🚦 Rollout ${_id} driver error: ${
+                                (error as Error).message
+                            }`
+                        );
+                    });
+                }
+            } catch (error) {
+                logger.error(
+                    `Error in watchRollouts: ${(error as Error).message}`
+                );
+            }
+            await sleep(WATCH_INTERVAL_MS);
+        }
+    }
+
+    export async function start() {
+        if (IS_NO_DB) {
+            logger.info("🌱 NO_DB: skipping rollout driver");
+            return;
+        }
+        watchRollouts();
+    }
+}
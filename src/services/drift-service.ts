@@ -0,0 +1,304 @@
+import { Mongodb, MongoDbTypes, IS_NO_DB } from "../database/db.js";
+import { logger } from "../utils/logger.js";
+import { sleep } from "../utils/time.js";
+import { Gmail } from "../utils/gmail.js";
+import { LeaderService } from "./leader-service.js";
+import { NodeService } from "./node-service.js";
+import { GithubService } from "./github-service.js";
+import { DeploymentHistoryService } from "./deployment-history-service.js";
+
+/**
+ * Version drift: managed nodes not running their service's target release.
+ * The target is the tag pinned as approved for the service (settings key
+ * `approvedTag:<service>`), or else the newest GitHub release.
+ *
+ * A node's running version is what it reports (bob's `bobVersion`) or else
+ * the tag of its latest succeeded deploy (see DeploymentHistoryService).
+ * Versions compare on their numeric part, so "v1.2.3" and "1.2.3" match.
+ *
+ * The leader re-checks every CHECK_INTERVAL_MS and keeps one `version_drift`
+ * doc per drifting node, with `since` kept as long as running and target
+ * stay the same. Other instances read the collection. With
+ * VERSION_DRIFT_ALERT_GRACE_MS set, nodes drifting longer than that are
+ * emailed once, in one batch per check.
+ */
+export namespace DriftService {
+    export type Target = {
+        tag: string;
+        source: MongoDbTypes.VersionDrift["targetSource"];
+    };
+
+    export interface Report {
+        targets: Partial<Record<MongoDbTypes.ServiceType, Target>>;
+        drifted: MongoDbTypes.VersionDrift[];
+        checkedAt: number | null;
+    }
+
+    const CHECK_INTERVAL_MS = 60_000;
+    const ALERT_GRACE_MS = Number(process.env.VERSION_DRIFT_ALERT_GRACE_MS) || 0;
+    const SERVICES = [
+        MongoDbTypes.ServiceType.LiteNode,
+        MongoDbTypes.ServiceType.BobNode,
+    ];
+
+    let _drifted: MongoDbTypes.VersionDrift[] = [];
+    let _targets: Report["targets"] = {};
+    let _checkedAt: number | null = null;
+
+    function approvedTagKey(service: MongoDbTypes.ServiceType) {
+        return `approvedTag:${service}`;
+    }
+
+    export async function getApprovedTag(service: MongoDbTypes.ServiceType) {
+        const doc = await Mongodb.getSettingsCollection().findOne({
+            key: approvedTagKey(service),
+        });
+        return doc?.value || null;
+    }
+
+    // Pin (or with null, unpin) the tag every node of `service` should run.
+    export async function setApprovedTag(
+        service: MongoDbTypes.ServiceType,
+        tag: string | null
+    ) {
+        if (tag) {
+            await Mongodb.getSettingsCollection().updateOne(
+                { key: approvedTagKey(service) },
+                { $set: { value: tag } },
+                { upsert: true }
+            );
+        } else {
+            await Mongodb.getSettingsCollection().deleteOne({
+                key: approvedTagKey(service),
+            });
+        }
+    }
+
+    async function resolveTargets(): Promise<Report["targets"]> {
+        const targets: Report["targets"] = {};
+        for (const service of SERVICES) {
+            const approved = await getApprovedTag(service);
+            const latest = GithubService.getLatestTag(service);
+            if (approved) targets[service] = { tag: approved, source: "approved" };
+            else if (latest) targets[service] = { tag: latest, source: "latest" };
+        }
+        return targets;
+    }
+
+    function numericPart(version: string) {
+        return version.match(/\d+(?:\.\d+)*/)?.[0] ?? null;
+    }
+
+    /**
+     * Where `running` stands against `target`. Versions without a numeric
+     * part, or equal numbers with different suffixes ("1.2.3-rc1"), are just
+     * "different".
+     */
+    export function compare(
+        running: string,
+        target: string
+    ): "current" | "behind" | "ahead" | "different" {
+        const a = numericPart(running);
+        const b = numericPart(target);
+        if (!a || !b) {
+            return running.trim() === target.trim() ? "current" : "different";
+        }
+        const left = a.split(".").map(Number);
+        const right = b.split(".").map(Number);
+        for (let i = 0; i < Math.max(left.length, right.length); i++) {
+            const diff = (left[i] ?? 0) - (right[i] ?? 0);
+            if (diff !== 0) return diff < 0 ? "behind" : "ahead";
+        }
+        const suffix = (version: string, number: string) =>
+            version.slice(version.indexOf(number) + number.length).trim();
+        return suffix(running, a) === suffix(target, b)
+            ? "current"
+            : "different";
+    }
+
+    async function check() {
+        const targets = await resolveTargets();
+        const status = NodeService.getSystemNodesStatus();
+        const nodes = [
+            ...status.liteNodes.map((node) => ({
+                server: node.server,
+                operator: node.operator,
+                service: MongoDbTypes.ServiceType.LiteNode,
+                reported: null as string | null,
+            })),
+            ...status.bobNodes.map((node) => ({
+                server: node.server,
+                operator: node.operator,
+                service: MongoDbTypes.ServiceType.BobNode,
+                reported:
+                    node.bobVersion && node.bobVersion !== "unknown"
+                        ? node.bobVersion
+                        : null,
+            })),
+        ];
+        // A new leader can get here before NodeService has its server
+        // lists. Writing then would wipe every stored drift along with its
+        // `since` and `alertedAt`, so serve what's stored until nodes appear.
+        if (nodes.length === 0) {
+            await load();
+            return;
+        }
+        const deployed = await DeploymentHistoryService.currentAll(
+            nodes.map((node) => node.server)
+        );
+        const collection = Mongodb.getVersionDriftCollection();
+        const previous = await collection.find({}).toArray();
+
+        const now = Date.now();
+        const drifted: MongoDbTypes.VersionDrift[] = [];
+        for (const node of nodes) {
+            const target = targets[node.service];
+            if (!target) continue;
+            const tag = deployed.find(
+                (d) => d.server === node.server && d.service === node.service
+            )?.tag;
+            const running = node.reported ?? tag ?? null;
+            const state = running ? compare(running, target.tag) : "unknown";
+            if (state === "current") continue;
+
+            const before = previous.find(
+                (d) => d.server === node.server && d.service === node.service
+            );
+            const unchanged =
+                before &&
+                before.running === running &&
+                before.target === target.tag;
+            drifted.push({
+                server: node.server,
+                service: node.service,
+                operator: node.operator,
+                running,
+                runningSource: node.reported ? "reported" : tag ? "deployed" : null,
+                target: target.tag,
+                targetSource: target.source,
+                status: state,
+                since: unchanged ? before.since : now,
+                ...(unchanged && before.alertedAt
+                    ? { alertedAt: before.alertedAt }
+                    : {}),
+                updatedAt: now,
+            });
+        }
+
+        if (ALERT_GRACE_MS > 0) {
+            const overdue = drifted.filter(
+                (d) =>
+                    d.status !== "unknown" &&
+                    !d.alertedAt &&
+                    now - d.since >= ALERT_GRACE_MS
+            );
+            if (overdue.length > 0) {
+                logger.warn(
+                    `⚠️ ${overdue.length} node(s) drifting from their target release for over ${ALERT_GRACE_MS} ms`
+                );
+                await Gmail.sendVersionDriftEmail({
+                    nodes: overdue,
+                    graceMs: ALERT_GRACE_MS,
+                });
+                for (const d of overdue) d.alertedAt = now;
+            }
+        }
+
+        for (const d of drifted) {
+            await collection.replaceOne(
+                { server: d.server, service: d.service },
+                d,
+                { upsert: true }
+            );
+        }
+        await collection.deleteMany(
+            drifted.length > 0
+                ? {
+                      $nor: drifted.map((d) => ({
+                          server: d.server,
+                          service: d.service,
+                      })),
+                  }
+                : {}
+        );
+        _drifted = drifted;
+        _targets = targets;
+        _checkedAt = now;
+    }
+
+    // Non-leaders serve what the leader last wrote.
+    async function load() {
+        _drifted = await Mongodb.getVersionDriftCollection()
+            .find({}, { projection: { _id: 0 } })
+            .toArray();
+        _targets = await resolveTargets();
+        _checkedAt = _drifted.reduce<number | null>(
+            (latest, d) => Math.max(latest ?? 0, d.updatedAt),
+            null
+        );
+    }
+
+    async function watchDrift() {
+        while (true) {
+            try {
+                if (LeaderService.isLeader()) await check();
+                else await load();
+            } catch (error) {
+                logger.error(
+                    `Error in watchDrift: ${(error as Error).message}`
+                );
+            }
+            await sleep(CHECK_INTERVAL_MS);
+        }
+    }
+
+    export function getReport(): Report {
+        return { targets: _targets, drifted: _drifted, checkedAt: _checkedAt };
+    }
+
+    // Counts per service, for /system-health.
+    export function getSummary() {
+        return {
+            targets: _targets,
+            checkedAt: _checkedAt,
+            services: Object.fromEntries(
+                SERVICES.map((service) => {
+                    const drifted = _drifted.filter((d) => d.service === service);
+                    return [
+                        service,
+                        {
+                            behind: drifted.filter((d) => d.status === "behind")
+                                .length,
+                            ahead: drifted.filter((d) => d.status === "ahead")
+                                .length,
+                            different: drifted.filter(
+                                (d) => d.status === "different"
+                            ).length,
+                            unknown: drifted.filter((d) => d.status === "unknown")
+                                .length,
+                        },
+                    ];
+                })
+            ),
+        };
+    }
+
+    // Drift of one node, for the realtime stats; undefined when current.
+    export function forNode(server: string, service: MongoDbTypes.ServiceType) {
+        const d = _drifted.find(
+            (d) => d.server === server && d.service === service
+        );
+        return d
+            ? {
+                  running: d.running,
+                  target: d.target,
+                  status: d.status,
+                  since: d.since,
+              }
+            : undefined;
+    }
+
+    export function start() {
+        if (!IS_NO_DB) watchDrift();
+    }
+}
@@ -22,6 +22,8 @@ namespace GithubService {
         // Downloadable binary assets of this tag's release (avx2/avx512/arm/...),
         // filtered to runnable binaries. Empty if the tag has no release.
         assets?: GithubAsset[];
+        // The release's checksum files (SHA256SUMS, <binary>.sha256, ...).
+        checksumAssets?: GithubAsset[];
     }
 
     const GITHUB_API_URL = "https://api.github.com";
@@ -35,6 +37,8 @@ namespace GithubService {
     let _variables: Record<string, string> = {};
 
     let _tags: Partial<Record<MongoDbTypes.ServiceType, GithubTag[]>> = {};
+    // Tag of the newest published (non-draft, non-prerelease) release.
+    let _latestRelease: Partial<Record<MongoDbTypes.ServiceType, string>> = {};
     let isPullingTags = false;
 
     // async function fetchAndUpdateRepoVariables() {
@@ -169,13 +173,31 @@ namespace GithubService {
     function filterBinaryAssets(assets: GithubAsset[]): GithubAsset[] {
         return assets.filter((a) => {
             let name = (a.name || "").toLowerCase();
-            if (name.includes("checksum") || name.includes("source")) {
+            if (
+                name.includes("checksum") ||
+                name.includes("sha256sums") ||
+                name.includes("source")
+            ) {
                 return false;
             }
             return !NON_BINARY_ASSET_EXT.some((ext) => name.endsWith(ext));
         });
     }
 
+    // sha256 lists published with a release: "checksums.txt", "SHA256SUMS",
+    // "Qubic.sha256"...
+    function filterChecksumAssets(assets: GithubAsset[]): GithubAsset[] {
+        return assets.filter((a) => {
+            let name = (a.name || "").toLowerCase();
+            return (
+                name.endsWith(".sha256") ||
+                name.endsWith(".sha256sum") ||
+                name.includes("sha256sums") ||
+                name.includes("checksum")
+            );
+        });
+    }
+
     export async function pullTagsFromGithub(
         service: MongoDbTypes.ServiceType
     ): Promise<GithubTag[]> {
@@ -221,16 +243,28 @@ namespace GithubService {
                 if (releasesRes.ok) {
                     let releases: {
                         tag_name: string;
+                        draft?: boolean;
+                        prerelease?: boolean;
                         assets: GithubAsset[];
                     }[] = await releasesRes.json();
+                    // GitHub lists releases newest first.
+                    let latest = releases.find(
+                        (release) => !release.draft && !release.prerelease
+                    );
+                    if (latest) _latestRelease[service] = latest.tag_name;
                     let assetsByTag: Record<string, GithubAsset[]> = {};
+                    let checksumsByTag: Record<string, GithubAsset[]> = {};
                     for (let release of releases) {
                         assetsByTag[release.tag_name] = filterBinaryAssets(
                             release.assets || []
                         );
+                        checksumsByTag[release.tag_name] = filterChecksumAssets(
+                            release.assets || []
+                        );
                     }
                     for (let tag of data) {
                         tag.assets = assetsByTag[tag.name] || [];
+                        tag.checksumAssets = checksumsByTag[tag.name] || [];
                     }
                 }
             } catch (assetError) {
@@ -258,6 +292,13 @@ namespace GithubService {
         return _tags[service];
     }
 
+    // Newest release tag, or the first tag when releases couldn't be read.
+    export function getLatestTag(
+        service: MongoDbTypes.ServiceType
+    ): string | undefined {
+        return _latestRelease[service] ?? _tags[service]?.[0]?.name;
+    }
+
     export function getDownloadUrlForTag(
         tagName: string,
         file: string,
@@ -0,0 +1,635 @@
+import { randomUUID } from "crypto";
+import type { Filter } from "mongodb";
+import { Mongodb, MongoDbTypes, IS_NO_DB } from "../database/db.js";
+import { logger } from "../utils/logger.js";
+import { sleep } from "../utils/time.js";
+import { CredentialVault } from "./credential-vault.js";
+import { LeaderService } from "./leader-service.js";
+
+/**
+ * Persistent SSH job queue (`ssh_jobs`).
+ *
+ * Deploys, service commands, custom commands and host setups are enqueued as
+ * one job per host instead of being fired from the request handler. Every
+ * instance runs a worker that claims queued jobs while it has spare capacity,
+ * highest priority first. A claimed job carries a lease the worker keeps
+ * renewing; when a worker dies its lease runs out and the leader either puts
+ * the job back in the queue (kinds whose handler is `resumable`) or fails it,
+ * so work survives a backend restart instead of being orphaned.
+ *
+ * Concurrency caps: per instance (SSH_JOBS_WORKER_CONCURRENCY), cluster-wide
+ * (SSH_JOBS_GLOBAL_CONCURRENCY) and per host (SSH_JOBS_PER_HOST_CONCURRENCY).
+ * The global and per-host caps are counted from Mongo right before a claim,
+ * so two instances claiming at the same moment can briefly overshoot them;
+ * the distributed SSH host lock still serializes the sessions themselves.
+ *
+ * Failures that happen before anything ran on the host (refused, unreachable,
+ * handshake timeout) are retried with exponential backoff up to
+ * `maxAttempts`. Cancelling a queued job drops it. A running job is aborted
+ * on whichever instance runs it: its handler's signal fires, which closes its
+ * SSH channels, and it is not retried.
+ */
+export namespace JobQueue {
+    export interface Outcome {
+        isSuccess: boolean;
+        errorMessage?: string | undefined;
+        errorCategory?: string | undefined;
+    }
+
+    export interface Handler {
+        // Re-run a job whose worker died mid-run (the operation must be safe
+        // to repeat). Otherwise such a job is failed with "result unknown".
+        resumable: boolean;
+        // One attempt. A throw counts as a failed attempt. `signal` aborts
+        // when the job is cancelled mid-run.
+        run(job: MongoDbTypes.SshJob, signal: AbortSignal): Promise<Outcome>;
+        // Called once per job when it reaches a final status. `outcome` is
+        // set when that status came from a run, and unset when the job was
+        // cancelled while queued or lost with its worker.
+        onFinished?(
+            job: MongoDbTypes.SshJob,
+            outcome?: Outcome
+        ): Promise<void>;
+    }
+
+    export type PublicJob = Omit<
+        MongoDbTypes.SshJob,
+        "sealedPayload" | "expiresAt"
+    >;
+
+    type CancelResult =
+        | { job: MongoDbTypes.SshJob }
+        | { status: number; error: string };
+
+    const WORKER_CONCURRENCY =
+        Number(process.env.SSH_JOBS_WORKER_CONCURRENCY) || 8;
+    const GLOBAL_CONCURRENCY =
+        Number(process.env.SSH_JOBS_GLOBAL_CONCURRENCY) || 32;
+    const PER_HOST_CONCURRENCY =
+        Number(process.env.SSH_JOBS_PER_HOST_CONCURRENCY) || 1;
+    const DEFAULT_MAX_ATTEMPTS = 3;
+    const POLL_MS = 2_000;
+    const LEASE_MS = 60_000;
+    const LEASE_RENEW_MS = 15_000;
+    const REAP_INTERVAL_MS = 30_000;
+    const BACKOFF_BASE_MS = 15_000;
+    const BACKOFF_MAX_MS = 5 * 60 * 1000;
+    const RETENTION_MS = 7 * 24 * 3600 * 1000;
+    // Nothing reached the host, so another attempt can't repeat side effects.
+    const RETRYABLE_CATEGORIES = [
+        "connect_timeout",
+        "connect_refused",
+        "host_unreachable",
+    ];
+    const LIVE_STATUSES: MongoDbTypes.SshJobStatus[] = ["queued", "running"];
+
+    const _handlers: Partial<Record<MongoDbTypes.SshJobKind, Handler>> = {};
+    // Jobs this instance runs, with the controller that aborts them.
+    const _running = new Map<string, AbortController>();
+    let _pumping = false;
+
+    export function registerHandler(
+        kind: MongoDbTypes.SshJobKind,
+        handler: Handler
+    ) {
+        _handlers[kind] = handler;
+    }
+
+    export function toPublicJob(job: MongoDbTypes.SshJob): PublicJob {
+        const { sealedPayload, expiresAt, ...rest } = job;
+        return rest;
+    }
+
+    export function revealSecret<T>(job: MongoDbTypes.SshJob): T {
+        return JSON.parse(CredentialVault.reveal(job.sealedPayload || ""));
+    }
+
+    // Command logs / hosts with queued or running jobs. The stale-state
+    // watchdogs leave those alone: the queue owns their outcome.
+    export async function liveCommandLogUuids(): Promise<string[]> {
+        return (await Mongodb.getSshJobsCollection().distinct(
+            "commandLogUuid",
+            { status: { $in: LIVE_STATUSES } }
+        )) as string[];
+    }
+
+    // Whether a command log still has a job queued, or running on a worker
+    // whose lease hasn't run out.
+    export async function hasLiveJobs(commandLogUuid: string) {
+        const job = await Mongodb.getSshJobsCollection().findOne(
+            {
+                commandLogUuid,
+                $or: [
+                    { status: "queued" },
+                    {
+                        status: "running",
+                        leaseExpiresAt: { $gte: Date.now() },
+                    },
+                ],
+            },
+            { projection: { _id: 1 } }
+        );
+        return !!job;
+    }
+
+    export async function liveHosts(): Promise<string[]> {
+        return (await Mongodb.getSshJobsCollection().distinct("host", {
+            status: { $in: LIVE_STATUSES },
+        })) as string[];
+    }
+
+    export interface JobSpec {
+        kind: MongoDbTypes.SshJobKind;
+        host: string;
+        operator: string;
+        payload?: Record<string, unknown>;
+        // Sealed with the credential vault; read back with revealSecret().
+        secret?: unknown;
+        priority?: number;
+        maxAttempts?: number;
+        commandLogUuid?: string;
+    }
+
+    /**
+     * Queue jobs in one insert. Jobs sharing a command log must go in
+     * together, otherwise the first one can finish (and close the log)
+     * before the rest exist.
+     */
+    export async function enqueueMany(
+        specs: JobSpec[]
+    ): Promise<MongoDbTypes.SshJob[]> {
+        const now = Date.now();
+        const jobs = specs.map(
+            ({
+                kind,
+                host,
+                operator,
+                payload = {},
+                secret,
+                priority = 0,
+                maxAttempts = DEFAULT_MAX_ATTEMPTS,
+                commandLogUuid,
+            }): MongoDbTypes.SshJob => ({
+                _id: randomUUID(),
+                kind,
+                host,
+                operator,
+                priority,
+                payload,
+                ...(secret !== undefined
+                    ? {
+                          sealedPayload: CredentialVault.seal(
+                              JSON.stringify(secret)
+                          ),
+                      }
+                    : {}),
+                status: "queued",
+                attempts: 0,
+                maxAttempts: Math.max(1, maxAttempts),
+                runAfter: now,
+                ...(commandLogUuid ? { commandLogUuid } : {}),
+                createdAt: now,
+                updatedAt: now,
+            })
+        );
+        if (jobs.length === 0) return jobs;
+
+        if (IS_NO_DB) {
+            // No Mongo to persist to: run them right away in this process.
+            for (const job of jobs) runWithoutQueue(job);
+            return jobs;
+        }
+
+        await Mongodb.getSshJobsCollection().insertMany(jobs);
+        pump();
+        return jobs;
+    }
+
+    export async function enqueue(spec: JobSpec) {
+        const [job] = await enqueueMany([spec]);
+        return job!;
+    }
+
+    async function runWithoutQueue(job: MongoDbTypes.SshJob) {
+        const handler = _handlers[job.kind];
+        job.status = "running";
+        job.attempts = 1;
+        job.startedAt = Date.now();
+        // NO_DB: nothing to cancel it through.
+        const outcome = await runHandler(
+            handler,
+            job,
+            new AbortController().signal
+        );
+        job.status = outcome.isSuccess ? "succeeded" : "failed";
+        job.finishedAt = Date.now();
+        if (outcome.errorMessage) job.error = outcome.errorMessage;
+        await handler?.onFinished?.(job, outcome).catch((error) => {
+            logger.error(
+                `Error finishing ${job.kind} job ${job._id}: ${
+                    (error as Error).message
+                }`
+            );
+        });
+    }
+
+    /**
+     * Cancel a job `scope` may act on. A queued job is cancelled right away;
+     * a running one is flagged, aborted by its worker and not retried.
+     */
+    export async function cancel(
+        jobId: string,
+        scope: string | { $exists: true },
+        actor: string
+    ): Promise<CancelResult> {
+        const jobs = Mongodb.getSshJobsCollection();
+        const now = Date.now();
+        const queued = await jobs.findOneAndUpdate(
+            { _id: jobId, operator: scope, status: "queued" },
+            {
+                $set: {
+                    status: "cancelled",
+                    cancelRequested: true,
+                    cancelledBy: actor,
+                    error: `Cancelled by ${actor} before it ran`,
+                    finishedAt: now,
+                    updatedAt: now,
+                    expiresAt: new Date(now + RETENTION_MS),
+                },
+            },
+            { returnDocument: "after" }
+        );
+        if (queued) {
+            logger.info(`🧵 SSH job ${jobId} (${queued.kind} @ ${queued.host}) cancelled by ${actor}`);
+            await notifyFinished(queued);
+            return { job: queued };
+        }
+
+        const running = await jobs.findOneAndUpdate(
+            { _id: jobId, operator: scope, status: "running" },
+            {
+                $set: {
+                    cancelRequested: true,
+                    cancelledBy: actor,
+                    updatedAt: now,
+                },
+            },
+            { returnDocument: "after" }
+        );
+        if (running) {
+            logger.info(
+                `🧵 SSH job ${jobId} (${running.kind} @ ${running.host}) cancelled by ${actor} while running; aborting it`
+            );
+            // Another instance's worker picks the flag up on its next poll.
+            abortLocal(running);
+            return { job: running };
+        }
+
+        const existing = await jobs.findOne({ _id: jobId, operator: scope });
+        return existing
+            ? { status: 409, error: `Job is already ${existing.status}` }
+            : { status: 404, error: "Job not found" };
+    }
+
+    async function notifyFinished(
+        job: MongoDbTypes.SshJob,
+        outcome?: Outcome
+    ) {
+        try {
+            await _handlers[job.kind]?.onFinished?.(job, outcome);
+        } catch (error) {
+            logger.error(
+                `Error finishing ${job.kind} job ${job._id}: ${
+                    (error as Error).message
+                }`
+            );
+        }
+    }
+
+    /**
+     * Move a job out of `from` into a final status. The filter makes this a
+     * compare-and-swap, so a job is only ever finished (and its handler
+     * notified) once, even if the reaper and the worker race.
+     */
+    async function finish(
+        job: MongoDbTypes.SshJob,
+        from: Filter<MongoDbTypes.SshJob>,
+        status: "succeeded" | "failed" | "cancelled",
+        outcome?: Outcome,
+        error?: string
+    ) {
+        const now = Date.now();
+        const reason = error || outcome?.errorMessage;
+        const finished = await Mongodb.getSshJobsCollection().findOneAndUpdate(
+            { _id: job._id, ...from },
+            {
+                $set: {
+                    status,
+                    finishedAt: now,
+                    updatedAt: now,
+                    expiresAt: new Date(now + RETENTION_MS),
+                    ...(reason ? { error: reason } : {}),
+                    ...(outcome?.errorCategory
+                        ? { errorCategory: outcome.errorCategory }
+                        : {}),
+                },
+                $unset: { worker: "", leaseExpiresAt: "" },
+            },
+            { returnDocument: "after" }
+        );
+        if (!finished) return;
+        if (status !== "succeeded") {
+            logger.warn(
+                `🧵 SSH job ${job._id} (${job.kind} @ ${job.host}) ${status}${
+                    reason ? `: ${reason}` : ""
+                }`
+            );
+        }
+        await notifyFinished(finished, outcome);
+    }
+
+    function abortLocal(job: MongoDbTypes.SshJob) {
+        const controller = _running.get(job._id);
+        if (!controller || controller.signal.aborted) return;
+        controller.abort(
+            new Error(`Cancelled by ${job.cancelledBy || "unknown"}`)
+        );
+    }
+
+    // Running jobs cancelled through any instance: abort the ones running
+    // here.
+    async function abortCancelled() {
+        if (_running.size === 0) return;
+        try {
+            const cancelled = await Mongodb.getSshJobsCollection()
+                .find(
+                    {
+                        _id: { $in: [..._running.keys()] },
+                        cancelRequested: true,
+                    },
+                    { projection: { cancelledBy: 1 } }
+                )
+                .toArray();
+            for (const job of cancelled) abortLocal(job);
+        } catch (error) {
+            logger.error(
+                `Error checking cancelled SSH jobs: ${(error as Error).message}`
+            );
+        }
+    }
+
+    async function runHandler(
+        handler: Handler | undefined,
+        job: MongoDbTypes.SshJob,
+        signal: AbortSignal
+    ): Promise<Outcome> {
+        if (!handler) {
+            return {
+                isSuccess: false,
+                errorMessage: `No handler registered for "${job.kind}" jobs`,
+            };
+        }
+        try {
+            return await handler.run(job, signal);
+        } catch (error) {
+            return { isSuccess: false, errorMessage: (error as Error).message };
+        }
+    }
+
+    async function execute(job: MongoDbTypes.SshJob) {
+        const jobs = Mongodb.getSshJobsCollection();
+        const owned: Filter<MongoDbTypes.SshJob> = {
+            status: "running",
+            worker: LeaderService.getInstanceId(),
+        };
+        const lease = setInterval(() => {
+            jobs.updateOne(
+                { _id: job._id, ...owned },
+                { $set: { leaseExpiresAt: Date.now() + LEASE_MS } }
+            )
+                .then()
+                .catch(() => {});
+        }, LEASE_RENEW_MS);
+
+        const controller = _running.get(job._id) ?? new AbortController();
+        let outcome: Outcome;
+        try {
+            outcome = await runHandler(
+                _handlers[job.kind],
+                job,
+                controller.signal
+            );
+        } finally {
+            clearInterval(lease);
+            _running.delete(job._id);
+        }
+
+        if (outcome.isSuccess) {
+            await finish(job, owned, "succeeded", outcome);
+            return;
+        }
+        if (
+            RETRYABLE_CATEGORIES.includes(outcome.errorCategory || "") &&
+            job.attempts < job.maxAttempts
+        ) {
+            const delay = Math.min(
+                BACKOFF_BASE_MS * 2 ** (job.attempts - 1),
+                BACKOFF_MAX_MS
+            );
+            const now = Date.now();
+            const requeued = await jobs.updateOne(
+                { _id: job._id, ...owned, cancelRequested: { $ne: true } },
+                {
+                    $set: {
+                        status: "queued",
+                        runAfter: now + delay,
+                        updatedAt: now,
+                        ...(outcome.errorMessage
+                            ? { error: outcome.errorMessage }
+                            : {}),
+                        ...(outcome.errorCategory
+                            ? { errorCategory: outcome.errorCategory }
+                            : {}),
+                    },
+                    $unset: { worker: "", leaseExpiresAt: "" },
+                }
+            );
+            if (requeued.modifiedCount > 0) {
+                logger.warn(
+                    `🧵 SSH job ${job._id} (${job.kind} @ ${job.host}) attempt ${
+                        job.attempts
+                    }/${job.maxAttempts} failed (${
+                        outcome.errorCategory
+                    }); retrying in ${Math.round(delay / 1000)}s`
+                );
+                return;
+            }
+        }
+        const latest = await jobs.findOne(
+            { _id: job._id },
+            { projection: { cancelRequested: 1, cancelledBy: 1 } }
+        );
+        if (latest?.cancelRequested) {
+            await finish(
+                job,
+                owned,
+                "cancelled",
+                outcome,
+                outcome.errorCategory === "cancelled"
+                    ? outcome.errorMessage
+                    : `Cancelled by ${latest.cancelledBy || "unknown"}: ${
+                          outcome.errorMessage || "attempt failed"
+                      }`
+            );
+            return;
+        }
+        await finish(job, owned, "failed", outcome);
+    }
+
+    async function claimNext() {
+        const jobs = Mongodb.getSshJobsCollection();
+        const running = await jobs
+            .find({ status: "running" }, { projection: { host: 1 } })
+            .toArray();
+        if (running.length >= GLOBAL_CONCURRENCY) return null;
+        const perHost: Record<string, number> = {};
+        for (const { host } of running) {
+            perHost[host] = (perHost[host] || 0) + 1;
+        }
+        const busyHosts = Object.keys(perHost).filter(
+            (host) => (perHost[host] || 0) >= PER_HOST_CONCURRENCY
+        );
+
+        const now = Date.now();
+        return await jobs.findOneAndUpdate(
+            {
+                status: "queued",
+                runAfter: { $lte: now },
+                host: { $nin: busyHosts },
+            },
+            {
+                $set: {
+                    status: "running",
+                    worker: LeaderService.getInstanceId(),
+                    leaseExpiresAt: now + LEASE_MS,
+                    startedAt: now,
+                    updatedAt: now,
+                },
+                $inc: { attempts: 1 },
+            },
+            { sort: { priority: -1, createdAt: 1 }, returnDocument: "after" }
+        );
+    }
+
+    // Claim jobs until this instance is full or the queue has nothing
+    // runnable. Called on every poll and right after a local enqueue.
+    async function pump() {
+        if (_pumping) return;
+        _pumping = true;
+        try {
+            while (_running.size < WORKER_CONCURRENCY) {
+                const job = await claimNext();
+                if (!job) break;
+                _running.set(job._id, new AbortController());
+                execute(job)
+                    .catch((error) => {
+                        logger.error(
+                            `Error running SSH job ${job._id}: ${
+                                (error as Error).message
+                            }`
+                        );
+                    })
+                    .finally(() => pump());
+            }
+        } catch (error) {
+            logger.error(`Error claiming SSH jobs: ${(error as Error).message}`);
+        } finally {
+            _pumping = false;
+        }
+    }
+
+    async function watchQueue() {
+        while (true) {
+            await abortCancelled();
+            await pump();
+            await sleep(POLL_MS);
+        }
+    }
+
+    // Leader only: running jobs whose lease ran out lost their worker.
+    async function reapExpiredLeases() {
+        const jobs = Mongodb.getSshJobsCollection();
+        const now = Date.now();
+        const expired = await jobs
+            .find({ status: "running", leaseExpiresAt: { $lt: now } })
+            .toArray();
+        for (const job of expired) {
+            const from: Filter<MongoDbTypes.SshJob> = {
+                status: "running",
+                ...(job.worker ? { worker: job.worker } : {}),
+                leaseExpiresAt: { $lt: now },
+            };
+            const handler = _handlers[job.kind];
+            if (
+                handler?.resumable &&
+                !job.cancelRequested &&
+                job.attempts < job.maxAttempts
+            ) {
+                const requeued = await jobs.updateOne(
+                    { _id: job._id, ...from },
+                    {
+                        $set: {
+                            status: "queued",
+                            runAfter: now,
+                            updatedAt: now,
+                            error: `Worker ${job.worker} was lost mid-run; requeued`,
+                        },
+                        $unset: { worker: "", leaseExpiresAt: "" },
+                    }
+                );
+                if (requeued.modifiedCount > 0) {
+                    logger.warn(
+                        `🧵 SSH job ${job._id} (${job.kind} @ ${job.host}) lost its worker ${job.worker}; requeued`
+                    );
+                }
+                continue;
+            }
+            await finish(
+                job,
+                from,
+                job.cancelRequested ? "cancelled" : "failed",
+                undefined,
+                `Worker ${job.worker} was lost while this job was running — result unknown.`
+            );
+        }
+    }
+
+    async function watchExpiredLeases() {
+        while (true) {
+            if (!LeaderService.isLeader()) {
+                await sleep(REAP_INTERVAL_MS);
+                continue;
+            }
+            try {
+                await reapExpiredLeases();
+            } catch (error) {
+                logger.error(
+                    `Error in watchExpiredLeases: ${(error as Error).message}`
+                );
+            }
+            await sleep(REAP_INTERVAL_MS);
+        }
+    }
+
+    export async function start() {
+        if (IS_NO_DB) {
+            logger.info("🌱 NO_DB: SSH jobs run in-process without a queue");
+            return;
+        }
+        logger.info(
+            `🧵 SSH job worker started (instance ${WORKER_CONCURRENCY}, cluster ${GLOBAL_CONCURRENCY}, per host ${PER_HOST_CONCURRENCY})`
+        );
+        watchQueue();
+        watchExpiredLeases();
+    }
+}
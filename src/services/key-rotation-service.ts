@@ -0,0 +1,393 @@
+import { randomUUID } from "crypto";
+import ssh2 from "ssh2";
+import type { Filter } from "mongodb";
+import { Mongodb, MongoDbTypes } from "../database/db.js";
+import { logger } from "../utils/logger.js";
+import { CredentialVault } from "./credential-vault.js";
+import { JobQueue } from "./job-queue.js";
+import { SSHService } from "./ssh-service.js";
+
+/**
+ * Fleet-wide rotation of an operator's SSH key. A new ed25519 keypair is
+ * generated, then every server the operator owns that logs in with a key gets
+ * a `rotate-key` SSH job that:
+ *
+ * 1. appends the new public key to `~/.ssh/authorized_keys` (old key),
+ * 2. logs in with the new key and only then stores it on the server doc,
+ * 3. removes the old public key (new key).
+ *
+ * Progress is kept per server in `key_rotations`, so a resumed server picks up
+ * after its last completed step. Once every server is through, the new key
+ * also becomes the operator's `currentsshPrivateKey` for future servers.
+ */
+export namespace KeyRotationService {
+    export type PublicRotation = Omit<MongoDbTypes.KeyRotation, "privateKey">;
+
+    export interface RotateKeyPayload {
+        rotationId: string;
+    }
+
+    const COMMAND_TIMEOUT_MS = 30_000;
+    // Between deploys and setups (see SshJobs.PRIORITY).
+    const PRIORITY = 5;
+
+    export function toPublicRotation(
+        rotation: MongoDbTypes.KeyRotation
+    ): PublicRotation {
+        const { privateKey, ...rest } = rotation;
+        return rest;
+    }
+
+    // "<type> <base64 blob>" of a stored private key, as in authorized_keys.
+    function publicKeyOf(sealedPrivateKey: string) {
+        const parsed = ssh2.utils.parseKey(
+            CredentialVault.reveal(sealedPrivateKey).replace(/\\n/g, "\n")
+        );
+        if (parsed instanceof Error) {
+            throw new Error(`Cannot read the current SSH key: ${parsed.message}`);
+        }
+        return `${parsed.type} ${parsed.getPublicSSH().toString("base64")}`;
+    }
+
+    // The base64 blob identifies a key regardless of its comment.
+    function blobOf(publicKey: string) {
+        return publicKey.split(" ")[1] || "";
+    }
+
+    function serverFilter(operator: string): Filter<MongoDbTypes.Server> {
+        return {
+            operator,
+            username: { $exists: true, $ne: "" },
+            sshPrivateKey: { $exists: true, $ne: "" },
+        };
+    }
+
+    async function setServerState(
+        rotationId: string,
+        server: string,
+        state: Partial<Omit<MongoDbTypes.KeyRotationServer, "server">>
+    ) {
+        const now = Date.now();
+        const set: Record<string, unknown> = { updatedAt: now };
+        for (const [field, value] of Object.entries({
+            ...state,
+            updatedAt: now,
+        })) {
+            set[`servers.$.${field}`] = value;
+        }
+        await Mongodb.getKeyRotationsCollection().updateOne(
+            { rotationId, "servers.server": server },
+            {
+                $set: set,
+                ...(state.error === undefined
+                    ? { $unset: { "servers.$.error": "" } }
+                    : {}),
+            }
+        );
+    }
+
+    /**
+     * Start a rotation over the operator's key-auth servers. Password-only
+     * servers are left alone. Returns null when there is nothing to rotate.
+     */
+    export async function start(operator: string) {
+        const running = await Mongodb.getKeyRotationsCollection().findOne({
+            operator,
+            status: "running",
+        });
+        if (running) {
+            throw new Error(
+                `Key rotation ${running.rotationId} is still running`
+            );
+        }
+        const servers = await Mongodb.getServersCollection()
+            .find(serverFilter(operator), { projection: { server: 1 } })
+            .toArray();
+        if (servers.length === 0) return null;
+
+        const rotationId = randomUUID();
+        const keyPair = ssh2.utils.generateKeyPairSync("ed25519", {
+            comment: `qubic-infra-${rotationId.slice(0, 8)}`,
+        });
+        const now = Date.now();
+        const rotation: MongoDbTypes.KeyRotation = {
+            rotationId,
+            operator,
+            publicKey: keyPair.public.trim(),
+            privateKey: CredentialVault.seal(keyPair.private),
+            status: "running",
+            servers: servers.map(({ server }) => ({
+                server,
+                step: "pending",
+                status: "queued",
+                updatedAt: now,
+            })),
+            createdAt: now,
+            updatedAt: now,
+        };
+        await Mongodb.getKeyRotationsCollection().insertOne(rotation);
+        logger.info(
+            `🔑 ${operator} started SSH key rotation ${rotationId} over ${servers.length} server(s)`
+        );
+        await enqueue(rotation, rotation.servers.map(({ server }) => server));
+        return rotation;
+    }
+
+    /**
+     * Re-queue the servers that failed, each from its last completed step.
+     * Returns null when the rotation doesn't exist or has nothing to resume.
+     */
+    export async function resume(
+        rotationId: string,
+        scope: string | { $exists: true }
+    ) {
+        const rotation = await Mongodb.getKeyRotationsCollection().findOne({
+            rotationId,
+            operator: scope,
+        });
+        const failed =
+            rotation?.servers
+                .filter(({ status }) => status === "failed")
+                .map(({ server }) => server) ?? [];
+        if (!rotation || failed.length === 0) return null;
+
+        const now = Date.now();
+        await Mongodb.getKeyRotationsCollection().updateOne(
+            { rotationId },
+            {
+                $set: {
+                    status: "running",
+                    "servers.$[entry].status": "queued",
+                    updatedAt: now,
+                },
+                $unset: { "servers.$[entry].error": "", finishedAt: "" },
+            },
+            { arrayFilters: [{ "entry.status": "failed" }] }
+        );
+        logger.info(
+            `🔑 Resuming SSH key rotation ${rotationId} on ${failed.length} server(s)`
+        );
+        await enqueue(rotation, failed);
+        return failed;
+    }
+
+    async function enqueue(
+        rotation: MongoDbTypes.KeyRotation,
+        servers: string[]
+    ) {
+        const payload: RotateKeyPayload = { rotationId: rotation.rotationId };
+        return await JobQueue.enqueueMany(
+            servers.map((host) => ({
+                kind: "rotate-key" as const,
+                host,
+                operator: rotation.operator,
+                payload: { ...payload },
+                priority: PRIORITY,
+            }))
+        );
+    }
+
+    export async function list(
+        scope: string | { $exists: true },
+        limit: number
+    ) {
+        const rotations = await Mongodb.getKeyRotationsCollection()
+            .find({ operator: scope })
+            .sort({ createdAt: -1 })
+            .limit(limit)
+            .toArray();
+        return rotations.map(toPublicRotation);
+    }
+
+    async function run(
+        sshPrivateKey: string,
+        serverDoc: MongoDbTypes.Server,
+        commands: string[],
+        // Only the new key, so a login can't fall back to the password.
+        keyOnly = false
+    ) {
+        return await SSHService.executeCommands(
+            serverDoc.server,
+            serverDoc.username,
+            keyOnly ? "" : serverDoc.password,
+            [...commands],
+            COMMAND_TIMEOUT_MS,
+            { sshPrivateKey }
+        );
+    }
+
+    function failure(
+        step: string,
+        result: Awaited<ReturnType<typeof run>>
+    ): JobQueue.Outcome {
+        return {
+            isSuccess: false,
+            errorMessage: `${step}: ${
+                result.errorMessage ||
+                Object.values(result.stderrs).join("\n") ||
+                "failed"
+            }`,
+            errorCategory: result.errorCategory,
+        };
+    }
+
+    async function rotateServer(
+        rotation: MongoDbTypes.KeyRotation,
+        entry: MongoDbTypes.KeyRotationServer
+    ): Promise<JobQueue.Outcome> {
+        const { rotationId } = rotation;
+        const host = entry.server;
+        const serverDoc = await Mongodb.getServersCollection().findOne({
+            server: host,
+        });
+        if (!serverDoc || !serverDoc.username) {
+            return {
+                isSuccess: false,
+                errorMessage: "Server no longer exists or has no SSH user",
+            };
+        }
+        const newBlob = blobOf(rotation.publicKey);
+        let step = entry.step;
+        let oldPublicKey = entry.oldPublicKey;
+
+        if (step === "pending") {
+            try {
+                oldPublicKey = publicKeyOf(serverDoc.sshPrivateKey);
+            } catch (error) {
+                return {
+                    isSuccess: false,
+                    errorMessage: (error as Error).message,
+                };
+            }
+            const result = await run(serverDoc.sshPrivateKey, serverDoc, [
+                `mkdir -p ~/.ssh && chmod 700 ~/.ssh`,
+                `touch ~/.ssh/authorized_keys && chmod 600 ~/.ssh/authorized_keys`,
+                `grep -qF '${newBlob}' ~/.ssh/authorized_keys || echo '${rotation.publicKey}' >> ~/.ssh/authorized_keys`,
+            ]);
+            if (!result.isSuccess) {
+                return failure("Adding the new key", result);
+            }
+            step = "appended";
+            await setServerState(rotationId, host, { step, oldPublicKey });
+        }
+
+        if (step === "appended") {
+            const result = await run(
+                rotation.privateKey,
+                serverDoc,
+                [`grep -qF '${newBlob}' ~/.ssh/authorized_keys`],
+                true
+            );
+            if (!result.isSuccess) {
+                return failure("Logging in with the new key", result);
+            }
+            await Mongodb.getServersCollection().updateOne(
+                { server: host },
+                { $set: { sshPrivateKey: rotation.privateKey } }
+            );
+            step = "switched";
+            await setServerState(rotationId, host, { step });
+        }
+
+        if (step === "switched") {
+            const oldBlob = blobOf(oldPublicKey || "");
+            if (oldBlob && oldBlob !== newBlob) {
+                const result = await run(rotation.privateKey, serverDoc, [
+                    `if grep -qF '${oldBlob}' ~/.ssh/authorized_keys; then { grep -vF '${oldBlob}' ~/.ssh/authorized_keys || true; } > ~/.ssh/authorized_keys.rotate && cat ~/.ssh/authorized_keys.rotate > ~/.ssh/authorized_keys && rm -f ~/.ssh/authorized_keys.rotate; fi`,
+                ]);
+                if (!result.isSuccess) {
+                    return failure("Removing the old key", result);
+                }
+            }
+            step = "done";
+            await setServerState(rotationId, host, { step });
+        }
+        return { isSuccess: true };
+    }
+
+    /**
+     * Close the rotation once none of its jobs is queued or running. The
+     * status filter keeps two servers finishing together from both closing
+     * it.
+     */
+    async function settle(rotationId: string) {
+        const live = await Mongodb.getSshJobsCollection().countDocuments({
+            kind: "rotate-key",
+            "payload.rotationId": rotationId,
+            status: { $in: ["queued", "running"] },
+        });
+        if (live > 0) return;
+
+        const rotation = await Mongodb.getKeyRotationsCollection().findOne({
+            rotationId,
+        });
+        if (!rotation) return;
+        const failed = rotation.servers.filter(
+            ({ status }) => status !== "succeeded"
+        ).length;
+        const now = Date.now();
+        const closed = await Mongodb.getKeyRotationsCollection().updateOne(
+            { rotationId, status: "running" },
+            {
+                $set: {
+                    status: failed > 0 ? "failed" : "completed",
+                    finishedAt: now,
+                    updatedAt: now,
+                },
+            }
+        );
+        if (closed.modifiedCount === 0) return;
+
+        if (failed > 0) {
+            logger.warn(
+                `🔑 SSH key rotation ${rotationId} by ${rotation.operator} failed on ${failed}/${rotation.servers.length} server(s); resume it to retry`
+            );
+            return;
+        }
+        await Mongodb.getUsersCollection().updateOne(
+            { username: rotation.operator },
+            { $set: { currentsshPrivateKey: rotation.privateKey } }
+        );
+        logger.info(
+            `🔑 SSH key rotation ${rotationId} by ${rotation.operator} completed on ${rotation.servers.length} server(s)`
+        );
+    }
+
+    export const handler: JobQueue.Handler = {
+        // Every step checks before it changes anything.
+        resumable: true,
+        async run(job) {
+            const { rotationId } = job.payload as unknown as RotateKeyPayload;
+            const rotation = await Mongodb.getKeyRotationsCollection().findOne(
+                { rotationId }
+            );
+            const entry = rotation?.servers.find(
+                ({ server }) => server === job.host
+            );
+            if (!rotation || !entry) {
+                return {
+                    isSuccess: false,
+                    errorMessage: "Key rotation no longer exists",
+                };
+            }
+            await setServerState(rotationId, job.host, { status: "running" });
+            return await rotateServer(rotation, entry);
+        },
+        async onFinished(job, outcome) {
+            const { rotationId } = job.payload as unknown as RotateKeyPayload;
+            const isSuccess = job.status === "succeeded";
+            await setServerState(rotationId, job.host, {
+                status: isSuccess ? "succeeded" : "failed",
+                ...(isSuccess
+                    ? {}
+                    : {
+                          error:
+                              outcome?.errorMessage ||
+                              job.error ||
+                              "Key rotation did not run",
+                      }),
+            });
+            await settle(rotationId);
+        },
+    };
+}
@@ -3,12 +3,109 @@ import { getLastWednesdayTimestamp } from "../../utils/time.js";
 import { normalizeIp } from "../../utils/ip.js";
 import { NodeService } from "../node-service.js";
 import NodeCache from "node-cache";
+import { k12, verifyQubicSignature } from "../../utils/qubic-crypto.js";
 
 const DEFAULT_OPERATOR =
     "BZBQFLLBNCXEMGLOBHUVFTLUPLVCPQUASSILFABOFFBCADQSSUPNWLZBQEXK";
 
 namespace Checkin {
     let cache = new NodeCache({ stdTTL: 15 * 60, checkperiod: 20 * 60 });
+
+    // How far a checkin's `timestamp` may be from our clock, either way.
+    export const MAX_TIMESTAMP_SKEW_SEC =
+        Number(process.env.CHECKIN_MAX_SKEW_SEC) || 300;
+    // When set, checkins whose signature doesn't verify are refused instead of
+    // being stored with `signatureVerified: false`.
+    export const REQUIRE_SIGNATURE =
+        process.env.CHECKIN_REQUIRE_SIGNATURE === "true";
+
+    export type SignatureCheck =
+        | { verified: true }
+        | { verified: false; reason: string };
+
+    // The signed bytes: JSON of every field except `signature`, with object
+    // keys sorted at every level and no whitespace.
+    export function canonicalPayload(body: Record<string, any>): string {
+        const sortKeys = (value: any): any => {
+            if (Array.isArray(value)) return value.map(sortKeys);
+            if (value && typeof value === "object") {
+                return Object.fromEntries(
+                    Object.keys(value)
+                        .sort()
+                        .map((key) => [key, sortKeys(value[key])])
+                );
+            }
+            return value;
+        };
+        const { signature: _signature, ...unsigned } = body;
+        return JSON.stringify(sortKeys(unsigned));
+    }
+
+    // 64-byte signatures as 128 hex chars or base64.
+    function decodeSignature(signature: unknown): Uint8Array | null {
+        if (typeof signature !== "string") return null;
+        const bytes = /^[0-9a-fA-F]{128}$/.test(signature)
+            ? Buffer.from(signature, "hex")
+            : Buffer.from(signature, "base64");
+        return bytes.length === 64 ? new Uint8Array(bytes) : null;
+    }
+
+    export function isTimestampFresh(timestamp: unknown): boolean {
+        if (typeof timestamp !== "number" || !Number.isFinite(timestamp)) {
+            return false;
+        }
+        const nowSec = Date.now() / 1000;
+        return Math.abs(nowSec - timestamp) <= MAX_TIMESTAMP_SKEW_SEC;
+    }
+
+    /**
+     * Check the checkin's signature against the public key behind its
+     * `operator` identity. The node signs K12(canonicalPayload(body)).
+     */
+    export function verifySignature(
+        body: Record<string, any>
+    ): SignatureCheck {
+        const signature = decodeSignature(body.signature);
+        if (!signature) {
+            return { verified: false, reason: "Malformed signature" };
+        }
+        if (typeof body.operator !== "string") {
+            return { verified: false, reason: "Invalid operator identity" };
+        }
+        const message = new TextEncoder().encode(canonicalPayload(body));
+        return verifyQubicSignature(body.operator, message, signature)
+            ? { verified: true }
+            : { verified: false, reason: "Signature does not match operator" };
+    }
+
+    /**
+     * Remember a verified checkin for the skew window. Returns false if it
+     * was already seen (replayed checkin). The key is K12 of the signed
+     * payload, not the signature, so re-encoding the signature (hex vs
+     * base64) or re-signing the same payload doesn't make a new checkin.
+     */
+    export async function claimCheckin(
+        body: Record<string, any>
+    ): Promise<boolean> {
+        if (IS_NO_DB) return true;
+        const digest = k12(new TextEncoder().encode(canonicalPayload(body)));
+        try {
+            await Mongodb.getCheckinSignaturesCollection().insertOne(
+                {
+                    _id: Buffer.from(digest).toString("hex"),
+                    expiresAt: new Date(
+                        Date.now() + 2 * MAX_TIMESTAMP_SKEW_SEC * 1000
+                    ),
+                },
+                { writeConcern: { w: 1 } }
+            );
+            return true;
+        } catch (error) {
+            if ((error as { code?: number }).code === 11000) return false;
+            throw error;
+        }
+    }
+
     export async function getCheckins({
         type,
         operator,
@@ -16,6 +113,7 @@ namespace Checkin {
         normalized,
         epoch,
         excludeDefaultOp,
+        verified,
         useCache = true,
     }: {
         type?: string | undefined;
@@ -24,6 +122,8 @@ namespace Checkin {
         normalized?: boolean | undefined;
         epoch: number;
         excludeDefaultOp?: boolean | undefined;
+        // true: only verified signatures; false: only unverified/legacy
+        verified?: boolean | undefined;
         useCache?: boolean;
     }): Promise<MongoDbTypes.Checkin[]> {
         let cacheKeyObject = {
@@ -33,6 +133,7 @@ namespace Checkin {
             normalized,
             epoch,
             excludeDefaultOp,
+            verified,
         };
         let cacheKey = JSON.stringify(cacheKeyObject);
         if (useCache) {
@@ -68,6 +169,10 @@ namespace Checkin {
             query.ip = { $regex: ipv4 };
         }
 
+        if (verified !== undefined) {
+            query.signatureVerified = verified ? true : { $ne: true };
+        }
+
         let networkStatus = NodeService.getNetworkStatus();
         if (epoch === 0) {
             epoch = networkStatus.epoch;
@@ -105,6 +210,11 @@ namespace Checkin {
                 if (operator && c.operator !== operator) return false;
                 if (type && c.type !== type) return false;
                 if (ipRegex && !ipRegex.test(c.ip || "")) return false;
+                if (
+                    verified !== undefined &&
+                    verified !== (c.signatureVerified === true)
+                )
+                    return false;
                 if (
                     !(
                         c.lastCheckinAt >= lastWedTimestamp &&
@@ -0,0 +1,54 @@
+import { createHash, randomBytes } from "crypto";
+import { Mongodb } from "../../database/db.js";
+
+// Two-step confirmation for fleet-wide actions. The first call issues a
+// short-lived token bound to the user and the action; the action only runs
+// when the same user sends it back. Tokens are single-use (deleted on
+// consume) and only their hash is stored.
+namespace Confirmation {
+    const TOKEN_TTL_MS = 2 * 60 * 1000;
+
+    function hashToken(token: string) {
+        return createHash("sha256").update(token).digest("hex");
+    }
+
+    export async function issue(
+        username: string,
+        action: string,
+        summary?: string
+    ): Promise<{ confirmationToken: string; expiresAt: number }> {
+        const token = randomBytes(24).toString("base64url");
+        const now = Date.now();
+        const expiresAt = now + TOKEN_TTL_MS;
+        await Mongodb.getConfirmationTokensCollection().insertOne({
+            _id: hashToken(token),
+            username,
+            action,
+            createdAt: now,
+            expiresAt: new Date(expiresAt),
+            ...(summary ? { summary } : {}),
+        });
+        return { confirmationToken: token, expiresAt };
+    }
+
+    // True if the token was issued to this user for this action and is still
+    // valid. A matching token is deleted even when expired, so it can't be
+    // replayed.
+    export async function consume(
+        token: string,
+        username: string,
+        action: string
+    ): Promise<boolean> {
+        if (!token || typeof token !== "string") return false;
+        const doc =
+            await Mongodb.getConfirmationTokensCollection().findOneAndDelete({
+                _id: hashToken(token),
+                username,
+                action,
+            });
+        // The TTL monitor only runs once a minute; check expiry ourselves.
+        return !!doc && doc.expiresAt.getTime() > Date.now();
+    }
+}
+
+export { Confirmation };
@@ -0,0 +1,173 @@
+import { createHash } from "crypto";
+import { Mongodb } from "../../database/db.js";
+import { logger } from "../../utils/logger.js";
+
+// SSH host key pinning, trust-on-first-use. The first successful connection
+// to a server records its host key fingerprint on the server doc; after that a
+// different key is refused (possible MITM) and parked as `pendingHostKey`
+// until an admin reviews and accepts it.
+namespace HostKeys {
+    export interface Check {
+        // Pass as ssh2 `hostVerifier` (async form).
+        hostVerifier: (key: Buffer, verify: (valid: boolean) => void) => void;
+        // Set once the verifier ran; `rejection` explains a refusal.
+        seen?: { fingerprint: string; algorithm: string };
+        rejection?: string;
+        mismatch: boolean;
+        firstUse: boolean;
+    }
+
+    // OpenSSH-style "SHA256:<base64>" of the raw key blob.
+    export function fingerprint(key: Buffer): string {
+        return (
+            "SHA256:" +
+            createHash("sha256").update(key).digest("base64").replace(/=+$/, "")
+        );
+    }
+
+    // The blob starts with the key type as an SSH string.
+    export function algorithm(key: Buffer): string {
+        try {
+            const length = key.readUInt32BE(0);
+            return key.subarray(4, 4 + length).toString("ascii");
+        } catch {
+            return "unknown";
+        }
+    }
+
+    export function createCheck(host: string): Check {
+        const check: Check = {
+            mismatch: false,
+            firstUse: false,
+            hostVerifier: (key, verify) => {
+                const seen = {
+                    fingerprint: fingerprint(key),
+                    algorithm: algorithm(key),
+                };
+                check.seen = seen;
+                Mongodb.getServersCollection()
+                    .findOne({ server: host }, { projection: { hostKey: 1 } })
+                    .then(async (serverDoc) => {
+                        const pinned = serverDoc?.hostKey?.fingerprint;
+                        if (!pinned) {
+                            check.firstUse = true;
+                            verify(true);
+                            return;
+                        }
+                        if (pinned === seen.fingerprint) {
+                            verify(true);
+                            return;
+                        }
+                        check.mismatch = true;
+                        check.rejection = `Host key for ${host} changed: pinned ${pinned}, server presented ${seen.fingerprint} (${seen.algorithm}). Refusing to connect — an admin must review and accept the new key.`;
+                        logger.error(`⛔ SSH HOST_KEY_MISMATCH: ${check.rejection}`);
+                        await Mongodb.getServersCollection()
+                            .updateOne(
+                                { server: host },
+                                {
+                                    $set: {
+                                        pendingHostKey: {
+                                            ...seen,
+                                            seenAt: Date.now(),
+                                        },
+                                    },
+                                }
+                            )
+                            .catch(() => {});
+                        verify(false);
+                    })
+                    .catch((error) => {
+                        // Fail closed: without the pin we can't tell a MITM apart.
+                        check.rejection = `Could not load the pinned host key for ${host}: ${
+                            (error as Error).message
+                        }`;
+                        verify(false);
+                    });
+            },
+        };
+        return check;
+    }
+
+    // For hosts we don't manage (jump hosts): the key must match the
+    // fingerprint the admin configured; nothing is pinned or parked.
+    export function createExpectedCheck(
+        host: string,
+        expectedFingerprint: string
+    ): Check {
+        const check: Check = {
+            mismatch: false,
+            firstUse: false,
+            hostVerifier: (key, verify) => {
+                const seen = {
+                    fingerprint: fingerprint(key),
+                    algorithm: algorithm(key),
+                };
+                check.seen = seen;
+                if (seen.fingerprint === expectedFingerprint) {
+                    verify(true);
+                    return;
+                }
+                check.mismatch = true;
+                check.rejection = `Host key for jump host ${host} changed: expected ${expectedFingerprint}, server presented ${seen.fingerprint} (${seen.algorithm}). Refusing to connect.`;
+                logger.error(`⛔ SSH HOST_KEY_MISMATCH: ${check.rejection}`);
+                verify(false);
+            },
+        };
+        return check;
+    }
+
+    // Call once the connection is authenticated: pins the key on first use.
+    // The filter keeps concurrent first connections from overwriting a pin.
+    export async function pinIfFirstUse(host: string, check: Check) {
+        if (!check.firstUse || !check.seen) return;
+        try {
+            const result = await Mongodb.getServersCollection().updateOne(
+                { server: host, hostKey: { $exists: false } },
+                {
+                    $set: {
+                        hostKey: { ...check.seen, pinnedAt: Date.now() },
+                    },
+                }
+            );
+            if (result.modifiedCount > 0) {
+                logger.info(
+                    `🔐 Pinned SSH host key for ${host}: ${check.seen.fingerprint} (${check.seen.algorithm})`
+                );
+            }
+        } catch (error) {
+            logger.error(
+                `Failed to pin SSH host key for ${host}: ${
+                    (error as Error).message
+                }`
+            );
+        }
+    }
+
+    /**
+     * Replace the pin with the parked `pendingHostKey`, but only if it is
+     * still the key the admin reviewed. Returns the old and new pin, or null
+     * if there was no matching pending key.
+     */
+    export async function accept(server: string, expectedFingerprint: string) {
+        const serverDoc = await Mongodb.getServersCollection().findOne(
+            { server, "pendingHostKey.fingerprint": expectedFingerprint },
+            { projection: { hostKey: 1, pendingHostKey: 1 } }
+        );
+        if (!serverDoc?.pendingHostKey) return null;
+        const { seenAt: _seenAt, ...key } = serverDoc.pendingHostKey;
+        const result = await Mongodb.getServersCollection().updateOne(
+            { server, "pendingHostKey.fingerprint": expectedFingerprint },
+            {
+                $set: { hostKey: { ...key, pinnedAt: Date.now() } },
+                $unset: { pendingHostKey: "" },
+            }
+        );
+        if (result.modifiedCount === 0) return null;
+        logger.info(
+            `🔐 Accepted new SSH host key for ${server}: ${key.fingerprint}`
+        );
+        return { before: serverDoc.hostKey ?? null, after: key };
+    }
+}
+
+export { HostKeys };
@@ -0,0 +1,89 @@
+import { Mongodb, IS_NO_DB } from "../../database/db.js";
+import { logger } from "../../utils/logger.js";
+
+// Brute-force protection for /login. Failures are counted per username and per
+// client IP in the `login_attempts` TTL collection so the limit holds across
+// clustered instances. After the free allowance each further failure locks
+// the key for BASE * 2^(extra failures), capped at MAX_LOCK_MS. A successful
+// login clears the username counter (the IP counter only expires), so one
+// valid account can't be used to reset an IP that is spraying others.
+namespace LoginThrottle {
+    const BASE_LOCK_MS = 30 * 1000;
+    const MAX_LOCK_MS = 60 * 60 * 1000;
+    // Counters are forgotten after this long without a failure.
+    const WINDOW_MS = 24 * 60 * 60 * 1000;
+    const FREE_FAILURES = {
+        user: 5,
+        // Higher for IPs: several operators can sit behind one NAT.
+        ip: 20,
+    };
+
+    function keysFor(username: string, ip: string) {
+        return [
+            { id: `user:${username}`, free: FREE_FAILURES.user },
+            ...(ip ? [{ id: `ip:${ip}`, free: FREE_FAILURES.ip }] : []),
+        ];
+    }
+
+    // Milliseconds until this username/IP may try again, 0 if not locked.
+    export async function getRetryAfterMs(
+        username: string,
+        ip: string
+    ): Promise<number> {
+        if (IS_NO_DB) return 0;
+        const now = Date.now();
+        const docs = await Mongodb.getLoginAttemptsCollection()
+            .find({ _id: { $in: keysFor(username, ip).map((k) => k.id) } })
+            .toArray();
+        let retryAfter = 0;
+        for (const doc of docs) {
+            if (doc.lockedUntil && doc.lockedUntil > now) {
+                retryAfter = Math.max(retryAfter, doc.lockedUntil - now);
+            }
+        }
+        return retryAfter;
+    }
+
+    export async function recordFailure(username: string, ip: string) {
+        if (IS_NO_DB) return;
+        const now = Date.now();
+        const collection = Mongodb.getLoginAttemptsCollection();
+        for (const key of keysFor(username, ip)) {
+            const doc = await collection.findOneAndUpdate(
+                { _id: key.id },
+                {
+                    $inc: { failures: 1 },
+                    $set: {
+                        lastFailureAt: now,
+                        expiresAt: new Date(now + WINDOW_MS),
+                    },
+                },
+                { upsert: true, returnDocument: "after" }
+            );
+            if (!doc || doc.failures <= key.free) continue;
+
+            const lockMs = Math.min(
+                MAX_LOCK_MS,
+                BASE_LOCK_MS * 2 ** (doc.failures - key.free - 1)
+            );
+            await collection.updateOne(
+                { _id: key.id },
+                { $set: { lockedUntil: now + lockMs } }
+            );
+            logger.warn(
+                `🔒 Login locked for ${key.id} (${doc.failures} failures) for ${Math.round(
+                    lockMs / 1000
+                )}s`
+            );
+        }
+    }
+
+    export async function recordSuccess(username: string) {
+        if (IS_NO_DB) return;
+        await Mongodb.getLoginAttemptsCollection().deleteOne({
+            _id: `user:${username}`,
+        });
+    }
+}
+
+export { LoginThrottle };
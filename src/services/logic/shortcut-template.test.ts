@@ -0,0 +1,45 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { MongoDbTypes } from "../../database/db.js";
+import { ShortcutTemplate } from "./shortcut-template.js";
+
+const PARAMS = [{ name: "x", type: "string" }];
+
+function parseError(template: string) {
+    const parsed = ShortcutTemplate.parseParams(PARAMS, template);
+    return "error" in parsed ? parsed.error : null;
+}
+
+describe("ShortcutTemplate.parseParams", () => {
+    it("refuses a placeholder inside double quotes", () => {
+        assert.match(parseError('echo "{{x}}"') ?? "", /double quotes/);
+        assert.match(parseError('echo "a b {{ x }} c"') ?? "", /double quotes/);
+    });
+
+    it("refuses a placeholder inside single quotes", () => {
+        assert.match(parseError("echo '{{x}}'") ?? "", /single quotes/);
+        assert.match(parseError("echo $'{{x}}'") ?? "", /single quotes/);
+    });
+
+    it("refuses a placeholder inside backticks", () => {
+        assert.match(parseError("echo `cat {{x}}`") ?? "", /backticks/);
+        assert.match(parseError('echo "`cat {{x}}`"') ?? "", /backticks/);
+    });
+
+    it("accepts placeholders outside quotes", () => {
+        assert.equal(parseError("echo {{x}} \"done\" 'ok' {{alias}}"), null);
+        assert.equal(parseError('echo \\"{{x}}\\"'), null);
+        assert.equal(parseError("echo \"it's\" {{x}}"), null);
+    });
+});
+
+describe("ShortcutTemplate.render", () => {
+    it("inserts a value as one single-quoted word", () => {
+        const rendered = ShortcutTemplate.render(
+            "echo {{x}}",
+            { x: "$(id); it's" },
+            { server: "10.0.0.1" } as MongoDbTypes.Server
+        );
+        assert.deepEqual(rendered, { command: `echo '$(id); it'\\''s'` });
+    });
+});
@@ -0,0 +1,324 @@
+import type { MongoDbTypes } from "../../database/db.js";
+
+// Shortcut command templates. `{{name}}` is replaced with the value of a
+// declared parameter, or with a field of the server the command runs on
+// (`{{alias}}`, `{{server}}`, ...). Every value goes in as one single-quoted
+// shell word, so a value can't break out into another command. That only
+// holds outside other quoting: inside "..." the inserted quotes are literal
+// and `$(...)` in a value would run, so templates that put a placeholder in
+// quotes or backticks are refused. Control characters (newlines
+// included) are refused in values, since a quoted newline still splits the
+// command for policy checks and a terminal. Everything is checked before any
+// server is touched: definitions when saved, values and server fields before
+// a run.
+namespace ShortcutTemplate {
+    export type Param = MongoDbTypes.ShortcutParam;
+
+    const MAX_PARAMS = 20;
+    const MAX_OPTIONS = 100;
+    const MAX_VALUE_LENGTH = 1024;
+    const NAME = /^[A-Za-z_][A-Za-z0-9_]{0,63}$/;
+    const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+    const TYPES: Param["type"][] = ["string", "number", "enum"];
+    const CONTROL_CHARACTER = /[\x00-\x1f\x7f]/;
+
+    const SERVER_FIELDS: Record<
+        string,
+        (server: MongoDbTypes.Server) => string | number | undefined
+    > = {
+        server: (server) => server.server,
+        alias: (server) => server.alias,
+        username: (server) => server.username,
+        sshPort: (server) => server.sshPort ?? 22,
+        os: (server) => server.os,
+        cpu: (server) => server.cpu,
+        ram: (server) => server.ram,
+    };
+    export const SERVER_FIELD_NAMES = Object.keys(SERVER_FIELDS);
+
+    function quote(value: string) {
+        return `'${value.replace(/'/g, `'\\''`)}'`;
+    }
+
+    const QUOTE_NAMES: Record<string, string> = {
+        '"': "double quotes",
+        "'": "single quotes",
+        "`": "backticks",
+    };
+
+    /**
+     * The first placeholder that sits inside shell quoting (`"..."`,
+     * `'...'`, `` `...` ``), with the innermost quote around it. Backslash
+     * escapes are honored outside single quotes.
+     */
+    function quotedPlaceholder(
+        template: string
+    ): { name: string; quote: string } | null {
+        const stack: string[] = [];
+        const placeholder = new RegExp(PLACEHOLDER.source, "y");
+        for (let i = 0; i < template.length; i++) {
+            const ch = template[i]!;
+            const top = stack[stack.length - 1];
+            placeholder.lastIndex = i;
+            const match = placeholder.exec(template);
+            if (match) {
+                if (top) return { name: match[1]!, quote: top };
+                i += match[0].length - 1;
+                continue;
+            }
+            if (top === "'") {
+                if (ch === "'") stack.pop();
+                continue;
+            }
+            if (ch === "\\") {
+                i++;
+                continue;
+            }
+            if (ch === top) {
+                stack.pop();
+            } else if (ch === "`" || (!top && (ch === '"' || ch === "'"))) {
+                stack.push(ch);
+            } else if (top === "`" && ch === '"') {
+                stack.push(ch);
+            }
+        }
+        return null;
+    }
+
+    export function placeholders(template: string): string[] {
+        return [
+            ...new Set(
+                [...template.matchAll(PLACEHOLDER)].map((match) => match[1]!)
+            ),
+        ];
+    }
+
+    function checkValue(
+        param: Param,
+        raw: unknown
+    ): { value: string } | { error: string } {
+        if (raw === undefined || raw === null || raw === "") {
+            if (param.default !== undefined) raw = param.default;
+            else if (param.required === false) return { value: "" };
+            else return { error: `${param.name} is required` };
+        }
+        if (typeof raw !== "string" && typeof raw !== "number") {
+            return { error: `${param.name} must be a string or number` };
+        }
+        const value = String(raw);
+        if (value.length > MAX_VALUE_LENGTH) {
+            return {
+                error: `${param.name} is longer than ${MAX_VALUE_LENGTH} characters`,
+            };
+        }
+        if (CONTROL_CHARACTER.test(value)) {
+            return { error: `${param.name} contains control characters` };
+        }
+        if (param.type === "number") {
+            const number = Number(value);
+            if (value.trim() === "" || !Number.isFinite(number)) {
+                return { error: `${param.name} must be a number` };
+            }
+            if (param.min !== undefined && number < param.min) {
+                return { error: `${param.name} must be at least ${param.min}` };
+            }
+            if (param.max !== undefined && number > param.max) {
+                return { error: `${param.name} must be at most ${param.max}` };
+            }
+        } else if (param.type === "enum") {
+            if (!param.options?.includes(value)) {
+                return {
+                    error: `${param.name} must be one of: ${(
+                        param.options ?? []
+                    ).join(", ")}`,
+                };
+            }
+        } else if (
+            param.pattern &&
+            !new RegExp(`^(?:${param.pattern})$`).test(value)
+        ) {
+            return {
+                error: `${param.name} does not match ${param.pattern}`,
+            };
+        }
+        return { value };
+    }
+
+    /**
+     * Validate a shortcut's parameter list against its template. Every
+     * placeholder must be a declared parameter or a server field, and every
+     * parameter must be used.
+     */
+    export function parseParams(
+        input: unknown,
+        template: string
+    ): { params: Param[] } | { error: string } {
+        if (input !== undefined && !Array.isArray(input)) {
+            return { error: "params must be an array" };
+        }
+        const list = (input ?? []) as Record<string, unknown>[];
+        if (list.length > MAX_PARAMS) {
+            return { error: `At most ${MAX_PARAMS} parameters` };
+        }
+        const params: Param[] = [];
+        for (const raw of list) {
+            const name = raw?.name;
+            if (typeof name !== "string" || !NAME.test(name)) {
+                return {
+                    error: `Invalid parameter name: ${String(name)} (letters, digits and _, not starting with a digit)`,
+                };
+            }
+            if (SERVER_FIELDS[name]) {
+                return {
+                    error: `${name} is a server field and can't be a parameter`,
+                };
+            }
+            if (params.some((param) => param.name === name)) {
+                return { error: `Duplicate parameter: ${name}` };
+            }
+            const type = raw.type as Param["type"];
+            if (!TYPES.includes(type)) {
+                return {
+                    error: `${name}: type must be one of ${TYPES.join(", ")}`,
+                };
+            }
+            const param: Param = { name, type };
+            if (typeof raw.label === "string" && raw.label) {
+                param.label = raw.label;
+            }
+            if (raw.required === false) param.required = false;
+            if (type === "enum") {
+                const options = raw.options;
+                if (
+                    !Array.isArray(options) ||
+                    options.length === 0 ||
+                    options.length > MAX_OPTIONS ||
+                    !options.every((option) => typeof option === "string")
+                ) {
+                    return {
+                        error: `${name}: options must be 1-${MAX_OPTIONS} strings`,
+                    };
+                }
+                if (options.some((option) => CONTROL_CHARACTER.test(option))) {
+                    return {
+                        error: `${name}: options may not contain control characters`,
+                    };
+                }
+                param.options = [...new Set(options as string[])];
+            }
+            if (type === "number") {
+                for (const bound of ["min", "max"] as const) {
+                    if (raw[bound] === undefined || raw[bound] === null) {
+                        continue;
+                    }
+                    if (!Number.isFinite(raw[bound])) {
+                        return { error: `${name}: ${bound} must be a number` };
+                    }
+                    param[bound] = raw[bound] as number;
+                }
+            }
+            if (type === "string" && typeof raw.pattern === "string") {
+                try {
+                    new RegExp(raw.pattern);
+                } catch (error) {
+                    return { error: `${name}: invalid pattern` };
+                }
+                param.pattern = raw.pattern;
+            }
+            if (raw.default !== undefined && raw.default !== null) {
+                const checked = checkValue(param, raw.default);
+                if ("error" in checked) {
+                    return { error: `Default of ${checked.error}` };
+                }
+                param.default = checked.value;
+            }
+            params.push(param);
+        }
+
+        const quoted = quotedPlaceholder(template);
+        if (quoted) {
+            return {
+                error: `{{${quoted.name}}} is inside ${
+                    QUOTE_NAMES[quoted.quote]
+                }; placeholders are quoted already, remove the quotes around it`,
+            };
+        }
+        const used = placeholders(template);
+        for (const name of used) {
+            if (!SERVER_FIELDS[name] && !params.some((p) => p.name === name)) {
+                return {
+                    error: `{{${name}}} is neither a parameter nor a server field (${SERVER_FIELD_NAMES.join(
+                        ", "
+                    )})`,
+                };
+            }
+        }
+        for (const param of params) {
+            if (!used.includes(param.name)) {
+                return {
+                    error: `Parameter ${param.name} is not used in the command`,
+                };
+            }
+        }
+        return { params };
+    }
+
+    // Check run-time values; defaults fill in what wasn't sent.
+    export function resolveValues(
+        params: Param[],
+        input: unknown
+    ): { values: Record<string, string> } | { error: string } {
+        const given = (
+            input && typeof input === "object" ? input : {}
+        ) as Record<string, unknown>;
+        for (const name of Object.keys(given)) {
+            if (!params.some((param) => param.name === name)) {
+                return { error: `Unknown parameter: ${name}` };
+            }
+        }
+        const values: Record<string, string> = {};
+        for (const param of params) {
+            const checked = checkValue(param, given[param.name]);
+            if ("error" in checked) return checked;
+            values[param.name] = checked.value;
+        }
+        return { values };
+    }
+
+    /**
+     * The command for one server. Fails if a server field it uses is unset
+     * or holds control characters.
+     */
+    export function render(
+        template: string,
+        values: Record<string, string>,
+        server: MongoDbTypes.Server
+    ): { command: string } | { error: string } {
+        let missing: string | undefined;
+        let invalid: string | undefined;
+        const command = template.replace(PLACEHOLDER, (_match, name) => {
+            const field = SERVER_FIELDS[name];
+            const value = field ? field(server) : values[name];
+            if (value === undefined || (field && value === "")) {
+                missing ??= name;
+                return "";
+            }
+            if (CONTROL_CHARACTER.test(String(value))) {
+                invalid ??= name;
+                return "";
+            }
+            return quote(String(value));
+        });
+        if (missing) {
+            return { error: `${server.server} has no ${missing}` };
+        }
+        if (invalid) {
+            return {
+                error: `${server.server}: ${invalid} contains control characters`,
+            };
+        }
+        return { command };
+    }
+}
+
+export { ShortcutTemplate };
@@ -0,0 +1,329 @@
+import { createHash } from "crypto";
+import { Client } from "ssh2";
+import type { Duplex } from "stream";
+import { logger } from "../../utils/logger.js";
+import { HostKeys } from "./host-keys.js";
+
+// Per-process pool of authenticated SSH connections. A connection is keyed by
+// host, port, user and credentials, and carries several channels at once
+// (shells, execs, SFTP) up to MAX_CHANNELS, which stays under OpenSSH's
+// default MaxSessions of 10; callers beyond that wait for a free channel.
+// Keepalive pings drop dead connections, and connections with no open
+// channel are closed after IDLE_MS. Servers behind jump hosts are reached
+// through a chain of forwardOut tunnels, which the pooled connection owns.
+namespace SshPool {
+    export interface Target {
+        host: string;
+        port: number;
+        username: string;
+        // Plaintext, already revealed from the vault.
+        password: string;
+        privateKey: string;
+        // Jump hosts to tunnel through, outermost first.
+        jumps?: Hop[] | undefined;
+    }
+
+    export interface Hop {
+        host: string;
+        port: number;
+        username: string;
+        password: string;
+        privateKey: string;
+        // Checked instead of the pinned key (hosts we don't manage).
+        fingerprint?: string | undefined;
+    }
+
+    export interface Lease {
+        conn: Client;
+        // True when the connection was already open (no handshake paid).
+        reused: boolean;
+        // Give the channels back. Call once, after closing them.
+        release: () => void;
+    }
+
+    interface Entry {
+        key: string;
+        host: string;
+        conn: Client;
+        // Jump host connections, closed along with conn.
+        hops: Client[];
+        ready: Promise<void>;
+        isReady: boolean;
+        closed: boolean;
+        channels: number;
+        lastUsed: number;
+        waiters: (() => void)[];
+    }
+
+    const MAX_CHANNELS = Number(process.env.SSH_POOL_MAX_CHANNELS) || 8;
+    const IDLE_MS = Number(process.env.SSH_POOL_IDLE_MS) || 60_000;
+    const READY_TIMEOUT_MS = 60_000;
+    const KEEPALIVE_MS = 15_000;
+    const KEEPALIVE_COUNT_MAX = 3;
+    const SWEEP_MS = 15_000;
+
+    const _pool = new Map<string, Entry>();
+    let _sweeper: NodeJS.Timeout | undefined;
+
+    // Credentials are part of the key so a rotated key or password never
+    // rides on a session opened with the old one.
+    function keyOf(target: Target) {
+        const hash = createHash("sha256").update(
+            `${target.password}\0${target.privateKey}`
+        );
+        for (const hop of target.jumps ?? []) {
+            hash.update(
+                [
+                    `${hop.username}@${hop.host}:${hop.port}`,
+                    hop.password,
+                    hop.privateKey,
+                    hop.fingerprint ?? "",
+                ].join("\0")
+            );
+        }
+        const secret = hash.digest("hex");
+        return `${target.username}@${target.host}:${target.port}#${secret}`;
+    }
+
+    function drop(entry: Entry) {
+        if (entry.closed) return;
+        entry.closed = true;
+        if (_pool.get(entry.key) === entry) _pool.delete(entry.key);
+        for (const client of [entry.conn, ...entry.hops]) {
+            try {
+                client.end();
+            } catch (error) {}
+        }
+        // Waiters retry on a fresh connection.
+        for (const wake of entry.waiters.splice(0)) wake();
+    }
+
+    function connectConfig(
+        endpoint: Hop | Target,
+        sock: Duplex | undefined,
+        hostVerifier: HostKeys.Check["hostVerifier"]
+    ) {
+        return {
+            ...(sock ? { sock } : { host: endpoint.host, port: endpoint.port }),
+            username: endpoint.username,
+            password: endpoint.password,
+            privateKey: endpoint.privateKey,
+            readyTimeout: READY_TIMEOUT_MS,
+            keepaliveInterval: KEEPALIVE_MS,
+            keepaliveCountMax: KEEPALIVE_COUNT_MAX,
+            hostVerifier,
+        };
+    }
+
+    // ssh2 only says "verification failed"; surface why.
+    function connectError(err: Error, hostKeyCheck: HostKeys.Check) {
+        if (!hostKeyCheck.rejection) return err;
+        const rejection = new Error(hostKeyCheck.rejection);
+        if (hostKeyCheck.mismatch) {
+            (rejection as any).sshCategory = "host_key_mismatch";
+        }
+        return rejection;
+    }
+
+    // Log in to each jump host through the previous one and open a tunnel to
+    // the next; resolves to the stream the target's session runs over, or
+    // undefined for a direct connection.
+    async function tunnel(target: Target, entry: Entry) {
+        const jumps = target.jumps ?? [];
+        let sock: Duplex | undefined;
+        for (const [index, hop] of jumps.entries()) {
+            const next = jumps[index + 1] ?? target;
+            const client = new Client();
+            entry.hops.push(client);
+            const hostKeyCheck = hop.fingerprint
+                ? HostKeys.createExpectedCheck(hop.host, hop.fingerprint)
+                : HostKeys.createCheck(hop.host);
+            await new Promise<void>((resolve, reject) => {
+                let isReady = false;
+                client
+                    .on("ready", () => {
+                        isReady = true;
+                        HostKeys.pinIfFirstUse(hop.host, hostKeyCheck);
+                        resolve();
+                    })
+                    .on("error", (err) => {
+                        err = connectError(err, hostKeyCheck);
+                        err.message = `Jump host ${hop.host}: ${err.message}`;
+                        if (!isReady) {
+                            reject(err);
+                        } else {
+                            logger.warn(
+                                `SSH tunnel to ${target.host} dropped: ${err.message}`
+                            );
+                        }
+                        drop(entry);
+                    })
+                    .on("close", () => {
+                        reject(
+                            new Error(
+                                `Jump host ${hop.host} closed the connection`
+                            )
+                        );
+                        drop(entry);
+                    })
+                    .connect(
+                        connectConfig(hop, sock, hostKeyCheck.hostVerifier)
+                    );
+            });
+            sock = await new Promise<Duplex>((resolve, reject) => {
+                client.forwardOut(
+                    "127.0.0.1",
+                    0,
+                    next.host,
+                    next.port,
+                    (err, stream) => {
+                        if (err) {
+                            reject(
+                                new Error(
+                                    `Jump host ${hop.host} could not open a tunnel to ${next.host}:${next.port}: ${err.message}`
+                                )
+                            );
+                            return;
+                        }
+                        resolve(stream);
+                    }
+                );
+            });
+        }
+        return sock;
+    }
+
+    function open(target: Target, key: string): Entry {
+        const conn = new Client();
+        const hostKeyCheck = HostKeys.createCheck(target.host);
+        const entry: Entry = {
+            key,
+            host: target.host,
+            conn,
+            hops: [],
+            ready: Promise.resolve(),
+            isReady: false,
+            closed: false,
+            channels: 0,
+            lastUsed: Date.now(),
+            waiters: [],
+        };
+        entry.ready = (async () => {
+            const sock = await tunnel(target, entry);
+            if (entry.closed) {
+                throw new Error(`SSH connection to ${target.host} was closed`);
+            }
+            await new Promise<void>((resolve, reject) => {
+                conn.on("ready", () => {
+                    entry.isReady = true;
+                    HostKeys.pinIfFirstUse(target.host, hostKeyCheck);
+                    logger.info(
+                        `SSH connection to ${target.username}@${target.host} opened (pooled${
+                            entry.hops.length
+                                ? `, via ${entry.hops.length} jump host(s)`
+                                : ""
+                        })`
+                    );
+                    resolve();
+                })
+                    .on("error", (err) => {
+                        if (!entry.isReady) {
+                            reject(connectError(err, hostKeyCheck));
+                        } else {
+                            logger.warn(
+                                `SSH connection to ${target.host} dropped: ${err.message}`
+                            );
+                        }
+                        drop(entry);
+                    })
+                    .on("close", () => {
+                        reject(
+                            new Error(`SSH connection to ${target.host} closed`)
+                        );
+                        drop(entry);
+                    })
+                    .connect(
+                        connectConfig(target, sock, hostKeyCheck.hostVerifier)
+                    );
+            });
+        })();
+        // Acquirers await `ready` and see the error; this also keeps a
+        // failure nobody waits on anymore from becoming an unhandled rejection.
+        entry.ready.catch(() => drop(entry));
+        _pool.set(key, entry);
+        return entry;
+    }
+
+    function sweep() {
+        const now = Date.now();
+        for (const entry of _pool.values()) {
+            if (
+                entry.isReady &&
+                entry.channels === 0 &&
+                now - entry.lastUsed > IDLE_MS
+            ) {
+                drop(entry);
+            }
+        }
+    }
+
+    /**
+     * Get a ready connection with room for `channels` channels, opening one
+     * if needed. Rejects with the connect error (host key rejections carry
+     * `sshCategory`).
+     */
+    export async function acquire(
+        target: Target,
+        channels: number = 1
+    ): Promise<Lease> {
+        if (!_sweeper) {
+            _sweeper = setInterval(sweep, SWEEP_MS);
+            _sweeper.unref();
+        }
+        const needed = Math.max(1, Math.min(channels, MAX_CHANNELS));
+        const key = keyOf(target);
+        while (true) {
+            let entry = _pool.get(key);
+            const reused = Boolean(entry && entry.isReady);
+            if (!entry || entry.closed) entry = open(target, key);
+            await entry.ready;
+            if (entry.closed) continue;
+            if (entry.channels + needed > MAX_CHANNELS) {
+                await new Promise<void>((wake) => entry!.waiters.push(wake));
+                continue;
+            }
+
+            const leased = entry;
+            leased.channels += needed;
+            leased.lastUsed = Date.now();
+            let released = false;
+            return {
+                conn: leased.conn,
+                reused,
+                release: () => {
+                    if (released) return;
+                    released = true;
+                    leased.channels -= needed;
+                    leased.lastUsed = Date.now();
+                    for (const wake of leased.waiters.splice(0)) wake();
+                },
+            };
+        }
+    }
+
+    // Close every connection to `host`, e.g. after its port, credentials or
+    // pinned host key changed. Open channels on them are cut.
+    export function evict(host: string) {
+        for (const entry of _pool.values()) {
+            if (entry.host === host) drop(entry);
+        }
+    }
+
+    export function stats() {
+        let channels = 0;
+        for (const entry of _pool.values()) channels += entry.channels;
+        return { connections: _pool.size, channels };
+    }
+}
+
+export { SshPool };
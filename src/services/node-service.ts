@@ -7,8 +7,10 @@ import { logger } from "../utils/logger.js";
 import { calcGroupIdFromIds } from "../utils/node.js";
 import { sleep } from "../utils/time.js";
 import { Checkin } from "./logic/checkin.js";
+import { SshPool } from "./logic/ssh-pool.js";
 import { SSHService } from "./ssh-service.js";
 import { LeaderService } from "./leader-service.js";
+import { JobQueue } from "./job-queue.js";
 import { BuildInfo } from "../utils/build-info.js";
 import * as geolib from "geolib";
 import { isIPv4 } from "net";
@@ -188,7 +190,7 @@ namespace NodeService {
         bobServers: {},
     };
 
-    async function getLiteNodeTickInfo(
+    export async function getLiteNodeTickInfo(
         server: string
     ): Promise<LiteNodeTickInfo> {
         const url = `http://${server}:${DEFAULT_LITE_NODE_HTTP_PORT}/tick-info`;
@@ -225,7 +227,7 @@ namespace NodeService {
         }
     }
 
-    async function getBobNodeTickInfo(
+    export async function getBobNodeTickInfo(
         server: string
     ): Promise<BobNodeTickInfo> {
         const url = `http://${server}:${DEFAULT_BOB_NODE_HTTP_PORT}/status`;
@@ -668,6 +670,11 @@ namespace NodeService {
         checkinNodesProcessor();
     }
 
+    // Lite nodes managed by this system (not checkin-only peers).
+    export function getCurrentLiteNodes(): MongoDbTypes.LiteNode[] {
+        return [..._currentLiteNodes];
+    }
+
     export async function requestShutdownAllLiteNodes() {
         let servers: MongoDbTypes.LiteNode[] = [..._currentLiteNodes];
         let allPromises = servers.map((server) =>
@@ -972,6 +979,7 @@ namespace NodeService {
                             lastSeen: new Date(),
                             commit: BuildInfo.commit,
                             startedAt: BuildInfo.startedAt,
+                            sshPool: SshPool.stats(),
                         },
                     },
                     { upsert: true, writeConcern: { w: 1 } }
@@ -1901,21 +1909,24 @@ namespace NodeService {
 
     // ── Stuck-state recovery ────────────────────────────────────────────────
     // command_logs / deployStatus only leave "pending"/transient when the SSH
-    // promise resolves. A backend restart mid-op, or a worker that never
-    // resolves, would otherwise leave them stuck forever. These guards detect
-    // that and fail loudly so "something is wrong" is visible, not silent.
+    // work behind them finishes. Work queued in ssh_jobs is settled by the
+    // job queue (it survives restarts), so these guards skip logs and hosts
+    // with live jobs and only catch what the queue doesn't own — SSH fired
+    // outside it, or a settle that never landed. They fail loudly so
+    // "something is wrong" is visible, not silent.
 
     const STALE_COMMAND_MS = 6 * 60 * 1000; // > max 3-min SSH timeout + buffer
     const STUCK_DEPLOY_MS = 6 * 60 * 1000;
     const STUCK_WATCH_INTERVAL_MS = 60_000;
     const TRANSIENT_DEPLOY_STATES = ["setting_up", "restarting"];
 
-    // Run once at boot: anything still "pending"/transient can only be a
-    // leftover from a previous process (in-flight ops don't survive a restart).
+    // Run once at boot: anything still "pending"/transient without a live
+    // job can only be a leftover from a previous process.
     async function reconcileStaleStatesOnBoot() {
         try {
+            const liveLogs = await JobQueue.liveCommandLogUuids();
             const res = await Mongodb.getCommandLogsCollection().updateMany(
-                { status: "pending" },
+                { status: "pending", uuid: { $nin: liveLogs } },
                 [
                     {
                         $set: {
@@ -1940,6 +1951,7 @@ namespace NodeService {
 
             const stuckServers = await Mongodb.getServersCollection()
                 .find({
+                    server: { $nin: await JobQueue.liveHosts() },
                     $or: [
                         {
                             "deployStatus.liteNode": {
@@ -1999,8 +2011,13 @@ namespace NodeService {
             }
             try {
                 const cutoff = Date.now() - STALE_COMMAND_MS;
+                const liveLogs = await JobQueue.liveCommandLogUuids();
                 const stale = await Mongodb.getCommandLogsCollection()
-                    .find({ status: "pending", timestamp: { $lt: cutoff } })
+                    .find({
+                        status: "pending",
+                        timestamp: { $lt: cutoff },
+                        uuid: { $nin: liveLogs },
+                    })
                     .toArray();
                 for (const log of stale) {
                     const ageMin = Math.round(
@@ -2052,6 +2069,7 @@ namespace NodeService {
                 const cutoff = Date.now() - STUCK_DEPLOY_MS;
                 const servers = await Mongodb.getServersCollection()
                     .find({
+                        server: { $nin: await JobQueue.liveHosts() },
                         $or: [
                             {
                                 "deployStatus.liteNode": {
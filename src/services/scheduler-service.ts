@@ -0,0 +1,307 @@
+import { v4 as uuidv4 } from "uuid";
+import { Mongodb, MongoDbTypes, IS_NO_DB } from "../database/db.js";
+import { logger } from "../utils/logger.js";
+import { sleep } from "../utils/time.js";
+import { nextCronRun, parseCron } from "../utils/cron.js";
+import { Rbac } from "../utils/rbac.js";
+import { LeaderService } from "./leader-service.js";
+import { SshJobs } from "./ssh-jobs.js";
+import { JobQueue } from "./job-queue.js";
+import { AuditService } from "./audit-service.js";
+import { CommandPolicyService } from "./command-policy-service.js";
+
+/**
+ * Cron scheduler for operator-defined (`type: "custom"`) automation jobs.
+ *
+ * Only the leader fires jobs. Each job stores the UTC slot it fires next in
+ * `nextRunAt`; the leader claims a due slot by compare-and-swapping that value
+ * to the following slot, so even if two instances briefly both think they
+ * lead (or leadership moves mid-tick) a slot fires at most once. Slots missed
+ * by more than MISFIRE_GRACE_MS (e.g. no leader for a while) are skipped
+ * rather than replayed.
+ *
+ * A run queues `command` as SSH jobs on the job's servers plus every server
+ * tagged with one of its `serverTags`, resolved in the job owner's current
+ * scope, and writes the output to `command_logs` like a manual command.
+ */
+export namespace SchedulerService {
+    const TICK_MS = 15_000;
+    const MISFIRE_GRACE_MS = 5 * 60 * 1000;
+    const COMMAND_TIMEOUT_MS = 3 * 60 * 1000; // max SSH op timeout
+    // Safety net for a run whose command log never closed (e.g. its jobs
+    // could not be queued); normally the queue settles the status. A run
+    // whose jobs are still queued or running is left alone however long.
+    const STALE_RUNNING_MS = 6 * 60 * 1000;
+
+    // Throws on an invalid expression; null when it can never fire.
+    export function computeNextRun(
+        schedule: string,
+        after: number = Date.now()
+    ): number | null {
+        return nextCronRun(parseCron(schedule), after);
+    }
+
+    /**
+     * Servers a job targets, limited to what `owner` may act on. Only active
+     * servers with SSH credentials are returned.
+     */
+    export async function resolveTargets(
+        owner: { username: string; role: string },
+        job: Pick<MongoDbTypes.CronJob, "servers" | "serverTags">
+    ) {
+        const servers = job.servers || [];
+        const serverTags = job.serverTags || [];
+        if (servers.length === 0 && serverTags.length === 0) return [];
+
+        const docs = await Mongodb.getServersCollection()
+            .find({
+                operator: Rbac.operatorScope(owner),
+                $or: [
+                    { server: { $in: servers } },
+                    { tags: { $in: serverTags } },
+                ],
+            })
+            .toArray();
+        return docs.filter(
+            (s) => s.username && s.username.length > 0 && s.status === "active"
+        );
+    }
+
+    async function finishJob(
+        job: MongoDbTypes.CronJob,
+        status: "success" | "failed"
+    ) {
+        await Mongodb.getCronJobsCollection().updateOne(
+            { cronId: job.cronId, operator: job.operator },
+            { $set: { status, lastRun: Date.now() } }
+        );
+    }
+
+    async function runJob(job: MongoDbTypes.CronJob) {
+        const logs = Mongodb.getCommandLogsCollection();
+        const uuid = uuidv4();
+
+        // Re-check the owner on every run: a deleted user or a role that lost
+        // shell access must not keep executing commands through the scheduler.
+        const owner = await Mongodb.getUsersCollection().findOne(
+            { username: job.operator },
+            { projection: { username: 1, role: 1 } }
+        );
+        const mayRun =
+            !!owner && Rbac.hasPermission(owner.role, "execute-command");
+        // Policies may have changed since the job was saved.
+        const decision = mayRun
+            ? await CommandPolicyService.evaluate(owner.role, [job.command])
+            : null;
+        const serverDocs =
+            owner && decision?.action === "allow"
+                ? await resolveTargets(owner, job)
+                : [];
+        const servers = serverDocs.map((s) => s.server);
+
+        await logs.insertOne({
+            operator: job.operator,
+            servers,
+            command: job.command,
+            stdout: "",
+            stderr: "",
+            timestamp: Date.now(),
+            status: "pending",
+            uuid,
+            isStandardCommand: false,
+            duration: 0,
+            cronId: job.cronId,
+        });
+        await Mongodb.getCronJobsCollection().updateOne(
+            { cronId: job.cronId, operator: job.operator },
+            { $set: { lastCommandLogUuid: uuid } }
+        );
+        await AuditService.record({
+            actor: "scheduler",
+            action: "cron.run",
+            target: job.cronId,
+            result: "success",
+            details: { operator: job.operator, servers, commandLogUuid: uuid },
+        });
+
+        if (serverDocs.length === 0) {
+            const reason = !owner
+                ? `Owner ${job.operator} no longer exists`
+                : !Rbac.hasPermission(owner.role, "execute-command")
+                ? `Owner ${job.operator} lacks the execute-command permission`
+                : decision?.action === "deny"
+                ? `${decision.reason}: ${decision.line}`
+                : decision?.action === "approve"
+                ? `Needs approval under command policy ${decision.policies.join(
+                      ", "
+                  )}; scheduled runs can't wait for one`
+                : "No active servers match this job's servers/tags";
+            await logs.updateOne(
+                { uuid },
+                {
+                    $set: {
+                        status: "failed",
+                        errorMessage: reason,
+                        stderr: `⛔ ${reason}\n`,
+                    },
+                }
+            );
+            logger.warn(`⏰ Cron job ${job.cronId} (${job.name}): ${reason}`);
+            await finishJob(job, "failed");
+            return;
+        }
+
+        // The last of these jobs to finish closes the command log and sets
+        // the cron job's status (see SshJobs).
+        await SshJobs.enqueueCommands(
+            serverDocs.map((serverObject) => ({
+                host: serverObject.server,
+                commands: [job.command],
+            })),
+            job.operator,
+            uuid,
+            { timeout: COMMAND_TIMEOUT_MS }
+        );
+    }
+
+    /**
+     * Claim the job's due slot by advancing `nextRunAt` from the value we
+     * read. Returns the job as it was before the claim, or null if another
+     * instance (or an edit) got there first.
+     */
+    async function claimSlot(job: MongoDbTypes.CronJob, now: number) {
+        let next: number | null;
+        try {
+            next = computeNextRun(job.schedule, now);
+        } catch (error) {
+            logger.error(
+                `⏰ Cron job ${job.cronId} has an invalid schedule "${
+                    job.schedule
+                }": ${(error as Error).message}`
+            );
+            next = null;
+        }
+        return await Mongodb.getCronJobsCollection().findOneAndUpdate(
+            {
+                cronId: job.cronId,
+                operator: job.operator,
+                nextRunAt: job.nextRunAt ?? null,
+            },
+            { $set: { nextRunAt: next } },
+            { returnDocument: "before" }
+        );
+    }
+
+    async function tick() {
+        const now = Date.now();
+        const jobs = Mongodb.getCronJobsCollection();
+
+        // Jobs created before the scheduler existed (or re-enabled via a raw
+        // update) have no slot yet: schedule them from now.
+        const unscheduled = await jobs
+            .find({
+                type: "custom",
+                isEnabled: true,
+                nextRunAt: { $exists: false },
+            })
+            .toArray();
+        for (const job of unscheduled) {
+            await claimSlot({ ...job, nextRunAt: null }, now).catch(() => {});
+        }
+
+        const stale = await jobs
+            .find({
+                type: "custom",
+                status: "running",
+                lastRun: { $lt: now - STALE_RUNNING_MS },
+            })
+            .toArray();
+        for (const job of stale) {
+            if (
+                job.lastCommandLogUuid &&
+                (await JobQueue.hasLiveJobs(job.lastCommandLogUuid))
+            ) {
+                continue;
+            }
+            await jobs.updateOne(
+                {
+                    cronId: job.cronId,
+                    operator: job.operator,
+                    status: "running",
+                    lastRun: job.lastRun,
+                },
+                { $set: { status: "failed" } }
+            );
+        }
+
+        const due = await jobs
+            .find({
+                type: "custom",
+                isEnabled: true,
+                nextRunAt: { $ne: null, $lte: now },
+            })
+            .toArray();
+        for (const job of due) {
+            const slot = job.nextRunAt as number;
+            const claimed = await claimSlot(job, now);
+            if (!claimed) continue;
+
+            if (now - slot > MISFIRE_GRACE_MS) {
+                logger.warn(
+                    `⏰ Cron job ${job.cronId} (${job.name}) missed its ${new Date(
+                        slot
+                    ).toISOString()} slot by ${Math.round(
+                        (now - slot) / 60000
+                    )} minute(s) — skipped`
+                );
+                continue;
+            }
+            if (claimed.status === "running") {
+                logger.warn(
+                    `⏰ Cron job ${job.cronId} (${job.name}) is still running — skipping this slot`
+                );
+                continue;
+            }
+
+            // lastRun doubles as "started at" while running so a run lost
+            // with its leader can be detected as stale.
+            await jobs.updateOne(
+                { cronId: job.cronId, operator: job.operator },
+                { $set: { status: "running", lastRun: now } }
+            );
+            runJob(claimed).catch(async (error) => {
+                logger.error(
+                    `⏰ Cron job ${job.cronId} run failed: ${
+                        (error as Error).message
+                    }`
+                );
+                await finishJob(claimed, "failed").catch(() => {});
+            });
+        }
+    }
+
+    async function watchCronJobs() {
+        while (true) {
+            if (!LeaderService.isLeader()) {
+                await sleep(TICK_MS);
+                continue;
+            }
+            try {
+                await tick();
+            } catch (error) {
+                logger.error(
+                    `Error in watchCronJobs: ${(error as Error).message}`
+                );
+            }
+            await sleep(TICK_MS);
+        }
+    }
+
+    export async function start() {
+        if (IS_NO_DB) {
+            logger.info("🌱 NO_DB: skipping cron scheduler");
+            return;
+        }
+        watchCronJobs();
+    }
+}
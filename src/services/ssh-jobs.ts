@@ -0,0 +1,815 @@
+import { Mongodb, MongoDbTypes } from "../database/db.js";
+import { logger } from "../utils/logger.js";
+import { millisToSeconds } from "../utils/time.js";
+import { JobQueue } from "./job-queue.js";
+import { SSHService } from "./ssh-service.js";
+import { NodeService } from "./node-service.js";
+import { DeploymentService } from "./deployment-service.js";
+import { DeploymentHistoryService } from "./deployment-history-service.js";
+import { KeyRotationService } from "./key-rotation-service.js";
+
+/**
+ * The SSH work the API hands to the job queue, one job per host:
+ *
+ * - `command`: custom shell commands, output appended to a `command_logs` row
+ * - `service`: shutdown / restart of a node service, logged the same way
+ * - `deploy`: a binary deploy (`DeploymentService.deployToServer`)
+ * - `setup`: host setup for a new / promoted server or an added service
+ * - `rotate-key`: one server's part of an SSH key rotation
+ *   (`KeyRotationService`)
+ *
+ * Server credentials are read from the server doc when the job runs, so they
+ * never land in `ssh_jobs`. A command log shared by several jobs is closed
+ * (completed / failed) by whichever of its jobs finishes last.
+ */
+export namespace SshJobs {
+    // Interactive work jumps ahead of long-running deploys and setups.
+    export const PRIORITY = {
+        command: 30,
+        service: 20,
+        deploy: 10,
+        setup: 0,
+    } as const;
+
+    export interface CommandPayload {
+        commands: string[];
+        timeout: number;
+    }
+
+    export interface ServicePayload {
+        command: "shutdown" | "restart";
+        service: MongoDbTypes.ServiceType;
+    }
+
+    export interface DeployPayload {
+        service: MongoDbTypes.ServiceType;
+        tag?: string; // release tag, for the deployment history
+        binaryUrl: string;
+        // What the node checks the download against. Unset only on jobs
+        // queued before verification, which fail.
+        binarySha256?: string;
+        peers: string[];
+        customParameter: string;
+        // Saved profile the extraData came from, for the deployment history.
+        profile?: MongoDbTypes.DeploymentProfileRef;
+    }
+
+    export interface SetupPayload {
+        // Services to start tracking (polling docs) once setup succeeds.
+        registerServices: MongoDbTypes.ServiceType[];
+    }
+
+    const DEFAULT_COMMAND_TIMEOUT_MS = 30_000;
+
+    async function loadServer(host: string) {
+        const serverDoc = await Mongodb.getServersCollection().findOne({
+            server: host,
+        });
+        return serverDoc && serverDoc.username ? serverDoc : null;
+    }
+
+    const NO_SERVER = "Server no longer exists or has no SSH user";
+
+    // ---------------------------------------------------------------------
+    // Command logs
+    // ---------------------------------------------------------------------
+
+    // Per-server output kept on a command log; the combined stdout/stderr
+    // still holds everything.
+    const MAX_HOST_OUTPUT = 64 * 1024;
+
+    function tail(output: string) {
+        return output.length > MAX_HOST_OUTPUT
+            ? "[truncated]\n" + output.slice(-MAX_HOST_OUTPUT)
+            : output;
+    }
+
+    function hostResult(
+        host: string,
+        result: {
+            isSuccess: boolean;
+            stdouts: Record<string, string>;
+            stderrs: Record<string, string>;
+            duration: number;
+            exitCode?: number | null | undefined;
+            errorCategory?: string | undefined;
+            errorMessage?: string | undefined;
+        }
+    ): MongoDbTypes.CommandHostResult {
+        return {
+            server: host,
+            status: result.isSuccess ? "succeeded" : "failed",
+            stdout: tail(Object.values(result.stdouts).join("\n")),
+            stderr: tail(Object.values(result.stderrs).join("\n")),
+            exitCode: result.exitCode ?? null,
+            duration: result.duration,
+            ...(result.errorCategory
+                ? { errorCategory: result.errorCategory }
+                : {}),
+            ...(result.errorMessage
+                ? { errorMessage: result.errorMessage }
+                : {}),
+            finishedAt: Date.now(),
+        };
+    }
+
+    // `results` with the server's entry replaced; a retried job overwrites
+    // its earlier attempt.
+    function withHostResult(result: MongoDbTypes.CommandHostResult) {
+        return {
+            $concatArrays: [
+                {
+                    $filter: {
+                        input: { $ifNull: ["$results", []] },
+                        cond: { $ne: ["$$this.server", result.server] },
+                    },
+                },
+                [{ $literal: result }],
+            ],
+        };
+    }
+
+    async function appendToCommandLog(
+        uuid: string | undefined,
+        {
+            stdout,
+            stderr,
+            duration,
+            result,
+        }: {
+            stdout: string;
+            stderr: string;
+            duration: number;
+            result: MongoDbTypes.CommandHostResult;
+        }
+    ) {
+        if (!uuid) return;
+        await Mongodb.getCommandLogsCollection()
+            .updateOne({ uuid }, [
+                {
+                    $set: {
+                        stdout: {
+                            $concat: [
+                                { $ifNull: ["$stdout", ""] },
+                                { $literal: stdout },
+                            ],
+                        },
+                        stderr: {
+                            $concat: [
+                                { $ifNull: ["$stderr", ""] },
+                                { $literal: stderr },
+                            ],
+                        },
+                        duration: {
+                            $add: [{ $ifNull: ["$duration", 0] }, duration],
+                        },
+                        results: withHostResult(result),
+                    },
+                },
+            ])
+            .catch((error) => {
+                logger.error(
+                    `Error updating command log: ${(error as Error).message}`
+                );
+            });
+    }
+
+    /**
+     * Record a finished job on its command log, then close the log if no job
+     * for it is still queued or running. The status filter keeps two jobs
+     * finishing together from both closing it.
+     */
+    async function settleCommandLog(
+        job: MongoDbTypes.SshJob,
+        outcome: JobQueue.Outcome | undefined
+    ) {
+        const uuid = job.commandLogUuid;
+        if (!uuid) return;
+        const logs = Mongodb.getCommandLogsCollection();
+
+        if (job.status !== "succeeded") {
+            const reason =
+                outcome?.errorMessage ||
+                job.error ||
+                `Command failed on ${job.host}`;
+            await logs.updateOne({ uuid }, [
+                {
+                    $set: {
+                        errorServers: {
+                            $setUnion: [
+                                { $ifNull: ["$errorServers", []] },
+                                [job.host],
+                            ],
+                        },
+                        errorMessage: reason,
+                        // A run already wrote its own section; a job that
+                        // never ran (or was lost) only gets the reason.
+                        ...(outcome
+                            ? {}
+                            : {
+                                  stderr: {
+                                      $concat: [
+                                          { $ifNull: ["$stderr", ""] },
+                                          { $literal: `\n⛔ ${job.host}: ${reason}\n` },
+                                      ],
+                                  },
+                                  results: withHostResult({
+                                      server: job.host,
+                                      status: "failed",
+                                      stdout: "",
+                                      stderr: `⛔ ${reason}`,
+                                      exitCode: null,
+                                      duration: 0,
+                                      ...(job.errorCategory
+                                          ? { errorCategory: job.errorCategory }
+                                          : {}),
+                                      errorMessage: reason,
+                                      finishedAt: Date.now(),
+                                  }),
+                              }),
+                    },
+                },
+            ]);
+        }
+
+        const live = await Mongodb.getSshJobsCollection().countDocuments({
+            commandLogUuid: uuid,
+            status: { $in: ["queued", "running"] },
+        });
+        if (live > 0) return;
+
+        const closed = await logs.findOneAndUpdate(
+            { uuid, status: "pending" },
+            [
+                {
+                    $set: {
+                        status: {
+                            $cond: [
+                                {
+                                    $gt: [
+                                        {
+                                            $size: {
+                                                $ifNull: ["$errorServers", []],
+                                            },
+                                        },
+                                        0,
+                                    ],
+                                },
+                                "failed",
+                                "completed",
+                            ],
+                        },
+                    },
+                },
+            ],
+            { returnDocument: "after" }
+        );
+        if (closed) await finishCronRun(closed);
+    }
+
+    async function finishCronRun(closed: MongoDbTypes.CommandLog) {
+        if (!closed.cronId) return;
+        await Mongodb.getCronJobsCollection().updateOne(
+            { cronId: closed.cronId, operator: closed.operator },
+            {
+                $set: {
+                    status: closed.status === "completed" ? "success" : "failed",
+                    lastRun: Date.now(),
+                },
+            }
+        );
+        logger.info(
+            `⏰ Cron job ${closed.cronId} by ${closed.operator} ${
+                closed.status === "cancelled"
+                    ? "was cancelled"
+                    : closed.status === "failed"
+                    ? `failed on ${closed.errorServers?.length || 0}/${
+                          closed.servers?.length || 0
+                      } server(s)`
+                    : `succeeded on ${closed.servers?.length || 0} server(s)`
+            }`
+        );
+    }
+
+    /**
+     * Cancel a pending command log and every live job writing to it. Queued
+     * jobs are dropped; running ones are aborted on whichever instance runs
+     * them, which closes their SSH channels and releases their host locks.
+     * The log is marked `cancelled` right away; jobs still finishing keep
+     * adding their per-server results. Null when the log isn't pending.
+     */
+    export async function cancelCommandLog(
+        uuid: string,
+        scope: string | { $exists: true },
+        actor: string
+    ) {
+        const log = await Mongodb.getCommandLogsCollection().findOneAndUpdate(
+            { uuid, operator: scope, status: "pending" },
+            [
+                {
+                    $set: {
+                        status: "cancelled",
+                        errorMessage: `Cancelled by ${actor}`,
+                        stderr: {
+                            $concat: [
+                                { $ifNull: ["$stderr", ""] },
+                                { $literal: `\n⛔ Cancelled by ${actor}\n` },
+                            ],
+                        },
+                    },
+                },
+            ],
+            { returnDocument: "after" }
+        );
+        if (!log) return null;
+
+        const live = await Mongodb.getSshJobsCollection()
+            .find(
+                {
+                    commandLogUuid: uuid,
+                    status: { $in: ["queued", "running"] },
+                },
+                { projection: { _id: 1 } }
+            )
+            .toArray();
+        const jobs: MongoDbTypes.SshJob[] = [];
+        for (const { _id } of live) {
+            const result = await JobQueue.cancel(_id, scope, actor);
+            if ("job" in result) jobs.push(result.job);
+        }
+        await finishCronRun(log);
+        logger.info(
+            `🧵 Command log ${uuid} (${log.command}) cancelled by ${actor}; ${jobs.length} job(s) cancelled`
+        );
+        return { log, jobs };
+    }
+
+    // ---------------------------------------------------------------------
+    // Node deploy status
+    // ---------------------------------------------------------------------
+
+    export function setDeployStatus(
+        server: string,
+        service: MongoDbTypes.ServiceType,
+        status: MongoDbTypes.NodeStatus
+    ) {
+        // Stamp the entry time whenever we move into a transient state so
+        // the stuck-deploy watchdog can tell how long it has been pending.
+        const isTransient = status === "setting_up" || status === "restarting";
+        const setObj: Record<string, unknown> = {
+            deployStatus: {
+                $mergeObjects: ["$deployStatus", { [service]: status }],
+            },
+        };
+        if (isTransient) {
+            setObj.deployStatusAt = {
+                $mergeObjects: ["$deployStatusAt", { [service]: Date.now() }],
+            };
+        }
+        Mongodb.getServersCollection()
+            .updateOne({ server: server }, [{ $set: setObj }])
+            .then()
+            .catch(() => {});
+    }
+
+    // A cancelled deploy or restart must not leave the node "setting_up" /
+    // "restarting" until the stuck-deploy watchdog notices.
+    function clearTransientDeployStatus(
+        server: string,
+        service: MongoDbTypes.ServiceType
+    ) {
+        Mongodb.getServersCollection()
+            .updateOne(
+                {
+                    server,
+                    [`deployStatus.${service}`]: {
+                        $in: ["setting_up", "restarting"],
+                    },
+                },
+                { $set: { [`deployStatus.${service}`]: "error" } }
+            )
+            .then()
+            .catch(() => {});
+    }
+
+    // ---------------------------------------------------------------------
+    // Handlers
+    // ---------------------------------------------------------------------
+
+    const commandHandler: JobQueue.Handler = {
+        // Arbitrary shell is not safe to repeat after a partial run.
+        resumable: false,
+        async run(job, signal) {
+            const { commands, timeout } = job.payload as unknown as CommandPayload;
+            const serverDoc = await loadServer(job.host);
+            if (!serverDoc) return { isSuccess: false, errorMessage: NO_SERVER };
+
+            const result = await SSHService.executeCommands(
+                serverDoc.server,
+                serverDoc.username,
+                serverDoc.password,
+                [...commands],
+                timeout || DEFAULT_COMMAND_TIMEOUT_MS,
+                { sshPrivateKey: serverDoc.sshPrivateKey, signal }
+            );
+            const reason =
+                result.errorMessage || `Command failed on ${job.host}`;
+            const seconds = millisToSeconds(result.duration);
+            let stderr = Object.values(result.stderrs).join("\n");
+            if (!result.isSuccess) stderr = `⛔ ${reason}\n` + stderr;
+            await appendToCommandLog(job.commandLogUuid, {
+                stdout:
+                    "\n" +
+                    `---------- Command output for ${job.host} (${seconds}s) ----------- \n\n` +
+                    Object.values(result.stdouts).join("\n"),
+                stderr:
+                    "\n" +
+                    `---------- Command error for ${job.host} (${seconds}s) ----------- \n\n` +
+                    stderr,
+                duration: result.duration,
+                result: hostResult(job.host, {
+                    ...result,
+                    errorMessage: result.isSuccess ? undefined : reason,
+                }),
+            });
+            return {
+                isSuccess: result.isSuccess,
+                errorMessage: result.isSuccess ? undefined : reason,
+                errorCategory: result.errorCategory,
+            };
+        },
+        async onFinished(job, outcome) {
+            await settleCommandLog(job, outcome);
+        },
+    };
+
+    const serviceHandler: JobQueue.Handler = {
+        resumable: true,
+        async run(job, signal) {
+            const { command, service } = job.payload as unknown as ServicePayload;
+            const serverDoc = await loadServer(job.host);
+            if (!serverDoc) return { isSuccess: false, errorMessage: NO_SERVER };
+
+            let result;
+            if (command === "shutdown") {
+                result = await SSHService.shutdownNode(
+                    serverDoc.server,
+                    serverDoc.username,
+                    serverDoc.password,
+                    serverDoc.sshPrivateKey,
+                    service,
+                    { signal }
+                );
+            } else {
+                setDeployStatus(job.host, service, "restarting");
+                // Re-apply the latest DB custom parameter on restart, same as
+                // a redeploy. Bob nodes have no custom parameter.
+                const customParameter =
+                    service === MongoDbTypes.ServiceType.LiteNode
+                        ? (
+                              await DeploymentService.resolveCustomParameters([
+                                  job.host,
+                              ])
+                          )[job.host]
+                        : undefined;
+                const deploymentId = await DeploymentHistoryService.start({
+                    server: serverDoc,
+                    service,
+                    action: "restart",
+                    actor: job.operator,
+                    customParameter,
+                    commandLogUuid: job.commandLogUuid,
+                    jobId: job._id,
+                });
+                result = await SSHService.restartNode(
+                    serverDoc.server,
+                    serverDoc.username,
+                    serverDoc.password,
+                    serverDoc.sshPrivateKey,
+                    service,
+                    {
+                        systemRamInGB: parseInt(serverDoc.ram || "0"),
+                        customParameter,
+                        signal,
+                    }
+                );
+                await DeploymentHistoryService.finish(deploymentId, result);
+            }
+
+            const label = command === "shutdown" ? "Shutdown" : "Restart";
+            const header =
+                "\n" +
+                `---------- ${label} log for ${service} on ${job.host} ----------- \n\n`;
+            const stderr = Object.values(result.stderrs).join("\n");
+            if (result.isSuccess) {
+                await appendToCommandLog(job.commandLogUuid, {
+                    stdout: header + "Okay\n",
+                    stderr,
+                    duration: result.duration,
+                    result: hostResult(job.host, result),
+                });
+                setDeployStatus(
+                    job.host,
+                    service,
+                    command === "shutdown" ? "stopped" : "active"
+                );
+                return { isSuccess: true };
+            }
+            const reason =
+                result.errorMessage || `${label} failed on ${job.host}`;
+            await appendToCommandLog(job.commandLogUuid, {
+                stdout: header + Object.values(result.stdouts).join("\n"),
+                stderr: `⛔ ${reason}\n` + stderr,
+                duration: result.duration,
+                result: hostResult(job.host, {
+                    ...result,
+                    errorMessage: reason,
+                }),
+            });
+            setDeployStatus(job.host, service, "error");
+            return {
+                isSuccess: false,
+                errorMessage: reason,
+                errorCategory: result.errorCategory,
+            };
+        },
+        async onFinished(job, outcome) {
+            const { service } = job.payload as unknown as ServicePayload;
+            if (!outcome && job.attempts > 0) {
+                setDeployStatus(job.host, service, "error");
+            } else if (job.status === "cancelled") {
+                clearTransientDeployStatus(job.host, service);
+            }
+            if (!outcome) {
+                await DeploymentHistoryService.abandon(
+                    job._id,
+                    job.error || `Job ${job.status}`
+                );
+            }
+            await settleCommandLog(job, outcome);
+        },
+    };
+
+    const deployHandler: JobQueue.Handler = {
+        // A deploy rewrites the node directory from scratch.
+        resumable: true,
+        async run(job, signal) {
+            const {
+                service,
+                tag,
+                binaryUrl,
+                binarySha256,
+                peers,
+                customParameter,
+                profile,
+            } = job.payload as unknown as DeployPayload;
+            if (!binarySha256) {
+                return {
+                    isSuccess: false,
+                    errorMessage:
+                        "Deploy has no binary checksum to verify against; deploy again",
+                };
+            }
+            const serverDoc = await loadServer(job.host);
+            if (!serverDoc) return { isSuccess: false, errorMessage: NO_SERVER };
+
+            const result = await DeploymentService.deployToServer(
+                serverDoc,
+                service,
+                binaryUrl,
+                JobQueue.revealSecret<DeploymentService.DeployExtraData>(job),
+                {
+                    binarySha256,
+                    peers,
+                    customParameter,
+                    signal,
+                    history: {
+                        actor: job.operator,
+                        tag,
+                        profile,
+                        commandLogUuid: job.commandLogUuid,
+                        jobId: job._id,
+                    },
+                }
+            );
+            // The full log is on the server doc (deployLogs); the command
+            // log gets the per-server result.
+            await appendToCommandLog(job.commandLogUuid, {
+                stdout:
+                    "\n" +
+                    `---------- Deploy of ${service} on ${job.host} (${millisToSeconds(
+                        result.duration
+                    )}s) ----------- \n\n` +
+                    (result.isSuccess ? "Okay\n" : ""),
+                stderr: result.isSuccess ? "" : `⛔ ${result.errorMessage}\n`,
+                duration: result.duration,
+                result: hostResult(job.host, result),
+            });
+            return {
+                isSuccess: result.isSuccess,
+                errorMessage: result.errorMessage,
+                errorCategory:
+                    "errorCategory" in result
+                        ? result.errorCategory
+                        : undefined,
+            };
+        },
+        async onFinished(job, outcome) {
+            // deployToServer records its own outcome; only a job lost
+            // mid-deploy or cancelled needs its transient state cleared.
+            const { service } = job.payload as unknown as DeployPayload;
+            if (!outcome && job.attempts > 0) {
+                setDeployStatus(job.host, service, "error");
+            } else if (job.status === "cancelled") {
+                clearTransientDeployStatus(job.host, service);
+            }
+            if (!outcome) {
+                await DeploymentHistoryService.abandon(
+                    job._id,
+                    job.error || `Job ${job.status}`
+                );
+            }
+            await settleCommandLog(job, outcome);
+        },
+    };
+
+    async function setupFailed(host: string, stdout: string, stderr: string) {
+        await Mongodb.getServersCollection()
+            .updateOne(
+                { server: host },
+                { $set: { status: "error", setupLogs: { stdout, stderr } } }
+            )
+            .catch(() => {});
+    }
+
+    const setupHandler: JobQueue.Handler = {
+        resumable: true,
+        async run(job) {
+            const { registerServices } = job.payload as unknown as SetupPayload;
+            const serverDoc = await loadServer(job.host);
+            if (!serverDoc) return { isSuccess: false, errorMessage: NO_SERVER };
+
+            await Mongodb.getServersCollection().updateOne(
+                { server: job.host },
+                { $set: { status: "setting_up" } }
+            );
+            const result = await SSHService.setupNode(
+                serverDoc.server,
+                serverDoc.username,
+                serverDoc.password,
+                serverDoc.sshPrivateKey
+            );
+            const elapsed = `---------- Time elapsed ${millisToSeconds(
+                result.duration
+            )} seconds ----------- \n\n`;
+            if (!result.isSuccess) {
+                await setupFailed(
+                    job.host,
+                    elapsed + Object.values(result.stdouts).join("\n"),
+                    elapsed + Object.values(result.stderrs).join("\n")
+                );
+                return {
+                    isSuccess: false,
+                    errorMessage:
+                        result.errorMessage || `Setup failed on ${job.host}`,
+                    errorCategory: result.errorCategory,
+                };
+            }
+
+            await Mongodb.getServersCollection()
+                .updateOne(
+                    { server: job.host },
+                    {
+                        $set: {
+                            cpu: result.cpu,
+                            os: result.os,
+                            ram: result.ram,
+                            status: "active",
+                            setupLogs: {
+                                stdout:
+                                    elapsed +
+                                    Object.values(result.stdouts).join("\n"),
+                                stderr: Object.values(result.stderrs).join(
+                                    "\n"
+                                ),
+                            },
+                        },
+                    }
+                )
+                .catch(() => {});
+            // Upserts, so a repeated setup doesn't trip over existing docs.
+            const pollingDoc = {
+                server: job.host,
+                operator: serverDoc.operator,
+                isPrivate: false,
+            };
+            for (const service of registerServices) {
+                const collection =
+                    service === MongoDbTypes.ServiceType.LiteNode
+                        ? Mongodb.getLiteNodeCollection()
+                        : Mongodb.getBobNodeCollection();
+                await collection
+                    .updateOne(
+                        { server: job.host },
+                        { $set: pollingDoc },
+                        { upsert: true }
+                    )
+                    .catch(() => {});
+            }
+            await NodeService.pullServerLists().catch(() => {});
+            return { isSuccess: true };
+        },
+        async onFinished(job, outcome) {
+            if (!outcome) {
+                const reason = job.error || "Setup did not run";
+                await setupFailed(job.host, reason, reason);
+            }
+        },
+    };
+
+    // ---------------------------------------------------------------------
+    // Enqueue helpers
+    // ---------------------------------------------------------------------
+
+    // One job per target, all writing to the `commandLogUuid` log.
+    export async function enqueueCommands(
+        targets: { host: string; commands: string[] }[],
+        operator: string,
+        commandLogUuid: string,
+        {
+            timeout = DEFAULT_COMMAND_TIMEOUT_MS,
+            priority = PRIORITY.command,
+        }: { timeout?: number; priority?: number } = {}
+    ) {
+        return await JobQueue.enqueueMany(
+            targets.map(({ host, commands }) => ({
+                kind: "command" as const,
+                host,
+                operator,
+                commandLogUuid,
+                payload: { commands, timeout },
+                priority,
+            }))
+        );
+    }
+
+    export async function enqueueServiceCommands(
+        targets: { host: string; service: MongoDbTypes.ServiceType }[],
+        operator: string,
+        commandLogUuid: string,
+        command: ServicePayload["command"]
+    ) {
+        return await JobQueue.enqueueMany(
+            targets.map(({ host, service }) => ({
+                kind: "service" as const,
+                host,
+                operator,
+                commandLogUuid,
+                payload: { command, service },
+                priority: PRIORITY.service,
+            }))
+        );
+    }
+
+    export async function enqueueDeploy(
+        host: string,
+        operator: string,
+        payload: DeployPayload,
+        extraData: DeploymentService.DeployExtraData,
+        commandLogUuid?: string
+    ) {
+        return await JobQueue.enqueue({
+            kind: "deploy",
+            host,
+            operator,
+            payload: { ...payload },
+            // Seeds and passcodes: kept sealed in ssh_jobs.
+            secret: extraData,
+            priority: PRIORITY.deploy,
+            ...(commandLogUuid ? { commandLogUuid } : {}),
+        });
+    }
+
+    export async function enqueueSetup(
+        host: string,
+        operator: string,
+        payload: SetupPayload
+    ) {
+        return await JobQueue.enqueue({
+            kind: "setup",
+            host,
+            operator,
+            payload: { ...payload },
+            priority: PRIORITY.setup,
+        });
+    }
+
+    export async function start() {
+        JobQueue.registerHandler("command", commandHandler);
+        JobQueue.registerHandler("service", serviceHandler);
+        JobQueue.registerHandler("deploy", deployHandler);
+        JobQueue.registerHandler("setup", setupHandler);
+        JobQueue.registerHandler("rotate-key", KeyRotationService.handler);
+        await JobQueue.start();
+    }
+}
@@ -1,5 +1,5 @@
 import path from "path";
-import { Client } from "ssh2";
+import type { Client, ClientChannel } from "ssh2";
 import EventEmitter from "events";
 import fs from "fs";
 import { logger } from "../utils/logger.js";
@@ -12,6 +12,9 @@ import {
 } from "../utils/common.js";
 import { NodeService } from "./node-service.js";
 import { LeaderService } from "./leader-service.js";
+import { CredentialVault } from "./credential-vault.js";
+import { SshPool } from "./logic/ssh-pool.js";
+import { ArtifactService } from "./artifact-service.js";
 
 namespace Utils {
     export function getBobConfigOverrideObject(peers: string[]) {
@@ -63,6 +66,7 @@ export namespace SSHService {
     };
 
     let sshPortCache: { [key: string]: number } = {};
+    let jumpHostCache: { [key: string]: MongoDbTypes.JumpHost[] } = {};
 
     let _isExecutingCommandsMap: {
         [key: string]: boolean;
@@ -72,7 +76,11 @@ export namespace SSHService {
         [key: string]: () => void;
     } = {};
 
-    const Scripts = {
+    // Printed once a deploy has copied the running binary to <dir>.prev and
+    // goes on to wipe the service dir. Split in the command so the echoed input can't match.
+    const BACKUP_MARKER = "ROLLBACK_POINT_SAVED";
+
+    export const Scripts = {
         GeneralSetupPath: path.resolve(
             process.cwd(),
             "src",
@@ -134,11 +142,11 @@ export namespace SSHService {
             return [
                 `date`,
                 `cd ~`,
+                this.getBackupBinaryCommand("qlite"),
                 `rm -rf qlite`,
                 `mkdir -p qlite`,
                 `cd qlite`,
-                `wget ${binaryUrl}`,
-                `chmod +x ./${binaryName}`,
+                this.getPlaceFetchedBinaryCommand("qlite", binaryName),
                 `wget ${epochFile}`,
                 getUnzipCommandFromUrl(epochFile),
                 // Save peers and binary name for future restarts
@@ -226,6 +234,7 @@ export namespace SSHService {
             return [
                 `date`,
                 `cd ~`,
+                this.getBackupBinaryCommand("qbob"),
                 keepOldConfig
                     ? `find ./qbob -mindepth 1 ! -name 'bob_config.json' -exec rm -rf {} +`
                     : `rm -rf ./qbob/*`,
@@ -235,8 +244,7 @@ export namespace SSHService {
                 `mkdir -p /kvrocksDB/`,
                 `mkdir -p qbob`,
                 `cd qbob`,
-                `wget ${binaryUrl}`,
-                `chmod +x ./${binaryName}`,
+                this.getPlaceFetchedBinaryCommand("qbob", binaryName),
                 epochFile && `wget ${epochFile}`,
                 epochFile && getUnzipCommandFromUrl(epochFile),
                 // Write default config to config.json
@@ -267,6 +275,71 @@ export namespace SSHService {
             ];
         },
 
+        // Download the new binary to ~/<dir>.incoming and check its sha256
+        // while the running node is still untouched; a mismatch stops the
+        // deploy here (see ArtifactService.verifyCommand).
+        getFetchBinaryCommands(
+            dir: "qlite" | "qbob",
+            binaryUrl: string,
+            sha256: string
+        ) {
+            // $HOME, not ~: the path also goes inside double quotes.
+            let path = `$HOME/${dir}.incoming/${getBasenameFromUrl(binaryUrl)}`;
+            return [
+                `rm -rf ~/${dir}.incoming && mkdir -p ~/${dir}.incoming`,
+                `wget -q -O ${path} '${binaryUrl}'`,
+                ArtifactService.verifyCommand(path, sha256),
+            ];
+        },
+
+        // Move the verified download into the (current) service dir.
+        getPlaceFetchedBinaryCommand(dir: "qlite" | "qbob", binaryName: string) {
+            return `mv -f ~/${dir}.incoming/${binaryName} ./${binaryName} && chmod +x ./${binaryName} && rm -rf ~/${dir}.incoming`;
+        },
+
+        // Keep the running binary (and binary_name.txt) in ~/<dir>.prev before a
+        // deploy wipes <dir>, so a rollout can roll back to it. A dir without a
+        // binary (first deploy, or a half-finished one) leaves the old backup.
+        // Prints BACKUP_MARKER only once the copy succeeded; see deployNode's
+        // `onBackedUp`.
+        getBackupBinaryCommand(dir: "qlite" | "qbob") {
+            return `if [ -f ~/${dir}/binary_name.txt ] && [ -f ~/${dir}/"$(cat ~/${dir}/binary_name.txt)" ]; then rm -rf ~/${dir}.prev && mkdir -p ~/${dir}.prev && cp ~/${dir}/"$(cat ~/${dir}/binary_name.txt)" ~/${dir}/binary_name.txt ~/${dir}.prev/ && echo "${BACKUP_MARKER.slice(0, 8)}""${BACKUP_MARKER.slice(8)}"; fi`;
+        },
+
+        getRollbackCommands(
+            type: MongoDbTypes.ServiceType,
+            { systemRamInGB }: { systemRamInGB: number }
+        ) {
+            let dir =
+                type === MongoDbTypes.ServiceType.LiteNode ? "qlite" : "qbob";
+            let startCommands =
+                type === MongoDbTypes.ServiceType.LiteNode
+                    ? this.getLiteNodeSetupScripts({
+                          binaryUrl: "",
+                          epochFile: "",
+                          peers: [],
+                          isRestart: true,
+                      })
+                    : this.getBobNodeSetupScripts({
+                          binaryUrl: "",
+                          epochFile: "",
+                          peers: [],
+                          isRestart: true,
+                          systemRamInGB,
+                      });
+            return [
+                this.getShutdownCommands(type).join("; "),
+                // set -e aborts here when there is nothing to roll back to
+                `test -f ~/${dir}.prev/binary_name.txt`,
+                `PREV_BINARY=$(cat ~/${dir}.prev/binary_name.txt)`,
+                `cp -f ~/${dir}.prev/"$PREV_BINARY" ~/${dir}/"$PREV_BINARY"`,
+                `chmod +x ~/${dir}/"$PREV_BINARY"`,
+                `echo "$PREV_BINARY" > ~/${dir}/binary_name.txt`,
+                `echo "Rolled back to $PREV_BINARY"`,
+                ...startCommands,
+            ];
+        },
+
         getShutdownCommands(
             type: MongoDbTypes.ServiceType,
             { killDb = false }: { killDb?: boolean } = {}
@@ -375,27 +448,80 @@ export namespace SSHService {
         return port;
     }
 
+    // Jump hosts to tunnel through: the server's own chain, else its named
+    // jump_chains entry, else none (direct).
+    export async function _getServerJumpHosts(host: string) {
+        let cached = jumpHostCache[host];
+        if (cached) return cached;
+        let hops: MongoDbTypes.JumpHost[] = [];
+        const currentServer = await Mongodb.getServersCollection().findOne(
+            { server: host },
+            { projection: { jumpHosts: 1, jumpChain: 1 } }
+        );
+        if (currentServer?.jumpHosts?.length) {
+            hops = currentServer.jumpHosts;
+        } else if (currentServer?.jumpChain) {
+            const chain = await Mongodb.getJumpChainsCollection().findOne({
+                name: currentServer.jumpChain,
+            });
+            if (!chain) {
+                throw new Error(
+                    `jump chain "${currentServer.jumpChain}" does not exist`
+                );
+            }
+            hops = chain.hops;
+        }
+        jumpHostCache[host] = hops;
+        return hops;
+    }
+
+    function _revealJumpHosts(hops: MongoDbTypes.JumpHost[]): SshPool.Hop[] {
+        return hops.map((hop) => ({
+            host: hop.host,
+            port: hop.port || 22,
+            username: hop.username,
+            password: CredentialVault.reveal(hop.password),
+            privateKey: CredentialVault.reveal(hop.sshPrivateKey).replace(
+                /\\n/g,
+                "\n"
+            ),
+            fingerprint: hop.fingerprint,
+        }));
+    }
+
     export function _clearSSHPortCache(host: string) {
         delete sshPortCache[host];
+        delete jumpHostCache[host];
+        // Pooled sessions were opened against the old port or route.
+        SshPool.evict(host);
     }
 
-    // Drop the whole SSH-port cache. Called periodically on every instance so a
-    // port edit handled by another instance can't leave us SSHing a stale port.
+    // Drop the whole SSH-port and jump-host cache. Called periodically on every
+    // instance so a port edit handled by another instance can't leave us
+    // SSHing a stale port.
     export function _clearAllSSHPortCache() {
         sshPortCache = {};
+        jumpHostCache = {};
     }
 
-    export async function _accquireExecutionLock(host: string) {
+    // Resolves false, without the lock, when `signal` aborts while waiting.
+    export async function _accquireExecutionLock(
+        host: string,
+        signal?: AbortSignal
+    ) {
         while (
             _isExecutingCommandsMap[host] ||
             Object.keys(_isExecutingCommandsMap).filter(
                 (h) => _isExecutingCommandsMap[h]
             ).length > 10
         ) {
+            if (signal?.aborted) return false;
             // Wait if there is an ongoing execution for the same host and username
             await new Promise((resolve) => setTimeout(resolve, 100));
         }
+        if (signal?.aborted) return false;
         _isExecutingCommandsMap[host] = true;
+        return true;
     }
 
     export async function _releaseExecutionLock(host: string) {
@@ -410,10 +536,12 @@ export namespace SSHService {
     const HOST_LOCK_SPIN_MS = 250;
     const HOST_LOCK_MAX_WAIT_MS = 6 * 60 * 1000;
 
-    export async function _acquireHostLock(host: string) {
+    // Resolves false, without the lock, when `signal` aborts while waiting.
+    export async function _acquireHostLock(host: string, signal?: AbortSignal) {
         const owner = LeaderService.getInstanceId();
         const deadline = Date.now() + HOST_LOCK_MAX_WAIT_MS;
         while (true) {
+            if (signal?.aborted) return false;
             const now = Date.now();
             try {
                 // Matches only if the lock is absent (→ insert) or expired
@@ -431,7 +559,7 @@ export namespace SSHService {
                     },
                     { upsert: true, returnDocument: "after" }
                 );
-                if (r?.instanceId === owner) return;
+                if (r?.instanceId === owner) return true;
             } catch (err: any) {
                 if (err?.code !== 11000) {
                     logger.error(
@@ -444,7 +572,7 @@ export namespace SSHService {
                 logger.warn(
                     `⏱️ SSH host lock wait timed out for ${host}; proceeding without it (fail-open).`
                 );
-                return;
+                return true;
             }
             await new Promise((res) => setTimeout(res, HOST_LOCK_SPIN_MS));
         }
@@ -587,7 +715,8 @@ export namespace SSHService {
         username: string,
         password: string,
         sshPrivateKey: string,
-        type: MongoDbTypes.ServiceType
+        type: MongoDbTypes.ServiceType,
+        { signal }: { signal?: AbortSignal | undefined } = {}
     ) {
         let commands: string[] = [];
         commands.push(Scripts.getShutdownCommands(type).join("; "));
@@ -601,6 +730,7 @@ export namespace SSHService {
             {
                 isNonInteractive: true,
                 sshPrivateKey: sshPrivateKey,
+                signal,
             }
         );
         return {
@@ -610,6 +740,7 @@ export namespace SSHService {
             duration: result.duration,
             errorCategory: result.errorCategory,
             errorMessage: result.errorMessage,
+            exitCode: result.exitCode,
         };
     }
 
@@ -657,7 +788,12 @@ export namespace SSHService {
         {
             systemRamInGB,
             customParameter,
-        }: { systemRamInGB: number; customParameter?: string | undefined }
+            signal,
+        }: {
+            systemRamInGB: number;
+            customParameter?: string | undefined;
+            signal?: AbortSignal | undefined;
+        }
     ) {
         let commands: string[] = [];
         for (const cmd of Scripts.getRestartCommands(type, {
@@ -673,6 +809,41 @@ export namespace SSHService {
             password,
             commands,
             60 * 1000, // 1 min
+            {
+                isNonInteractive: false,
+                sshPrivateKey: sshPrivateKey,
+                signal,
+            }
+        );
+        return {
+            stdouts: result.stdouts,
+            stderrs: result.stderrs,
+            isSuccess: result.isSuccess,
+            duration: result.duration,
+            errorCategory: result.errorCategory,
+            errorMessage: result.errorMessage,
+            exitCode: result.exitCode,
+        };
+    }
+
+    // Put back the binary saved by the last deploy and start it with the
+    // on-disk config. Fails when no previous binary was kept.
+    export async function rollbackNode(
+        host: string,
+        username: string,
+        password: string,
+        sshPrivateKey: string,
+        type: MongoDbTypes.ServiceType,
+        { systemRamInGB }: { systemRamInGB: number }
+    ) {
+        let commands = Scripts.getRollbackCommands(type, { systemRamInGB });
+        logger.info(`Rollback commands for ${host}@${username}: ${commands}`);
+        let result = await executeCommands(
+            host,
+            username,
+            password,
+            commands,
+            60 * 1000 * 2, // 2 mins
             {
                 isNonInteractive: false,
                 sshPrivateKey: sshPrivateKey,
@@ -696,6 +867,7 @@ export namespace SSHService {
         type: MongoDbTypes.ServiceType,
         {
             binaryUrl,
+            binarySha256,
             epochFile,
             peers,
             systemRamInGB,
@@ -709,8 +881,11 @@ export namespace SSHService {
             kvrocksConfig,
             keepOldConfig,
             customParameter,
+            signal,
+            onBackedUp,
         }: {
             binaryUrl: string;
+            binarySha256: string;
             epochFile: string;
             peers: string[];
             systemRamInGB: number;
@@ -724,6 +899,10 @@ export namespace SSHService {
             kvrocksConfig: string[];
             keepOldConfig: boolean;
             customParameter?: string;
+            signal?: AbortSignal | undefined;
+            // Called once the old binary is kept and the node is about to be
+            // replaced: from then on a failed deploy needs a rollback.
+            onBackedUp?: (() => void) | undefined;
         }
     ) {
         const returnFailedObject: {
@@ -745,6 +924,20 @@ export namespace SSHService {
 
         try {
             const commands = [];
+            if (
+                type === MongoDbTypes.ServiceType.LiteNode ||
+                type === MongoDbTypes.ServiceType.BobNode
+            ) {
+                commands.push(
+                    ...Scripts.getFetchBinaryCommands(
+                        type === MongoDbTypes.ServiceType.LiteNode
+                            ? "qlite"
+                            : "qbob",
+                        binaryUrl,
+                        binarySha256
+                    )
+                );
+            }
             commands.push(
                 ...Scripts.getShutdownCommands(type, { killDb: true })
             );
@@ -812,15 +1005,25 @@ export namespace SSHService {
                 1000 * 60 * 3, // 3 mins
                 {
                     sshPrivateKey: sshPrivateKey,
+                    signal,
+                    ...(onBackedUp
+                        ? { onData: watchForMarker(BACKUP_MARKER, onBackedUp) }
+                        : {}),
                 }
             );
+            let mismatch = result.isSuccess
+                ? undefined
+                : ArtifactService.findMismatch([
+                      ...Object.values(result.stdouts),
+                      ...Object.values(result.stderrs),
+                  ]);
             return {
                 stdouts: result.stdouts,
                 stderrs: result.stderrs,
                 isSuccess: result.isSuccess,
                 duration: result.duration,
                 errorCategory: result.errorCategory,
-                errorMessage: result.errorMessage,
+                errorMessage: mismatch ?? result.errorMessage,
             };
         } catch (error) {
             return {
@@ -830,6 +1033,21 @@ export namespace SSHService {
         }
     }
 
+    // onData handler calling `callback` once `marker` shows up, also when it
+    // is split across chunks.
+    function watchForMarker(marker: string, callback: () => void) {
+        let tail = "";
+        let seen = false;
+        return (output: string) => {
+            if (seen) return;
+            tail = (tail + output).slice(-(marker.length + 4096));
+            if (tail.includes(marker)) {
+                seen = true;
+                callback();
+            }
+        };
+    }
+
     export type SSHErrorCategory =
         | "connect_timeout"
         | "connect_refused"
@@ -837,8 +1055,17 @@ export namespace SSHService {
         | "auth_failed"
         | "command_timeout"
         | "command_failed"
+        | "credentials_unavailable"
+        | "host_key_mismatch"
+        | "cancelled"
         | "unknown";
 
+    function _cancelReason(signal: AbortSignal | undefined) {
+        return signal?.reason instanceof Error
+            ? signal.reason.message
+            : "Cancelled";
+    }
+
     // Map a raw ssh2 / node socket error to a clear, operator-facing category
     // and message so the UI and logs can show *what* went wrong (refused vs.
     // auth vs. DNS vs. timeout) instead of an opaque "isSuccess: false".
@@ -924,6 +1151,9 @@ export namespace SSHService {
             // Passive = read-only, long-lived stream (e.g. log tailing). Skips
             // the distributed per-host lock so it can't block deploys/commands.
             passive?: boolean;
+            // Aborting closes this call's channels and fails it as
+            // "cancelled"; the locks are released as on any other failure.
+            signal?: AbortSignal | undefined;
         } = {}
     ) {
         let stdouts: {
@@ -937,13 +1167,18 @@ export namespace SSHService {
         let isSuccess = false;
         let errorCategory: SSHErrorCategory | undefined;
         let errorMessage: string | undefined;
+        // Exit status of the shell (or the first failing exec), null when
+        // the commands never finished.
+        let exitCode: number | null = null;
 
         let port;
+        let jumpHosts;
         try {
             port = await _getServerSSHPort(host);
+            jumpHosts = await _getServerJumpHosts(host);
         } catch (error) {
             errorCategory = "unknown";
-            errorMessage = `Failed to get server SSH port from database: ${
+            errorMessage = `Failed to get server SSH port / jump hosts from database: ${
                 (error as Error).message
             }`;
             stderrs["shell"] = errorMessage;
@@ -954,6 +1189,34 @@ export namespace SSHService {
                 duration: 0,
                 errorCategory,
                 errorMessage,
+                exitCode,
+            };
+        }
+
+        // Credentials stay sealed everywhere else; this is the only place they
+        // are decrypted, right before the connection is opened.
+        let plainPassword: string;
+        let plainPrivateKey: string;
+        let jumps: SshPool.Hop[];
+        try {
+            plainPassword = CredentialVault.reveal(password);
+            plainPrivateKey = CredentialVault.reveal(extraData.sshPrivateKey);
+            jumps = _revealJumpHosts(jumpHosts);
+        } catch (error) {
+            errorCategory = "credentials_unavailable";
+            errorMessage = `Failed to decrypt stored SSH credentials: ${
+                (error as Error).message
+            }`;
+            stderrs["shell"] = errorMessage;
+            _logLoudSSHError(host, username, errorCategory, errorMessage, 0);
+            return {
+                stdouts,
+                stderrs,
+                isSuccess,
+                duration: 0,
+                errorCategory,
+                errorMessage,
+                exitCode,
             };
         }
 
@@ -971,9 +1234,26 @@ export namespace SSHService {
         // Distributed per-host lock first (cross-instance), then the per-process
         // lock. Passive log streams bypass the distributed lock.
         const useHostLock = !extraData.passive && !IS_NO_DB;
-        if (useHostLock) await _acquireHostLock(host);
-
-        await _accquireExecutionLock(host);
+        const hasHostLock =
+            useHostLock && (await _acquireHostLock(host, extraData.signal));
+        const hasExecutionLock =
+            (!useHostLock || hasHostLock) &&
+            (await _accquireExecutionLock(host, extraData.signal));
+        if (!hasExecutionLock) {
+            if (hasHostLock) await _releaseHostLock(host);
+            errorCategory = "cancelled";
+            errorMessage = _cancelReason(extraData.signal);
+            stderrs["shell"] = `⛔ ${errorMessage}`;
+            return {
+                stdouts,
+                stderrs,
+                isSuccess,
+                duration: 0,
+                errorCategory,
+                errorMessage,
+                exitCode,
+            };
+        }
         let startTime = Date.now();
 
         commands.unshift("exec 2>&1"); // Redirect stderr to stdout
@@ -991,18 +1271,32 @@ export namespace SSHService {
             }
         };
 
+        // Closes only this call's channels; the pooled connection stays up
+        // for the next command. Also what cleanUpSSHMap[host] runs.
+        const openStreams: ClientChannel[] = [];
+        let lease: SshPool.Lease | undefined;
+        let onConnError: ((err: Error) => void) | undefined;
+        let onAbort: (() => void) | undefined;
+        const release = () => {
+            for (const stream of openStreams.splice(0)) {
+                try {
+                    stream.close();
+                } catch (error) {}
+            }
+            if (lease) {
+                if (onConnError) lease.conn.off("error", onConnError);
+                lease.release();
+                lease = undefined;
+            }
+        };
+
         try {
             const emitter = new EventEmitter();
-            const conn = new Client();
             logger.info(
                 `Starting SSH command execution for ${host}@${username}...`
             );
 
-            cleanUpSSHMap[host] = () => {
-                try {
-                    conn.end();
-                } catch (error) {}
-            };
+            cleanUpSSHMap[host] = release;
 
             const handleOnData = (data: any, command?: string) => {
                 const output = stripAnsi(data.toString());
@@ -1027,10 +1321,13 @@ export namespace SSHService {
                     stderrs["shell"] = (stderrs["shell"] || "") + errorOutput;
                 }
             };
-            conn.on("ready", async () => {
+
+            const runCommands = (conn: Client, reused: boolean) => {
                 isReady = true;
                 logger.info(
-                    `SSH Connection ready for ${host}@${username}. Executing commands...`
+                    `SSH Connection ready for ${host}@${username}${
+                        reused ? " (reused)" : ""
+                    }. Executing commands...`
                 );
                 if (!extraData.isNonInteractive) {
                     commands.unshift("set -e"); // Exit on error
@@ -1048,9 +1345,11 @@ export namespace SSHService {
                                 emitter.emit("error", err);
                                 return;
                             }
+                            openStreams.push(stream);
 
                             stream
-                                .on("close", () => {
+                                .on("close", (code?: number) => {
+                                    exitCode = code ?? null;
                                     emitter.emit("done", {
                                         isDoneSignalReceived,
                                     });
@@ -1087,10 +1386,14 @@ export namespace SSHService {
                                     emitter.emit("error", err);
                                     return;
                                 }
+                                openStreams.push(stream);
                                 stream
                                     .on("close", (code: number) => {
                                         if (code !== 0) {
                                             isDoneSignalReceived = false;
+                                            if (!exitCode) exitCode = code ?? null;
+                                        } else if (exitCode === null) {
+                                            exitCode = 0;
                                         }
                                         totalExecuted += 1;
                                         if (totalExecuted === commands.length) {
@@ -1112,9 +1415,7 @@ export namespace SSHService {
                         }
                     }
                 }
-            }).on("error", (err) => {
-                emitter.emit("error", err);
-            });
+            };
 
             // Single timeout covering BOTH connect and exec. Fires loudly with
             // a category that distinguishes a stuck handshake (connect_timeout)
@@ -1135,25 +1436,36 @@ export namespace SSHService {
                 }, timeout);
             }
 
-            conn.connect({
-                host: host,
-                port: port,
-                username: username,
-                password: password,
-                privateKey: (extraData?.sshPrivateKey || "").replace(
-                    /\\n/g,
-                    "\n"
-                ),
-                readyTimeout: 60_000,
-            });
+            // Non-interactive mode opens one exec channel per command.
+            SshPool.acquire(
+                {
+                    host,
+                    port,
+                    username,
+                    password: plainPassword,
+                    privateKey: plainPrivateKey.replace(/\\n/g, "\n"),
+                    jumps,
+                },
+                extraData.isNonInteractive ? commands.length : 1
+            )
+                .then((acquired) => {
+                    lease = acquired;
+                    if (isFinallyDone) {
+                        release();
+                        return;
+                    }
+                    // The link dropping mid-run fails this call too.
+                    onConnError = (err) => emitter.emit("error", err);
+                    acquired.conn.on("error", onConnError);
+                    runCommands(acquired.conn, acquired.reused);
+                })
+                .catch((err) => emitter.emit("error", err));
 
             await new Promise<void>((resolve) => {
                 emitter.on("done", ({ isDoneSignalReceived }) => {
                     if (isFinallyDone) return;
                     clearOverallTimeout();
-                    if (cleanUpSSHMap[host]) {
-                        cleanUpSSHMap[host]();
-                    }
+                    release();
                     isSuccess = isDoneSignalReceived;
                     isFinallyDone = true;
 
@@ -1182,9 +1494,7 @@ export namespace SSHService {
                 emitter.on("error", (error) => {
                     if (isFinallyDone) return;
                     clearOverallTimeout();
-                    if (cleanUpSSHMap[host]) {
-                        cleanUpSSHMap[host]();
-                    }
+                    release();
                     isSuccess = false;
                     isFinallyDone = true;
 
@@ -1212,9 +1522,20 @@ export namespace SSHService {
                     );
                     resolve();
                 });
+
+                onAbort = () => {
+                    const err = new Error(_cancelReason(extraData.signal));
+                    (err as any).sshCategory = "cancelled";
+                    emitter.emit("error", err);
+                };
+                if (extraData.signal?.aborted) onAbort();
+                extraData.signal?.addEventListener("abort", onAbort, {
+                    once: true,
+                });
             });
         } catch (error) {
             clearOverallTimeout();
+            release();
             const classified = _classifySSHConnectionError(error as Error);
             errorCategory = errorCategory || classified.category;
             errorMessage = errorMessage || classified.message;
@@ -1231,11 +1552,13 @@ export namespace SSHService {
             isSuccess = false;
         }
 
+        if (onAbort) extraData.signal?.removeEventListener("abort", onAbort);
         await _releaseExecutionLock(host);
-        if (useHostLock) await _releaseHostLock(host);
+        if (hasHostLock) await _releaseHostLock(host);
         let endTime = Date.now();
         let durationInMillis = endTime - startTime;
-        delete cleanUpSSHMap[host];
+        // A newer call on the same host may have registered its own cleanup.
+        if (cleanUpSSHMap[host] === release) delete cleanUpSSHMap[host];
         return {
             stdouts,
             stderrs,
@@ -1243,6 +1566,7 @@ export namespace SSHService {
             duration: durationInMillis,
             errorCategory,
             errorMessage,
+            exitCode,
         };
     }
 
@@ -1255,60 +1579,127 @@ export namespace SSHService {
         sshPrivateKey: string
     ) {
         let port;
+        let jumpHosts;
         try {
             port = await _getServerSSHPort(host);
+            jumpHosts = await _getServerJumpHosts(host);
+        } catch (error) {
+            return {
+                isSuccess: false,
+                errorMessage: `Failed to get server SSH port / jump hosts from database: ${
+                    (error as Error).message
+                }`,
+            };
+        }
+        let plainPassword: string;
+        let plainPrivateKey: string;
+        let jumps: SshPool.Hop[];
+        try {
+            plainPassword = CredentialVault.reveal(password);
+            plainPrivateKey = CredentialVault.reveal(sshPrivateKey);
+            jumps = _revealJumpHosts(jumpHosts);
         } catch (error) {
             return {
                 isSuccess: false,
-                errorMessage: `Failed to get server SSH port from database: ${
+                errorMessage: `Failed to decrypt stored SSH credentials: ${
                     (error as Error).message
                 }`,
             };
         }
+        let lease: SshPool.Lease;
+        try {
+            lease = await SshPool.acquire({
+                host,
+                port,
+                username,
+                password: plainPassword,
+                privateKey: plainPrivateKey.replace(/\\n/g, "\n"),
+                jumps,
+            });
+        } catch (error) {
+            return {
+                isSuccess: false,
+                errorMessage: (error as Error).message,
+            };
+        }
+        const conn = lease.conn;
         return new Promise<{ isSuccess: boolean; errorMessage?: string }>(
             (resolve) => {
-                const conn = new Client();
-                conn.on("ready", () => {
-                    conn.sftp((err, sftp) => {
-                        if (err) {
-                            resolve({
-                                isSuccess: false,
-                                errorMessage: err.message,
-                            });
-                            return;
-                        }
-                        sftp.fastPut(localFilePath, remoteFilePath, (err) => {
-                            if (err) {
-                                resolve({
-                                    isSuccess: false,
-                                    errorMessage: err.message,
-                                });
-                            } else {
-                                resolve({ isSuccess: true });
-                            }
-                            conn.end();
-                        });
-                    });
-                })
-                    .on("error", (err) => {
-                        resolve({
-                            isSuccess: false,
-                            errorMessage: err.message,
-                        });
-                    })
-                    .connect({
-                        host: host,
-                        port: port,
-                        username: username,
-                        password: password,
-                        privateKey: sshPrivateKey.replace(/\\n/g, "\n"),
+                const onConnError = (err: Error) => finish(err);
+                const finish = (err?: Error | null) => {
+                    conn.off("error", onConnError);
+                    lease.release();
+                    resolve(
+                        err
+                            ? { isSuccess: false, errorMessage: err.message }
+                            : { isSuccess: true }
+                    );
+                };
+                conn.on("error", onConnError);
+                conn.sftp((err, sftp) => {
+                    if (err) {
+                        finish(err);
+                        return;
+                    }
+                    sftp.fastPut(localFilePath, remoteFilePath, (err) => {
+                        sftp.end();
+                        finish(err);
                     });
+                });
             }
         );
     }
 
-    export async function startRequestExecuteCommandsProcessor() {
-        // Currently, executeCommands is called directly in each API request handler.
-        // If needed, implement a queue processor here to handle requests sequentially.
+    /**
+     * Open an interactive PTY shell for the browser terminal. Like log
+     * streams it skips the host locks, so it never blocks deploys. Throws
+     * with a readable message when the connection or shell can't be opened.
+     */
+    export async function openShell(
+        host: string,
+        username: string,
+        password: string,
+        sshPrivateKey: string,
+        { cols, rows }: { cols: number; rows: number }
+    ): Promise<{ stream: ClientChannel; release: () => void }> {
+        const port = await _getServerSSHPort(host);
+        const jumps = _revealJumpHosts(await _getServerJumpHosts(host));
+        let lease: SshPool.Lease;
+        try {
+            lease = await SshPool.acquire({
+                host,
+                port,
+                username,
+                password: CredentialVault.reveal(password),
+                privateKey: CredentialVault.reveal(sshPrivateKey).replace(
+                    /\\n/g,
+                    "\n"
+                ),
+                jumps,
+            });
+        } catch (error) {
+            const category: SSHErrorCategory | undefined = (error as any)
+                ?.sshCategory;
+            throw new Error(
+                category
+                    ? (error as Error).message
+                    : _classifySSHConnectionError(error as Error).message
+            );
+        }
+        const conn = lease.conn;
+        return await new Promise((resolve, reject) => {
+            conn.shell(
+                { term: "xterm-256color", cols, rows },
+                (err, stream) => {
+                    if (err) {
+                        lease.release();
+                        reject(err);
+                        return;
+                    }
+                    resolve({ stream, release: lease.release });
+                }
+            );
+        });
     }
+
 }
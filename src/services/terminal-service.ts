@@ -0,0 +1,375 @@
+import { randomUUID } from "crypto";
+import { StringDecoder } from "string_decoder";
+import type { ClientChannel } from "ssh2";
+import { Mongodb, MongoDbTypes, IS_NO_DB } from "../database/db.js";
+import { logger } from "../utils/logger.js";
+import { sleep } from "../utils/time.js";
+import { Rbac } from "../utils/rbac.js";
+import { LeaderService } from "./leader-service.js";
+import { SSHService } from "./ssh-service.js";
+import { AuditService } from "./audit-service.js";
+import { CommandPolicyService } from "./command-policy-service.js";
+
+/**
+ * Browser terminal: interactive PTY shells on managed servers, proxied over
+ * the `/terminal` Socket.IO namespace (see SocketServer). A session is an
+ * `ssh2` shell channel on the pooled connection to the host and belongs to
+ * the socket that opened it; input, resize and close from any other socket
+ * are ignored.
+ *
+ * Sessions without a keystroke for IDLE_MS are closed. Output of recorded
+ * sessions (opt-in per session, or all with TERMINAL_RECORD=always) goes to
+ * `terminal_recordings` in chunks for replay.
+ */
+export namespace TerminalService {
+    const IDLE_MS = Number(process.env.TERMINAL_IDLE_MS) || 15 * 60_000;
+    const MAX_SESSIONS_PER_USER =
+        Number(process.env.TERMINAL_MAX_SESSIONS_PER_USER) || 5;
+    const RETENTION_DAYS = Number(process.env.TERMINAL_RETENTION_DAYS) || 30;
+    const RECORD_ALWAYS = process.env.TERMINAL_RECORD === "always";
+    const FLUSH_INTERVAL_MS = 2_000;
+    const FLUSH_BYTES = 64 * 1024;
+    const ORPHAN_CHECK_INTERVAL_MS = 60_000;
+    const MAX_COLS = 500;
+    const MAX_ROWS = 200;
+
+    export interface OpenOptions {
+        owner: string; // socket id
+        user: { username: string; role: string };
+        host: string;
+        cols: number;
+        rows: number;
+        record: boolean;
+        // Checked once the shell is open: the socket may have gone meanwhile.
+        isOwnerConnected: () => boolean;
+        // Called from stream events, possibly before open() has returned.
+        onOutput: (sessionId: string, data: string) => void;
+        onClose: (sessionId: string, reason: string) => void;
+    }
+
+    interface Session {
+        sessionId: string;
+        owner: string;
+        username: string;
+        host: string;
+        stream: ClientChannel;
+        release: () => void;
+        startedAt: number;
+        lastInputAt: number;
+        recorded: boolean;
+        events: MongoDbTypes.TerminalRecordingChunk["events"];
+        bytes: number;
+        seq: number;
+        flushing: Promise<void>;
+        closed: boolean;
+        onClose: (sessionId: string, reason: string) => void;
+    }
+
+    const _sessions = new Map<string, Session>();
+
+    function clamp(value: unknown, fallback: number, max: number) {
+        const number = Math.floor(Number(value));
+        return Number.isFinite(number) && number > 0
+            ? Math.min(number, max)
+            : fallback;
+    }
+
+    function expiresAt() {
+        return new Date(Date.now() + RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    }
+
+    function record(session: Session, kind: "o" | "r", data: string) {
+        if (!session.recorded) return;
+        session.events.push([Date.now() - session.startedAt, kind, data]);
+        session.bytes += data.length;
+        if (session.bytes >= FLUSH_BYTES) flush(session);
+    }
+
+    // Chunks are written one after another so `seq` stays in order.
+    function flush(session: Session) {
+        if (session.events.length === 0) return session.flushing;
+        const events = session.events.splice(0);
+        const seq = session.seq++;
+        session.bytes = 0;
+        session.flushing = session.flushing.then(() =>
+            Mongodb.getTerminalRecordingsCollection()
+                .insertOne({
+                    sessionId: session.sessionId,
+                    seq,
+                    events,
+                    expiresAt: expiresAt(),
+                })
+                .then(() => {})
+                .catch((error) => {
+                    logger.error(
+                        `Failed to record terminal session ${
+                            session.sessionId
+                        }: ${(error as Error).message}`
+                    );
+                })
+        );
+        return session.flushing;
+    }
+
+    async function end(session: Session, reason: string) {
+        if (session.closed) return;
+        session.closed = true;
+        _sessions.delete(session.sessionId);
+        try {
+            session.stream.close();
+        } catch (error) {}
+        session.release();
+        session.onClose(session.sessionId, reason);
+        logger.info(
+            `🖥️ Terminal ${session.sessionId} of ${session.username} on ${session.host} closed: ${reason}`
+        );
+
+        await flush(session);
+        const now = Date.now();
+        await Mongodb.getTerminalSessionsCollection()
+            .updateOne(
+                { sessionId: session.sessionId },
+                {
+                    $set: {
+                        status: "closed",
+                        closeReason: reason,
+                        endedAt: now,
+                    },
+                }
+            )
+            .catch(() => {});
+        await AuditService.record({
+            actor: session.username,
+            action: "terminal.close",
+            target: session.host,
+            result: "success",
+            details: {
+                sessionId: session.sessionId,
+                reason,
+                durationMs: now - session.startedAt,
+            },
+        });
+    }
+
+    function owned(sessionId: string, owner: string) {
+        const session = _sessions.get(sessionId);
+        return session && session.owner === owner ? session : null;
+    }
+
+    /**
+     * Open a shell on a server the user may act on. Throws with a message
+     * meant for the client when the server is out of scope or the shell
+     * can't be opened.
+     */
+    export async function open(options: OpenOptions) {
+        const { owner, user } = options;
+        const openCount = [..._sessions.values()].filter(
+            (session) => session.username === user.username
+        ).length;
+        if (openCount >= MAX_SESSIONS_PER_USER) {
+            throw new Error(
+                `At most ${MAX_SESSIONS_PER_USER} terminal sessions per user`
+            );
+        }
+        const refusal = await CommandPolicyService.checkShellAccess(user.role);
+        if (refusal) throw new Error(refusal);
+        const serverDoc = await Mongodb.getServersCollection().findOne({
+            server: options.host,
+            operator: Rbac.operatorScope(user),
+        });
+        if (!serverDoc || !serverDoc.username) {
+            throw new Error("Server not found or not owned by you");
+        }
+        const host = serverDoc.server;
+        const cols = clamp(options.cols, 80, MAX_COLS);
+        const rows = clamp(options.rows, 24, MAX_ROWS);
+        const recorded = RECORD_ALWAYS || options.record === true;
+
+        const { stream, release } = await SSHService.openShell(
+            host,
+            serverDoc.username,
+            serverDoc.password,
+            serverDoc.sshPrivateKey,
+            { cols, rows }
+        );
+        // closeOwnedBy already ran for a socket that left during openShell.
+        if (!options.isOwnerConnected()) {
+            try {
+                stream.close();
+            } catch (error) {}
+            release();
+            throw new Error("Socket disconnected");
+        }
+        const now = Date.now();
+        const session: Session = {
+            sessionId: randomUUID(),
+            owner,
+            username: user.username,
+            host,
+            stream,
+            release,
+            startedAt: now,
+            lastInputAt: now,
+            recorded,
+            events: [],
+            bytes: 0,
+            seq: 0,
+            flushing: Promise.resolve(),
+            closed: false,
+            onClose: options.onClose,
+        };
+        _sessions.set(session.sessionId, session);
+
+        // A multi-byte character can be split across packets.
+        const decoder = new StringDecoder("utf8");
+        const onData = (data: Buffer) => {
+            const text = decoder.write(data);
+            if (!text) return;
+            options.onOutput(session.sessionId, text);
+            record(session, "o", text);
+        };
+        stream.on("data", onData);
+        stream.stderr.on("data", onData);
+        stream.on("close", () => end(session, "Shell exited"));
+        record(session, "r", `${cols}x${rows}`);
+
+        await Mongodb.getTerminalSessionsCollection()
+            .insertOne({
+                sessionId: session.sessionId,
+                user: user.username,
+                host,
+                instanceId: LeaderService.getInstanceId(),
+                cols,
+                rows,
+                recorded,
+                status: "open",
+                startedAt: now,
+                expiresAt: expiresAt(),
+            })
+            .catch((error) => {
+                logger.error(
+                    `Failed to store terminal session ${session.sessionId}: ${
+                        (error as Error).message
+                    }`
+                );
+            });
+        await AuditService.record({
+            actor: user.username,
+            action: "terminal.open",
+            target: host,
+            result: "success",
+            details: { sessionId: session.sessionId, recorded },
+        });
+        logger.info(
+            `🖥️ ${user.username} opened terminal ${session.sessionId} on ${host}${
+                recorded ? " (recorded)" : ""
+            }`
+        );
+        return { sessionId: session.sessionId, host, recorded };
+    }
+
+    export function write(sessionId: string, owner: string, data: string) {
+        const session = owned(sessionId, owner);
+        if (!session || typeof data !== "string") return false;
+        session.lastInputAt = Date.now();
+        session.stream.write(data);
+        return true;
+    }
+
+    export function resize(
+        sessionId: string,
+        owner: string,
+        cols: number,
+        rows: number
+    ) {
+        const session = owned(sessionId, owner);
+        if (!session) return false;
+        const width = clamp(cols, 80, MAX_COLS);
+        const height = clamp(rows, 24, MAX_ROWS);
+        session.stream.setWindow(height, width, 0, 0);
+        record(session, "r", `${width}x${height}`);
+        return true;
+    }
+
+    export function close(sessionId: string, owner: string, reason: string) {
+        const session = owned(sessionId, owner);
+        if (!session) return false;
+        end(session, reason);
+        return true;
+    }
+
+    // Socket gone: close everything it opened.
+    export function closeOwnedBy(owner: string, reason: string) {
+        for (const session of [..._sessions.values()]) {
+            if (session.owner === owner) end(session, reason);
+        }
+    }
+
+    // Flush recordings and close idle sessions.
+    async function watchSessions() {
+        while (true) {
+            await sleep(FLUSH_INTERVAL_MS);
+            const now = Date.now();
+            for (const session of [..._sessions.values()]) {
+                if (now - session.lastInputAt > IDLE_MS) {
+                    end(
+                        session,
+                        `Idle for ${Math.round(IDLE_MS / 60_000)} minutes`
+                    );
+                } else {
+                    flush(session);
+                }
+            }
+        }
+    }
+
+    // Sessions whose instance died never got closed; the leader closes them
+    // once that instance has dropped out of cluster_members.
+    async function watchOrphanedSessions() {
+        while (true) {
+            if (!LeaderService.isLeader()) {
+                await sleep(ORPHAN_CHECK_INTERVAL_MS);
+                continue;
+            }
+            try {
+                const live = await Mongodb.getClusterMembersCollection().distinct(
+                    "_id"
+                );
+                const now = Date.now();
+                const result =
+                    await Mongodb.getTerminalSessionsCollection().updateMany(
+                        {
+                            status: "open",
+                            instanceId: {
+                                $nin: [...live, LeaderService.getInstanceId()],
+                            },
+                        },
+                        {
+                            $set: {
+                                status: "closed",
+                                closeReason: "Backend instance stopped",
+                                endedAt: now,
+                            },
+                        }
+                    );
+                if (result.modifiedCount > 0) {
+                    logger.warn(
+                        `🖥️ Closed ${result.modifiedCount} terminal session(s) left open by a stopped instance`
+                    );
+                }
+            } catch (error) {
+                logger.error(
+                    `Error in watchOrphanedSessions: ${
+                        (error as Error).message
+                    }`
+                );
+            }
+            await sleep(ORPHAN_CHECK_INTERVAL_MS);
+        }
+    }
+
+    export function start() {
+        watchSessions();
+        if (!IS_NO_DB) watchOrphanedSessions();
+    }
+}
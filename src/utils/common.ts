@@ -79,10 +79,3 @@ export function isNodeActive(lastTickChanged: number): boolean {
     return Date.now() - lastTickChanged < 2 * 60 * 1000;
 }
 
-export function mongodbOperatorSelection(operator: string) {
-    if (operator === "admin") {
-        return { $exists: true };
-    } else {
-        return operator;
-    }
-}
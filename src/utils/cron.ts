@@ -0,0 +1,185 @@
+// Standard 5-field cron expressions: "minute hour day-of-month month
+// day-of-week". Supports `*`, lists (`1,5`), ranges (`1-5`), steps (`*/15`,
+// `10-50/10`), month/day names (`jan`, `mon`), 7 as Sunday and the `@hourly`
+// / `@daily` / `@weekly` / `@monthly` / `@yearly` macros. Evaluated in UTC so
+// every instance agrees on the slot.
+//
+// As in Vixie cron, when both day-of-month and day-of-week are restricted a
+// time matches if EITHER matches.
+
+export interface CronSchedule {
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>; // 1-12
+    daysOfWeek: Set<number>; // 0-6, Sunday = 0
+    domRestricted: boolean;
+    dowRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+    "@yearly": "0 0 1 1 *",
+    "@annually": "0 0 1 1 *",
+    "@monthly": "0 0 1 * *",
+    "@weekly": "0 0 * * 0",
+    "@daily": "0 0 * * *",
+    "@midnight": "0 0 * * *",
+    "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = [
+    "jan", "feb", "mar", "apr", "may", "jun",
+    "jul", "aug", "sep", "oct", "nov", "dec",
+];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+interface FieldSpec {
+    name: string;
+    min: number;
+    max: number;
+    names?: string[];
+    namesOffset?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+    { name: "minute", min: 0, max: 59 },
+    { name: "hour", min: 0, max: 23 },
+    { name: "day-of-month", min: 1, max: 31 },
+    { name: "month", min: 1, max: 12, names: MONTH_NAMES, namesOffset: 1 },
+    // 7 is accepted as Sunday and folded to 0 below.
+    { name: "day-of-week", min: 0, max: 7, names: DAY_NAMES, namesOffset: 0 },
+];
+
+function parseValue(token: string, spec: FieldSpec): number {
+    const lower = token.toLowerCase();
+    const nameIndex = spec.names?.indexOf(lower) ?? -1;
+    if (nameIndex !== -1) return nameIndex + (spec.namesOffset ?? 0);
+    if (!/^\d+$/.test(token)) {
+        throw new Error(`Invalid ${spec.name} value "${token}"`);
+    }
+    const value = Number(token);
+    if (value < spec.min || value > spec.max) {
+        throw new Error(
+            `${spec.name} value ${value} out of range ${spec.min}-${spec.max}`
+        );
+    }
+    return value;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+    const values = new Set<number>();
+    for (const part of field.split(",")) {
+        const [rangePart, stepPart, extra] = part.split("/");
+        if (!rangePart || extra !== undefined) {
+            throw new Error(`Invalid ${spec.name} field "${field}"`);
+        }
+        let step = 1;
+        if (stepPart !== undefined) {
+            if (!/^\d+$/.test(stepPart) || Number(stepPart) === 0) {
+                throw new Error(`Invalid ${spec.name} step "${stepPart}"`);
+            }
+            step = Number(stepPart);
+        }
+
+        let start: number;
+        let end: number;
+        if (rangePart === "*") {
+            start = spec.min;
+            end = spec.max;
+        } else if (rangePart.includes("-")) {
+            const [from, to] = rangePart.split("-");
+            start = parseValue(from ?? "", spec);
+            end = parseValue(to ?? "", spec);
+            if (start > end) {
+                throw new Error(`Invalid ${spec.name} range "${rangePart}"`);
+            }
+        } else {
+            start = parseValue(rangePart, spec);
+            // "5/15" means "from 5 to the end, every 15"
+            end = stepPart !== undefined ? spec.max : start;
+        }
+
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+    return values;
+}
+
+/** Parse a cron expression. Throws with a readable message when invalid. */
+export function parseCron(expression: string): CronSchedule {
+    const trimmed = (expression || "").trim();
+    const expanded = MACROS[trimmed.toLowerCase()] ?? trimmed;
+    const fields = expanded.split(/\s+/);
+    if (fields.length !== 5) {
+        throw new Error(
+            `Cron expression must have 5 fields (minute hour day-of-month month day-of-week), got ${fields.length}`
+        );
+    }
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+        (field, i) => parseField(field, FIELDS[i]!)
+    ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+    if (daysOfWeek.has(7)) {
+        daysOfWeek.delete(7);
+        daysOfWeek.add(0);
+    }
+
+    return {
+        minutes,
+        hours,
+        daysOfMonth,
+        months,
+        daysOfWeek,
+        // As in Vixie cron, a field starting with `*` (`*`, `*/2`) doesn't
+        // count as restricted.
+        domRestricted: !fields[2]!.startsWith("*"),
+        dowRestricted: !fields[4]!.startsWith("*"),
+    };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+    const domMatch = schedule.daysOfMonth.has(date.getUTCDate());
+    const dowMatch = schedule.daysOfWeek.has(date.getUTCDay());
+    if (schedule.domRestricted && schedule.dowRestricted) {
+        return domMatch || dowMatch;
+    }
+    return domMatch && dowMatch;
+}
+
+/**
+ * First slot strictly after `after` (epoch ms), or null if the expression can
+ * never fire (e.g. "0 0 31 2 *") within the next few years.
+ */
+export function nextCronRun(
+    schedule: CronSchedule,
+    after: number
+): number | null {
+    const date = new Date(after);
+    date.setUTCSeconds(0, 0);
+    date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+    const limit = after + 5 * 366 * 24 * 60 * 60 * 1000;
+    while (date.getTime() <= limit) {
+        if (!schedule.months.has(date.getUTCMonth() + 1)) {
+            date.setUTCMonth(date.getUTCMonth() + 1, 1);
+            date.setUTCHours(0, 0);
+            continue;
+        }
+        if (!matchesDay(schedule, date)) {
+            date.setUTCDate(date.getUTCDate() + 1);
+            date.setUTCHours(0, 0);
+            continue;
+        }
+        if (!schedule.hours.has(date.getUTCHours())) {
+            date.setUTCHours(date.getUTCHours() + 1, 0);
+            continue;
+        }
+        if (!schedule.minutes.has(date.getUTCMinutes())) {
+            date.setUTCMinutes(date.getUTCMinutes() + 1);
+            continue;
+        }
+        return date.getTime();
+    }
+    return null;
+}
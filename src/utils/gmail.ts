@@ -232,6 +232,40 @@ export namespace Gmail {
         });
     }
 
+    export async function sendVersionDriftEmail({
+        nodes,
+        graceMs,
+    }: {
+        nodes: {
+            server: string;
+            service: string;
+            running: string | null;
+            target: string;
+        }[];
+        graceMs: number;
+    }): Promise<boolean> {
+        const recipients = getAlertRecipients();
+        if (recipients.length === 0 || nodes.length === 0) return false;
+        const hours = Math.round((graceMs / 3_600_000) * 10) / 10;
+        const lines = nodes.map(
+            (n) =>
+                `${n.server} (${n.service}): ${n.running ?? "unknown"} → ${
+                    n.target
+                }`
+        );
+        return sendEmail({
+            from: `"Qubic Global Automated Sender" <${process.env.GMAIL_USER}>`,
+            to: recipients,
+            subject: `⚠️ Version drift: ${nodes.length} node(s) behind for over ${hours}h`,
+            text: `These managed nodes have not been running their target release for over ${hours}h:\n\n${lines.join(
+                "\n"
+            )}`,
+            html: `<b>⚠️ ${nodes.length} managed node(s)</b> have not been running their target release for over <code>${hours}h</code>:<br/><ul>${lines
+                .map((line) => `<li><code>${line}</code></li>`)
+                .join("")}</ul>`,
+        });
+    }
+
     // Suppress unused warning when verified is read elsewhere
     export function isVerified() {
         return verified;
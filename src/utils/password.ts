@@ -0,0 +1,92 @@
+import {
+    randomBytes,
+    scrypt,
+    timingSafeEqual,
+    type ScryptOptions,
+} from "crypto";
+
+// Server-side password hashing. The client still sends SHA-256(password) as
+// `passwordHash`; that value is treated as the secret and stored as a salted
+// scrypt hash:  scrypt$<N>$<r>$<p>$<salt b64>$<hash b64>
+// Legacy rows hold the bare client SHA-256 (64 hex chars) and are upgraded on
+// the next successful login.
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LEN = 64;
+const SALT_BYTES = 16;
+
+function scryptAsync(
+    secret: string,
+    salt: Buffer,
+    keyLen: number,
+    options: ScryptOptions
+): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        scrypt(secret, salt, keyLen, options, (err, derived) =>
+            err ? reject(err) : resolve(derived)
+        );
+    });
+}
+
+export async function hashPassword(secret: string): Promise<string> {
+    const salt = randomBytes(SALT_BYTES);
+    const hash = await scryptAsync(secret, salt, KEY_LEN, {
+        N: SCRYPT_N,
+        r: SCRYPT_R,
+        p: SCRYPT_P,
+    });
+    return [
+        "scrypt",
+        SCRYPT_N,
+        SCRYPT_R,
+        SCRYPT_P,
+        salt.toString("base64"),
+        hash.toString("base64"),
+    ].join("$");
+}
+
+export function isLegacyPasswordHash(stored: string): boolean {
+    return !stored.startsWith("scrypt$");
+}
+
+// `needsRehash` is set for legacy rows and rows hashed with older parameters.
+export async function verifyPassword(
+    secret: string,
+    stored: string
+): Promise<{ isValid: boolean; needsRehash: boolean }> {
+    if (!stored || !secret) return { isValid: false, needsRehash: false };
+
+    if (isLegacyPasswordHash(stored)) {
+        const a = Buffer.from(secret);
+        const b = Buffer.from(stored);
+        const isValid = a.length === b.length && timingSafeEqual(a, b);
+        return { isValid, needsRehash: isValid };
+    }
+
+    const [, n, r, p, saltB64, hashB64] = stored.split("$");
+    if (!n || !r || !p || !saltB64 || !hashB64) {
+        return { isValid: false, needsRehash: false };
+    }
+    const expected = Buffer.from(hashB64, "base64");
+    const actual = await scryptAsync(
+        secret,
+        Buffer.from(saltB64, "base64"),
+        expected.length,
+        // maxmem must cover 128 * N * r bytes for the stored parameters
+        {
+            N: Number(n),
+            r: Number(r),
+            p: Number(p),
+            maxmem: 256 * Number(n) * Number(r),
+        }
+    );
+    const isValid =
+        actual.length === expected.length && timingSafeEqual(actual, expected);
+    const needsRehash =
+        isValid &&
+        (Number(n) !== SCRYPT_N ||
+            Number(r) !== SCRYPT_R ||
+            Number(p) !== SCRYPT_P);
+    return { isValid, needsRehash };
+}
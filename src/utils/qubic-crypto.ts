@@ -0,0 +1,444 @@
+// Minimal Qubic signature verification: KangarooTwelve, identity <-> public
+// key conversion and SchnorrQ (FourQ) verify, following the reference
+// implementation in qubic/core. Verification only — nothing here touches
+// secret keys, so there is no attempt at constant-time arithmetic.
+
+/////////////////////////// KangarooTwelve ///////////////////////////
+
+const MASK_64 = (1n << 64n) - 1n;
+
+// Keccak-f[1600] round constants; K12 uses the last 12 rounds.
+const ROUND_CONSTANTS = [
+    0x000000008000808bn, 0x800000000000008bn, 0x8000000000008089n,
+    0x8000000000008003n, 0x8000000000008002n, 0x8000000000000080n,
+    0x000000000000800an, 0x800000008000000an, 0x8000000080008081n,
+    0x8000000000008080n, 0x0000000080000001n, 0x8000000080008008n,
+];
+
+// Rotation offsets indexed by x + 5y.
+const RHO_OFFSETS = [
+    0, 1, 62, 28, 27, 36, 44, 6, 55, 20, 3, 10, 43, 25, 39, 41, 45, 15, 21, 8,
+    18, 2, 61, 56, 14,
+].map(BigInt);
+
+const K12_RATE = 168;
+const K12_CHUNK_SIZE = 8192;
+
+function rotl64(value: bigint, shift: bigint): bigint {
+    if (shift === 0n) return value;
+    return ((value << shift) | (value >> (64n - shift))) & MASK_64;
+}
+
+function keccakP1600x12(state: bigint[]) {
+    const b: bigint[] = new Array(25).fill(0n);
+    const c: bigint[] = new Array(5).fill(0n);
+    for (const rc of ROUND_CONSTANTS) {
+        // theta
+        for (let x = 0; x < 5; x++) {
+            c[x] =
+                state[x]! ^
+                state[x + 5]! ^
+                state[x + 10]! ^
+                state[x + 15]! ^
+                state[x + 20]!;
+        }
+        for (let x = 0; x < 5; x++) {
+            const d = c[(x + 4) % 5]! ^ rotl64(c[(x + 1) % 5]!, 1n);
+            for (let y = 0; y < 25; y += 5) state[x + y]! ^= d;
+        }
+        // rho + pi
+        for (let x = 0; x < 5; x++) {
+            for (let y = 0; y < 5; y++) {
+                b[y + 5 * ((2 * x + 3 * y) % 5)] = rotl64(
+                    state[x + 5 * y]!,
+                    RHO_OFFSETS[x + 5 * y]!
+                );
+            }
+        }
+        // chi
+        for (let y = 0; y < 25; y += 5) {
+            for (let x = 0; x < 5; x++) {
+                state[x + y] =
+                    b[x + y]! ^
+                    (~b[((x + 1) % 5) + y]! & MASK_64 & b[((x + 2) % 5) + y]!);
+            }
+        }
+        // iota
+        state[0] = state[0]! ^ rc;
+    }
+}
+
+function xorBlockIntoState(state: bigint[], block: Uint8Array) {
+    for (let lane = 0; lane < K12_RATE / 8; lane++) {
+        let value = 0n;
+        for (let i = 7; i >= 0; i--) {
+            value = (value << 8n) | BigInt(block[lane * 8 + i]!);
+        }
+        state[lane]! ^= value;
+    }
+}
+
+// TurboSHAKE128-style sponge over Keccak-p[1600,12] with a domain byte.
+function turboShake128(
+    input: Uint8Array,
+    domain: number,
+    outputLength: number
+): Uint8Array {
+    const state: bigint[] = new Array(25).fill(0n);
+    const paddedLength = Math.ceil((input.length + 1) / K12_RATE) * K12_RATE;
+    const padded = new Uint8Array(paddedLength);
+    padded.set(input);
+    padded[input.length]! ^= domain;
+    padded[paddedLength - 1]! ^= 0x80;
+    for (let offset = 0; offset < paddedLength; offset += K12_RATE) {
+        xorBlockIntoState(state, padded.subarray(offset, offset + K12_RATE));
+        keccakP1600x12(state);
+    }
+
+    const output = new Uint8Array(outputLength);
+    let written = 0;
+    while (true) {
+        for (let lane = 0; lane < K12_RATE / 8; lane++) {
+            let value = state[lane]!;
+            for (let i = 0; i < 8 && written < outputLength; i++) {
+                output[written++] = Number(value & 0xffn);
+                value >>= 8n;
+            }
+        }
+        if (written >= outputLength) return output;
+        keccakP1600x12(state);
+    }
+}
+
+function lengthEncode(value: number): Uint8Array {
+    const bytes: number[] = [];
+    while (value > 0) {
+        bytes.unshift(value & 0xff);
+        value = Math.floor(value / 256);
+    }
+    return Uint8Array.from([...bytes, bytes.length]);
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+    const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        out.set(part, offset);
+        offset += part.length;
+    }
+    return out;
+}
+
+// KangarooTwelve with an empty customization string.
+export function k12(input: Uint8Array, outputLength: number = 32): Uint8Array {
+    const s = concatBytes(input, lengthEncode(0));
+    if (s.length <= K12_CHUNK_SIZE) {
+        return turboShake128(s, 0x07, outputLength);
+    }
+    const chainingValues: Uint8Array[] = [];
+    for (let offset = K12_CHUNK_SIZE; offset < s.length; offset += K12_CHUNK_SIZE) {
+        chainingValues.push(
+            turboShake128(s.subarray(offset, offset + K12_CHUNK_SIZE), 0x0b, 32)
+        );
+    }
+    const finalNode = concatBytes(
+        s.subarray(0, K12_CHUNK_SIZE),
+        Uint8Array.from([0x03, 0, 0, 0, 0, 0, 0, 0]),
+        ...chainingValues,
+        lengthEncode(chainingValues.length),
+        Uint8Array.from([0xff, 0xff])
+    );
+    return turboShake128(finalNode, 0x06, outputLength);
+}
+
+////////////////////////////// Identities //////////////////////////////
+
+const IDENTITY_LENGTH = 60;
+
+function identityChecksum(publicKey: Uint8Array): number {
+    const digest = k12(publicKey, 3);
+    return (digest[0]! | (digest[1]! << 8) | (digest[2]! << 16)) & 0x3ffff;
+}
+
+// 60 uppercase letters: four 14-letter base-26 little-endian groups of the
+// public key's 64-bit words, then a 4-letter checksum.
+export function publicKeyToIdentity(publicKey: Uint8Array): string {
+    let identity = "";
+    for (let i = 0; i < 4; i++) {
+        let fragment = readUint64LE(publicKey, i * 8);
+        for (let j = 0; j < 14; j++) {
+            identity += String.fromCharCode(65 + Number(fragment % 26n));
+            fragment /= 26n;
+        }
+    }
+    let checksum = identityChecksum(publicKey);
+    for (let j = 0; j < 4; j++) {
+        identity += String.fromCharCode(65 + (checksum % 26));
+        checksum = Math.floor(checksum / 26);
+    }
+    return identity;
+}
+
+// Returns null for malformed identities or a checksum mismatch.
+export function identityToPublicKey(identity: string): Uint8Array | null {
+    if (
+        typeof identity !== "string" ||
+        identity.length !== IDENTITY_LENGTH ||
+        !/^[A-Z]+$/.test(identity)
+    ) {
+        return null;
+    }
+    const publicKey = new Uint8Array(32);
+    for (let i = 0; i < 4; i++) {
+        let fragment = 0n;
+        for (let j = 13; j >= 0; j--) {
+            fragment = fragment * 26n + BigInt(identity.charCodeAt(i * 14 + j) - 65);
+        }
+        if (fragment > MASK_64) return null;
+        writeUint64LE(publicKey, i * 8, fragment);
+    }
+    return publicKeyToIdentity(publicKey) === identity ? publicKey : null;
+}
+
+function readUint64LE(bytes: Uint8Array, offset: number): bigint {
+    let value = 0n;
+    for (let i = 7; i >= 0; i--) {
+        value = (value << 8n) | BigInt(bytes[offset + i]!);
+    }
+    return value;
+}
+
+function writeUint64LE(bytes: Uint8Array, offset: number, value: bigint) {
+    for (let i = 0; i < 8; i++) {
+        bytes[offset + i] = Number(value & 0xffn);
+        value >>= 8n;
+    }
+}
+
+function readUintLE(bytes: Uint8Array): bigint {
+    let value = 0n;
+    for (let i = bytes.length - 1; i >= 0; i--) {
+        value = (value << 8n) | BigInt(bytes[i]!);
+    }
+    return value;
+}
+
+/////////////////////////////// FourQ ///////////////////////////////
+
+// GF(p^2) with p = 2^127 - 1 and i^2 = -1, elements as [real, imaginary].
+type Fp2 = [bigint, bigint];
+
+const P = (1n << 127n) - 1n;
+const CURVE_ORDER =
+    0x0029cbc14e5e0a72f05397829cbc14e5dfbd004dfe0f79992fb2540ec7768ce7n;
+const CURVE_D: Fp2 = [
+    0x00000000000000e40000000000000142n,
+    0x5e472f846657e0fcb3821488f1fc0c8dn,
+];
+const GENERATOR_X: Fp2 = [
+    0x1a3472237c2fb305286592ad7b3833aan,
+    0x1e1f553f2878aa9c96869fb360ac77f6n,
+];
+const GENERATOR_Y: Fp2 = [
+    0x0e3fee9ba120785ab924a2462bcbb287n,
+    0x6e1c4af8630e024249a7c344844c8b5cn,
+];
+
+function modP(a: bigint): bigint {
+    const r = a % P;
+    return r < 0n ? r + P : r;
+}
+
+function powP(base: bigint, exponent: bigint): bigint {
+    let result = 1n;
+    base = modP(base);
+    while (exponent > 0n) {
+        if (exponent & 1n) result = (result * base) % P;
+        base = (base * base) % P;
+        exponent >>= 1n;
+    }
+    return result;
+}
+
+// Square root in GF(p) (p ≡ 3 mod 4), or null if `a` is not a square.
+function sqrtP(a: bigint): bigint | null {
+    const root = powP(a, (P + 1n) >> 2n);
+    return (root * root) % P === modP(a) ? root : null;
+}
+
+const fp2 = {
+    add: (a: Fp2, b: Fp2): Fp2 => [modP(a[0] + b[0]), modP(a[1] + b[1])],
+    sub: (a: Fp2, b: Fp2): Fp2 => [modP(a[0] - b[0]), modP(a[1] - b[1])],
+    neg: (a: Fp2): Fp2 => [modP(-a[0]), modP(-a[1])],
+    mul: (a: Fp2, b: Fp2): Fp2 => [
+        modP(a[0] * b[0] - a[1] * b[1]),
+        modP(a[0] * b[1] + a[1] * b[0]),
+    ],
+    inv: (a: Fp2): Fp2 => {
+        const normInv = powP(a[0] * a[0] + a[1] * a[1], P - 2n);
+        return [modP(a[0] * normInv), modP(-a[1] * normInv)];
+    },
+    eq: (a: Fp2, b: Fp2) => a[0] === b[0] && a[1] === b[1],
+    isZero: (a: Fp2) => a[0] === 0n && a[1] === 0n,
+    // Square root in GF(p^2) via the norm, or null if none exists.
+    sqrt: (a: Fp2): Fp2 | null => {
+        if (a[1] === 0n) {
+            const r = sqrtP(a[0]);
+            if (r !== null) return [r, 0n];
+            const s = sqrtP(modP(-a[0]));
+            return s !== null ? [0n, s] : null;
+        }
+        const normRoot = sqrtP(a[0] * a[0] + a[1] * a[1]);
+        if (normRoot === null) return null;
+        const half = (P + 1n) >> 1n;
+        for (const t of [modP(a[0] + normRoot), modP(a[0] - normRoot)]) {
+            const x0 = sqrtP(modP(t * half));
+            if (x0 === null || x0 === 0n) continue;
+            const x1 = modP(a[1] * powP(2n * x0, P - 2n));
+            const candidate: Fp2 = [x0, x1];
+            if (fp2.eq(fp2.mul(candidate, candidate), a)) return candidate;
+        }
+        return null;
+    },
+};
+
+// Extended twisted Edwards coordinates on -x^2 + y^2 = 1 + d x^2 y^2.
+type Point = { x: Fp2; y: Fp2; z: Fp2; t: Fp2 };
+
+const ONE: Fp2 = [1n, 0n];
+const ZERO: Fp2 = [0n, 0n];
+const TWO_D = fp2.add(CURVE_D, CURVE_D);
+const IDENTITY: Point = { x: ZERO, y: ONE, z: ONE, t: ZERO };
+
+function affinePoint(x: Fp2, y: Fp2): Point {
+    return { x, y, z: ONE, t: fp2.mul(x, y) };
+}
+
+// Unified addition (complete on FourQ, so it also doubles).
+function addPoints(p: Point, q: Point): Point {
+    const a = fp2.mul(fp2.sub(p.y, p.x), fp2.sub(q.y, q.x));
+    const b = fp2.mul(fp2.add(p.y, p.x), fp2.add(q.y, q.x));
+    const c = fp2.mul(fp2.mul(p.t, TWO_D), q.t);
+    const d = fp2.mul(fp2.add(p.z, p.z), q.z);
+    const e = fp2.sub(b, a);
+    const f = fp2.sub(d, c);
+    const g = fp2.add(d, c);
+    const h = fp2.add(b, a);
+    return {
+        x: fp2.mul(e, f),
+        y: fp2.mul(g, h),
+        t: fp2.mul(e, h),
+        z: fp2.mul(f, g),
+    };
+}
+
+// [a]P + [b]Q with a shared double-and-add ladder.
+function doubleScalarMul(a: bigint, p: Point, b: bigint, q: Point): Point {
+    const pq = addPoints(p, q);
+    let result = IDENTITY;
+    const bits = Math.max(a.toString(2).length, b.toString(2).length);
+    for (let i = bits - 1; i >= 0; i--) {
+        result = addPoints(result, result);
+        const bitA = (a >> BigInt(i)) & 1n;
+        const bitB = (b >> BigInt(i)) & 1n;
+        if (bitA && bitB) result = addPoints(result, pq);
+        else if (bitA) result = addPoints(result, p);
+        else if (bitB) result = addPoints(result, q);
+    }
+    return result;
+}
+
+// Sign bit used by the point encoding: bit 126 of x0, or of x1 when x0 = 0.
+function xSignBit(x: Fp2): bigint {
+    return ((x[0] !== 0n ? x[0] : x[1]) >> 126n) & 1n;
+}
+
+function encodePoint(point: Point): Uint8Array {
+    const zInv = fp2.inv(point.z);
+    const x = fp2.mul(point.x, zInv);
+    const y = fp2.mul(point.y, zInv);
+    const out = new Uint8Array(32);
+    const y1 = y[1] | (xSignBit(x) << 127n);
+    for (let i = 0; i < 16; i++) {
+        out[i] = Number((y[0] >> BigInt(8 * i)) & 0xffn);
+        out[16 + i] = Number((y1 >> BigInt(8 * i)) & 0xffn);
+    }
+    return out;
+}
+
+function decodePoint(encoded: Uint8Array): Point | null {
+    const y0 = readUintLE(encoded.subarray(0, 16));
+    const rawY1 = readUintLE(encoded.subarray(16, 32));
+    const sign = rawY1 >> 127n;
+    const y1 = rawY1 & ((1n << 127n) - 1n);
+    if (y0 >= P || y1 >= P) return null;
+    const y: Fp2 = [y0, y1];
+
+    // x^2 = (y^2 - 1) / (d y^2 + 1)
+    const y2 = fp2.mul(y, y);
+    const u = fp2.sub(y2, ONE);
+    const v = fp2.add(fp2.mul(CURVE_D, y2), ONE);
+    let x = fp2.sqrt(fp2.mul(u, fp2.inv(v)));
+    if (!x) return null;
+    if (xSignBit(x) !== sign) x = fp2.neg(x);
+    if (fp2.isZero(x) && sign === 1n) return null;
+    return affinePoint(x, y);
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+    if (a.length !== b.length) return false;
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) diff |= a[i]! ^ b[i]!;
+    return diff === 0;
+}
+
+const GENERATOR = affinePoint(GENERATOR_X, GENERATOR_Y);
+
+/**
+ * SchnorrQ verification as in qubic/core: signature = R (32 bytes) || s
+ * (32 bytes), h = K12(R || A || message, 64) taken mod N, valid iff
+ * s < N and encode([s]G + [h]A) == R.
+ */
+export function schnorrqVerify(
+    publicKey: Uint8Array,
+    message: Uint8Array,
+    signature: Uint8Array
+): boolean {
+    if (publicKey.length !== 32 || signature.length !== 64) return false;
+    if (
+        (publicKey[15]! & 0x80) !== 0 ||
+        (signature[15]! & 0x80) !== 0 ||
+        (signature[62]! & 0xc0) !== 0 ||
+        signature[63] !== 0
+    ) {
+        return false;
+    }
+    const a = decodePoint(publicKey);
+    if (!a) return false;
+
+    // The reference reduces only the low 256 bits of the 64-byte digest.
+    const digest = k12(
+        concatBytes(signature.subarray(0, 32), publicKey, message),
+        64
+    );
+    const h = readUintLE(digest.subarray(0, 32)) % CURVE_ORDER;
+    const s = readUintLE(signature.subarray(32, 64));
+    // s + N would verify too; only the reduced form is accepted.
+    if (s >= CURVE_ORDER) return false;
+    const r = doubleScalarMul(s, GENERATOR, h, a);
+    return equalBytes(encodePoint(r), signature.subarray(0, 32));
+}
+
+/**
+ * Verify a Qubic signature by `identity` over `message`. Like Qubic
+ * transactions, the signed message is the 32-byte K12 digest of the data.
+ */
+export function verifyQubicSignature(
+    identity: string,
+    message: Uint8Array,
+    signature: Uint8Array
+): boolean {
+    const publicKey = identityToPublicKey(identity);
+    if (!publicKey) return false;
+    return schnorrqVerify(publicKey, k12(message, 32), signature);
+}
@@ -0,0 +1,91 @@
+import type { MongoDbTypes } from "../database/db.js";
+
+// Central role-based access control. Routes declare what they need with
+// `requirePermission(...)` (http/middleware/rbac.middleware.ts); server
+// ownership scoping goes through `operatorScope` instead of comparing
+// usernames against "admin".
+export namespace Rbac {
+    export const PERMISSIONS = [
+        "deploy", // deploy binaries, restart/shutdown nodes, custom parameters
+        "execute-command", // arbitrary shell / quick commands, shortcuts
+        "manage-servers", // add/remove/edit servers and their services
+        "manage-automation", // cron jobs
+        "manage-blacklist",
+        "manage-users",
+        "view-system-health",
+        "ttyd-access",
+        "terminal-access", // interactive shell in the browser terminal
+        "view-all-servers", // read scope over every operator's servers
+        "manage-all-servers", // act on every operator's servers
+        "fleet-control", // node shutdowns, GitHub tag refresh
+        "view-audit-log",
+        "manage-host-keys", // review / re-accept changed SSH host keys
+        "manage-command-policies", // allow / deny / approval rules for shell
+        "approve-commands", // second person on commands held for approval
+        "manage-artifacts", // pin binary checksums, deploy binaries from any URL
+    ] as const;
+
+    export type Permission = (typeof PERMISSIONS)[number];
+    export type Role = MongoDbTypes.UserRole;
+
+    export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+        admin: PERMISSIONS,
+        operator: [
+            "deploy",
+            "execute-command",
+            "manage-servers",
+            "manage-automation",
+            "ttyd-access",
+            "terminal-access",
+        ],
+        // Rolls out releases across the whole fleet but can't run shell or
+        // change inventory.
+        deployer: ["deploy", "view-all-servers", "manage-all-servers"],
+        // Read-only: sees everything, changes nothing.
+        viewer: ["view-all-servers"],
+    };
+
+    export const ROLES = Object.keys(ROLE_PERMISSIONS) as Role[];
+
+    export function isRole(value: unknown): value is Role {
+        return typeof value === "string" && value in ROLE_PERMISSIONS;
+    }
+
+    export function getPermissions(role: string | undefined): Permission[] {
+        return isRole(role) ? [...ROLE_PERMISSIONS[role]] : [];
+    }
+
+    export function hasPermission(
+        role: string | undefined,
+        permission: Permission
+    ): boolean {
+        return isRole(role) && ROLE_PERMISSIONS[role].includes(permission);
+    }
+
+    /**
+     * Mongo filter value for a document's `operator` field: the caller's own
+     * username, or every operator when the role has fleet-wide scope
+     * (`view-all-servers` for reads, `manage-all-servers` for writes).
+     */
+    export function operatorScope(
+        user: { username?: string; role?: string } | undefined,
+        access: "read" | "write" = "write"
+    ): string | { $exists: true } {
+        const fleetWide =
+            access === "read"
+                ? hasPermission(user?.role, "view-all-servers")
+                : hasPermission(user?.role, "manage-all-servers");
+        if (fleetWide) return { $exists: true };
+        return user?.username || "";
+    }
+
+    // In-memory counterpart of operatorScope for already-loaded documents.
+    export function canAccessOperator(
+        user: { username?: string; role?: string } | undefined,
+        operator: string | undefined,
+        access: "read" | "write" = "write"
+    ): boolean {
+        const scope = operatorScope(user, access);
+        return typeof scope !== "string" || (!!scope && scope === operator);
+    }
+}